@@ -14,7 +14,6 @@ import DetailView from '../../src/components/DetailView/DetailView';
 import AudioLoader from '../../src/components/AudioLoader/AudioLoader';
 import InstrumentSidebar from '../../src/components/InstrumentSidebar/InstrumentSidebar';
 import useStore from '../../src/store/store';
-import { loadAudioFile } from '../../src/lib/idbHelper';
 import { initializeStore } from '../../src/store/store';
 import styles from './editor.module.css';
 import { useSearchParams, useRouter } from 'next/navigation';
@@ -26,11 +25,15 @@ function EditorPageContent() {
   const [user, setUser] = useState<User | null>(null);
   const sidebarPanelRef = useRef<ImperativePanelHandle>(null);
   const isInstrumentSidebarVisible = useStore((state) => state.isInstrumentSidebarVisible);
-  const loadAudioAction = useStore((state) => state.loadAudio);
   const loadProject = useStore((state) => state.loadProject);
   const isPlaying = useStore((state) => state.isPlaying);
   const play = useStore((state) => state.play);
   const pause = useStore((state) => state.pause);
+  const undo = useStore((state) => state.undo);
+  const redo = useStore((state) => state.redo);
+  const currentProjectId = useStore((state) => state.currentLoadedProjectId);
+  const syncConflict = useStore((state) => state.syncState.conflicts.find(c => c.projectId === state.currentLoadedProjectId));
+  const resolveSyncConflict = useStore((state) => state.resolveSyncConflict);
   const supabase = createClient();
   const searchParams = useSearchParams();
   const router = useRouter();
@@ -68,6 +71,7 @@ function EditorPageContent() {
         // After initializing the store, determine which project to load from URL
         const projectId = searchParams.get('project');
         if (projectId) {
+          // Loads the project's own audio as well
           console.log('EditorPage: Detected project in URL, loading', projectId);
           await loadProject(projectId);
         } else {
@@ -75,25 +79,14 @@ function EditorPageContent() {
           router.push('/projects');
           return;
         }
-        console.log('Attempting to load persisted audio from IndexedDB...');
-        const persistedFile = await loadAudioFile();
-        if (persistedFile) {
-          console.log('Found persisted audio file...');
-          const arrayBuffer = await persistedFile.arrayBuffer();
-          const fileName = persistedFile instanceof File ? persistedFile.name : 'persisted-audio';
-          await loadAudioAction(arrayBuffer, fileName);
-          console.log('Successfully loaded persisted audio file into store.');
-        } else {
-          console.log('No persisted audio file found.');
-        }
       } catch (error) {
-        console.error('Initialization or audio loading failed:', error);
+        console.error('Initialization or project loading failed:', error);
       } finally {
         setIsLoading(false);
       }
     };
     loadInitialData();
-  }, [loadAudioAction, searchParams, loadProject, router]);
+  }, [searchParams, loadProject, router]);
 
   // Global spacebar handler for play/pause
   useEffect(() => {
@@ -124,6 +117,34 @@ function EditorPageContent() {
     };
   }, [isPlaying, play, pause]);
 
+  // Global undo/redo: Ctrl+Z / Ctrl+Shift+Z (Cmd on Mac), plus Ctrl+Y for redo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+
+      // Leave text fields to their own native undo
+      const target = e.target as HTMLElement;
+      const isTyping = target.tagName === 'INPUT' ||
+                      target.tagName === 'TEXTAREA' ||
+                      target.isContentEditable;
+      if (isTyping) return;
+
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [undo, redo]);
+
   if (isLoading) {
       return (
         <div className="flex flex-col items-center justify-center min-h-screen bg-black gap-4">
@@ -139,6 +160,13 @@ function EditorPageContent() {
         <div className={styles.playbarContainer}>
           <PlaybarView user={user} />
         </div>
+        {syncConflict && currentProjectId && (
+          <div className={styles.syncConflictBanner} role="alert">
+            <span>This project was changed on another device while you were editing offline.</span>
+            <button onClick={() => resolveSyncConflict(currentProjectId, 'keepLocal')}>Keep my changes</button>
+            <button onClick={() => resolveSyncConflict(currentProjectId, 'keepRemote')}>Use the other version</button>
+          </div>
+        )}
         
         <PanelGroup direction="horizontal" className={`${styles.contentPanelGroup} flex-grow`}>
           <Panel 
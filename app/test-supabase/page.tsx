@@ -3,6 +3,7 @@
 import React, { useState } from 'react';
 import { createClient } from '../../src/utils/supabase/client';
 import * as supabaseService from '../../src/Persistence/supabase-service';
+import { DEFAULT_METRONOME_SETTINGS } from '../../src/lib/Metronome';
 
 export default function TestSupabasePage() {
   const [results, setResults] = useState<any[]>([]);
@@ -135,6 +136,17 @@ export default function TestSupabasePage() {
         const testSettings = {
           projectId: projects[0].id,
           bpm: 140,
+          tempoChanges: [],
+          timeSignature: { numerator: 4, denominator: 4 },
+          timeSignatureChanges: [],
+          audioOffset: 0,
+          audioTracks: [],
+          audioFile: null,
+          uploadAudio: false,
+          metronome: DEFAULT_METRONOME_SETTINGS,
+          midiCCBindings: [],
+          postEffects: [],
+          postEffectAutomation: [],
           isPlaying: false,
           loopEnabled: true,
           loopStartBeat: 0,
@@ -446,6 +458,17 @@ export default function TestSupabasePage() {
           const updatedSettings = {
             projectId: workflowState.createdProjectId!,
             bpm: 140,
+            tempoChanges: [],
+            timeSignature: { numerator: 4, denominator: 4 },
+            timeSignatureChanges: [],
+            audioOffset: 0,
+            audioTracks: [],
+            audioFile: null,
+            uploadAudio: false,
+            metronome: DEFAULT_METRONOME_SETTINGS,
+            midiCCBindings: [],
+            postEffects: [],
+            postEffectAutomation: [],
             isPlaying: false,
             loopEnabled: true,
             loopStartBeat: 0,
@@ -20,7 +20,7 @@ const customRules = {
   rules: {
     // Disable or adjust specific rules:
     "@typescript-eslint/no-explicit-any": "off",
-    "@typescript-eslint/no-unused-vars": "warn", // Warn instead of error
+    "@typescript-eslint/no-unused-vars": ["warn", { argsIgnorePattern: "^_" }], // Warn instead of error; `_`-prefixed arguments are intentionally unused
     "react-hooks/exhaustive-deps": "warn",    // Warn instead of error
     "prefer-const": "off",
     "@typescript-eslint/no-empty-object-type": "off",
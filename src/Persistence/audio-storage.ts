@@ -0,0 +1,92 @@
+// src/Persistence/audio-storage.ts
+
+// Keeps a copy of each project's audio file in Supabase Storage, so the project opens
+// with its audio on any device the user signs in on. The file itself is always stored
+// locally first (see idbHelper). Uploads happen only for projects that opted in (see
+// setAudioUploadEnabled), are best-effort, and are skipped when signed out.
+//
+// Files live at "<user id>/<project id>/<hash>" in the AUDIO_BUCKET bucket, which is
+// expected to restrict access to the owner's folder.
+
+import { createClient } from '@/utils/supabase/client';
+
+const AUDIO_BUCKET = 'project-audio';
+
+// Created on first use, so importing this module works without Supabase configured
+let supabaseClient: ReturnType<typeof createClient> | null = null;
+const getSupabase = () => supabaseClient ??= createClient();
+
+async function getUserId(): Promise<string | null> {
+    const { data: { user } } = await getSupabase().auth.getUser();
+    return user?.id ?? null;
+}
+
+/**
+ * Uploads a project's audio file, replacing any file uploaded for the project before.
+ *
+ * @param projectId The project the audio belongs to.
+ * @param file The audio file.
+ * @param hash The file's content hash, which names the stored copy.
+ * @returns The storage path of the upload, or null when signed out or on failure.
+ */
+export async function uploadProjectAudio(projectId: string, file: Blob | File, hash: string): Promise<string | null> {
+    const userId = await getUserId();
+    if (!userId) return null;
+
+    await deleteProjectAudio(projectId);
+    const path = `${userId}/${projectId}/${hash}`;
+    const { error } = await getSupabase().storage
+        .from(AUDIO_BUCKET)
+        .upload(path, file, { contentType: file.type || 'application/octet-stream', upsert: true });
+
+    if (error) {
+        console.error(`Error uploading audio for project ${projectId}:`, error);
+        return null;
+    }
+    console.log(`Uploaded audio for project ${projectId} to storage.`);
+    return path;
+}
+
+/**
+ * Downloads a project's audio file.
+ *
+ * @param path The storage path returned by uploadProjectAudio.
+ * @returns The file contents, or null when signed out or on failure.
+ */
+export async function downloadProjectAudio(path: string): Promise<Blob | null> {
+    const userId = await getUserId();
+    if (!userId) return null;
+
+    const { data, error } = await getSupabase().storage.from(AUDIO_BUCKET).download(path);
+    if (error || !data) {
+        console.error(`Error downloading audio "${path}":`, error);
+        return null;
+    }
+    return data;
+}
+
+/**
+ * Deletes every audio file uploaded for a project.
+ * @returns Whether the project's folder is now empty.
+ */
+export async function deleteProjectAudio(projectId: string): Promise<boolean> {
+    const userId = await getUserId();
+    if (!userId) return false;
+
+    const folder = `${userId}/${projectId}`;
+    const { data, error } = await getSupabase().storage.from(AUDIO_BUCKET).list(folder);
+    if (error) {
+        console.error(`Error listing audio for project ${projectId}:`, error);
+        return false;
+    }
+    if (!data || data.length === 0) return true;
+
+    const { error: removeError } = await getSupabase().storage
+        .from(AUDIO_BUCKET)
+        .remove(data.map(file => `${folder}/${file.name}`));
+    if (removeError) {
+        console.error(`Error deleting audio for project ${projectId}:`, removeError);
+        return false;
+    }
+    return true;
+}
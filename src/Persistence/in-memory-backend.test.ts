@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { InMemoryBackend } from './in-memory-backend';
+
+describe('InMemoryBackend', () => {
+    it('loads saved rows back as a nested project', async () => {
+        const backend = new InMemoryBackend();
+        const projectId = (await backend.createProject('Song'))!;
+        expect(await backend.getProjectList()).toEqual([expect.objectContaining({ id: projectId, name: 'Song' })]);
+
+        await backend.saveTrack({ id: 'lead', projectId, name: 'Lead', order: 5, isMuted: false, isSoloed: false });
+        await backend.saveEffect({ id: 'scale', trackId: 'lead', type: 'ScaleEffect', settings: { scale: 2 }, order: 0 });
+        await backend.saveMidiBlock({ id: 'block', trackId: 'lead', startBeat: 0, endBeat: 4 });
+        await backend.saveMidiNotesBatch([{ id: 'note', startBeat: 1, duration: 1, velocity: 100, pitch: 60 }], 'block');
+
+        const project = await backend.loadFullProject(projectId);
+        const lead = project?.tracks.find(track => track.id === 'lead');
+        expect(project?.tracks[project.tracks.length - 1]).toBe(lead);
+        expect(lead?.effects).toEqual([expect.objectContaining({ id: 'scale', settings: { scale: 2 } })]);
+        expect(lead?.midiBlocks).toEqual([
+            { id: 'block', trackId: 'lead', startBeat: 0, endBeat: 4, notes: [{ id: 'note', startBeat: 1, duration: 1, velocity: 100, pitch: 60 }] },
+        ]);
+
+        // Loaded data is a copy
+        lead!.effects![0].settings.scale = 10;
+        const reloaded = await backend.loadFullProject(projectId);
+        expect(reloaded?.tracks.find(track => track.id === 'lead')?.effects?.[0].settings.scale).toBe(2);
+    });
+
+    it('deletes a track with its effects, blocks and notes', async () => {
+        const backend = new InMemoryBackend();
+        const projectId = (await backend.createProject('Song'))!;
+        await backend.saveTrack({ id: 'lead', projectId, name: 'Lead', order: 1, isMuted: false, isSoloed: false });
+        await backend.saveMidiBlock({ id: 'block', trackId: 'lead', startBeat: 0, endBeat: 4 });
+        await backend.saveMidiNotesBatch([{ id: 'note', startBeat: 0, duration: 1, velocity: 100, pitch: 60 }], 'block');
+
+        await backend.deleteTrack('lead');
+        // Saving the block again doesn't bring its notes back
+        await backend.saveTrack({ id: 'lead', projectId, name: 'Lead', order: 1, isMuted: false, isSoloed: false });
+        await backend.saveMidiBlock({ id: 'block', trackId: 'lead', startBeat: 0, endBeat: 4 });
+        const project = await backend.loadFullProject(projectId);
+        expect(project?.tracks.find(track => track.id === 'lead')?.midiBlocks?.[0].notes).toEqual([]);
+
+        expect(await backend.deleteProject(projectId)).toBe(true);
+        expect(await backend.loadFullProject(projectId)).toBeNull();
+        expect(await backend.getProjectList()).toEqual([]);
+    });
+
+    it('reads the audio tracks without the rest of the project', async () => {
+        const backend = new InMemoryBackend();
+        const projectId = (await backend.createProject('Song'))!;
+        const { projectSettings } = (await backend.loadFullProject(projectId))!;
+        const audioTracks = [{
+            id: 'stems',
+            name: 'Stems',
+            gain: 1,
+            isMuted: false,
+            isSoloed: false,
+            clips: [{ id: 'clip', sourceId: 'source', name: 'Vocals', startBeat: 0, inPoint: 0, outPoint: 2, gain: 1, isMuted: false }],
+        }];
+        await backend.saveProjectSettings({ ...projectSettings, audioTracks });
+
+        expect(await backend.loadAudioTracks(projectId)).toEqual(audioTracks);
+        expect(await backend.loadAudioTracks('missing')).toBeNull();
+    });
+});
@@ -0,0 +1,188 @@
+// src/Persistence/in-memory-backend.ts
+
+// Keeps projects in plain maps, for exercising the store without Supabase or IndexedDB:
+//
+//     const backend = new InMemoryBackend();
+//     const store = createAppStore(backend);
+//
+// Records are copied on the way in and out, so callers can't mutate stored data by accident.
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+    ProjectMetadata,
+    ProjectSettings,
+    AppProjectState,
+    TrackData,
+    SynthData,
+    EffectData,
+    MidiBlockData,
+    MidiNoteData,
+    PersistenceBackend,
+} from '@/Persistence/persistence-backend';
+import { CabinProjectFile, projectFileToState } from '@/Persistence/projectFile';
+import { createDefaultProjectState } from '@/utils/persistenceUtils';
+import type { AudioTrack } from '@/lib/types';
+
+type TrackRecord = Omit<TrackData, 'synth' | 'effects' | 'midiBlocks'>;
+type MidiBlockRecord = Omit<MidiBlockData, 'notes'>;
+type MidiNoteRecord = MidiNoteData & { blockId: string };
+
+const copy = <T,>(value: T): T => structuredClone(value);
+
+export class InMemoryBackend implements PersistenceBackend {
+    private projects = new Map<string, ProjectMetadata>();
+    private settings = new Map<string, ProjectSettings>();
+    private tracks = new Map<string, TrackRecord>();
+    private synths = new Map<string, SynthData>(); // Keyed by track ID
+    private effects = new Map<string, EffectData>();
+    private blocks = new Map<string, MidiBlockRecord>();
+    private notes = new Map<string, MidiNoteRecord>();
+
+    // Removes every stored project
+    reset() {
+        [this.projects, this.settings, this.tracks, this.synths, this.effects, this.blocks, this.notes].forEach(map => map.clear());
+    }
+
+    async getProjectList(): Promise<ProjectMetadata[]> {
+        return Array.from(this.projects.values()).map(copy);
+    }
+
+    async createProject(name: string): Promise<string | null> {
+        const projectId = uuidv4();
+        this.writeProjectState(projectId, name || 'Untitled Project', createDefaultProjectState(projectId));
+        return projectId;
+    }
+
+    async importProject(file: CabinProjectFile, name: string): Promise<string | null> {
+        const projectId = uuidv4();
+        this.writeProjectState(projectId, name || file.name || 'Imported Project', projectFileToState(file, projectId));
+        return projectId;
+    }
+
+    async deleteProject(projectId: string): Promise<boolean> {
+        if (!this.projects.has(projectId)) return false;
+        Array.from(this.tracks.values())
+            .filter(track => track.projectId === projectId)
+            .forEach(track => this.removeTrack(track.id));
+        this.settings.delete(projectId);
+        this.projects.delete(projectId);
+        return true;
+    }
+
+    async loadFullProject(projectId: string): Promise<AppProjectState | null> {
+        const projectSettings = this.settings.get(projectId);
+        if (!projectSettings) return null;
+
+        const tracks: TrackData[] = Array.from(this.tracks.values())
+            .filter(track => track.projectId === projectId)
+            .sort((a, b) => a.order - b.order)
+            .map(track => ({
+                ...track,
+                synth: this.synths.get(track.id) ?? null,
+                effects: Array.from(this.effects.values())
+                    .filter(effect => effect.trackId === track.id)
+                    .sort((a, b) => a.order - b.order),
+                midiBlocks: Array.from(this.blocks.values())
+                    .filter(block => block.trackId === track.id)
+                    .sort((a, b) => a.startBeat - b.startBeat)
+                    .map(block => ({
+                        ...block,
+                        notes: Array.from(this.notes.values())
+                            .filter(note => note.blockId === block.id)
+                            .map(({ id, startBeat, duration, velocity, pitch }) => ({ id, startBeat, duration, velocity, pitch })),
+                    })),
+            }));
+
+        return copy({ projectSettings, tracks });
+    }
+
+    async loadAudioTracks(projectId: string): Promise<AudioTrack[] | null> {
+        const projectSettings = this.settings.get(projectId);
+        return projectSettings ? copy(projectSettings.audioTracks) : null;
+    }
+
+    async saveProjectSettings(settings: ProjectSettings): Promise<boolean> {
+        this.settings.set(settings.projectId, copy(settings));
+        return true;
+    }
+
+    async saveTrack(track: TrackData): Promise<boolean> {
+        const { id, projectId, name, order, isMuted, isSoloed, automation, modulations } = track;
+        this.tracks.set(id, { id, projectId, name, order, isMuted, isSoloed, automation: copy(automation ?? []), modulations: copy(modulations ?? []) });
+        return true;
+    }
+
+    async saveSynth(synth: SynthData): Promise<boolean> {
+        this.synths.set(synth.trackId, copy(synth));
+        return true;
+    }
+
+    async saveEffect(effect: EffectData): Promise<boolean> {
+        this.effects.set(effect.id, copy(effect));
+        return true;
+    }
+
+    async saveMidiBlock(block: Omit<MidiBlockData, 'notes'>): Promise<boolean> {
+        const { id, trackId, startBeat, endBeat } = block;
+        this.blocks.set(id, { id, trackId, startBeat, endBeat });
+        return true;
+    }
+
+    async saveMidiNotesBatch(notes: MidiNoteData[], blockId: string): Promise<boolean> {
+        notes.forEach(note => this.notes.set(note.id, { ...copy(note), blockId }));
+        return true;
+    }
+
+    async deleteTrack(trackId: string): Promise<boolean> {
+        this.removeTrack(trackId);
+        return true;
+    }
+
+    async deleteEffect(effectId: string): Promise<boolean> {
+        this.effects.delete(effectId);
+        return true;
+    }
+
+    async deleteMidiBlock(blockId: string): Promise<boolean> {
+        this.removeBlock(blockId);
+        return true;
+    }
+
+    async deleteMidiNote(noteId: string): Promise<boolean> {
+        this.notes.delete(noteId);
+        return true;
+    }
+
+    private writeProjectState(projectId: string, name: string, state: AppProjectState) {
+        this.projects.set(projectId, { id: projectId, name, updated_at: new Date().toISOString() });
+        this.settings.set(projectId, copy(state.projectSettings));
+        for (const { synth, effects, midiBlocks, ...track } of copy(state.tracks)) {
+            this.tracks.set(track.id, track);
+            if (synth) this.synths.set(track.id, synth);
+            (effects ?? []).forEach(effect => this.effects.set(effect.id, effect));
+            for (const { notes, ...block } of midiBlocks ?? []) {
+                this.blocks.set(block.id, block);
+                notes.forEach(note => this.notes.set(note.id, { ...note, blockId: block.id }));
+            }
+        }
+    }
+
+    // Tracks and blocks cascade to their children, like Supabase
+    private removeTrack(trackId: string) {
+        Array.from(this.effects.values())
+            .filter(effect => effect.trackId === trackId)
+            .forEach(effect => this.effects.delete(effect.id));
+        Array.from(this.blocks.values())
+            .filter(block => block.trackId === trackId)
+            .forEach(block => this.removeBlock(block.id));
+        this.synths.delete(trackId);
+        this.tracks.delete(trackId);
+    }
+
+    private removeBlock(blockId: string) {
+        Array.from(this.notes.values())
+            .filter(note => note.blockId === blockId)
+            .forEach(note => this.notes.delete(note.id));
+        this.blocks.delete(blockId);
+    }
+}
@@ -0,0 +1,279 @@
+// src/Persistence/indexeddb-adapter.ts
+
+// Stores projects in the browser, using the granular schema from projectRefactor.md
+// (see idbHelper). Deleting a track or block cascades to its children, like Supabase.
+
+import { v4 as uuidv4 } from 'uuid';
+import { getDb, CabinVisualsDBSchema } from '@/lib/idbHelper';
+import type { IDBPTransaction } from 'idb';
+import type {
+    ProjectMetadata,
+    ProjectSettings,
+    AppProjectState,
+    TrackData,
+    SynthData,
+    EffectData,
+    MidiBlockData,
+    MidiNoteData,
+    PersistenceBackend,
+} from '@/Persistence/persistence-backend';
+import { CabinProjectFile, projectFileToState } from '@/Persistence/projectFile';
+import { createDefaultProjectState } from '@/utils/persistenceUtils';
+import type { AudioTrack } from '@/lib/types';
+
+const PROJECT_STORES = ['projectMetadata', 'projectSettings', 'tracks', 'trackSynths', 'trackEffects', 'midiBlocks', 'midiNotes'] as const;
+type ProjectStoreName = typeof PROJECT_STORES[number];
+type ProjectTransaction = IDBPTransaction<CabinVisualsDBSchema, ProjectStoreName[], 'readwrite'>;
+
+// Drops the local modification time from a stored record
+function withoutUpdatedAt<T extends { updatedAt: number }>(record: T): Omit<T, 'updatedAt'> {
+    const { updatedAt, ...rest } = record;
+    void updatedAt;
+    return rest;
+}
+
+// Deletes a block and its notes within an open transaction
+async function deleteBlockInTx(tx: ProjectTransaction, blockId: string) {
+    const noteKeys = await tx.objectStore('midiNotes').index('by-block').getAllKeys(blockId);
+    await Promise.all(noteKeys.map(key => tx.objectStore('midiNotes').delete(key)));
+    await tx.objectStore('midiBlocks').delete(blockId);
+}
+
+// Deletes a track with its synth, effects, blocks and notes within an open transaction
+async function deleteTrackInTx(tx: ProjectTransaction, trackId: string) {
+    const effectKeys = await tx.objectStore('trackEffects').index('by-track').getAllKeys(trackId);
+    await Promise.all(effectKeys.map(key => tx.objectStore('trackEffects').delete(key)));
+    const blockKeys = await tx.objectStore('midiBlocks').index('by-track').getAllKeys(trackId);
+    for (const blockId of blockKeys) {
+        await deleteBlockInTx(tx, blockId);
+    }
+    await tx.objectStore('trackSynths').delete(trackId);
+    await tx.objectStore('tracks').delete(trackId);
+}
+
+async function deleteProjectInTx(tx: ProjectTransaction, projectId: string) {
+    const trackKeys = await tx.objectStore('tracks').index('by-project').getAllKeys(projectId);
+    for (const trackId of trackKeys) {
+        await deleteTrackInTx(tx, trackId);
+    }
+    await tx.objectStore('projectSettings').delete(projectId);
+    await tx.objectStore('projectMetadata').delete(projectId);
+}
+
+export class IndexedDbAdapter implements PersistenceBackend {
+    async getProjectList(): Promise<ProjectMetadata[]> {
+        const db = await getDb();
+        const projects = await db.getAll('projectMetadata');
+        return projects
+            .sort((a, b) => b.updatedAt - a.updatedAt) // Newest first, like Supabase
+            .map(p => ({ id: p.id, name: p.name, updated_at: new Date(p.updatedAt).toISOString() }));
+    }
+
+    async getProject(projectId: string): Promise<ProjectMetadata | null> {
+        const db = await getDb();
+        const project = await db.get('projectMetadata', projectId);
+        return project ? { id: project.id, name: project.name } : null;
+    }
+
+    async createProject(name: string): Promise<string | null> {
+        const projectId = uuidv4();
+        await this.writeProjectState(projectId, name || 'Untitled Project', createDefaultProjectState(projectId));
+        return projectId;
+    }
+
+    async importProject(file: CabinProjectFile, name: string): Promise<string | null> {
+        const projectId = uuidv4();
+        await this.writeProjectState(projectId, name || file.name || 'Imported Project', projectFileToState(file, projectId));
+        return projectId;
+    }
+
+    async deleteProject(projectId: string): Promise<boolean> {
+        const db = await getDb();
+        const tx = db.transaction([...PROJECT_STORES], 'readwrite');
+        await deleteProjectInTx(tx, projectId);
+        await tx.done;
+        return true;
+    }
+
+    /**
+     * Assembles a project from the granular stores into the same nested structure
+     * loadFullProjectFromSupabase returns. Returns null if the project isn't stored locally.
+     */
+    async loadFullProject(projectId: string): Promise<AppProjectState | null> {
+        const db = await getDb();
+        const tx = db.transaction([...PROJECT_STORES], 'readonly');
+        const settingsRecord = await tx.objectStore('projectSettings').get(projectId);
+        if (!settingsRecord) {
+            await tx.done;
+            return null;
+        }
+
+        const trackRecords = await tx.objectStore('tracks').index('by-project').getAll(projectId);
+        const tracks: TrackData[] = [];
+        for (const track of trackRecords.sort((a, b) => a.order - b.order).map(withoutUpdatedAt)) {
+            const synthRecord = await tx.objectStore('trackSynths').get(track.id);
+            const effectRecords = await tx.objectStore('trackEffects').index('by-track').getAll(track.id);
+            const blockRecords = await tx.objectStore('midiBlocks').index('by-track').getAll(track.id);
+
+            const midiBlocks: MidiBlockData[] = [];
+            for (const block of blockRecords.sort((a, b) => a.startBeat - b.startBeat).map(withoutUpdatedAt)) {
+                const noteRecords = await tx.objectStore('midiNotes').index('by-block').getAll(block.id);
+                const notes: MidiNoteData[] = noteRecords.map(({ id, startBeat, duration, velocity, pitch }) => ({ id, startBeat, duration, velocity, pitch }));
+                midiBlocks.push({ ...block, notes });
+            }
+
+            tracks.push({
+                ...track,
+                synth: synthRecord ? { trackId: synthRecord.trackId, type: synthRecord.type, settings: synthRecord.settings } : null,
+                effects: effectRecords
+                    .sort((a, b) => a.order - b.order)
+                    .map(withoutUpdatedAt),
+                midiBlocks,
+            });
+        }
+        await tx.done;
+
+        return { projectSettings: withoutUpdatedAt(settingsRecord), tracks };
+    }
+
+    async loadAudioTracks(projectId: string): Promise<AudioTrack[] | null> {
+        const db = await getDb();
+        return (await db.get('projectSettings', projectId))?.audioTracks ?? null;
+    }
+
+    /**
+     * Replaces everything stored locally for a project with `state`.
+     * Used to cache a project loaded from Supabase and to create projects offline.
+     */
+    async writeProjectState(projectId: string, name: string, state: AppProjectState): Promise<void> {
+        const db = await getDb();
+        const now = Date.now();
+        const tx = db.transaction([...PROJECT_STORES], 'readwrite');
+        await deleteProjectInTx(tx, projectId);
+
+        await tx.objectStore('projectMetadata').put({ id: projectId, name, updatedAt: now });
+        await tx.objectStore('projectSettings').put({ ...state.projectSettings, projectId, updatedAt: now });
+        for (const { synth, effects, midiBlocks, ...track } of state.tracks) {
+            await tx.objectStore('tracks').put({ ...track, updatedAt: now });
+            if (synth) await tx.objectStore('trackSynths').put({ ...synth, updatedAt: now });
+            for (const effect of effects ?? []) {
+                await tx.objectStore('trackEffects').put({ ...effect, updatedAt: now });
+            }
+            for (const { notes, ...block } of midiBlocks ?? []) {
+                await tx.objectStore('midiBlocks').put({ ...block, updatedAt: now });
+                for (const note of notes) {
+                    await tx.objectStore('midiNotes').put({ ...note, blockId: block.id, updatedAt: now });
+                }
+            }
+        }
+        await tx.done;
+    }
+
+    async saveProjectMetadata(project: ProjectMetadata): Promise<boolean> {
+        const db = await getDb();
+        await db.put('projectMetadata', { id: project.id, name: project.name, updatedAt: Date.now() });
+        return true;
+    }
+
+    async saveProjectSettings(settings: ProjectSettings): Promise<boolean> {
+        const db = await getDb();
+        await db.put('projectSettings', { ...settings, updatedAt: Date.now() });
+        return true;
+    }
+
+    async saveTrack(track: TrackData): Promise<boolean> {
+        const db = await getDb();
+        await db.put('tracks', {
+            id: track.id,
+            projectId: track.projectId,
+            name: track.name,
+            order: track.order,
+            isMuted: track.isMuted,
+            isSoloed: track.isSoloed,
+            automation: track.automation ?? [],
+            modulations: track.modulations ?? [],
+            updatedAt: Date.now(),
+        });
+        return true;
+    }
+
+    async saveSynth(synth: SynthData): Promise<boolean> {
+        const db = await getDb();
+        await db.put('trackSynths', { ...synth, updatedAt: Date.now() });
+        return true;
+    }
+
+    async saveEffect(effect: EffectData): Promise<boolean> {
+        const db = await getDb();
+        await db.put('trackEffects', { ...effect, updatedAt: Date.now() });
+        return true;
+    }
+
+    async saveMidiBlock(block: Omit<MidiBlockData, 'notes'>): Promise<boolean> {
+        const db = await getDb();
+        await db.put('midiBlocks', { id: block.id, trackId: block.trackId, startBeat: block.startBeat, endBeat: block.endBeat, updatedAt: Date.now() });
+        return true;
+    }
+
+    async saveMidiNotesBatch(notes: MidiNoteData[], blockId: string): Promise<boolean> {
+        const db = await getDb();
+        const now = Date.now();
+        const tx = db.transaction('midiNotes', 'readwrite');
+        await Promise.all(notes.map(note => tx.store.put({ ...note, blockId, updatedAt: now })));
+        await tx.done;
+        return true;
+    }
+
+    async deleteTrack(trackId: string): Promise<boolean> {
+        const db = await getDb();
+        const tx = db.transaction([...PROJECT_STORES], 'readwrite');
+        await deleteTrackInTx(tx, trackId);
+        await tx.done;
+        return true;
+    }
+
+    async deleteEffect(effectId: string): Promise<boolean> {
+        const db = await getDb();
+        await db.delete('trackEffects', effectId);
+        return true;
+    }
+
+    async deleteMidiBlock(blockId: string): Promise<boolean> {
+        const db = await getDb();
+        const tx = db.transaction([...PROJECT_STORES], 'readwrite');
+        await deleteBlockInTx(tx, blockId);
+        await tx.done;
+        return true;
+    }
+
+    async deleteMidiNote(noteId: string): Promise<boolean> {
+        const db = await getDb();
+        await db.delete('midiNotes', noteId);
+        return true;
+    }
+
+    // --- Lookups used to tag queued writes with their project ---
+
+    async getProjectIdForTrack(trackId: string): Promise<string | null> {
+        const db = await getDb();
+        return (await db.get('tracks', trackId))?.projectId ?? null;
+    }
+
+    async getProjectIdForEffect(effectId: string): Promise<string | null> {
+        const db = await getDb();
+        const effect = await db.get('trackEffects', effectId);
+        return effect ? this.getProjectIdForTrack(effect.trackId) : null;
+    }
+
+    async getProjectIdForBlock(blockId: string): Promise<string | null> {
+        const db = await getDb();
+        const block = await db.get('midiBlocks', blockId);
+        return block ? this.getProjectIdForTrack(block.trackId) : null;
+    }
+
+    async getProjectIdForNote(noteId: string): Promise<string | null> {
+        const db = await getDb();
+        const note = await db.get('midiNotes', noteId);
+        return note ? this.getProjectIdForBlock(note.blockId) : null;
+    }
+}
@@ -0,0 +1,247 @@
+// src/Persistence/offline-first-adapter.ts
+
+// Keeps working without a connection: every write goes to IndexedDB first and is
+// queued for Supabase (see sync-manager). Projects are loaded from Supabase when
+// possible and cached locally, and from the local copy otherwise.
+
+import { v4 as uuidv4 } from 'uuid';
+import type {
+    ProjectMetadata,
+    ProjectSettings,
+    AppProjectState,
+    TrackData,
+    SynthData,
+    EffectData,
+    MidiBlockData,
+    MidiNoteData,
+    PersistenceBackend,
+    StatusSource,
+} from '@/Persistence/persistence-backend';
+import type { IndexedDbAdapter } from '@/Persistence/indexeddb-adapter';
+import { createDefaultProjectState } from '@/utils/persistenceUtils';
+import type { AudioTrack } from '@/lib/types';
+import type { SyncManager, NewSyncQueueEntry, SyncConflictResolution, SyncSnapshot } from '@/Persistence/sync-manager';
+import { CabinProjectFile, projectFileToState } from '@/Persistence/projectFile';
+
+export class OfflineFirstAdapter implements PersistenceBackend {
+    // Local writes run one at a time so queued writes keep the order they were made in
+    private writeChain: Promise<unknown> = Promise.resolve();
+
+    constructor(
+        private local: IndexedDbAdapter,
+        private remote: PersistenceBackend,
+        private sync: SyncManager,
+    ) {}
+
+    // Sends writes left from a previous session and keeps sending as connectivity returns
+    start() {
+        this.sync.start();
+    }
+
+    get syncStatus(): StatusSource<SyncSnapshot> {
+        return this.sync;
+    }
+
+    resolveConflict(projectId: string, resolution: SyncConflictResolution): Promise<void> {
+        return this.sync.resolveConflict(projectId, resolution);
+    }
+
+    async getProjectList(): Promise<ProjectMetadata[]> {
+        const localProjects = await this.local.getProjectList();
+        if (!this.sync.isOnline()) return localProjects;
+
+        const remoteProjects = await this.remote.getProjectList().catch(() => [] as ProjectMetadata[]);
+        // The remote list is also empty when Supabase can't be reached; show what we have
+        if (remoteProjects.length === 0) return localProjects;
+
+        const remoteIds = new Set(remoteProjects.map(p => p.id));
+        const localOnlyProjects: ProjectMetadata[] = [];
+        for (const project of localProjects) {
+            // Projects created offline exist only locally until their writes are sent
+            if (!remoteIds.has(project.id) && await this.sync.hasPendingWrites(project.id)) {
+                localOnlyProjects.push(project);
+            }
+        }
+        // Cache names so projects can be listed offline
+        await Promise.all(remoteProjects.map(project => this.local.saveProjectMetadata(project)));
+        return [...localOnlyProjects, ...remoteProjects];
+    }
+
+    async createProject(name: string): Promise<string | null> {
+        if (this.sync.isOnline()) {
+            const projectId = await this.remote.createProject(name).catch(() => null);
+            if (projectId) return projectId;
+            console.warn("OfflineFirstAdapter: Could not create the project in Supabase, creating it locally.");
+        }
+        const projectId = uuidv4();
+        return this.createLocalProject(projectId, name || 'Untitled Project', createDefaultProjectState(projectId));
+    }
+
+    async importProject(file: CabinProjectFile, name: string): Promise<string | null> {
+        if (this.sync.isOnline()) {
+            const projectId = await this.remote.importProject(file, name).catch(() => null);
+            if (projectId) return projectId;
+            console.warn("OfflineFirstAdapter: Could not import the project into Supabase, importing it locally.");
+        }
+        const projectId = uuidv4();
+        return this.createLocalProject(projectId, name || file.name || 'Imported Project', projectFileToState(file, projectId));
+    }
+
+    deleteProject(projectId: string): Promise<boolean> {
+        return this.serialize(async () => {
+            // Writes still waiting for a project that is going away don't matter anymore
+            await this.sync.forgetProject(projectId);
+            await this.local.deleteProject(projectId);
+            await this.sync.enqueue({ projectId, entity: 'project', op: 'delete', key: projectId, payload: null });
+            return true;
+        });
+    }
+
+    /**
+     * Loads from Supabase when online and nothing is waiting to be sent for the project
+     * (otherwise the local copy is newer). Falls back to the local copy if Supabase fails.
+     */
+    async loadFullProject(projectId: string): Promise<AppProjectState | null> {
+        const hasPendingWrites = await this.sync.hasPendingWrites(projectId);
+        if (this.sync.isOnline() && !hasPendingWrites) {
+            try {
+                const remoteState = await this.remote.loadFullProject(projectId);
+                if (remoteState) {
+                    const name = (await this.local.getProject(projectId))?.name ?? 'Untitled Project';
+                    await this.local.writeProjectState(projectId, name, remoteState);
+                    await this.sync.markProjectSynced(projectId, remoteState.remoteUpdatedAt ?? null);
+                }
+                return remoteState;
+            } catch (error) {
+                console.warn(`OfflineFirstAdapter: Could not load project ${projectId} from Supabase, using the local copy.`, error);
+            }
+        }
+        if (hasPendingWrites) void this.sync.flush();
+        return this.local.loadFullProject(projectId);
+    }
+
+    /**
+     * Clip files are stored on the device that added them, so the local copy is enough when there
+     * is one; projects imported straight into Supabase are looked up there.
+     */
+    async loadAudioTracks(projectId: string): Promise<AudioTrack[] | null> {
+        const localAudioTracks = await this.local.loadAudioTracks(projectId);
+        if (localAudioTracks || !this.sync.isOnline()) return localAudioTracks;
+        return this.remote.loadAudioTracks(projectId).catch(() => null);
+    }
+
+    saveProjectSettings(settings: ProjectSettings): Promise<boolean> {
+        return this.write(
+            () => this.local.saveProjectSettings(settings),
+            async () => ({ projectId: settings.projectId, entity: 'projectSettings', op: 'save', key: settings.projectId, payload: settings }),
+        );
+    }
+
+    saveTrack(track: TrackData): Promise<boolean> {
+        const { id, projectId, name, order, isMuted, isSoloed, automation, modulations } = track;
+        return this.write(
+            () => this.local.saveTrack(track),
+            async () => ({ projectId, entity: 'track', op: 'save', key: id, payload: { id, projectId, name, order, isMuted, isSoloed, automation, modulations } }),
+        );
+    }
+
+    saveSynth(synth: SynthData): Promise<boolean> {
+        return this.write(
+            () => this.local.saveSynth(synth),
+            async () => ({ projectId: await this.local.getProjectIdForTrack(synth.trackId), entity: 'synth', op: 'save', key: synth.trackId, payload: synth }),
+        );
+    }
+
+    saveEffect(effect: EffectData): Promise<boolean> {
+        return this.write(
+            () => this.local.saveEffect(effect),
+            async () => ({ projectId: await this.local.getProjectIdForTrack(effect.trackId), entity: 'effect', op: 'save', key: effect.id, payload: effect }),
+        );
+    }
+
+    saveMidiBlock(block: Omit<MidiBlockData, 'notes'>): Promise<boolean> {
+        const { id, trackId, startBeat, endBeat } = block;
+        return this.write(
+            () => this.local.saveMidiBlock(block),
+            async () => ({ projectId: await this.local.getProjectIdForTrack(trackId), entity: 'midiBlock', op: 'save', key: id, payload: { id, trackId, startBeat, endBeat } }),
+        );
+    }
+
+    saveMidiNotesBatch(notes: MidiNoteData[], blockId: string): Promise<boolean> {
+        return this.write(
+            () => this.local.saveMidiNotesBatch(notes, blockId),
+            async () => ({ projectId: await this.local.getProjectIdForBlock(blockId), entity: 'midiNotes', op: 'save', key: blockId, payload: { blockId, notes } }),
+        );
+    }
+
+    // Deletes look up the project before the local rows are gone
+
+    deleteTrack(trackId: string): Promise<boolean> {
+        return this.deleteEntity('track', trackId, () => this.local.getProjectIdForTrack(trackId), () => this.local.deleteTrack(trackId));
+    }
+
+    deleteEffect(effectId: string): Promise<boolean> {
+        return this.deleteEntity('effect', effectId, () => this.local.getProjectIdForEffect(effectId), () => this.local.deleteEffect(effectId));
+    }
+
+    deleteMidiBlock(blockId: string): Promise<boolean> {
+        return this.deleteEntity('midiBlock', blockId, () => this.local.getProjectIdForBlock(blockId), () => this.local.deleteMidiBlock(blockId));
+    }
+
+    deleteMidiNote(noteId: string): Promise<boolean> {
+        return this.deleteEntity('midiNote', noteId, () => this.local.getProjectIdForNote(noteId), () => this.local.deleteMidiNote(noteId));
+    }
+
+    // Writes a whole project locally and queues every row of it
+    private createLocalProject(projectId: string, name: string, state: AppProjectState): Promise<string> {
+        return this.serialize(async () => {
+            await this.local.writeProjectState(projectId, name, state);
+            const enqueue = (entry: Omit<NewSyncQueueEntry, 'projectId' | 'op'>) => this.sync.enqueue({ ...entry, projectId, op: 'save' });
+
+            await enqueue({ entity: 'project', key: projectId, payload: { id: projectId, name } });
+            await enqueue({ entity: 'projectSettings', key: projectId, payload: state.projectSettings });
+            for (const { synth, effects, midiBlocks, ...track } of state.tracks) {
+                await enqueue({ entity: 'track', key: track.id, payload: track });
+                if (synth) await enqueue({ entity: 'synth', key: track.id, payload: synth });
+                for (const effect of effects ?? []) {
+                    await enqueue({ entity: 'effect', key: effect.id, payload: effect });
+                }
+                for (const { notes, ...block } of midiBlocks ?? []) {
+                    await enqueue({ entity: 'midiBlock', key: block.id, payload: block });
+                    await enqueue({ entity: 'midiNotes', key: block.id, payload: { blockId: block.id, notes } });
+                }
+            }
+            console.log(`OfflineFirstAdapter: Created project ${projectId} locally, it will be synced when possible.`);
+            return projectId;
+        });
+    }
+
+    private write(saveLocally: () => Promise<boolean>, toQueueEntry: () => Promise<NewSyncQueueEntry>): Promise<boolean> {
+        return this.serialize(async () => {
+            const saved = await saveLocally();
+            await this.sync.enqueue(await toQueueEntry());
+            return saved;
+        });
+    }
+
+    private deleteEntity(
+        entity: NewSyncQueueEntry['entity'],
+        key: string,
+        getProjectId: () => Promise<string | null>,
+        deleteLocally: () => Promise<boolean>,
+    ): Promise<boolean> {
+        return this.serialize(async () => {
+            const projectId = await getProjectId();
+            const deleted = await deleteLocally();
+            await this.sync.enqueue({ projectId, entity, op: 'delete', key, payload: null });
+            return deleted;
+        });
+    }
+
+    private serialize<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.writeChain.then(task);
+        // A failed write shouldn't block the ones after it
+        this.writeChain = result.catch(() => undefined);
+        return result;
+    }
+}
@@ -0,0 +1,150 @@
+// src/Persistence/persistence-backend.ts
+
+// The data shapes every persistence backend reads and writes, and the interface the
+// store talks to. Backends: Supabase, IndexedDB, the offline-first combination of
+// both (the default), and an in-memory one for tests.
+
+import { AudioTrack, AutomationLane, MetronomeSettings, MidiCCBinding, ModulationRoute, ProjectAudioFile, TempoChange, TimeSignature, TimeSignatureChange } from '@/lib/types';
+import type { CabinProjectFile } from '@/Persistence/projectFile';
+import type { SaveQueueSnapshot } from '@/Persistence/save-queue';
+import type { SyncConflictResolution, SyncSnapshot } from '@/Persistence/sync-manager';
+
+// Define TypeScript interfaces representing the structure of your application's data.
+// These should match how data is used in Zustand and UI components (e.g., using camelCase).
+export interface ProjectMetadata {
+    id: string;
+    name: string;
+    updated_at?: string; // Optional: for display/sorting
+}
+
+export interface ProjectSettings {
+    projectId: string; // Matches Supabase 'project_id' but camelCase here
+    bpm: number;
+    tempoChanges: TempoChange[]; // Stored as JSON in 'tempo_changes'
+    timeSignature: TimeSignature;
+    timeSignatureChanges: TimeSignatureChange[]; // Stored as JSON in 'time_signature_changes'
+    audioOffset: number; // Seconds into the audio file that line up with beat 0
+    audioTracks: AudioTrack[]; // Stored as JSON in 'audio_tracks'; clip files are stored locally
+    audioFile: ProjectAudioFile | null; // Stored as JSON in 'audio_file'
+    uploadAudio: boolean; // Whether the audio file is also kept in Supabase Storage (opt-in)
+    metronome: MetronomeSettings; // Stored as JSON in 'metronome'
+    midiCCBindings: MidiCCBinding[]; // Stored as JSON in 'midi_cc_bindings'
+    postEffects: PostEffectData[]; // Stored as JSON in 'post_effects', in stack order
+    postEffectAutomation: AutomationLane[]; // Stored as JSON in 'post_effect_automation'
+    isPlaying: boolean;
+    loopEnabled: boolean;
+    loopStartBeat: number | null;
+    loopEndBeat: number | null;
+    numMeasures: number;
+    isInstrumentSidebarVisible: boolean;
+    selectedWindow: string | null;
+    // Note: user_id is not usually needed in the client-side settings object
+    // Note: updated_at is usually handled automatically
+}
+
+export interface MidiNoteData {
+    id: string; // UUID from Supabase
+    // blockId: string; // Often implicit from context when operating on notes
+    startBeat: number;
+    duration: number;
+    velocity: number;
+    pitch: number;
+}
+
+export interface MidiBlockData {
+    id: string; // UUID from Supabase
+    trackId: string;
+    startBeat: number;
+    endBeat: number;
+    notes: MidiNoteData[]; // Notes associated with this block
+}
+
+export interface EffectData {
+    id: string; // UUID from Supabase
+    trackId: string;
+    type: string;
+    settings: Record<string, any>; // Use Record or a more specific type
+    order: number;
+}
+
+export interface PostEffectData {
+    id: string;
+    type: string;
+    enabled: boolean;
+    settings: Record<string, any>;
+}
+
+export interface SynthData {
+    trackId: string; // PK in Supabase is track_id
+    type: string;
+    settings: Record<string, any>;
+}
+
+export interface TrackData {
+    id: string; // UUID from Supabase
+    projectId: string;
+    name: string;
+    order: number;
+    isMuted: boolean;
+    isSoloed: boolean;
+    automation?: AutomationLane[]; // Stored as JSON in 'automation'
+    modulations?: ModulationRoute[]; // Stored as JSON in 'modulations'
+    // Nested data loaded separately or via joins
+    synth?: SynthData | null;      // Optional: May be loaded with track
+    effects?: EffectData[];      // Optional: May be loaded with track
+    midiBlocks?: MidiBlockData[]; // Optional: May be loaded with track
+}
+
+// Represents the complete, nested structure needed by the application state/UI
+// after loading everything for a single project.
+export interface AppProjectState {
+    projectSettings: ProjectSettings;
+    tracks: TrackData[]; // Should contain fully populated tracks with synth, effects, blocks, notes
+    remoteUpdatedAt?: string; // Latest server `updated_at` among the project's rows, when loaded from Supabase
+}
+
+// Reports the state of work a backend does in the background
+export interface StatusSource<T> {
+    getSnapshot(): T;
+    subscribe(listener: (snapshot: T) => void): () => void; // Returns a function that removes the listener
+}
+
+// Save status, and what to do with writes that kept failing
+export interface SaveStatusSource extends StatusSource<SaveQueueSnapshot> {
+    retryFailed(): void;
+    discardFailed(): void;
+}
+
+// What the store shows until a backend reports otherwise, and for backends that write immediately
+export const IDLE_SAVE_STATUS: SaveQueueSnapshot = { status: 'saved', pendingCount: 0, failedCount: 0, lastError: null };
+export const IDLE_SYNC_STATUS: SyncSnapshot = { status: 'synced', pendingCount: 0, conflicts: [], lastError: null };
+
+export interface PersistenceBackend {
+    // --- Projects ---
+    getProjectList(): Promise<ProjectMetadata[]>;
+    createProject(name: string): Promise<string | null>; // Returns the new project's ID
+    importProject(file: CabinProjectFile, name: string): Promise<string | null>;
+    deleteProject(projectId: string): Promise<boolean>;
+    loadFullProject(projectId: string): Promise<AppProjectState | null>;
+    loadAudioTracks(projectId: string): Promise<AudioTrack[] | null>; // Reads only the settings row, e.g. to find clip files
+
+    // --- Granular saves (upserts) ---
+    saveProjectSettings(settings: ProjectSettings): Promise<boolean>;
+    saveTrack(track: TrackData): Promise<boolean>;
+    saveSynth(synth: SynthData): Promise<boolean>;
+    saveEffect(effect: EffectData): Promise<boolean>;
+    saveMidiBlock(block: Omit<MidiBlockData, 'notes'>): Promise<boolean>;
+    saveMidiNotesBatch(notes: MidiNoteData[], blockId: string): Promise<boolean>;
+
+    // --- Granular deletes (tracks and blocks cascade to their children) ---
+    deleteTrack(trackId: string): Promise<boolean>;
+    deleteEffect(effectId: string): Promise<boolean>;
+    deleteMidiBlock(blockId: string): Promise<boolean>;
+    deleteMidiNote(noteId: string): Promise<boolean>;
+
+    // --- Background work (optional; backends that write immediately leave these out) ---
+    start?(): void; // Begins background work, e.g. sending writes left from a previous session
+    saveStatus?: SaveStatusSource; // Writes accepted but not yet stored
+    syncStatus?: StatusSource<SyncSnapshot>; // Local writes not yet sent to the server
+    resolveConflict?(projectId: string, resolution: SyncConflictResolution): Promise<void>;
+}
@@ -0,0 +1,33 @@
+// src/Persistence/persistence.ts
+
+// The persistence backend the app uses by default. Edits are batched by the save queue,
+// saved to IndexedDB and synced to Supabase in the background, so the editor keeps
+// working offline.
+//
+// The backend is built on first use rather than on import, so modules that import the
+// store (scripts, tests using an InMemoryBackend) don't need Supabase or IndexedDB.
+
+import { IndexedDbAdapter } from '@/Persistence/indexeddb-adapter';
+import { OfflineFirstAdapter } from '@/Persistence/offline-first-adapter';
+import { SyncManager } from '@/Persistence/sync-manager';
+import { supabaseAdapter } from '@/Persistence/supabase-adapter';
+import { SaveQueue } from '@/Persistence/save-queue';
+import type { PersistenceBackend } from '@/Persistence/persistence-backend';
+
+export const createDefaultPersistence = (): PersistenceBackend =>
+    new SaveQueue(new OfflineFirstAdapter(new IndexedDbAdapter(), supabaseAdapter, new SyncManager()));
+
+let defaultBackend: PersistenceBackend | null = null;
+
+// Forwards to the default backend, building it the first time any member is read
+export const persistence: PersistenceBackend = new Proxy({} as PersistenceBackend, {
+    get: (_target, key) => {
+        defaultBackend ??= createDefaultPersistence();
+        const value = Reflect.get(defaultBackend, key);
+        return typeof value === 'function' ? value.bind(defaultBackend) : value;
+    },
+    has: (_target, key) => {
+        defaultBackend ??= createDefaultPersistence();
+        return key in defaultBackend;
+    },
+});
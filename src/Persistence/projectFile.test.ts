@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+import { createProjectFile, parseProjectFile, projectFileToState, toProjectFileName, withNewAudioSourceIds, CABIN_FILE_VERSION } from './projectFile';
+import type { ProjectSettings } from './persistence-backend';
+import type { Track } from '@/lib/types';
+import BasicSynthesizer from '@/lib/synthesizers/BasicSynthesizer';
+import ScaleEffect from '@/lib/effects/ScaleEffect';
+import { DEFAULT_METRONOME_SETTINGS } from '@/lib/Metronome';
+
+const settings: ProjectSettings = {
+    projectId: 'project',
+    bpm: 96,
+    tempoChanges: [{ beat: 16, bpm: 120, curve: 'linear' }],
+    timeSignature: { numerator: 6, denominator: 8 },
+    timeSignatureChanges: [{ measure: 4, numerator: 4, denominator: 4 }],
+    audioOffset: 0.5,
+    audioTracks: [{
+        id: 'stems',
+        name: 'Stems',
+        gain: 0.8,
+        isMuted: false,
+        isSoloed: false,
+        clips: [{ id: 'clip', sourceId: 'source', name: 'Vocals', startBeat: 8, inPoint: 1, outPoint: 5, gain: 1, isMuted: false }],
+    }],
+    audioFile: { name: 'song.mp3', duration: 180, hash: 'abc', storagePath: 'user/project/abc' },
+    uploadAudio: true,
+    metronome: { enabled: true, volume: 0.5, countIn: true },
+    postEffects: [
+        { id: 'bloom', type: 'BloomPostEffect', enabled: true, settings: { intensity: 1.5 } },
+        { id: 'grain', type: 'FilmGrainPostEffect', enabled: false, settings: { amount: 0.2 } },
+    ],
+    postEffectAutomation: [
+        { id: 'grain-amount', target: { type: 'effect', effectId: 'grain' }, propertyName: 'amount', points: [{ beat: 0, value: 0, curve: 'linear' }] },
+    ],
+    midiCCBindings: [{ id: 'binding', channel: 0, controller: 74, trackId: 'track', target: { type: 'synth' }, propertyName: 'volume' }],
+    isPlaying: true,
+    loopEnabled: true,
+    loopStartBeat: 4,
+    loopEndBeat: 12,
+    numMeasures: 8,
+    isInstrumentSidebarVisible: false,
+    selectedWindow: 'timeline',
+};
+
+const createTrack = (): Track => ({
+    id: 'track',
+    name: 'Lead',
+    isMuted: false,
+    isSoloed: true,
+    synthesizer: new BasicSynthesizer(),
+    effects: [new ScaleEffect('effect')],
+    midiBlocks: [{
+        id: 'block',
+        startBeat: 4,
+        endBeat: 8,
+        notes: [{ id: 'note', pitch: 60, startBeat: 1, duration: 0.5, velocity: 80 }],
+    }],
+    automation: [],
+    modulations: [],
+});
+
+describe('projectFile', () => {
+    it('writes settings, tracks and notes without IDs and parses them back', async () => {
+        const file = await createProjectFile('My Song', settings, [createTrack()]);
+        const parsed = parseProjectFile(JSON.stringify(file));
+
+        expect(parsed.version).toBe(CABIN_FILE_VERSION);
+        expect(parsed.name).toBe('My Song');
+        expect(parsed.settings).toEqual({
+            bpm: 96,
+            tempoChanges: settings.tempoChanges,
+            timeSignature: settings.timeSignature,
+            timeSignatureChanges: settings.timeSignatureChanges,
+            audioOffset: 0.5,
+            audioTracks: [{
+                name: 'Stems',
+                gain: 0.8,
+                isMuted: false,
+                isSoloed: false,
+                clips: [{ sourceId: 'source', name: 'Vocals', startBeat: 8, inPoint: 1, outPoint: 5, gain: 1, isMuted: false }],
+            }],
+            postEffects: [
+                { type: 'BloomPostEffect', enabled: true, settings: { intensity: 1.5 } },
+                { type: 'FilmGrainPostEffect', enabled: false, settings: { amount: 0.2 } },
+            ],
+            postEffectAutomation: [{ effectIndex: 1, propertyName: 'amount', points: [{ beat: 0, value: 0, curve: 'linear' }] }],
+            numMeasures: 8,
+            loopEnabled: true,
+            loopStartBeat: 4,
+            loopEndBeat: 12,
+        });
+        expect(parsed.tracks).toHaveLength(1);
+        expect(parsed.tracks[0]).toMatchObject({
+            name: 'Lead',
+            isSoloed: true,
+            synth: { type: 'BasicSynthesizer' },
+            effects: [{ type: 'ScaleEffect' }],
+            midiBlocks: [{ startBeat: 4, endBeat: 8, notes: [{ pitch: 60, startBeat: 1, duration: 0.5, velocity: 80 }] }],
+        });
+        expect(JSON.stringify(parsed)).not.toContain('"id"');
+        expect(parsed.audio).toBeNull();
+    });
+
+    it('turns a parsed file into a new project with fresh IDs', async () => {
+        const file = parseProjectFile(JSON.stringify(await createProjectFile('My Song', settings, [createTrack()])));
+        const state = projectFileToState(file, 'imported');
+
+        expect(state.projectSettings).toMatchObject({
+            projectId: 'imported',
+            bpm: 96,
+            tempoChanges: settings.tempoChanges,
+            timeSignature: settings.timeSignature,
+            audioOffset: 0.5,
+            loopEndBeat: 12,
+            // The imported audio is stored on this device; nothing is uploaded unless the project opts in
+            audioFile: null,
+            uploadAudio: false,
+            metronome: DEFAULT_METRONOME_SETTINGS,
+            midiCCBindings: [],
+            // Playback and layout state isn't carried over
+            isPlaying: false,
+            selectedWindow: null,
+        });
+        const [audioTrack] = state.projectSettings.audioTracks;
+        expect(audioTrack).toMatchObject({ name: 'Stems', clips: [{ sourceId: 'source', startBeat: 8 }] });
+        expect(audioTrack.id).not.toBe('stems');
+        expect(audioTrack.clips[0].id).not.toBe('clip');
+
+        const { postEffects, postEffectAutomation } = state.projectSettings;
+        expect(postEffects.map(postEffect => postEffect.type)).toEqual(['BloomPostEffect', 'FilmGrainPostEffect']);
+        expect(postEffects[1]).toMatchObject({ enabled: false, settings: { amount: 0.2 } });
+        expect(postEffects[1].id).not.toBe('grain');
+        expect(postEffectAutomation).toEqual([
+            expect.objectContaining({ target: { type: 'effect', effectId: postEffects[1].id }, propertyName: 'amount' }),
+        ]);
+
+        const [track] = state.tracks;
+        expect(track).toMatchObject({ projectId: 'imported', name: 'Lead', order: 0, synth: { type: 'BasicSynthesizer', trackId: track.id } });
+        expect(track.id).not.toBe('track');
+        expect(track.effects).toEqual([expect.objectContaining({ trackId: track.id, type: 'ScaleEffect', order: 0 })]);
+        expect(track.midiBlocks?.[0]).toMatchObject({ trackId: track.id, startBeat: 4, endBeat: 8 });
+        expect(track.midiBlocks?.[0].notes?.[0]).toMatchObject({ pitch: 60, startBeat: 1, duration: 0.5, velocity: 80 });
+
+        // Importing the same file again creates separate rows
+        expect(projectFileToState(file, 'again').tracks[0].id).not.toBe(track.id);
+
+        // Files written before the audio offset existed start the audio at 0
+        const { audioOffset, ...olderSettings } = file.settings;
+        expect(audioOffset).toBe(0.5);
+        expect(projectFileToState({ ...file, settings: olderSettings }, 'older').projectSettings.audioOffset).toBe(0);
+    });
+
+    it('points automation at effects by position and back at the new effect IDs', async () => {
+        const points = [{ beat: 0, value: 1, curve: 'linear' as const }, { beat: 4, value: 2, curve: 'linear' as const }];
+        const track: Track = {
+            ...createTrack(),
+            effects: [new ScaleEffect('first'), new ScaleEffect('second')],
+            automation: [
+                { id: 'size', target: { type: 'synth' }, propertyName: 'baseSize', points },
+                { id: 'scale', target: { type: 'effect', effectId: 'second' }, propertyName: 'scale', points },
+                // Its effect was removed, so the lane can't be restored
+                { id: 'orphan', target: { type: 'effect', effectId: 'removed' }, propertyName: 'scale', points },
+            ],
+        };
+        const file = parseProjectFile(JSON.stringify(await createProjectFile('My Song', settings, [track])));
+        expect(file.tracks[0].automation?.map(lane => lane.target)).toEqual([
+            { type: 'synth' },
+            { type: 'effect', effectIndex: 1 },
+        ]);
+
+        const [imported] = projectFileToState(file, 'imported').tracks;
+        expect(imported.automation).toEqual([
+            expect.objectContaining({ target: { type: 'synth' }, propertyName: 'baseSize', points }),
+            expect.objectContaining({ target: { type: 'effect', effectId: imported.effects![1].id }, propertyName: 'scale', points }),
+        ]);
+    });
+
+    it('gives imported clips and their embedded files new source IDs', async () => {
+        const file = {
+            ...await createProjectFile('My Song', settings, []),
+            audioClipSources: [{ sourceId: 'source', name: 'vocals.wav', mimeType: 'audio/wav', dataUrl: 'data:audio/wav;base64,' }],
+        };
+        const { file: renamed, sourceIds } = withNewAudioSourceIds(file);
+
+        const newSourceId = sourceIds.get('source');
+        expect(newSourceId).toBeDefined();
+        expect(newSourceId).not.toBe('source');
+        expect(renamed.settings.audioTracks?.[0].clips[0].sourceId).toBe(newSourceId);
+        expect(renamed.audioClipSources?.map(source => source.sourceId)).toEqual([newSourceId]);
+        // The parsed file itself is left as it was
+        expect(file.settings.audioTracks?.[0].clips[0].sourceId).toBe('source');
+    });
+
+    it('rejects files it cannot read', async () => {
+        const file = await createProjectFile('My Song', settings, [createTrack()]);
+        expect(() => parseProjectFile('not json')).toThrow('not a valid');
+        expect(() => parseProjectFile(JSON.stringify({ ...file, format: 'other' }))).toThrow('not a Cabin Visuals project file');
+        expect(() => parseProjectFile(JSON.stringify({ ...file, version: CABIN_FILE_VERSION + 1 }))).toThrow('Unsupported');
+        expect(() => parseProjectFile(JSON.stringify({ ...file, tracks: undefined }))).toThrow('incomplete');
+    });
+
+    it('makes a safe file name', () => {
+        expect(toProjectFileName('  My: Song / 2 ')).toBe('My-Song-2.cabin');
+        expect(toProjectFileName('???')).toBe('cabin-project.cabin');
+    });
+});
@@ -0,0 +1,451 @@
+// src/Persistence/projectFile.ts
+
+// Portable project files (.cabin): a single versioned JSON document holding everything
+// needed to recreate a project, optionally including the audio file and the files of its audio clips.
+
+import { Track, AudioTrack, TempoChange, TimeSignature, TimeSignatureChange, AutomationLane, AutomationPoint, AutomationTarget, ModulationRoute, ModulationSource } from '@/lib/types';
+import { ProjectSettings, AppProjectState } from '@/Persistence/persistence-backend';
+import { serializeSynth, serializeEffect, createDefaultPostEffectsData } from '@/utils/persistenceUtils';
+import BasicSynthesizer from '@/lib/synthesizers/BasicSynthesizer';
+import { DEFAULT_METRONOME_SETTINGS } from '@/lib/Metronome';
+import { toFileName } from '@/lib/utils';
+import { v4 as uuidv4 } from 'uuid';
+
+export const CABIN_FILE_FORMAT = 'cabin-visuals-project';
+export const CABIN_FILE_VERSION = 1;
+export const CABIN_FILE_EXTENSION = '.cabin';
+
+export interface CabinNoteFileData {
+    startBeat: number; // Relative to the block start
+    duration: number;
+    velocity: number;
+    pitch: number;
+}
+
+export interface CabinBlockFileData {
+    startBeat: number;
+    endBeat: number;
+    notes: CabinNoteFileData[];
+}
+
+// Effects have no IDs in the file, so automation and modulation point at them by position in the chain
+export type CabinTargetFileData = { type: 'synth' } | { type: 'effect'; effectIndex: number };
+
+export interface CabinAutomationLaneFileData {
+    target: CabinTargetFileData;
+    propertyName: string;
+    points: AutomationPoint[];
+}
+
+export interface CabinModulationFileData {
+    target: CabinTargetFileData;
+    propertyName: string;
+    source: ModulationSource;
+    amount: number;
+}
+
+export interface CabinTrackFileData {
+    name: string;
+    isMuted: boolean;
+    isSoloed: boolean;
+    synth: { type: string; settings: Record<string, any> } | null;
+    effects: { type: string; settings: Record<string, any> }[]; // In chain order
+    midiBlocks: CabinBlockFileData[];
+    automation?: CabinAutomationLaneFileData[]; // Missing in files written before automation existed
+    modulations?: CabinModulationFileData[]; // Missing in files written before audio modulation existed
+}
+
+// Clips point at their file by source ID, the key it is stored under on the device
+export interface CabinAudioClipFileData {
+    sourceId: string;
+    name: string;
+    startBeat: number;
+    inPoint: number;
+    outPoint: number;
+    gain: number;
+    isMuted: boolean;
+}
+
+export interface CabinAudioTrackFileData {
+    name: string;
+    gain: number;
+    isMuted: boolean;
+    isSoloed: boolean;
+    clips: CabinAudioClipFileData[];
+}
+
+export interface CabinPostEffectFileData {
+    type: string;
+    enabled: boolean;
+    settings: Record<string, any>;
+}
+
+// Post effects have no IDs in the file either, so their lanes point at them by position in the stack
+export interface CabinPostEffectLaneFileData {
+    effectIndex: number;
+    propertyName: string;
+    points: AutomationPoint[];
+}
+
+export interface CabinSettingsFileData {
+    bpm: number;
+    tempoChanges: TempoChange[];
+    timeSignature: TimeSignature;
+    timeSignatureChanges: TimeSignatureChange[];
+    audioOffset?: number; // Missing in files written before the offset existed
+    audioTracks?: CabinAudioTrackFileData[]; // Missing in files written before audio tracks existed
+    postEffects?: CabinPostEffectFileData[]; // In stack order; missing in files written before the post-processing stack existed
+    postEffectAutomation?: CabinPostEffectLaneFileData[];
+    numMeasures: number;
+    loopEnabled: boolean;
+    loopStartBeat: number | null;
+    loopEndBeat: number | null;
+}
+
+export interface CabinAudioFileData {
+    name: string;
+    mimeType: string;
+    dataUrl: string; // base64 data URL
+}
+
+export interface CabinAudioClipSourceFileData extends CabinAudioFileData {
+    sourceId: string;
+}
+
+// IDs are not stored: importing always creates fresh rows, so a file can be imported any number of times
+export interface CabinProjectFile {
+    format: typeof CABIN_FILE_FORMAT;
+    version: number;
+    exportedAt: string; // ISO timestamp
+    name: string;
+    settings: CabinSettingsFileData;
+    tracks: CabinTrackFileData[];
+    audio: CabinAudioFileData | null;
+    audioClipSources?: CabinAudioClipSourceFileData[]; // Embedded with the audio; missing in older files
+}
+
+const readAsDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error("Failed to read audio file."));
+    reader.readAsDataURL(blob);
+});
+
+// Null when the target effect is gone
+const targetToFileData = (track: Track, target: AutomationTarget): CabinTargetFileData | null => {
+    if (target.type === 'synth') return { type: 'synth' };
+    const effectIndex = (track.effects || []).findIndex(effect => effect.id === target.effectId);
+    return effectIndex === -1 ? null : { type: 'effect', effectIndex };
+};
+
+// Null when the file points past the end of the effect chain
+const targetFromFileData = (target: CabinTargetFileData, effectIds: string[]): AutomationTarget | null => {
+    if (target.type === 'synth') return { type: 'synth' };
+    const effectId = effectIds[target.effectIndex];
+    return effectId ? { type: 'effect', effectId } : null;
+};
+
+// Lanes whose effect is gone are left out
+const automationToFileData = (track: Track): CabinAutomationLaneFileData[] =>
+    (track.automation ?? []).flatMap<CabinAutomationLaneFileData>(lane => {
+        const target = targetToFileData(track, lane.target);
+        return target ? [{ target, propertyName: lane.propertyName, points: lane.points }] : [];
+    });
+
+// Routes whose effect is gone are left out
+const modulationsToFileData = (track: Track): CabinModulationFileData[] =>
+    (track.modulations ?? []).flatMap<CabinModulationFileData>(route => {
+        const target = targetToFileData(track, route.target);
+        return target ? [{ target, propertyName: route.propertyName, source: route.source, amount: route.amount }] : [];
+    });
+
+/**
+ * Turns a track's automation from a project file back into lanes.
+ *
+ * @param automation The lanes stored in the file, if any.
+ * @param effectIds The IDs given to the track's effects, in chain order.
+ * @returns Lanes with fresh IDs; lanes pointing at a missing effect are dropped.
+ */
+export function automationFromFileData(automation: CabinAutomationLaneFileData[] | undefined, effectIds: string[]): AutomationLane[] {
+    return (automation ?? []).flatMap<AutomationLane>(lane => {
+        const target = targetFromFileData(lane.target, effectIds);
+        return target ? [{ id: uuidv4(), target, propertyName: lane.propertyName, points: lane.points }] : [];
+    });
+}
+
+/**
+ * Turns a track's modulation routes from a project file back into routes.
+ *
+ * @param modulations The routes stored in the file, if any.
+ * @param effectIds The IDs given to the track's effects, in chain order.
+ * @returns Routes with fresh IDs; routes pointing at a missing effect are dropped.
+ */
+export function modulationsFromFileData(modulations: CabinModulationFileData[] | undefined, effectIds: string[]): ModulationRoute[] {
+    return (modulations ?? []).flatMap<ModulationRoute>(route => {
+        const target = targetFromFileData(route.target, effectIds);
+        return target ? [{ id: uuidv4(), target, propertyName: route.propertyName, source: route.source, amount: route.amount }] : [];
+    });
+}
+
+const audioTracksToFileData = (audioTracks: AudioTrack[]): CabinAudioTrackFileData[] =>
+    audioTracks.map(track => ({
+        name: track.name,
+        gain: track.gain,
+        isMuted: track.isMuted,
+        isSoloed: track.isSoloed,
+        clips: track.clips.map(clip => ({
+            sourceId: clip.sourceId,
+            name: clip.name,
+            startBeat: clip.startBeat,
+            inPoint: clip.inPoint,
+            outPoint: clip.outPoint,
+            gain: clip.gain,
+            isMuted: clip.isMuted,
+        })),
+    }));
+
+/**
+ * Turns the audio tracks from a project file back into tracks.
+ *
+ * @param audioTracks The audio tracks stored in the file, if any.
+ * @returns Audio tracks and clips with fresh IDs; clips keep their source IDs.
+ */
+export function audioTracksFromFileData(audioTracks: CabinAudioTrackFileData[] | undefined): AudioTrack[] {
+    return (audioTracks ?? []).map(track => ({
+        id: uuidv4(),
+        name: track.name,
+        gain: track.gain,
+        isMuted: track.isMuted,
+        isSoloed: track.isSoloed,
+        clips: track.clips.map(clip => ({ id: uuidv4(), ...clip })),
+    }));
+}
+
+// Lanes whose post effect is gone are left out
+const postEffectAutomationToFileData = (settings: ProjectSettings): CabinPostEffectLaneFileData[] =>
+    settings.postEffectAutomation.flatMap<CabinPostEffectLaneFileData>(lane => {
+        const { target } = lane;
+        const effectIndex = target.type === 'effect'
+            ? settings.postEffects.findIndex(postEffect => postEffect.id === target.effectId)
+            : -1;
+        return effectIndex === -1 ? [] : [{ effectIndex, propertyName: lane.propertyName, points: lane.points }];
+    });
+
+/**
+ * Turns the post-processing stack from a project file back into settings.
+ *
+ * @param settings The settings stored in the file.
+ * @returns Post effects and lanes with fresh IDs. Files without a stack get the default one.
+ */
+export function postEffectsFromFileData(settings: CabinSettingsFileData): Pick<ProjectSettings, 'postEffects' | 'postEffectAutomation'> {
+    if (!settings.postEffects) return { postEffects: createDefaultPostEffectsData(), postEffectAutomation: [] };
+    const postEffects = settings.postEffects.map(postEffect => ({ id: uuidv4(), ...postEffect }));
+    const postEffectAutomation = (settings.postEffectAutomation ?? []).flatMap<AutomationLane>(lane => {
+        const effectId = postEffects[lane.effectIndex]?.id;
+        return effectId ? [{ id: uuidv4(), target: { type: 'effect', effectId }, propertyName: lane.propertyName, points: lane.points }] : [];
+    });
+    return { postEffects, postEffectAutomation };
+}
+
+/**
+ * Builds a project file from live tracks and the project's settings.
+ *
+ * @param name The project name stored in the file.
+ * @param settings The project's settings.
+ * @param tracks The live Track objects, in order.
+ * @param audio Optional audio file to embed.
+ * @param clipAudio Files of the audio clips to embed, by source ID.
+ * @returns The project file, ready to be stringified.
+ */
+export async function createProjectFile(
+    name: string,
+    settings: ProjectSettings,
+    tracks: Track[],
+    audio: Blob | File | null = null,
+    clipAudio: Record<string, Blob | File> = {}
+): Promise<CabinProjectFile> {
+    const fileTracks: CabinTrackFileData[] = tracks.map(track => {
+        const synthData = serializeSynth(track.synthesizer, track.id);
+        return {
+            name: track.name,
+            isMuted: track.isMuted,
+            isSoloed: track.isSoloed,
+            synth: synthData ? { type: synthData.type, settings: synthData.settings } : null,
+            effects: (track.effects || [])
+                .map((effect, index) => serializeEffect(effect, track.id, index))
+                .filter(effectData => effectData !== null)
+                .map(effectData => ({ type: effectData!.type, settings: effectData!.settings })),
+            midiBlocks: track.midiBlocks.map(block => ({
+                startBeat: block.startBeat,
+                endBeat: block.endBeat,
+                notes: block.notes.map(note => ({
+                    startBeat: note.startBeat,
+                    duration: note.duration,
+                    velocity: note.velocity,
+                    pitch: note.pitch,
+                })),
+            })),
+            automation: automationToFileData(track),
+            modulations: modulationsToFileData(track),
+        };
+    });
+
+    return {
+        format: CABIN_FILE_FORMAT,
+        version: CABIN_FILE_VERSION,
+        exportedAt: new Date().toISOString(),
+        name,
+        settings: {
+            bpm: settings.bpm,
+            tempoChanges: settings.tempoChanges,
+            timeSignature: settings.timeSignature,
+            timeSignatureChanges: settings.timeSignatureChanges,
+            audioOffset: settings.audioOffset,
+            audioTracks: audioTracksToFileData(settings.audioTracks),
+            postEffects: settings.postEffects.map(postEffect => ({ type: postEffect.type, enabled: postEffect.enabled, settings: postEffect.settings })),
+            postEffectAutomation: postEffectAutomationToFileData(settings),
+            numMeasures: settings.numMeasures,
+            loopEnabled: settings.loopEnabled,
+            loopStartBeat: settings.loopStartBeat,
+            loopEndBeat: settings.loopEndBeat,
+        },
+        tracks: fileTracks,
+        audio: audio ? {
+            name: audio instanceof File ? audio.name : 'audio',
+            mimeType: audio.type,
+            dataUrl: await readAsDataUrl(audio),
+        } : null,
+        audioClipSources: await Promise.all(Object.entries(clipAudio).map(async ([sourceId, file]) => ({
+            sourceId,
+            name: file instanceof File ? file.name : 'audio',
+            mimeType: file.type,
+            dataUrl: await readAsDataUrl(file),
+        }))),
+    };
+}
+
+/**
+ * Parses and validates the text of a .cabin file.
+ *
+ * @param text The file contents.
+ * @returns The project file.
+ * @throws If the text isn't a project file or was written by a newer version.
+ */
+export function parseProjectFile(text: string): CabinProjectFile {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("The file is not a valid Cabin Visuals project file.");
+    }
+
+    if (!data || data.format !== CABIN_FILE_FORMAT) {
+        throw new Error("The file is not a Cabin Visuals project file.");
+    }
+    if (typeof data.version !== 'number' || data.version > CABIN_FILE_VERSION) {
+        throw new Error(`Unsupported project file version ${data.version}. Please update Cabin Visuals.`);
+    }
+    if (!data.settings || typeof data.settings.bpm !== 'number' || !Array.isArray(data.tracks)) {
+        throw new Error("The project file is incomplete or corrupted.");
+    }
+
+    // Older versions would be upgraded here, one version at a time
+    return data as CabinProjectFile;
+}
+
+/**
+ * Expands a project file into the nested project structure, with fresh IDs for every row.
+ * Tracks without a synth get the default BasicSynthesizer, as on import to Supabase.
+ *
+ * @param file The parsed project file.
+ * @param projectId The ID of the project being created.
+ * @returns The project state, ready to be saved.
+ */
+export function projectFileToState(file: CabinProjectFile, projectId: string): AppProjectState {
+    return {
+        projectSettings: {
+            projectId,
+            ...file.settings,
+            audioOffset: file.settings.audioOffset ?? 0,
+            audioTracks: audioTracksFromFileData(file.settings.audioTracks),
+            audioFile: null, // The imported audio is stored locally and recorded when the project opens
+            uploadAudio: false,
+            metronome: DEFAULT_METRONOME_SETTINGS,
+            midiCCBindings: [], // Bindings refer to track IDs, which are new in the imported project
+            ...postEffectsFromFileData(file.settings),
+            isPlaying: false,
+            isInstrumentSidebarVisible: true,
+            selectedWindow: null,
+        },
+        tracks: file.tracks.map((track, order) => {
+            const trackId = uuidv4();
+            const synth = track.synth ?? serializeSynth(new BasicSynthesizer(), trackId);
+            const effectIds = track.effects.map(() => uuidv4());
+            return {
+                id: trackId,
+                projectId,
+                name: track.name,
+                isMuted: track.isMuted,
+                isSoloed: track.isSoloed,
+                automation: automationFromFileData(track.automation, effectIds),
+                modulations: modulationsFromFileData(track.modulations, effectIds),
+                order,
+                synth: synth ? { trackId, type: synth.type, settings: synth.settings } : null,
+                effects: track.effects.map((effect, effectOrder) => ({
+                    id: effectIds[effectOrder],
+                    trackId,
+                    type: effect.type,
+                    settings: effect.settings,
+                    order: effectOrder,
+                })),
+                midiBlocks: track.midiBlocks.map(block => ({
+                    id: uuidv4(),
+                    trackId,
+                    startBeat: block.startBeat,
+                    endBeat: block.endBeat,
+                    notes: block.notes.map(note => ({ id: uuidv4(), ...note })),
+                })),
+            };
+        }),
+    };
+}
+
+/**
+ * Gives the file's audio clip sources new IDs, so an imported project owns its clip files
+ * and removing them never takes audio away from another project on the device.
+ *
+ * @param file The parsed project file.
+ * @returns The file with new source IDs, and the new ID of each original one.
+ */
+export function withNewAudioSourceIds(file: CabinProjectFile): { file: CabinProjectFile; sourceIds: Map<string, string> } {
+    const sourceIds = new Map<string, string>();
+    const newSourceId = (sourceId: string) => {
+        if (!sourceIds.has(sourceId)) sourceIds.set(sourceId, uuidv4());
+        return sourceIds.get(sourceId)!;
+    };
+    const audioTracks = file.settings.audioTracks?.map(track => ({
+        ...track,
+        clips: track.clips.map(clip => ({ ...clip, sourceId: newSourceId(clip.sourceId) })),
+    }));
+    return {
+        file: {
+            ...file,
+            settings: { ...file.settings, audioTracks },
+            audioClipSources: file.audioClipSources?.map(source => ({ ...source, sourceId: newSourceId(source.sourceId) })),
+        },
+        sourceIds,
+    };
+}
+
+/**
+ * Turns embedded audio back into a File.
+ *
+ * @param audio The embedded audio data.
+ * @returns The audio as a File.
+ */
+export async function projectFileAudioToFile(audio: CabinAudioFileData): Promise<File> {
+    const blob = await (await fetch(audio.dataUrl)).blob();
+    return new File([blob], audio.name, { type: audio.mimeType || blob.type });
+}
+
+export const toProjectFileName = (name: string) => toFileName(name, CABIN_FILE_EXTENSION, 'cabin-project');
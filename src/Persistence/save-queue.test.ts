@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SaveQueue } from './save-queue';
+import { InMemoryBackend } from './in-memory-backend';
+import type { TrackData } from './persistence-backend';
+
+const track = (id: string, name: string): TrackData => ({
+    id, projectId: 'project', name, order: 0, isMuted: false, isSoloed: false,
+});
+
+// Rejects every save of the track named "broken", like a constraint the data can never meet
+class RejectingBackend extends InMemoryBackend {
+    savedTrackNames: string[] = [];
+
+    async saveTrack(data: TrackData): Promise<boolean> {
+        if (data.name === 'broken') throw new Error('violates check constraint');
+        this.savedTrackNames.push(data.name);
+        return super.saveTrack(data);
+    }
+}
+
+describe('SaveQueue', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('sets a write aside after repeated failures so later writes are saved', async () => {
+        const backend = new RejectingBackend();
+        const queue = new SaveQueue(backend);
+
+        await queue.saveTrack(track('a', 'broken'));
+        await queue.saveTrack(track('b', 'fine'));
+        await vi.runAllTimersAsync();
+
+        expect(queue.getSnapshot()).toMatchObject({
+            status: 'failed',
+            pendingCount: 0,
+            failedCount: 1,
+            lastError: 'violates check constraint',
+        });
+        expect(backend.savedTrackNames).toEqual(['fine']);
+
+        queue.discardFailed();
+        expect(queue.getSnapshot()).toMatchObject({ failedCount: 0, lastError: null });
+    });
+
+    it('drops a failed write once a newer save of the same entity succeeds', async () => {
+        const queue = new SaveQueue(new RejectingBackend());
+
+        await queue.saveTrack(track('a', 'broken'));
+        await vi.runAllTimersAsync();
+        expect(queue.getSnapshot().status).toBe('failed');
+
+        await queue.saveTrack(track('a', 'fixed'));
+        await vi.runAllTimersAsync();
+        expect(queue.getSnapshot()).toMatchObject({ status: 'saved', failedCount: 0, lastError: null });
+    });
+});
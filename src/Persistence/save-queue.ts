@@ -0,0 +1,368 @@
+// src/Persistence/save-queue.ts
+
+// Sits in front of a backend and batches writes. Edits are held for a short moment so
+// that a drag or slider sweep becomes one write per entity instead of one per frame.
+//
+// - Writes to the same entity are merged while they wait (the newest data wins).
+// - Writes are sent one at a time, in the order their entities were first touched.
+// - A failed write stays at the head of the queue and is retried with backoff, so
+//   later writes can't overtake it. After MAX_SAVE_ATTEMPTS it is set aside as failed
+//   (see retryFailed and discardFailed), so one write that can never succeed doesn't
+//   hold back every later one.
+//
+// Write methods resolve as soon as the write is queued; results are reported through
+// the queue's status (see subscribe).
+
+import { IDLE_SAVE_STATUS } from '@/Persistence/persistence-backend';
+import type {
+    ProjectMetadata,
+    ProjectSettings,
+    AppProjectState,
+    TrackData,
+    SynthData,
+    EffectData,
+    MidiBlockData,
+    MidiNoteData,
+    PersistenceBackend,
+    SaveStatusSource,
+    StatusSource,
+} from '@/Persistence/persistence-backend';
+import type { CabinProjectFile } from '@/Persistence/projectFile';
+import type { AudioTrack } from '@/lib/types';
+import type { SyncConflictResolution, SyncSnapshot } from '@/Persistence/sync-manager';
+
+const SAVE_DEBOUNCE_MS = 400; // Quiet time before queued writes are sent
+const SAVE_MAX_DELAY_MS = 2000; // Upper bound while edits keep coming
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+const MAX_SAVE_ATTEMPTS = 5; // About half a minute of retries
+
+// 'failed': some writes gave up and are set aside until retried or discarded
+export type SaveStatus = 'saved' | 'saving' | 'retrying' | 'failed';
+
+export interface SaveQueueSnapshot {
+    status: SaveStatus;
+    pendingCount: number;
+    failedCount: number; // Writes set aside after MAX_SAVE_ATTEMPTS
+    lastError: string | null;
+}
+
+interface PendingWrite {
+    key: string; // Entity the write targets, e.g. "block:<id>"
+    op: 'save' | 'delete';
+    payload: any;
+    send: (payload: any) => Promise<boolean>;
+    merge?: (previous: any, next: any) => any; // Combines payloads (default: keep the newest)
+    canMerge?: (previous: any, next: any) => boolean; // Default: always
+    inFlight: boolean;
+    attempts: number;
+}
+
+type NewWrite = Pick<PendingWrite, 'key' | 'op' | 'payload' | 'send' | 'merge' | 'canMerge'>;
+
+// Newer notes replace older ones with the same ID
+const mergeNoteBatches = (previous: { notes: MidiNoteData[]; blockId: string }, next: { notes: MidiNoteData[]; blockId: string }) => {
+    const byId = new Map(previous.notes.map(note => [note.id, note]));
+    next.notes.forEach(note => byId.set(note.id, note));
+    return { blockId: next.blockId, notes: Array.from(byId.values()) };
+};
+
+export class SaveQueue implements PersistenceBackend {
+    private queue: PendingWrite[] = [];
+    private failed: PendingWrite[] = []; // Writes that gave up, in queue order
+    private listeners = new Set<(snapshot: SaveQueueSnapshot) => void>();
+    private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private firstPendingAt: number | null = null;
+    private drainPromise: Promise<void> | null = null;
+    private started = false;
+    private snapshot: SaveQueueSnapshot = IDLE_SAVE_STATUS;
+
+    constructor(private backend: PersistenceBackend) {}
+
+    /**
+     * Sends queued writes when the page is hidden and warns before closing it with unsaved edits.
+     */
+    start() {
+        this.backend.start?.();
+        if (this.started || typeof window === 'undefined') return;
+        this.started = true;
+        document.addEventListener('visibilitychange', this.handleVisibilityChange);
+        window.addEventListener('beforeunload', this.handleBeforeUnload);
+    }
+
+    stop() {
+        if (!this.started) return;
+        this.started = false;
+        document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+        window.removeEventListener('beforeunload', this.handleBeforeUnload);
+    }
+
+    // The queue reports its own status; sync status and conflicts belong to the backend behind it
+    get saveStatus(): SaveStatusSource {
+        return this;
+    }
+
+    get syncStatus(): StatusSource<SyncSnapshot> | undefined {
+        return this.backend.syncStatus;
+    }
+
+    async resolveConflict(projectId: string, resolution: SyncConflictResolution): Promise<void> {
+        await this.backend.resolveConflict?.(projectId, resolution);
+    }
+
+    getSnapshot(): SaveQueueSnapshot {
+        return this.snapshot;
+    }
+
+    /**
+     * Registers a listener for status changes.
+     * @returns A function that removes the listener.
+     */
+    subscribe(listener: (snapshot: SaveQueueSnapshot) => void): () => void {
+        this.listeners.add(listener);
+        listener(this.snapshot);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Puts the writes that gave up back at the head of the queue and sends them again.
+     */
+    retryFailed(): void {
+        if (this.failed.length === 0) return;
+        this.queue.unshift(...this.failed.map(write => ({ ...write, attempts: 0 })));
+        this.failed = [];
+        this.updateSnapshot({ status: 'saving', lastError: null });
+        void this.flush();
+    }
+
+    /**
+     * Drops the writes that gave up. Their changes stay in the editor until it is reloaded.
+     */
+    discardFailed(): void {
+        if (this.failed.length === 0) return;
+        this.failed = [];
+        this.updateSnapshot({ status: this.queue.length > 0 ? 'saving' : 'saved', lastError: null });
+    }
+
+    /**
+     * Sends everything queued right away, skipping the debounce and any retry wait.
+     * Resolves when the queue is empty or a write failed again.
+     */
+    flush(): Promise<void> {
+        this.clearTimers();
+        return this.drain();
+    }
+
+    // --- Reads and project-level operations go straight to the backend ---
+
+    getProjectList(): Promise<ProjectMetadata[]> {
+        return this.backend.getProjectList();
+    }
+
+    createProject(name: string): Promise<string | null> {
+        return this.backend.createProject(name);
+    }
+
+    importProject(file: CabinProjectFile, name: string): Promise<string | null> {
+        return this.backend.importProject(file, name);
+    }
+
+    async deleteProject(projectId: string): Promise<boolean> {
+        await this.flush();
+        return this.backend.deleteProject(projectId);
+    }
+
+    async loadFullProject(projectId: string): Promise<AppProjectState | null> {
+        // Queued edits must land first, or the load would return stale data
+        await this.flush();
+        return this.backend.loadFullProject(projectId);
+    }
+
+    async loadAudioTracks(projectId: string): Promise<AudioTrack[] | null> {
+        await this.flush();
+        return this.backend.loadAudioTracks(projectId);
+    }
+
+    // --- Queued writes ---
+
+    saveProjectSettings(settings: ProjectSettings): Promise<boolean> {
+        return this.enqueue({ key: `settings:${settings.projectId}`, op: 'save', payload: settings, send: p => this.backend.saveProjectSettings(p) });
+    }
+
+    saveTrack(track: TrackData): Promise<boolean> {
+        return this.enqueue({ key: `track:${track.id}`, op: 'save', payload: track, send: p => this.backend.saveTrack(p) });
+    }
+
+    saveSynth(synth: SynthData): Promise<boolean> {
+        return this.enqueue({ key: `synth:${synth.trackId}`, op: 'save', payload: synth, send: p => this.backend.saveSynth(p) });
+    }
+
+    saveEffect(effect: EffectData): Promise<boolean> {
+        return this.enqueue({ key: `effect:${effect.id}`, op: 'save', payload: effect, send: p => this.backend.saveEffect(p) });
+    }
+
+    saveMidiBlock(block: Omit<MidiBlockData, 'notes'>): Promise<boolean> {
+        return this.enqueue({
+            key: `block:${block.id}`,
+            op: 'save',
+            payload: block,
+            send: p => this.backend.saveMidiBlock(p),
+            // A block moved to another track must not be saved before that track is
+            canMerge: (previous, next) => previous.trackId === next.trackId,
+        });
+    }
+
+    saveMidiNotesBatch(notes: MidiNoteData[], blockId: string): Promise<boolean> {
+        return this.enqueue({
+            key: `notes:${blockId}`,
+            op: 'save',
+            payload: { notes, blockId },
+            send: p => this.backend.saveMidiNotesBatch(p.notes, p.blockId),
+            merge: mergeNoteBatches,
+        });
+    }
+
+    deleteTrack(trackId: string): Promise<boolean> {
+        return this.enqueue({ key: `track:${trackId}`, op: 'delete', payload: trackId, send: id => this.backend.deleteTrack(id) });
+    }
+
+    deleteEffect(effectId: string): Promise<boolean> {
+        return this.enqueue({ key: `effect:${effectId}`, op: 'delete', payload: effectId, send: id => this.backend.deleteEffect(id) });
+    }
+
+    deleteMidiBlock(blockId: string): Promise<boolean> {
+        return this.enqueue({ key: `block:${blockId}`, op: 'delete', payload: blockId, send: id => this.backend.deleteMidiBlock(id) });
+    }
+
+    deleteMidiNote(noteId: string): Promise<boolean> {
+        return this.enqueue({ key: `note:${noteId}`, op: 'delete', payload: noteId, send: id => this.backend.deleteMidiNote(id) });
+    }
+
+    private enqueue(write: NewWrite): Promise<boolean> {
+        // Deletes are always queued as-is. Dropping earlier saves of the deleted entity would
+        // break writes that depend on it (e.g. a block saved onto a new track).
+        const existing = write.op === 'save' ? this.findMergeTarget(write) : null;
+        if (existing) {
+            existing.payload = write.merge ? write.merge(existing.payload, write.payload) : write.payload;
+        } else {
+            this.queue.push({ ...write, inFlight: false, attempts: 0 });
+        }
+
+        this.firstPendingAt = this.firstPendingAt ?? Date.now();
+        this.scheduleDrain();
+        this.updateSnapshot({ status: this.snapshot.status === 'retrying' ? 'retrying' : 'saving' });
+        return Promise.resolve(true);
+    }
+
+    // The latest waiting save of the same entity can absorb new data, unless a delete was
+    // queued after it (merging would move the new data in front of that delete)
+    private findMergeTarget(write: NewWrite): PendingWrite | null {
+        for (let i = this.queue.length - 1; i >= 0; i--) {
+            const pending = this.queue[i];
+            if (pending.op === 'delete') return null;
+            if (pending.key === write.key) {
+                const mergeable = !pending.inFlight && (write.canMerge?.(pending.payload, write.payload) ?? true);
+                return mergeable ? pending : null;
+            }
+        }
+        return null;
+    }
+
+    private scheduleDrain() {
+        // A failed write is waiting for its retry; new writes go out with it
+        if (this.retryTimer) return;
+        if (this.debounceTimer) clearTimeout(this.debounceTimer);
+        const maxWait = Math.max(0, this.firstPendingAt! + SAVE_MAX_DELAY_MS - Date.now());
+        this.debounceTimer = setTimeout(() => {
+            this.debounceTimer = null;
+            void this.drain();
+        }, Math.min(SAVE_DEBOUNCE_MS, maxWait));
+    }
+
+    private drain(): Promise<void> {
+        if (!this.drainPromise) {
+            this.drainPromise = this.runDrain().finally(() => {
+                this.drainPromise = null;
+            });
+        }
+        return this.drainPromise;
+    }
+
+    private async runDrain(): Promise<void> {
+        while (this.queue.length > 0) {
+            const write = this.queue[0];
+            write.inFlight = true;
+            let error: string | null = null;
+            const ok = await write.send(write.payload).catch(err => {
+                error = err instanceof Error ? err.message : String(err);
+                return false;
+            });
+            write.inFlight = false;
+
+            if (!ok) {
+                write.attempts++;
+                const message = error ?? `Failed to save ${write.key}.`;
+                if (write.attempts < MAX_SAVE_ATTEMPTS) {
+                    this.scheduleRetry(write.attempts);
+                    this.updateSnapshot({ status: 'retrying', lastError: message });
+                    return;
+                }
+                console.error(`SaveQueue: Giving up on ${write.op} ${write.key} after ${write.attempts} attempts.`, message);
+                this.queue.shift();
+                this.failed.push(write);
+                this.updateSnapshot({ lastError: message });
+                continue;
+            }
+            this.queue.shift();
+            // A newer write of the same entity supersedes one that gave up (unless writes are merged, like note batches)
+            this.failed = this.failed.filter(failed => failed.key !== write.key || !!failed.merge);
+            this.updateSnapshot({});
+        }
+        this.firstPendingAt = null;
+        this.updateSnapshot({ status: 'saved', lastError: null });
+    }
+
+    private scheduleRetry(attempts: number) {
+        const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+        console.warn(`SaveQueue: Save failed, retrying in ${delay / 1000}s.`);
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            void this.drain();
+        }, delay);
+    }
+
+    private clearTimers() {
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+            this.debounceTimer = null;
+        }
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+    }
+
+    private handleVisibilityChange = () => {
+        if (document.visibilityState === 'hidden' && this.queue.length > 0) void this.flush();
+    };
+
+    private handleBeforeUnload = (event: BeforeUnloadEvent) => {
+        if (this.queue.length === 0) return;
+        void this.flush();
+        event.preventDefault(); // Asks the browser to confirm leaving with unsaved edits
+    };
+
+    private updateSnapshot(changes: Partial<SaveQueueSnapshot>) {
+        const next = { ...this.snapshot, ...changes, pendingCount: this.queue.length, failedCount: this.failed.length };
+        // Writes that gave up stay visible until they are retried or discarded
+        if (this.failed.length > 0) {
+            next.status = 'failed';
+            next.lastError = changes.lastError ?? this.snapshot.lastError;
+        }
+        if (next.status === this.snapshot.status && next.pendingCount === this.snapshot.pendingCount
+            && next.failedCount === this.snapshot.failedCount && next.lastError === this.snapshot.lastError) return;
+        this.snapshot = next;
+        this.listeners.forEach(listener => listener(this.snapshot));
+    }
+}
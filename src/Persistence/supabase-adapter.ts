@@ -0,0 +1,26 @@
+// src/Persistence/supabase-adapter.ts
+
+// Talks to Supabase directly. Used on its own when online-only, and as the remote
+// side of the offline-first adapter.
+
+import * as supabaseService from '@/Persistence/supabase-service';
+import type { PersistenceBackend } from '@/Persistence/persistence-backend';
+
+export const supabaseAdapter: PersistenceBackend = {
+    getProjectList: supabaseService.getSupabaseProjectList,
+    createProject: supabaseService.createSupabaseProject,
+    importProject: supabaseService.importSupabaseProject,
+    deleteProject: supabaseService.deleteSupabaseProject,
+    loadFullProject: supabaseService.loadFullProjectFromSupabase,
+    loadAudioTracks: supabaseService.loadSupabaseAudioTracks,
+    saveProjectSettings: supabaseService.saveProjectSettings,
+    saveTrack: supabaseService.saveTrack,
+    saveSynth: supabaseService.saveSynth,
+    saveEffect: supabaseService.saveEffect,
+    saveMidiBlock: supabaseService.saveMidiBlock,
+    saveMidiNotesBatch: supabaseService.saveMidiNotesBatch,
+    deleteTrack: supabaseService.deleteTrack,
+    deleteEffect: supabaseService.deleteEffect,
+    deleteMidiBlock: supabaseService.deleteMidiBlock,
+    deleteMidiNote: supabaseService.deleteMidiNote,
+};
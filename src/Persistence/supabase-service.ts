@@ -5,88 +5,31 @@ import { createClient } from '@/utils/supabase/client';
 import { synthesizerConstructors, effectConstructors, synthIdByConstructor, effectIdByConstructor } from '@/store/store';
 import { v4 as uuidv4 } from 'uuid';
 import BasicSynthesizer from '@/lib/synthesizers/BasicSynthesizer';
-import { serializeSynth } from '@/utils/persistenceUtils';
-
-// Define TypeScript interfaces representing the structure of your application's data.
-// These should match how data is used in Zustand and UI components (e.g., using camelCase).
-export interface ProjectMetadata {
-    id: string;
-    name: string;
-    updated_at?: string; // Optional: for display/sorting
-}
-
-export interface ProjectSettings {
-    projectId: string; // Matches Supabase 'project_id' but camelCase here
-    bpm: number;
-    isPlaying: boolean;
-    loopEnabled: boolean;
-    loopStartBeat: number | null;
-    loopEndBeat: number | null;
-    numMeasures: number;
-    isInstrumentSidebarVisible: boolean;
-    selectedWindow: string | null;
-    // Note: user_id is not usually needed in the client-side settings object
-    // Note: updated_at is usually handled automatically
-}
-
-export interface MidiNoteData {
-    id: string; // UUID from Supabase
-    // blockId: string; // Often implicit from context when operating on notes
-    startBeat: number;
-    duration: number;
-    velocity: number;
-    pitch: number;
-}
-
-export interface MidiBlockData {
-    id: string; // UUID from Supabase
-    trackId: string;
-    startBeat: number;
-    endBeat: number;
-    notes: MidiNoteData[]; // Notes associated with this block
-}
-
-export interface EffectData {
-    id: string; // UUID from Supabase
-    trackId: string;
-    type: string;
-    settings: Record<string, any>; // Use Record or a more specific type
-    order: number;
-}
-
-export interface SynthData {
-    trackId: string; // PK in Supabase is track_id
-    type: string;
-    settings: Record<string, any>;
-}
-
-export interface TrackData {
-    id: string; // UUID from Supabase
-    projectId: string;
-    name: string;
-    order: number;
-    isMuted: boolean;
-    isSoloed: boolean;
-    // Nested data loaded separately or via joins
-    synth?: SynthData | null;      // Optional: May be loaded with track
-    effects?: EffectData[];      // Optional: May be loaded with track
-    midiBlocks?: MidiBlockData[]; // Optional: May be loaded with track
-}
-
-// Represents the complete, nested structure needed by the application state/UI
-// after loading everything for a single project.
-export interface AppProjectState {
-    projectSettings: ProjectSettings;
-    tracks: TrackData[]; // Should contain fully populated tracks with synth, effects, blocks, notes
-}
+import { DEFAULT_METRONOME_SETTINGS } from '@/lib/Metronome';
+import type { AudioTrack } from '@/lib/types';
+import { serializeSynth, createDefaultPostEffectsData } from '@/utils/persistenceUtils';
+import { audioTracksFromFileData, automationFromFileData, modulationsFromFileData, postEffectsFromFileData, type CabinProjectFile } from '@/Persistence/projectFile';
+
+import type {
+    ProjectMetadata,
+    ProjectSettings,
+    MidiNoteData,
+    MidiBlockData,
+    EffectData,
+    SynthData,
+    TrackData,
+    AppProjectState,
+} from '@/Persistence/persistence-backend';
 
 // Create a Supabase client instance.
 // For client components/services, use the client-side helper.
-const supabase = createClient();
+// Created on first use, so importing this module works without Supabase configured
+let supabaseClient: ReturnType<typeof createClient> | null = null;
+const getSupabase = () => supabaseClient ??= createClient();
 
 // Helper function to get current user ID (avoids repetition)
 async function getUserId(): Promise<string | null> {
-    const { data: { user } } = await supabase.auth.getUser();
+    const { data: { user } } = await getSupabase().auth.getUser();
     return user?.id ?? null;
 }
 
@@ -97,7 +40,7 @@ export async function getSupabaseProjectList(): Promise<ProjectMetadata[]> {
         return [];
     }
 
-    const { data, error } = await supabase
+    const { data, error } = await getSupabase()
         .from('projects')
         .select('id, name, updated_at') // Select needed columns
         .eq('user_id', userId)         // Filter by this user
@@ -131,7 +74,7 @@ export async function createSupabaseProject(name: string): Promise<string | null
 
     try {
         // First, create the project
-        const { data: projectData, error: projectError } = await supabase
+        const { data: projectData, error: projectError } = await getSupabase()
             .from('projects')
             .insert({ user_id: userId, name: projectName })
             .select('id')
@@ -145,7 +88,7 @@ export async function createSupabaseProject(name: string): Promise<string | null
         const projectId = projectData.id;
 
         // Then, create the default settings
-        const { error: settingsError } = await supabase
+        const { error: settingsError } = await getSupabase()
             .from('project_settings')
             .insert({
                 project_id: projectId,
@@ -160,7 +103,7 @@ export async function createSupabaseProject(name: string): Promise<string | null
         if (settingsError) {
             console.error("Error creating project settings:", settingsError);
             // Clean up the project if settings creation failed
-            await supabase.from('projects').delete().eq('id', projectId);
+            await getSupabase().from('projects').delete().eq('id', projectId);
             return null;
         }
 
@@ -169,7 +112,7 @@ export async function createSupabaseProject(name: string): Promise<string | null
         const blockId = uuidv4();
 
         // Create the track
-        const { error: trackError } = await supabase
+        const { error: trackError } = await getSupabase()
             .from('tracks')
             .insert({
                 id: trackId,
@@ -184,7 +127,7 @@ export async function createSupabaseProject(name: string): Promise<string | null
         if (trackError) {
             console.error("Error creating initial track:", trackError);
             // Clean up if track creation failed
-            await supabase.from('projects').delete().eq('id', projectId);
+            await getSupabase().from('projects').delete().eq('id', projectId);
             return null;
         }
 
@@ -193,7 +136,7 @@ export async function createSupabaseProject(name: string): Promise<string | null
         const synthData = serializeSynth(defaultSynth, trackId);
         
         if (synthData) {
-            const { error: synthError } = await supabase
+            const { error: synthError } = await getSupabase()
                 .from('track_synths')
                 .insert({
                     track_id: trackId,
@@ -205,13 +148,13 @@ export async function createSupabaseProject(name: string): Promise<string | null
             if (synthError) {
                 console.error("Error creating initial synthesizer:", synthError);
                 // Clean up if synth creation failed
-                await supabase.from('projects').delete().eq('id', projectId);
+                await getSupabase().from('projects').delete().eq('id', projectId);
                 return null;
             }
         }
 
         // Create the MIDI block starting at beat 0, ending at beat 4
-        const { error: blockError } = await supabase
+        const { error: blockError } = await getSupabase()
             .from('midi_blocks')
             .insert({
                 id: blockId,
@@ -224,7 +167,7 @@ export async function createSupabaseProject(name: string): Promise<string | null
         if (blockError) {
             console.error("Error creating initial MIDI block:", blockError);
             // Clean up if block creation failed
-            await supabase.from('projects').delete().eq('id', projectId);
+            await getSupabase().from('projects').delete().eq('id', projectId);
             return null;
         }
 
@@ -246,14 +189,14 @@ export async function createSupabaseProject(name: string): Promise<string | null
             pitch: note.pitch
         }));
 
-        const { error: notesError } = await supabase
+        const { error: notesError } = await getSupabase()
             .from('midi_notes')
             .insert(notesToInsert);
 
         if (notesError) {
             console.error("Error creating initial MIDI notes:", notesError);
             // Clean up if notes creation failed
-            await supabase.from('projects').delete().eq('id', projectId);
+            await getSupabase().from('projects').delete().eq('id', projectId);
             return null;
         }
 
@@ -265,6 +208,92 @@ export async function createSupabaseProject(name: string): Promise<string | null
     }
 }
 
+/**
+ * Creates a new project from a .cabin project file, with fresh IDs for every row.
+ * Returns the new project's UUID on success, or null on failure.
+ */
+export async function importSupabaseProject(file: CabinProjectFile, name: string): Promise<string | null> {
+    const userId = await getUserId();
+    if (!userId) {
+        console.error("importSupabaseProject: User not logged in.");
+        return null;
+    }
+
+    const projectName = name || file.name || 'Imported Project';
+    console.log(`Importing project '${projectName}' into Supabase...`);
+
+    const { data: projectData, error: projectError } = await getSupabase()
+        .from('projects')
+        .insert({ user_id: userId, name: projectName })
+        .select('id')
+        .single();
+
+    if (projectError || !projectData) {
+        console.error("Error creating project for import:", projectError);
+        return null;
+    }
+    const projectId: string = projectData.id;
+
+    try {
+        const settingsSaved = await saveProjectSettings({
+            projectId,
+            ...file.settings,
+            audioOffset: file.settings.audioOffset ?? 0,
+            audioTracks: audioTracksFromFileData(file.settings.audioTracks),
+            audioFile: null, // The imported audio is stored locally and recorded when the project opens
+            uploadAudio: false,
+            metronome: DEFAULT_METRONOME_SETTINGS,
+            midiCCBindings: [], // Bindings refer to track IDs, which are new in the imported project
+            ...postEffectsFromFileData(file.settings),
+            isPlaying: false,
+            isInstrumentSidebarVisible: true,
+            selectedWindow: null,
+        });
+        if (!settingsSaved) throw new Error("Failed to save project settings.");
+
+        for (const [order, track] of file.tracks.entries()) {
+            const trackId = uuidv4();
+            const effectIds = track.effects.map(() => uuidv4());
+            const trackSaved = await saveTrack({
+                id: trackId,
+                projectId,
+                name: track.name,
+                isMuted: track.isMuted,
+                isSoloed: track.isSoloed,
+                automation: automationFromFileData(track.automation, effectIds),
+                modulations: modulationsFromFileData(track.modulations, effectIds),
+                order,
+            });
+            if (!trackSaved) throw new Error(`Failed to save track "${track.name}".`);
+
+            const synth = track.synth ?? serializeSynth(new BasicSynthesizer(), trackId);
+            if (synth) {
+                await saveSynth({ trackId, type: synth.type, settings: synth.settings });
+            }
+
+            for (const [effectOrder, effect] of track.effects.entries()) {
+                await saveEffect({ id: effectIds[effectOrder], trackId, type: effect.type, settings: effect.settings, order: effectOrder });
+            }
+
+            for (const block of track.midiBlocks) {
+                const blockId = uuidv4();
+                await saveMidiBlock({ id: blockId, trackId, startBeat: block.startBeat, endBeat: block.endBeat });
+                if (block.notes.length > 0) {
+                    await saveMidiNotesBatch(block.notes.map(note => ({ id: uuidv4(), ...note })), blockId);
+                }
+            }
+        }
+    } catch (error) {
+        console.error("Error importing project into Supabase:", error);
+        // Don't leave a half-imported project behind
+        await getSupabase().from('projects').delete().eq('id', projectId);
+        return null;
+    }
+
+    console.log(`Successfully imported project ${projectId} with ${file.tracks.length} track(s).`);
+    return projectId;
+}
+
 export async function deleteSupabaseProject(projectId: string): Promise<boolean> {
     const userId = await getUserId();
     if (!userId) {
@@ -274,7 +303,7 @@ export async function deleteSupabaseProject(projectId: string): Promise<boolean>
 
     console.log(`Deleting Supabase project ${projectId}...`);
     // RLS policy ensures only the owner can perform this delete.
-    const { error } = await supabase
+    const { error } = await getSupabase()
         .from('projects')
         .delete()
         .eq('id', projectId);
@@ -289,6 +318,41 @@ export async function deleteSupabaseProject(projectId: string): Promise<boolean>
 }
 
 
+// Latest `updated_at` among a loaded row and the rows nested in it. These come from the
+// server's clock, so remote edits made after the load always compare as newer.
+function getLatestUpdatedAt(row: unknown): string | null {
+    if (!row || typeof row !== 'object') return null;
+    const updatedAt = (row as Record<string, unknown>).updated_at;
+    let latest = typeof updatedAt === 'string' ? updatedAt : null;
+    for (const value of Object.values(row)) {
+        const nested = getLatestUpdatedAt(value);
+        if (nested && (!latest || Date.parse(nested) > Date.parse(latest))) latest = nested;
+    }
+    return latest;
+}
+
+/**
+ * Loads a project's audio tracks from its settings row, without loading the rest of the project.
+ * Returns null if the project is not found or the query fails.
+ */
+export async function loadSupabaseAudioTracks(projectId: string): Promise<AudioTrack[] | null> {
+    const userId = await getUserId();
+    if (!userId) {
+         console.warn("loadSupabaseAudioTracks: User not logged in.");
+         return null;
+    }
+    const { data, error } = await getSupabase()
+        .from('project_settings')
+        .select('audio_tracks')
+        .eq('project_id', projectId)
+        .maybeSingle();
+    if (error || !data) {
+        if (error) console.error(`Error loading audio tracks for project ${projectId}:`, error);
+        return null;
+    }
+    return (data.audio_tracks as AudioTrack[] | null) ?? [];
+}
+
 /**
  * Loads a complete project state (including settings, tracks, synths, effects, blocks, notes)
  * from Supabase for a given project ID. Performs necessary data transformation.
@@ -302,21 +366,21 @@ export async function loadFullProjectFromSupabase(projectId: string): Promise<Ap
     }
 
     console.log(`Loading full project ${projectId} from Supabase...`);
-    const { data: dbData, error } = await supabase
+    const { data: dbData, error } = await getSupabase()
         .from('projects') // Start query from the 'projects' table
         .select(`
-            id, name,
+            *,
             project_settings ( * ),
             tracks (
-                id, name, project_id, is_muted, is_soloed, "order",
+                *,
                 track_synths ( * ),
                 track_effects ( *, "order" ),
                 midi_blocks (
-                    id, track_id, start_beat, end_beat,
+                    *,
                     midi_notes ( * )
                 )
             )
-        `) // Define the nested structure and columns to retrieve
+        `) // Whole rows, so each table's updated_at (where it has one) is included for conflict checks
         .eq('id', projectId) // Filter for the specific project
         // .eq('user_id', userId) // RLS handles this, but redundant check is ok
         .maybeSingle(); // Important: returns null if no matching row found (0 results), errors only for >1 result
@@ -346,6 +410,20 @@ export async function loadFullProjectFromSupabase(projectId: string): Promise<Ap
         const transformedSettings: ProjectSettings = {
              projectId: dbData.id, // Use the main project ID
              bpm: settingsData.bpm,
+             tempoChanges: settingsData.tempo_changes ?? [],
+             timeSignature: {
+                 numerator: settingsData.time_signature_numerator ?? 4,
+                 denominator: settingsData.time_signature_denominator ?? 4,
+             },
+             timeSignatureChanges: settingsData.time_signature_changes ?? [],
+             audioOffset: settingsData.audio_offset ?? 0,
+             audioTracks: settingsData.audio_tracks ?? [],
+             audioFile: settingsData.audio_file ?? null,
+             uploadAudio: settingsData.upload_audio ?? false,
+             metronome: settingsData.metronome ?? DEFAULT_METRONOME_SETTINGS,
+             midiCCBindings: settingsData.midi_cc_bindings ?? [],
+             postEffects: settingsData.post_effects ?? createDefaultPostEffectsData(),
+             postEffectAutomation: settingsData.post_effect_automation ?? [],
              isPlaying: settingsData.is_playing,
              loopEnabled: settingsData.loop_enabled,
              loopStartBeat: settingsData.loop_start_beat,
@@ -410,6 +488,8 @@ export async function loadFullProjectFromSupabase(projectId: string): Promise<Ap
                      name: track.name,
                      isMuted: track.is_muted,
                      isSoloed: track.is_soloed,
+                     automation: track.automation ?? [],
+                     modulations: track.modulations ?? [],
                      order: track.order,
                      synth: transformedSynth,
                      effects: transformedEffects,
@@ -459,7 +539,8 @@ export async function loadFullProjectFromSupabase(projectId: string): Promise<Ap
 
         const transformedState: AppProjectState = {
              projectSettings: transformedSettings,
-             tracks: transformedTracks
+             tracks: transformedTracks,
+             remoteUpdatedAt: getLatestUpdatedAt(dbData) ?? undefined,
         };
 
         console.log("Transformed project state:", transformedState);
@@ -488,6 +569,18 @@ export async function saveProjectSettings(settings: ProjectSettings): Promise<bo
         project_id: settings.projectId, // The primary key for upsert
         user_id: userId,                // Include user_id for RLS checks
         bpm: settings.bpm,
+        tempo_changes: settings.tempoChanges,
+        time_signature_numerator: settings.timeSignature.numerator,
+        time_signature_denominator: settings.timeSignature.denominator,
+        time_signature_changes: settings.timeSignatureChanges,
+        audio_offset: settings.audioOffset,
+        audio_tracks: settings.audioTracks,
+        audio_file: settings.audioFile,
+        upload_audio: settings.uploadAudio,
+        metronome: settings.metronome,
+        midi_cc_bindings: settings.midiCCBindings,
+        post_effects: settings.postEffects,
+        post_effect_automation: settings.postEffectAutomation,
         is_playing: settings.isPlaying,
         loop_enabled: settings.loopEnabled,
         loop_start_beat: settings.loopStartBeat,
@@ -499,7 +592,7 @@ export async function saveProjectSettings(settings: ProjectSettings): Promise<bo
     };
 
     // upsert = insert if project_id doesn't exist, update if it does
-    const { error } = await supabase.from('project_settings').upsert(dbData);
+    const { error } = await getSupabase().from('project_settings').upsert(dbData);
 
     if (error) {
         console.error("Error saving project settings to Supabase:", error);
@@ -520,9 +613,11 @@ export async function saveTrack(track: TrackData): Promise<boolean> {
         name: track.name,
         is_muted: track.isMuted,
         is_soloed: track.isSoloed,
+        automation: track.automation ?? [],
+        modulations: track.modulations ?? [],
         "order": track.order
     };
-    const { error } = await supabase.from('tracks').upsert(dbData);
+    const { error } = await getSupabase().from('tracks').upsert(dbData);
     if (error) { console.error(`Error saving track ${track.id}:`, error); return false; }
     console.log(`Track ${track.id} saved.`); return true;
 }
@@ -538,7 +633,7 @@ export async function saveSynth(synth: SynthData): Promise<boolean> {
         settings: synth.settings
     };
     try { console.log('[DEBUG] saveSynth payload:', dbData); } catch {}
-    const { error } = await supabase.from('track_synths').upsert(dbData);
+    const { error } = await getSupabase().from('track_synths').upsert(dbData);
     if (error) { console.error(`Error saving synth for track ${synth.trackId}:`, error); return false; }
     console.log(`Synth for track ${synth.trackId} saved.`); return true;
 }
@@ -555,7 +650,7 @@ export async function saveEffect(effect: EffectData): Promise<boolean> {
         settings: effect.settings,
         "order": effect.order
     };
-    const { error } = await supabase.from('track_effects').upsert(dbData);
+    const { error } = await getSupabase().from('track_effects').upsert(dbData);
     if (error) { console.error(`Error saving effect ${effect.id}:`, error); return false; }
     console.log(`Effect ${effect.id} saved.`); return true;
 }
@@ -571,7 +666,7 @@ export async function saveMidiBlock(block: Omit<MidiBlockData, 'notes'>): Promis
         start_beat: block.startBeat,
         end_beat: block.endBeat
     };
-    const { error } = await supabase.from('midi_blocks').upsert(dbData);
+    const { error } = await getSupabase().from('midi_blocks').upsert(dbData);
     if (error) { console.error(`Error saving MIDI block ${block.id}:`, error); return false; }
     console.log(`MIDI block ${block.id} saved.`); return true;
 }
@@ -591,7 +686,7 @@ export async function saveMidiNotesBatch(notes: MidiNoteData[], blockId: string)
     }));
     // console.log(`DEBUG: dbData being sent to Supabase:`, JSON.stringify(dbData, null, 2));
     // Upsert multiple notes in one go
-    const { error } = await supabase.from('midi_notes').upsert(dbData);
+    const { error } = await getSupabase().from('midi_notes').upsert(dbData);
     if (error) {
         console.error(`Error saving notes batch for block ${blockId}:`, error);
         // console.error(`Full error details:`, JSON.stringify(error, null, 2));
@@ -605,7 +700,7 @@ export async function deleteTrack(trackId: string): Promise<boolean> {
     const userId = await getUserId();
     if (!userId) return false;
     console.log(`Deleting track ${trackId} from Supabase...`);
-    const { error } = await supabase
+    const { error } = await getSupabase()
         .from('tracks')
         .delete()
         .eq('id', trackId)
@@ -620,7 +715,7 @@ export async function deleteEffect(effectId: string): Promise<boolean> {
     const userId = await getUserId();
     if (!userId) return false;
     console.log(`Deleting effect ${effectId} from Supabase...`);
-    const { error } = await supabase.from('track_effects').delete().eq('id', effectId);
+    const { error } = await getSupabase().from('track_effects').delete().eq('id', effectId);
     if (error) { console.error(`Error deleting effect ${effectId}:`, error); return false; }
     console.log(`Effect ${effectId} deleted.`); return true;
 }
@@ -629,7 +724,7 @@ export async function deleteMidiBlock(blockId: string): Promise<boolean> {
     const userId = await getUserId();
     if (!userId) return false;
     console.log(`Deleting MIDI block ${blockId} from Supabase...`);
-    const { error } = await supabase
+    const { error } = await getSupabase()
         .from('midi_blocks')
         .delete()
         .eq('id', blockId)
@@ -643,7 +738,7 @@ export async function deleteMidiNote(noteId: string): Promise<boolean> {
     const userId = await getUserId();
     if (!userId) return false;
     console.log(`Deleting MIDI note ${noteId} from Supabase...`);
-    const { error } = await supabase
+    const { error } = await getSupabase()
         .from('midi_notes')
         .delete()
         .eq('id', noteId)
@@ -651,3 +746,33 @@ export async function deleteMidiNote(noteId: string): Promise<boolean> {
     if (error) { console.error(`Error deleting MIDI note ${noteId}:`, error); return false; }
     console.log(`MIDI note ${noteId} deleted.`); return true;
 }
+
+/**
+ * Upserts a project row with a known ID (used to push projects that were created offline).
+ */
+export async function saveProjectMetadata(project: ProjectMetadata): Promise<boolean> {
+    const userId = await getUserId();
+    if (!userId) return false;
+    console.log(`Saving project ${project.id} to Supabase...`);
+    const { error } = await getSupabase().from('projects').upsert({ id: project.id, user_id: userId, name: project.name });
+    if (error) { console.error(`Error saving project ${project.id}:`, error); return false; }
+    console.log(`Project ${project.id} saved.`); return true;
+}
+
+/**
+ * Fetches the `updated_at` timestamps of rows in a table.
+ * Returns a map from key to timestamp (rows that don't exist are left out), or null on failure.
+ */
+export async function getRemoteUpdatedAt(table: string, keyColumn: string, keys: string[]): Promise<Map<string, string> | null> {
+    const userId = await getUserId();
+    if (!userId) return null;
+    if (keys.length === 0) return new Map();
+    const { data, error } = await getSupabase().from(table).select('*').in(keyColumn, keys);
+    if (error) { console.error(`Error fetching timestamps from ${table}:`, error); return null; }
+    const timestamps = new Map<string, string>();
+    (data || []).forEach((row: any) => {
+        // Rows without an updated_at column can't be checked for conflicts
+        if (row.updated_at) timestamps.set(String(row[keyColumn]), row.updated_at);
+    });
+    return timestamps;
+}
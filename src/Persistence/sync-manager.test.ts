@@ -0,0 +1,127 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getDb } from '@/lib/idbHelper';
+import { SyncManager } from './sync-manager';
+
+const remote = vi.hoisted(() => ({
+    updatedAt: new Map<string, string>(), // Remote `updated_at` by row key
+    saveTrack: vi.fn(async () => true),
+    deleteProject: vi.fn(async () => true),
+}));
+
+vi.mock('@/Persistence/supabase-service', () => ({
+    getRemoteUpdatedAt: async (_table: string, _keyColumn: string, keys: string[]) =>
+        new Map(keys.filter(key => remote.updatedAt.has(key)).map(key => [key, remote.updatedAt.get(key)!])),
+}));
+vi.mock('@/Persistence/supabase-adapter', () => ({ supabaseAdapter: { saveTrack: remote.saveTrack, deleteProject: remote.deleteProject } }));
+
+// Server timestamps, well in the past of the client's clock: only their order matters
+const LOADED_AT = '2020-01-01T12:00:00.000Z';
+const CHANGED_AFTER_LOAD = '2020-01-01T12:00:05.000Z';
+
+// The queue lives in IndexedDB, which the tests share, so each test uses its own project
+const saveTrackEntry = (projectId: string, trackId: string) => ({
+    projectId,
+    entity: 'track' as const,
+    op: 'save' as const,
+    key: trackId,
+    payload: { id: trackId, projectId, name: 'Lead' },
+});
+
+describe('SyncManager', () => {
+    beforeEach(() => {
+        remote.updatedAt.clear();
+        remote.saveTrack.mockClear();
+        remote.deleteProject.mockClear();
+    });
+
+    it('sends writes for rows unchanged since the project was loaded', async () => {
+        const sync = new SyncManager();
+        remote.updatedAt.set('track-1', LOADED_AT);
+        await sync.markProjectSynced('project-1', LOADED_AT);
+
+        await sync.enqueue(saveTrackEntry('project-1', 'track-1'));
+        await sync.flush();
+
+        expect(remote.saveTrack).toHaveBeenCalledTimes(1);
+        expect(sync.getSnapshot()).toMatchObject({ status: 'synced', pendingCount: 0, conflicts: [] });
+    });
+
+    it('holds back a project whose rows changed remotely until the conflict is resolved', async () => {
+        const sync = new SyncManager();
+        await sync.markProjectSynced('project-2', LOADED_AT);
+        remote.updatedAt.set('track-2', CHANGED_AFTER_LOAD);
+
+        await sync.enqueue(saveTrackEntry('project-2', 'track-2'));
+        await sync.flush();
+
+        expect(remote.saveTrack).not.toHaveBeenCalled();
+        expect(sync.getSnapshot()).toMatchObject({
+            status: 'conflict',
+            pendingCount: 1,
+            conflicts: [expect.objectContaining({ projectId: 'project-2', rows: ['tracks:track-2'] })],
+        });
+
+        await sync.resolveConflict('project-2', 'keepLocal');
+        expect(remote.saveTrack).toHaveBeenCalledTimes(1);
+        expect(sync.getSnapshot()).toMatchObject({ status: 'synced', pendingCount: 0, conflicts: [] });
+    });
+
+    it('drops the local writes when the remote version is kept', async () => {
+        const sync = new SyncManager();
+        await sync.markProjectSynced('project-3', LOADED_AT);
+        remote.updatedAt.set('track-3', CHANGED_AFTER_LOAD);
+
+        await sync.enqueue(saveTrackEntry('project-3', 'track-3'));
+        await sync.flush();
+        await sync.resolveConflict('project-3', 'keepRemote');
+
+        expect(remote.saveTrack).not.toHaveBeenCalled();
+        expect(await sync.hasPendingWrites('project-3')).toBe(false);
+        expect(sync.getSnapshot().status).toBe('synced');
+    });
+
+    it('never reports conflicts for projects created offline', async () => {
+        const sync = new SyncManager();
+        remote.updatedAt.set('track-4', CHANGED_AFTER_LOAD);
+
+        await sync.enqueue(saveTrackEntry('project-4', 'track-4'));
+        await sync.flush();
+
+        expect(remote.saveTrack).toHaveBeenCalledTimes(1);
+        expect(sync.getSnapshot().conflicts).toEqual([]);
+    });
+
+    it('does not check projects loaded without any server timestamp', async () => {
+        const sync = new SyncManager();
+        await sync.markProjectSynced('project-5', LOADED_AT);
+        await sync.markProjectSynced('project-5', null);
+        remote.updatedAt.set('track-5', CHANGED_AFTER_LOAD);
+
+        await sync.enqueue(saveTrackEntry('project-5', 'track-5'));
+        await sync.flush();
+
+        expect(remote.saveTrack).toHaveBeenCalledTimes(1);
+        expect(sync.getSnapshot().conflicts).toEqual([]);
+    });
+
+    it('deletes a project changed remotely without holding it back, and forgets its sync state', async () => {
+        const sync = new SyncManager();
+        remote.updatedAt.set('project-6', CHANGED_AFTER_LOAD);
+        remote.updatedAt.set('track-6', LOADED_AT);
+        await sync.markProjectSynced('project-6', LOADED_AT);
+        await sync.enqueue(saveTrackEntry('project-6', 'track-6'));
+        await sync.flush();
+        const db = await getDb();
+        expect(await db.get('syncState', 'project:project-6:tracks:track-6')).toBe(LOADED_AT);
+
+        await sync.forgetProject('project-6');
+        await sync.enqueue({ projectId: 'project-6', entity: 'project', op: 'delete', key: 'project-6', payload: null });
+        await sync.flush();
+
+        expect(remote.deleteProject).toHaveBeenCalledWith('project-6');
+        expect(sync.getSnapshot()).toMatchObject({ status: 'synced', pendingCount: 0, conflicts: [] });
+        expect(await db.get('syncState', 'project:project-6')).toBeUndefined();
+        expect(await db.get('syncState', 'project:project-6:tracks:track-6')).toBeUndefined();
+    });
+});
@@ -0,0 +1,427 @@
+// src/Persistence/sync-manager.ts
+
+// Replays writes made locally (see offline-first-adapter) against Supabase.
+//
+// Writes are kept in the IndexedDB `syncQueue` store so they survive reloads, and are
+// sent one at a time in the order they were made. Sending stops at the first failure
+// and is retried with backoff, or as soon as the browser reports it is back online.
+//
+// Conflicts: before sending a project's writes, the remote `updated_at` of every row
+// they touch is compared with the last remote timestamp we know for that row (or the
+// latest one seen when the project was last loaded from Supabase). Both come from the
+// server's clock, never the client's. A row changed remotely since then
+// holds back the whole project until the user picks which version to keep. Deleting a
+// project is never held back: there is no local copy left to pick.
+
+import { getDb, SyncEntity, SyncQueueEntry } from '@/lib/idbHelper';
+import * as supabaseService from '@/Persistence/supabase-service';
+import { supabaseAdapter } from '@/Persistence/supabase-adapter';
+import { IDLE_SYNC_STATUS } from '@/Persistence/persistence-backend';
+
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 60000;
+const TIMESTAMP_QUERY_CHUNK = 100; // Keeps `in (...)` filters within URL length limits
+
+// Where each entity lives in Supabase
+const REMOTE_TABLES: Record<SyncEntity, { table: string; keyColumn: string }> = {
+    project: { table: 'projects', keyColumn: 'id' },
+    projectSettings: { table: 'project_settings', keyColumn: 'project_id' },
+    track: { table: 'tracks', keyColumn: 'id' },
+    synth: { table: 'track_synths', keyColumn: 'track_id' },
+    effect: { table: 'track_effects', keyColumn: 'id' },
+    midiBlock: { table: 'midi_blocks', keyColumn: 'id' },
+    midiNotes: { table: 'midi_notes', keyColumn: 'id' },
+    midiNote: { table: 'midi_notes', keyColumn: 'id' },
+};
+
+export type SyncStatus = 'synced' | 'pending' | 'syncing' | 'offline' | 'error' | 'conflict';
+
+export type SyncConflictResolution = 'keepLocal' | 'keepRemote';
+
+export interface SyncConflict {
+    projectId: string;
+    rows: string[]; // "<table>:<key>" of rows changed remotely since the last sync
+    detectedAt: number;
+}
+
+export interface SyncSnapshot {
+    status: SyncStatus;
+    pendingCount: number;
+    conflicts: SyncConflict[];
+    lastError: string | null;
+}
+
+export type NewSyncQueueEntry = Omit<SyncQueueEntry, 'id' | 'queuedAt'>;
+
+// Remote rows written by an entry (a notes batch writes one row per note)
+const getRowKeys = (entry: SyncQueueEntry): string[] =>
+    entry.entity === 'midiNotes' ? entry.payload.notes.map((note: { id: string }) => note.id) : [entry.key];
+
+const rowKey = (table: string, key: string) => `${table}:${key}`;
+const projectStateKey = (projectId: string) => `project:${projectId}`;
+// Row timestamps are kept under their project's key so they can be removed with it
+const rowStateKey = (projectId: string, row: string) => `${projectStateKey(projectId)}:${row}`;
+
+export class SyncManager {
+    private listeners = new Set<(snapshot: SyncSnapshot) => void>();
+    private flushPromise: Promise<void> | null = null;
+    private flushRequested = false;
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private retryDelay = RETRY_BASE_DELAY_MS;
+    private heldProjects = new Map<string, SyncConflict>();
+    private forcedProjects = new Set<string>(); // Conflicts resolved with 'keepLocal' skip the check once
+    private started = false;
+    private snapshot: SyncSnapshot = IDLE_SYNC_STATUS;
+
+    /**
+     * Starts listening for connectivity changes and sends anything left in the queue.
+     */
+    start() {
+        if (this.started || typeof window === 'undefined') return;
+        this.started = true;
+        window.addEventListener('online', this.handleOnline);
+        window.addEventListener('offline', this.handleOffline);
+        void this.flush();
+    }
+
+    stop() {
+        if (!this.started) return;
+        this.started = false;
+        window.removeEventListener('online', this.handleOnline);
+        window.removeEventListener('offline', this.handleOffline);
+        this.clearRetry();
+    }
+
+    isOnline(): boolean {
+        return typeof navigator === 'undefined' || navigator.onLine;
+    }
+
+    getSnapshot(): SyncSnapshot {
+        return this.snapshot;
+    }
+
+    /**
+     * Registers a listener for status changes.
+     * @returns A function that removes the listener.
+     */
+    subscribe(listener: (snapshot: SyncSnapshot) => void): () => void {
+        this.listeners.add(listener);
+        listener(this.snapshot);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Adds a write to the queue and starts sending it.
+     * Consecutive saves of the same entity are merged into one entry.
+     */
+    async enqueue(newEntry: NewSyncQueueEntry): Promise<void> {
+        const db = await getDb();
+        const tx = db.transaction('syncQueue', 'readwrite');
+        const cursor = await tx.store.openCursor(null, 'prev');
+        const last = cursor?.value;
+
+        if (last && newEntry.op === 'save' && last.op === 'save' && last.entity === newEntry.entity
+            && last.key === newEntry.key && last.projectId === newEntry.projectId) {
+            const payload = newEntry.entity === 'midiNotes'
+                ? { ...newEntry.payload, notes: SyncManager.mergeNotes(last.payload.notes, newEntry.payload.notes) }
+                : newEntry.payload;
+            await cursor!.update({ ...last, payload, queuedAt: Date.now() });
+        } else {
+            await tx.store.add({ ...newEntry, queuedAt: Date.now() });
+        }
+        await tx.done;
+
+        await this.refreshSnapshot();
+        // After a failure, wait for the scheduled retry instead of hammering the server
+        if (!this.retryTimer) void this.flush();
+    }
+
+    async hasPendingWrites(projectId: string): Promise<boolean> {
+        const db = await getDb();
+        return (await db.countFromIndex('syncQueue', 'by-project', projectId)) > 0;
+    }
+
+    /**
+     * Records that the local copy of a project matches Supabase as of `remoteUpdatedAt`, the
+     * latest server timestamp among its rows. Rows changed remotely after it are treated as
+     * conflicts. Server time is used because the client's clock may be off.
+     * Without a timestamp (no loaded row has `updated_at`) the project is never checked.
+     */
+    async markProjectSynced(projectId: string, remoteUpdatedAt: string | null): Promise<void> {
+        const db = await getDb();
+        if (remoteUpdatedAt) {
+            await db.put('syncState', remoteUpdatedAt, projectStateKey(projectId));
+        } else {
+            await db.delete('syncState', projectStateKey(projectId));
+        }
+    }
+
+    /**
+     * Discards every queued write for a project, e.g. when it is deleted or the
+     * remote version wins a conflict.
+     */
+    async dropProject(projectId: string): Promise<void> {
+        const db = await getDb();
+        const tx = db.transaction('syncQueue', 'readwrite');
+        const keys = await tx.store.index('by-project').getAllKeys(projectId);
+        await Promise.all(keys.map(key => tx.store.delete(key)));
+        await tx.done;
+        this.heldProjects.delete(projectId);
+        this.forcedProjects.delete(projectId);
+        await this.refreshSnapshot();
+    }
+
+    /**
+     * Discards a deleted project's queued writes and everything known about its remote rows.
+     */
+    async forgetProject(projectId: string): Promise<void> {
+        await this.dropProject(projectId);
+        const db = await getDb();
+        const tx = db.transaction('syncState', 'readwrite');
+        const rowPrefix = `${projectStateKey(projectId)}:`;
+        await tx.store.delete(projectStateKey(projectId));
+        await tx.store.delete(IDBKeyRange.bound(rowPrefix, `${rowPrefix}\uffff`));
+        await tx.done;
+    }
+
+    /**
+     * Resolves a conflict. 'keepLocal' sends the local writes over the remote changes;
+     * 'keepRemote' discards the local writes (the caller should then reload the project).
+     */
+    async resolveConflict(projectId: string, resolution: SyncConflictResolution): Promise<void> {
+        if (resolution === 'keepRemote') {
+            await this.dropProject(projectId);
+            return;
+        }
+        this.heldProjects.delete(projectId);
+        this.forcedProjects.add(projectId);
+        await this.refreshSnapshot();
+        await this.flush();
+    }
+
+    /**
+     * Sends queued writes to Supabase. Concurrent calls share the same run.
+     */
+    flush(): Promise<void> {
+        if (this.flushPromise) {
+            // Entries may have been added after the running flush last read the queue
+            this.flushRequested = true;
+            return this.flushPromise;
+        }
+        this.flushPromise = this.runFlush().finally(() => {
+            this.flushPromise = null;
+            if (this.flushRequested) {
+                this.flushRequested = false;
+                if (!this.retryTimer) void this.flush();
+            }
+        });
+        return this.flushPromise;
+    }
+
+    private handleOnline = () => {
+        console.log("SyncManager: Back online, syncing queued changes.");
+        this.retryDelay = RETRY_BASE_DELAY_MS;
+        void this.flush();
+    };
+
+    private handleOffline = () => {
+        void this.refreshSnapshot();
+    };
+
+    private async runFlush(): Promise<void> {
+        this.clearRetry();
+        if (!this.isOnline()) {
+            await this.refreshSnapshot();
+            return;
+        }
+
+        // Keep going until entries enqueued while we were sending are sent too
+        for (;;) {
+            const db = await getDb();
+            const entries = (await db.getAll('syncQueue')).filter(entry => !this.heldProjects.has(entry.projectId ?? ''));
+            if (entries.length === 0) break;
+
+            await this.refreshSnapshot('syncing');
+            const sent = await this.sendEntries(entries);
+            if (!sent) {
+                this.scheduleRetry();
+                break;
+            }
+        }
+        await this.refreshSnapshot();
+    }
+
+    // Sends entries project by project. Returns false if a write failed.
+    private async sendEntries(entries: SyncQueueEntry[]): Promise<boolean> {
+        const byProject = new Map<string, SyncQueueEntry[]>();
+        entries.forEach(entry => {
+            const projectKey = entry.projectId ?? '';
+            byProject.set(projectKey, [...(byProject.get(projectKey) ?? []), entry]);
+        });
+
+        for (const [projectId, projectEntries] of byProject) {
+            const deletesProject = projectEntries.some(entry => entry.entity === 'project' && entry.op === 'delete');
+            if (projectId && !deletesProject && !this.forcedProjects.has(projectId)) {
+                const conflictingRows = await this.findConflicts(projectId, projectEntries);
+                if (conflictingRows === null) {
+                    this.snapshot = { ...this.snapshot, lastError: "Could not check for conflicting changes." };
+                    return false;
+                }
+                if (conflictingRows.length > 0) {
+                    console.warn(`SyncManager: Project ${projectId} was changed elsewhere, holding local changes.`, conflictingRows);
+                    this.heldProjects.set(projectId, { projectId, rows: conflictingRows, detectedAt: Date.now() });
+                    continue;
+                }
+            }
+
+            const db = await getDb();
+            for (const entry of projectEntries) {
+                const ok = await this.sendEntry(entry).catch(error => {
+                    console.error(`SyncManager: Failed to send ${entry.op} ${entry.entity} ${entry.key}:`, error);
+                    return false;
+                });
+                if (!ok) {
+                    this.snapshot = { ...this.snapshot, lastError: `Failed to sync ${entry.entity} ${entry.key}.` };
+                    return false;
+                }
+                await db.delete('syncQueue', entry.id!);
+            }
+            this.forcedProjects.delete(projectId);
+            const writtenAt = await this.recordRemoteTimestamps(projectId, projectEntries.filter(entry => entry.op === 'save'));
+            // A project created offline now exists remotely; changes made elsewhere from here on are conflicts
+            if (projectId && writtenAt && !(await db.get('syncState', projectStateKey(projectId)))) {
+                await this.markProjectSynced(projectId, writtenAt);
+            }
+        }
+
+        this.retryDelay = RETRY_BASE_DELAY_MS;
+        this.snapshot = { ...this.snapshot, lastError: null };
+        return true;
+    }
+
+    private async sendEntry(entry: SyncQueueEntry): Promise<boolean> {
+        const { entity, op, key, payload } = entry;
+        if (op === 'delete') {
+            switch (entity) {
+                case 'project': return supabaseAdapter.deleteProject(key);
+                case 'track': return supabaseAdapter.deleteTrack(key);
+                case 'effect': return supabaseAdapter.deleteEffect(key);
+                case 'midiBlock': return supabaseAdapter.deleteMidiBlock(key);
+                case 'midiNote': return supabaseAdapter.deleteMidiNote(key);
+                default:
+                    console.warn(`SyncManager: Deleting ${entity} is not supported, skipping.`);
+                    return true;
+            }
+        }
+        switch (entity) {
+            case 'project': return supabaseService.saveProjectMetadata(payload);
+            case 'projectSettings': return supabaseAdapter.saveProjectSettings(payload);
+            case 'track': return supabaseAdapter.saveTrack(payload);
+            case 'synth': return supabaseAdapter.saveSynth(payload);
+            case 'effect': return supabaseAdapter.saveEffect(payload);
+            case 'midiBlock': return supabaseAdapter.saveMidiBlock(payload);
+            // saveMidiNotesBatch reports an empty batch as a failure
+            case 'midiNotes': return payload.notes.length === 0 || supabaseAdapter.saveMidiNotesBatch(payload.notes, payload.blockId);
+            default:
+                console.warn(`SyncManager: Saving ${entity} is not supported, skipping.`);
+                return true;
+        }
+    }
+
+    /**
+     * Compares the remote timestamps of the rows `entries` touch with what we last saw.
+     * @returns The rows changed remotely, or null if the timestamps couldn't be fetched.
+     */
+    private async findConflicts(projectId: string, entries: SyncQueueEntry[]): Promise<string[] | null> {
+        const db = await getDb();
+        const projectSyncedAt = await db.get('syncState', projectStateKey(projectId));
+        // Projects created offline have never been seen remotely, so nothing can conflict
+        if (!projectSyncedAt) return [];
+
+        const remoteTimestamps = await this.fetchRemoteTimestamps(entries);
+        if (!remoteTimestamps) return null;
+
+        const conflicts: string[] = [];
+        for (const [row, remoteUpdatedAt] of remoteTimestamps) {
+            const knownUpdatedAt = await db.get('syncState', rowStateKey(projectId, row));
+            const baseline = Math.max(Date.parse(projectSyncedAt), knownUpdatedAt ? Date.parse(knownUpdatedAt) : 0);
+            if (Date.parse(remoteUpdatedAt) > baseline) conflicts.push(row);
+        }
+        return conflicts;
+    }
+
+    // Remembers the remote timestamps of rows we just wrote, so our own writes aren't seen as conflicts.
+    // Returns the latest of them, or null if there were none.
+    private async recordRemoteTimestamps(projectId: string, entries: SyncQueueEntry[]): Promise<string | null> {
+        const remoteTimestamps = await this.fetchRemoteTimestamps(entries);
+        if (!remoteTimestamps) return null;
+        const db = await getDb();
+        const tx = db.transaction('syncState', 'readwrite');
+        await Promise.all(Array.from(remoteTimestamps).map(([row, updatedAt]) => tx.store.put(updatedAt, rowStateKey(projectId, row))));
+        await tx.done;
+        return Array.from(remoteTimestamps.values())
+            .reduce<string | null>((latest, updatedAt) => !latest || Date.parse(updatedAt) > Date.parse(latest) ? updatedAt : latest, null);
+    }
+
+    // Fetches `updated_at` for every row the entries touch, keyed by "<table>:<key>"
+    private async fetchRemoteTimestamps(entries: SyncQueueEntry[]): Promise<Map<string, string> | null> {
+        const keysByTable = new Map<SyncEntity, Set<string>>();
+        entries.forEach(entry => {
+            const keys = keysByTable.get(entry.entity) ?? new Set<string>();
+            getRowKeys(entry).forEach(key => keys.add(key));
+            keysByTable.set(entry.entity, keys);
+        });
+
+        const result = new Map<string, string>();
+        for (const [entity, keySet] of keysByTable) {
+            const { table, keyColumn } = REMOTE_TABLES[entity];
+            const keys = Array.from(keySet);
+            for (let i = 0; i < keys.length; i += TIMESTAMP_QUERY_CHUNK) {
+                const timestamps = await supabaseService.getRemoteUpdatedAt(table, keyColumn, keys.slice(i, i + TIMESTAMP_QUERY_CHUNK));
+                if (!timestamps) return null;
+                timestamps.forEach((updatedAt, key) => result.set(rowKey(table, key), updatedAt));
+            }
+        }
+        return result;
+    }
+
+    private scheduleRetry() {
+        this.clearRetry();
+        console.warn(`SyncManager: Sync failed, retrying in ${this.retryDelay / 1000}s.`);
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            void this.flush();
+        }, this.retryDelay);
+        this.retryDelay = Math.min(this.retryDelay * 2, RETRY_MAX_DELAY_MS);
+    }
+
+    private clearRetry() {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+    }
+
+    private async refreshSnapshot(activity?: 'syncing') {
+        const db = await getDb();
+        const pendingCount = await db.count('syncQueue');
+        const conflicts = Array.from(this.heldProjects.values());
+
+        let status: SyncStatus;
+        if (conflicts.length > 0) status = 'conflict';
+        else if (!this.isOnline()) status = 'offline';
+        else if (activity === 'syncing') status = 'syncing';
+        else if (this.retryTimer) status = 'error';
+        else status = pendingCount > 0 ? 'pending' : 'synced';
+
+        this.snapshot = { ...this.snapshot, status, pendingCount, conflicts };
+        this.listeners.forEach(listener => listener(this.snapshot));
+    }
+
+    // Newer notes replace older ones with the same ID
+    private static mergeNotes(previous: { id: string }[], next: { id: string }[]) {
+        const byId = new Map(previous.map(note => [note.id, note]));
+        next.forEach(note => byId.set(note.id, note));
+        return Array.from(byId.values());
+    }
+}
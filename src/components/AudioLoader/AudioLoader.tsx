@@ -1,6 +1,5 @@
 import React, { useState, useCallback, useRef } from 'react';
 import useStore from '../../store/store';
-import { saveAudioFile } from '../../lib/idbHelper';
 import { Upload } from 'lucide-react';
 import { FileAudio, Volume2, X } from 'lucide-react';
 import { Button } from '../ui/button';
@@ -9,9 +8,11 @@ import { Progress } from "../ui/progress";
 import styles from './audioloader.module.css';
 
 const AudioLoader: React.FC = () => {
-    const loadAudioAction = useStore(state => state.loadAudio);
+    const setProjectAudioFile = useStore(state => state.setProjectAudioFile);
     const audioFileName = useStore(state => state.audioFileName);
     const clearAudio = useStore(state => state.clearAudio);
+    const isAudioUploadEnabled = useStore(state => state.isAudioUploadEnabled);
+    const setAudioUploadEnabled = useStore(state => state.setAudioUploadEnabled);
     const [isLoading, setIsLoading] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const loadingProgress = useStore(state => state.loadingProgress);
@@ -25,42 +26,17 @@ const AudioLoader: React.FC = () => {
         if (!file) return;
 
         setIsLoading(true);
+        event.target.value = '';
 
-        const fileToPersist = file;
-
-        const reader = new FileReader();
-
-        reader.onload = async (e) => {
-            const arrayBuffer = e.target?.result as ArrayBuffer;
-            if (!arrayBuffer) {
-                setIsLoading(false);
-                return;
-            }
-
-            try {
-                await loadAudioAction(arrayBuffer, file.name);
-
-                try {
-                    await saveAudioFile(fileToPersist);
-                    console.log('Audio file persisted to IndexedDB.');
-                } catch (idbError) {
-                    console.error('Failed to save audio file to IndexedDB:', idbError);
-                }
-
-            } catch (err) {
-                console.error("Error loading audio:", err);
-            } finally {
-                setIsLoading(false);
-            }
-        };
-
-        reader.onerror = () => {
+        try {
+            // Stored with the current project, so it reopens with this audio
+            await setProjectAudioFile(file);
+        } catch (err) {
+            console.error("Error loading audio:", err);
+        } finally {
             setIsLoading(false);
-        };
-
-        reader.readAsArrayBuffer(file);
-        event.target.value = '';
-    }, [loadAudioAction]);
+        }
+    }, [setProjectAudioFile]);
 
     return (
       <div className={styles.container}>
@@ -93,6 +69,16 @@ const AudioLoader: React.FC = () => {
           )}
 
           <input type="file" ref={fileInputRef} className="hidden" accept="audio/*" onChange={handleFileChange} />
+
+          {/* Audio stays in this browser unless the project opts in to a cloud copy */}
+          <label className={styles.uploadToggle} title="Keep a copy of this project's audio in your Supabase storage">
+            <input
+              type="checkbox"
+              checked={isAudioUploadEnabled}
+              onChange={e => void setAudioUploadEnabled(e.target.checked)}
+            />
+            Back up to cloud
+          </label>
         </div>
 
         <div className={styles.statusSection}>
@@ -0,0 +1,112 @@
+'use client';
+
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import useStore from '../../store/store';
+import { ModulationSource, Track } from '../../lib/types';
+import { MODULATION_SOURCES, getModulationProperty, isModulatableProperty } from '../../lib/AudioModulation';
+import { getAutomatablePropertyOptions, getAutomationLaneLabel } from '../TimelineView/automationLane';
+import styles from './AudioModulationView.module.css';
+
+interface AudioModulationViewProps {
+  track: Track;
+}
+
+// Routes features of the loaded audio (level, bands, onsets) onto the track's properties
+function AudioModulationView({ track }: AudioModulationViewProps) {
+  const { isAudioLoaded, isAnalyzingAudio, audioAnalysis, addModulation, updateModulation, removeModulation } = useStore();
+  const [newSource, setNewSource] = useState<ModulationSource>('rms');
+  const [newTargetIndex, setNewTargetIndex] = useState(0);
+
+  const options = getAutomatablePropertyOptions(track, isModulatableProperty);
+  const selectedOption = options[Math.min(newTargetIndex, options.length - 1)];
+
+  const handleAdd = () => {
+    if (!selectedOption) return;
+    addModulation(track.id, selectedOption.target, selectedOption.propertyName, newSource);
+  };
+
+  const getStatus = () => {
+    if (!isAudioLoaded) return 'Load audio to drive these properties from the music.';
+    if (isAnalyzingAudio) return 'Analyzing audio…';
+    if (!audioAnalysis) return 'The audio could not be analyzed.';
+    return null;
+  };
+  const status = getStatus();
+
+  return (
+    <div className={styles.container}>
+      <h5>Audio Modulation:</h5>
+      {status && <div className={styles.status}>{status}</div>}
+
+      {track.modulations.map(route => {
+        const isMissing = !getModulationProperty(track, route);
+        return (
+          <div key={route.id} className={styles.route}>
+            <div className={styles.routeHeader}>
+              <span className={isMissing ? styles.missing : undefined}>{getAutomationLaneLabel(track, route)}</span>
+              <button
+                className={styles.removeButton}
+                onClick={() => removeModulation(track.id, route.id)}
+                title="Remove modulation"
+              >
+                <X size={14} />
+              </button>
+            </div>
+            <div className={styles.routeControls}>
+              <select
+                className={styles.select}
+                value={route.source}
+                onChange={(e) => updateModulation(track.id, route.id, { source: e.target.value as ModulationSource })}
+              >
+                {MODULATION_SOURCES.map(source => (
+                  <option key={source.value} value={source.value}>{source.label}</option>
+                ))}
+              </select>
+              <input
+                className={styles.amount}
+                type="range"
+                min={-1}
+                max={1}
+                step={0.01}
+                value={route.amount}
+                onChange={(e) => updateModulation(track.id, route.id, { amount: parseFloat(e.target.value) })}
+                onPointerDown={(e) => e.stopPropagation()}
+              />
+              <span className={styles.amountLabel}>{Math.round(route.amount * 100)}%</span>
+            </div>
+          </div>
+        );
+      })}
+
+      {options.length > 0 ? (
+        <div className={styles.addRow}>
+          <select
+            className={styles.select}
+            value={newSource}
+            onChange={(e) => setNewSource(e.target.value as ModulationSource)}
+          >
+            {MODULATION_SOURCES.map(source => (
+              <option key={source.value} value={source.value}>{source.label}</option>
+            ))}
+          </select>
+          <span>→</span>
+          <select
+            className={styles.select}
+            value={Math.min(newTargetIndex, options.length - 1)}
+            onChange={(e) => setNewTargetIndex(Number(e.target.value))}
+          >
+            {options.map((option, index) => (
+              <option key={`${option.label}-${index}`} value={index}>{option.label}</option>
+            ))}
+          </select>
+          <button className={styles.addButton} onClick={handleAdd}>Add</button>
+        </div>
+      ) : (
+        <div className={styles.status}>No numeric properties to modulate.</div>
+      )}
+    </div>
+  );
+}
+
+export default AudioModulationView;
@@ -0,0 +1,3 @@
+import AudioModulationView from './AudioModulationView';
+
+export default AudioModulationView; 
\ No newline at end of file
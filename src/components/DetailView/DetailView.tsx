@@ -5,7 +5,8 @@ import useStore from '../../store/store';
 import MidiEditor from '../MidiEditor';
 import InstrumentDetailView from '../InstrumentDetailView/index';
 import EffectsDetailView from '../EffectsDetailView/index';
-import { Sliders, Music2, Wand2 } from 'lucide-react';
+import PostProcessingView from '../PostProcessingView';
+import { Sliders, Music2, Wand2, Sparkles } from 'lucide-react';
 import styles from './DetailView.module.css';
 
 function DetailView() {
@@ -51,6 +52,7 @@ function DetailView() {
           { mode: "instrument" as const, icon: <Sliders className={styles.icon} />, label: "Instrument" },
           { mode: "midi" as const, icon: <Music2 className={styles.icon} />, label: "MIDI" },
           { mode: "effects" as const, icon: <Wand2 className={styles.icon} />, label: "Effects" },
+          { mode: "postProcessing" as const, icon: <Sparkles className={styles.icon} />, label: "Post FX" },
         ].map(({ mode, icon, label }) => (
           <button
             key={mode}
@@ -65,7 +67,10 @@ function DetailView() {
         ))}
       </div>
       <div className={styles.contentContainer}>
-        {selectedTrack === null ? (
+        {detailViewMode === "postProcessing" ? (
+          // Belongs to the project, so it doesn't need a track
+          <PostProcessingView />
+        ) : selectedTrack === null ? (
           <div className={styles.emptyStateContainer}>
             <p>Select a track to edit</p>
           </div>
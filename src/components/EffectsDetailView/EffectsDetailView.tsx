@@ -10,6 +10,8 @@ import SliderPropertyControl from '../properties/SliderPropertyControl';
 import NumberInputPropertyControl from '../properties/NumberInputPropertyControl';
 import DropdownPropertyControl from '../properties/DropdownPropertyControl';
 import ColorPropertyControl from '../properties/ColorPropertyControl';
+import MidiLearnProperty from '../properties/MidiLearnProperty';
+import { isMidiMappableProperty } from '../../lib/MidiMapping';
 import { v4 as uuidv4 } from 'uuid';
 import {
   DndContext,
@@ -108,8 +110,23 @@ function EffectsDetailView({ track }: EffectsDetailViewProps) {
     return definition ? definition.name : effect.constructor.name;
   };
 
-  // Render the appropriate property control for a given effect property
+  // Render the appropriate property control for a given effect property, bindable to a MIDI controller
   const renderPropertyControl = (effectIndex: number, property: Property<any>) => {
+    const control = renderPropertyInput(effectIndex, property);
+    if (!isMidiMappableProperty(property)) return control;
+    return (
+      <MidiLearnProperty
+        key={`${track.id}-effect-${effectIndex}-prop-${property.name}`}
+        trackId={track.id}
+        target={{ type: 'effect', effectId: track.effects[effectIndex].id }}
+        propertyName={property.name}
+      >
+        {control}
+      </MidiLearnProperty>
+    );
+  };
+
+  const renderPropertyInput = (effectIndex: number, property: Property<any>) => {
     const key = `${track.id}-effect-${effectIndex}-prop-${property.name}`;
 
     switch (property.uiType) {
@@ -4,6 +4,7 @@ import React from 'react';
 import useStore from '../../store/store';
 import { Track } from '../../lib/types';
 import SynthesizerDetailView from '../SynthesizerDetailView';
+import AudioModulationView from '../AudioModulationView';
 import styles from './InstrumentDetailView.module.css';
 
 interface InstrumentDetailViewProps {
@@ -54,6 +55,7 @@ function InstrumentDetailView({ track }: InstrumentDetailViewProps) {
         {/* Render Synthesizer Settings */}
         <div className={styles.settingsContainer}>
           <SynthesizerDetailView track={track} />
+          <AudioModulationView track={track} />
         </div>
       </div>
 
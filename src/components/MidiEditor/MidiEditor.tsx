@@ -1,19 +1,18 @@
 'use client';
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import useStore from '../../store/store';
 import { MIDIBlock, Track } from '../../lib/types';
 
 import {
   KEY_COUNT,
-  BEATS_PER_MEASURE,
 } from './utils/constants';
 
 import {
   getCoordsAndDerived,
 } from './utils/utils';
 
-import { drawMidiEditor } from './utils/canvas';
+import { drawMidiEditor, WaveformBackground } from './utils/canvas';
 
 import { useZoomScroll } from './hooks/useZoomScroll';
 import { useMidiEditorInteractions } from './hooks/useMidiEditorInteractions';
@@ -31,8 +30,14 @@ function MidiEditor({ block, track }: MidiEditorProps) {
     setSelectedWindow,
     selectedWindow,
     numMeasures,
+    timeSignatureMap,
     currentBeat,
-    seekTo
+    seekTo,
+    waveformPeaks,
+    timeManager,
+    bpm,
+    tempoChanges,
+    audioOffset
   } = useStore();
   const editorRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -80,18 +85,30 @@ function MidiEditor({ block, track }: MidiEditorProps) {
 
   const [selectedNoteIds, setSelectedNoteIds] = useState<string[]>([]); 
 
+  const totalBeats = timeSignatureMap.getTotalBeats(numMeasures);
+
   const { 
     pixelsPerBeat, 
     pixelsPerSemitone, 
     scrollX, 
     scrollY, 
     handleGridScroll 
-  } = useZoomScroll({ editorRef, numMeasures });
+  } = useZoomScroll({ editorRef, totalBeats });
 
   const blockStartBeat = block.startBeat;
   const blockDuration = block.endBeat - block.startBeat;
 
-  const totalGridWidth = numMeasures * BEATS_PER_MEASURE * pixelsPerBeat; 
+  // The tempo map turns timeline beats into seconds; the offset moves them into the audio file
+  const waveform = useMemo<WaveformBackground | null>(() => {
+    if (!waveformPeaks) return null;
+    const tempoMap = timeManager.getTempoMap();
+    return {
+      peaks: waveformPeaks,
+      beatToAudioTime: (beat: number) => tempoMap.beatToTime(beat) + audioOffset,
+    };
+  }, [waveformPeaks, timeManager, bpm, tempoChanges, audioOffset]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const totalGridWidth = totalBeats * pixelsPerBeat; 
   const totalGridHeight = KEY_COUNT * pixelsPerSemitone;
   
   // Wrap getCoordsAndDerived in useCallback to ensure stable reference for dependencies
@@ -126,7 +143,7 @@ function MidiEditor({ block, track }: MidiEditorProps) {
     pixelsPerSemitone,
     getCoordsAndDerivedCallback, 
     currentBeat,
-    numMeasures,
+    totalBeats,
     blockStartBeat, 
     blockDuration, 
     setSelectedWindow
@@ -169,6 +186,7 @@ function MidiEditor({ block, track }: MidiEditorProps) {
       editorDimensions.width,
       editorDimensions.height,
       numMeasures,
+      timeSignatureMap,
       selectionBox,
       isDragging,
       pixelsPerBeat,
@@ -177,7 +195,8 @@ function MidiEditor({ block, track }: MidiEditorProps) {
       blockDuration,
       scrollX,
       scrollY,
-      currentBeat
+      currentBeat,
+      waveform
     );
 
     ctx.restore(); 
@@ -195,7 +214,9 @@ function MidiEditor({ block, track }: MidiEditorProps) {
       scrollX, 
       scrollY,
       numMeasures,
-      currentBeat
+      timeSignatureMap,
+      currentBeat,
+      waveform
   ]);
 
   const handleEditorClick = () => {
@@ -209,8 +230,7 @@ function MidiEditor({ block, track }: MidiEditorProps) {
     const clickX = clientX - rect.left;
     const beat = (clickX + scrollX) / pixelsPerBeat;
     const snappedBeat = Math.round(beat * 4) / 4; // Snap to quarter beats
-    const maxBeat = numMeasures * BEATS_PER_MEASURE;
-    seekTo(Math.max(0, Math.min(snappedBeat, maxBeat)));
+    seekTo(Math.max(0, Math.min(snappedBeat, totalBeats)));
   };
 
   const handleBeatRulerMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
@@ -240,7 +260,7 @@ function MidiEditor({ block, track }: MidiEditorProps) {
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [isDraggingRuler, scrollX, pixelsPerBeat, numMeasures, seekTo]);
+  }, [isDraggingRuler, scrollX, pixelsPerBeat, totalBeats, seekTo]);
 
   return (
     <div
@@ -273,15 +293,15 @@ function MidiEditor({ block, track }: MidiEditorProps) {
             pointerEvents: 'none'
           }}>
             {/* Render beat markers */}
-            {Array.from({ length: numMeasures * BEATS_PER_MEASURE + 1 }).map((_, beatIndex) => {
-              const isMeasureStart = beatIndex % BEATS_PER_MEASURE === 0;
-              const measureNumber = Math.floor(beatIndex / BEATS_PER_MEASURE) + 1;
+            {timeSignatureMap.getBeatGrid(numMeasures).map(({ beat, measure, beatInMeasure }) => {
+              const isMeasureStart = beatInMeasure === 0;
+              const measureNumber = measure + 1;
               return (
                 <div
-                  key={`beat-${beatIndex}`}
+                  key={`beat-${beat}`}
                   style={{
                     position: 'absolute',
-                    left: `${beatIndex * pixelsPerBeat}px`,
+                    left: `${beat * pixelsPerBeat}px`,
                     top: 0,
                     height: '100%',
                     display: 'flex',
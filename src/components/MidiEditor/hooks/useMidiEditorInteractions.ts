@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { MIDIBlock, MIDINote } from '../../../lib/types';
-import { SelectionBox, BLOCK_RESIZE_HANDLE_WIDTH, PLAYHEAD_DRAG_WIDTH, GRID_SNAP, BEATS_PER_MEASURE } from '../utils/constants';
+import { SelectionBox, BLOCK_RESIZE_HANDLE_WIDTH, PLAYHEAD_DRAG_WIDTH, GRID_SNAP } from '../utils/constants';
 
 import {
     handleNoteClick,
@@ -36,7 +36,7 @@ interface UseMidiEditorInteractionsProps {
         x: number; y: number; scrolledX: number; scrolledY: number; beat: number; pitch: number;
     } | null;
     currentBeat: number;
-    numMeasures: number;
+    totalBeats: number;
     blockStartBeat: number;
     blockDuration: number;
     setSelectedWindow: (window: SelectedWindowType) => void;
@@ -70,7 +70,7 @@ export const useMidiEditorInteractions = ({
     pixelsPerSemitone,
     getCoordsAndDerivedCallback,
     currentBeat,
-    numMeasures,
+    totalBeats,
     blockStartBeat,
     blockDuration,
     setSelectedWindow
@@ -97,7 +97,7 @@ export const useMidiEditorInteractions = ({
     const pixelsPerBeatRef = useRef(pixelsPerBeat);
     const pixelsPerSemitoneRef = useRef(pixelsPerSemitone);
     const currentBeatRef = useRef(currentBeat);
-    const numMeasuresRef = useRef(numMeasures);
+    const totalBeatsRef = useRef(totalBeats);
     useEffect(() => { blockRef.current = block; }, [block]);
     useEffect(() => { selectedNoteIdsRef.current = selectedNoteIds; }, [selectedNoteIds]);
     useEffect(() => { dragOperationRef.current = dragOperation; }, [dragOperation]);
@@ -108,6 +108,7 @@ export const useMidiEditorInteractions = ({
     useEffect(() => { pixelsPerBeatRef.current = pixelsPerBeat; }, [pixelsPerBeat]);
     useEffect(() => { pixelsPerSemitoneRef.current = pixelsPerSemitone; }, [pixelsPerSemitone]);
     useEffect(() => { currentBeatRef.current = currentBeat; }, [currentBeat]);
+    useEffect(() => { totalBeatsRef.current = totalBeats; }, [totalBeats]);
 
     useEffect(() => {
         const handleMouseMove = (e: MouseEvent) => {
@@ -145,7 +146,7 @@ export const useMidiEditorInteractions = ({
                 // console.log("currentDragOp === 'drag-playhead'");
                 let newBeat = coords.scrolledX / currentPixelsPerBeat;
                 newBeat = Math.round(newBeat * 4) / 4;
-                const maxBeat = numMeasures * BEATS_PER_MEASURE;
+                const maxBeat = totalBeats;
                 newBeat = Math.max(0, Math.min(newBeat, maxBeat));
                 seekTo(newBeat);
                 return;
@@ -188,7 +189,7 @@ export const useMidiEditorInteractions = ({
                 let newEndBeat = newStartBeat + duration;
                 
                 // Ensure block doesn't exceed total measures
-                const maxBeat = numMeasuresRef.current * BEATS_PER_MEASURE;
+                const maxBeat = totalBeatsRef.current;
                 if (newEndBeat > maxBeat) {
                     newStartBeat = maxBeat - duration;
                     newEndBeat = maxBeat;
@@ -323,7 +324,7 @@ export const useMidiEditorInteractions = ({
                 setCopiedNotes,
                 seekTo,
                 currentBeatRef.current,
-                numMeasuresRef.current
+                totalBeatsRef.current
             );
         };
 
@@ -338,7 +339,7 @@ export const useMidiEditorInteractions = ({
         };
     }, [
         trackId, updateMidiBlock, moveMidiBlock, setSelectedNoteIds, storeSelectNotes, seekTo, 
-        selectedWindow, numMeasures,
+        selectedWindow, totalBeats,
         getCoordsAndDerivedCallback,
         dragStart, dragNoteId, clickOffset, initialDragStates, mouseDownButton, copiedNotes, setCopiedNotes
     ]);
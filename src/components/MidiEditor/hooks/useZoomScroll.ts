@@ -8,8 +8,7 @@ import {
     PIXELS_PER_BEAT as DEFAULT_PIXELS_PER_BEAT, // Rename default import
     PIXELS_PER_SEMITONE as DEFAULT_PIXELS_PER_SEMITONE, // Rename default import
     ZOOM_SENSITIVITY,
-    KEY_COUNT,
-    BEATS_PER_MEASURE
+    KEY_COUNT
 } from '../utils/constants';
 
 // --- Define Vertical Zoom constants locally --- 
@@ -19,7 +18,7 @@ const MAX_PIXELS_PER_SEMITONE = 50; // Example maximum height
 
 interface UseZoomScrollProps {
     editorRef: React.RefObject<HTMLDivElement | null>; // Allow null in ref
-    numMeasures: number;
+    totalBeats: number;
     // Optional initial values if needed later
     // initialPixelsPerBeat?: number;
     // initialPixelsPerSemitone?: number;
@@ -27,7 +26,7 @@ interface UseZoomScrollProps {
 
 export const useZoomScroll = ({
     editorRef,
-    numMeasures
+    totalBeats
 }: UseZoomScrollProps) => {
     const [pixelsPerBeat, setPixelsPerBeat] = useState(DEFAULT_PIXELS_PER_BEAT);
     const [pixelsPerSemitone, setPixelsPerSemitone] = useState(DEFAULT_PIXELS_PER_SEMITONE);
@@ -60,7 +59,7 @@ export const useZoomScroll = ({
                 setPixelsPerBeat((prevPixelsPerBeat) => {
                     const mouseX = e.clientX - gridElement.getBoundingClientRect().left;
                     const currentScrollX = gridElement.scrollLeft;
-                    const currentContentWidth = numMeasures * BEATS_PER_MEASURE * prevPixelsPerBeat;
+                    const currentContentWidth = totalBeats * prevPixelsPerBeat;
 
                     if (currentContentWidth > 0) {
                         zoomScrollAdjustmentRef.current = {
@@ -130,7 +129,7 @@ export const useZoomScroll = ({
             //setScrollX(gridElement.scrollLeft);
             //setScrollY(gridElement.scrollTop);
         }
-    }, [numMeasures, editorRef]); // Dependencies
+    }, [totalBeats, editorRef]); // Dependencies
 
     // Effect to attach wheel listener with passive: false
     useEffect(() => {
@@ -164,12 +163,14 @@ export const useZoomScroll = ({
                 adjustmentRef.isAdjusting = true; // Ensure flag is set for duration
 
                 if (zoomDimension === 'x') {
-                    const newContentWidth = numMeasures * BEATS_PER_MEASURE * pixelsPerBeat;
+                    const newContentWidth = totalBeats * pixelsPerBeat;
                     let targetScrollX = (proportionX * newContentWidth) - mouseX;
                     targetScrollX = Math.max(0, Math.min(targetScrollX, newContentWidth - viewportWidth));
                     if (!isNaN(targetScrollX) && isFinite(targetScrollX)) {
                         gridElement.scrollLeft = targetScrollX;
-                        //setScrollX(targetScrollX);
+                        // The scroll event this triggers is ignored below, so the state is synced here
+                        // (read back, as the browser may clamp it); the canvas draws from this state
+                        setScrollX(gridElement.scrollLeft);
                     } else {
                         console.warn("Calculated invalid targetScrollX", { proportionX, newContentWidth, mouseX, targetScrollX });
                     }
@@ -179,7 +180,7 @@ export const useZoomScroll = ({
                     targetScrollY = Math.max(0, Math.min(targetScrollY, newContentHeight - viewportHeight));
                     if (!isNaN(targetScrollY) && isFinite(targetScrollY)) {
                         gridElement.scrollTop = targetScrollY;
-                        //setScrollY(targetScrollY);
+                        setScrollY(gridElement.scrollTop);
                     } else {
                         console.warn("Calculated invalid targetScrollY", { proportionY, newContentHeight, mouseY, targetScrollY });
                     }
@@ -195,7 +196,7 @@ export const useZoomScroll = ({
 
             return () => clearTimeout(timeoutId);
         }
-    }, [pixelsPerBeat, pixelsPerSemitone, numMeasures, editorRef]); // Dependencies // eslint-disable-line react-hooks/exhaustive-deps
+    }, [pixelsPerBeat, pixelsPerSemitone, totalBeats, editorRef]); // Dependencies // eslint-disable-line react-hooks/exhaustive-deps
 
     // Scroll handler for the grid element
     const handleGridScroll = useCallback((e: React.UIEvent<HTMLDivElement>) => {
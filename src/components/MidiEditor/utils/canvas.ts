@@ -1,4 +1,6 @@
 import { MIDINote } from '../../../lib/types';
+import TimeSignatureMap from '../../../lib/TimeSignatureMap';
+import { WaveformPeaks, drawWaveform } from '../../../lib/WaveformPeaks';
 import {
   KEY_COUNT,
   LOWEST_NOTE,
@@ -7,10 +9,17 @@ import {
   SELECTION_BOX_COLOR,
   SELECTION_BOX_BORDER_COLOR,
   GRID_SNAP,
-  SelectionBox,
-  BEATS_PER_MEASURE
+  SelectionBox
 } from './constants';
 
+const WAVEFORM_BACKGROUND_COLOR = 'rgba(144, 238, 144, 0.12)';
+
+// The loaded audio, drawn behind the grid so notes can be lined up with it
+export interface WaveformBackground {
+  peaks: WaveformPeaks;
+  beatToAudioTime: (beat: number) => number; // Seconds into the audio at a timeline beat
+}
+
 // --- Helper to check if a horizontal range is visible ---
 function isRangeVisibleX(startX: number, endX: number, scrollX: number, canvasWidth: number): boolean {
   const screenStartX = startX - scrollX;
@@ -47,6 +56,7 @@ export const drawMidiEditor = (
   canvasWidth: number,      // Visible canvas width
   canvasHeight: number,     // Visible canvas height
   numMeasures: number,      // Total number of measures for grid calculation
+  timeSignatureMap: TimeSignatureMap, // Measure layout for grid calculation
   selectionBox: SelectionBox | null, // Allow null
   isDragging: boolean,        // Keep for selection box visibility
   pixelsPerBeat: number,
@@ -55,12 +65,24 @@ export const drawMidiEditor = (
   blockDuration: number,
   scrollX: number,            // Current horizontal scroll offset
   scrollY: number,            // Current vertical scroll offset
-  currentBeat: number         // Playhead position in beats
+  currentBeat: number,        // Playhead position in beats
+  waveform: WaveformBackground | null = null // Loaded audio, if any
 ): void => {
   // 0. Clear canvas (important!)
   ctx.clearRect(0, 0, canvasWidth, canvasHeight);
 
-  drawGrid(ctx, canvasWidth, canvasHeight, numMeasures, pixelsPerBeat, pixelsPerSemitone, scrollX, scrollY);
+  if (waveform) {
+    drawWaveform(ctx, waveform.peaks, {
+      left: 0,
+      top: 0,
+      width: Math.ceil(canvasWidth),
+      height: canvasHeight,
+      xToTime: (x) => waveform.beatToAudioTime((x + scrollX) / pixelsPerBeat),
+      color: WAVEFORM_BACKGROUND_COLOR,
+    });
+  }
+
+  drawGrid(ctx, canvasWidth, canvasHeight, numMeasures, timeSignatureMap, pixelsPerBeat, pixelsPerSemitone, scrollX, scrollY);
 
   drawMidiBlock(ctx, blockStartBeat, blockDuration, pixelsPerBeat, pixelsPerSemitone, scrollX, scrollY, canvasWidth, canvasHeight);
 
@@ -81,6 +103,7 @@ const drawGrid = (
   canvasWidth: number,
   canvasHeight: number,
   numMeasures: number,
+  timeSignatureMap: TimeSignatureMap,
   pixelsPerBeat: number,
   pixelsPerSemitone: number,
   scrollX: number,
@@ -88,7 +111,7 @@ const drawGrid = (
 ): void => {
   // console.log('scrollX', scrollX);
   // console.log('scrollY', scrollY);
-  const totalBeats = numMeasures * BEATS_PER_MEASURE;
+  const totalBeats = timeSignatureMap.getTotalBeats(numMeasures);
 
   // --- Draw Horizontal Lines (Pitch) ---
   const startKey = Math.max(0, Math.floor(scrollY / pixelsPerSemitone));
@@ -132,9 +155,12 @@ const drawGrid = (
 
         // Style beat/measure lines
         // `beat` is the actual beat number (e.g., 0, 0.25, 0.5, ...)
-        if (beat % BEATS_PER_MEASURE === 0) { // Measure line
+        const measure = timeSignatureMap.getMeasureAtBeat(beat);
+        const offsetInMeasure = beat - timeSignatureMap.getMeasureStartBeat(measure);
+        const beatLength = TimeSignatureMap.getBeatUnit(timeSignatureMap.getSignatureAtMeasure(measure));
+        if (Math.abs(offsetInMeasure) < 1e-6) { // Measure line
           ctx.strokeStyle = '#666'; ctx.lineWidth = 1;
-        } else if (beat % 1 === 0) { // Beat line
+        } else if (Math.abs(offsetInMeasure / beatLength - Math.round(offsetInMeasure / beatLength)) < 1e-6) { // Beat line
           ctx.strokeStyle = '#444'; ctx.lineWidth = 0.5;
         } else { // Subdivision line
           ctx.strokeStyle = '#333'; ctx.lineWidth = 0.5;
@@ -13,7 +13,7 @@ export const getKeyboardAction = (
   selectedNoteIds: string[],
   copiedNotes: MIDINote[],
   currentBeat: number,
-  numMeasures: number
+  totalBeats: number
 ): {
   action: 'delete' | 'escape' | 'copy' | 'paste' | 'none',
   updatedBlock?: MIDIBlock,
@@ -48,7 +48,7 @@ export const getKeyboardAction = (
   // Paste with Ctrl+V / Cmd+V
   if ((ctrlKey || metaKey) && key === 'v' && copiedNotes.length > 0) {
     
-    const { updatedBlock, pastedNoteIds } = pasteNotes(block, copiedNotes, 0, currentBeat, numMeasures);
+    const { updatedBlock, pastedNoteIds } = pasteNotes(block, copiedNotes, 0, currentBeat, totalBeats);
     return { 
       action: 'paste', 
       updatedBlock,
@@ -76,7 +76,7 @@ export const handleKeyboardShortcuts = (
   setCopiedNotes: (notes: MIDINote[]) => void,
   seekTo: (beat: number) => void,
   currentBeat: number,
-  numMeasures: number
+  totalBeats: number
 ): void => {
   // Skip if focus is on input element
   if (
@@ -94,7 +94,7 @@ export const handleKeyboardShortcuts = (
     selectedNoteIds,
     copiedNotes,
     currentBeat,
-    numMeasures
+    totalBeats
   );
   
   switch (result.action) {
@@ -2,8 +2,7 @@ import { MIDIBlock, MIDINote } from '../../../lib/types';
 import { 
   GRID_SNAP, 
   MINIMUM_NOTE_DURATION, 
-  PASTE_OFFSET,
-  BEATS_PER_MEASURE
+  PASTE_OFFSET
 } from './constants';
 import { generateNoteId, isNoteInSelectionBox } from './utils';
 
@@ -87,7 +86,7 @@ export const pasteNotes = (
   copiedNotes: MIDINote[], 
   offset: number = PASTE_OFFSET,
   currentBeat: number,
-  numMeasures: number
+  totalBeats: number
 ): { updatedBlock: MIDIBlock, pastedNoteIds: string[] } => {
   if (copiedNotes.length === 0) {
     return { updatedBlock: block, pastedNoteIds: [] };
@@ -103,7 +102,7 @@ export const pasteNotes = (
     const newStartBeat = currentBeat + relativePosition;// + offset;
 
     // Ensure the note fits within the block
-    if (newStartBeat + note.duration > numMeasures * BEATS_PER_MEASURE) {
+    if (newStartBeat + note.duration > totalBeats) {
       return null; // Skip notes that would extend beyond the block
     }
     
@@ -0,0 +1,157 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Circle, KeyboardMusic } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import useStore from '../../store/store';
+import { MIDI_RECORD_QUANTIZE_OPTIONS, MidiInputStatus } from '../../store/midiInputSlice';
+import styles from './MidiInputControls.module.css';
+
+const STATUS_LABELS: Record<MidiInputStatus, string | null> = {
+  off: 'MIDI input starts when recording, live mode or MIDI learn is turned on',
+  pending: 'Waiting for MIDI access…',
+  ready: null,
+  unsupported: 'This browser does not support Web MIDI',
+  denied: 'MIDI access was denied',
+};
+
+// Record-arm and live performance toggles for a MIDI controller, with the input device,
+// recording quantize and controller mapping in a menu on right-click
+function MidiInputControls() {
+  const {
+    midiInputStatus,
+    midiInputDevices,
+    selectedMidiInputId,
+    isMidiRecordArmed,
+    midiRecordQuantize,
+    isLivePerformance,
+    midiCCBindings,
+    isMidiLearnActive,
+    isMidiCCAutomationRecording,
+    selectedBlockId,
+    selectedTrackId,
+    enableMidiInput,
+    selectMidiInput,
+    toggleMidiRecordArmed,
+    setMidiRecordQuantize,
+    toggleLivePerformance,
+    toggleMidiLearn,
+    toggleMidiCCAutomationRecording,
+    setSelectedWindow,
+  } = useStore();
+  const [menu, setMenu] = useState<{ x: number; y: number } | null>(null);
+
+  // Close the menu on any click outside it
+  useEffect(() => {
+    if (!menu) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!(e.target as Element).closest?.('.midi-input-menu-class')) {
+        setMenu(null);
+      }
+    };
+    window.addEventListener('mousedown', handleMouseDown);
+    return () => window.removeEventListener('mousedown', handleMouseDown);
+  }, [menu]);
+
+  const openMenu = (e: React.MouseEvent<HTMLButtonElement>) => {
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    setMenu({ x: rect.left, y: rect.bottom + 4 });
+    void enableMidiInput(); // Lists the devices
+  };
+
+  const recordTitle = selectedBlockId
+    ? 'Record MIDI into the selected block while playing (right-click for options)'
+    : 'Record MIDI: select a block to record into (right-click for options)';
+  const liveTitle = selectedTrackId
+    ? "Live performance: play the selected track's synth from a MIDI controller (right-click for options)"
+    : 'Live performance: select a track to play (right-click for options)';
+  const statusLabel = STATUS_LABELS[midiInputStatus];
+
+  return (
+    <div>
+      <div className={styles.controlsContainer}>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={isMidiRecordArmed ? styles.recordButtonActive : styles.recordButtonInactive}
+          title={recordTitle}
+          onClick={() => {
+            toggleMidiRecordArmed();
+            setSelectedWindow(null);
+          }}
+          onContextMenu={openMenu}
+        >
+          <Circle className="h-4 w-4 fill-current" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={isLivePerformance ? styles.liveButtonActive : styles.liveButtonInactive}
+          title={liveTitle}
+          onClick={() => {
+            toggleLivePerformance();
+            setSelectedWindow(null);
+          }}
+          onContextMenu={openMenu}
+        >
+          <KeyboardMusic className="h-5 w-5" />
+        </Button>
+      </div>
+
+      {menu && (
+        <div
+          className={`midi-input-menu-class ${styles.menu}`}
+          style={{ top: `${menu.y}px`, left: `${menu.x}px` }}
+          onClick={(e) => e.stopPropagation()}
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          {statusLabel && <div className={styles.menuStatus}>{statusLabel}</div>}
+          <label className={styles.menuRow}>
+            <span>Input</span>
+            <select
+              value={selectedMidiInputId ?? ''}
+              onChange={(e) => selectMidiInput(e.target.value || null)}
+              className={styles.menuSelect}
+            >
+              <option value="">All inputs</option>
+              {midiInputDevices.map(device => (
+                <option key={device.id} value={device.id}>{device.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.menuRow}>
+            <span>Quantize</span>
+            <select
+              value={midiRecordQuantize}
+              onChange={(e) => setMidiRecordQuantize(parseFloat(e.target.value))}
+              className={styles.menuSelect}
+            >
+              {MIDI_RECORD_QUANTIZE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <div className={styles.menuDivider} />
+          <label className={styles.menuRow}>
+            <span title="Click a synth or effect property, then move a knob or fader to bind it">
+              MIDI learn
+            </span>
+            <input type="checkbox" checked={isMidiLearnActive} onChange={toggleMidiLearn} />
+          </label>
+          <label className={styles.menuRow}>
+            <span title="Bound controllers write automation while the transport plays">
+              Record controllers as automation
+            </span>
+            <input type="checkbox" checked={isMidiCCAutomationRecording} onChange={toggleMidiCCAutomationRecording} />
+          </label>
+          <div className={styles.menuNote}>
+            {midiCCBindings.length === 1 ? '1 controller bound' : `${midiCCBindings.length} controllers bound`}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MidiInputControls;
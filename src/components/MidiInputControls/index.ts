@@ -0,0 +1,3 @@
+import MidiInputControls from './MidiInputControls';
+
+export default MidiInputControls;
@@ -1,20 +1,89 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import useStore from '../../store/store';
 import styles from './PlaybarView.module.css';
-import { Repeat, Upload, Play, Pause, Square, PanelLeft } from 'lucide-react';
+import { Repeat, Upload, Play, Pause, Square, PanelLeft, AudioWaveform, Timer } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import type { User } from '@supabase/supabase-js'; // Import User type
 import LogInButton from '../AuthButtons/LogInButton'; // Import new component
 import SignUpButton from '../AuthButtons/SignUpButton'; // Import new component
 import Link from 'next/link';
+import type { SaveQueueSnapshot } from '@/Persistence/save-queue';
+import type { SyncSnapshot } from '@/Persistence/sync-manager';
+import { detectTempo } from '@/lib/TempoDetection';
+import MidiInputControls from '../MidiInputControls';
+
+const MIN_BPM_INPUT = 20;
+const MAX_BPM_INPUT = 400;
 
 // Define props including the user
 interface PlaybarViewProps {
   user: User | null;
 }
 
+// Sums up the save queue and the background sync in one label
+const getSaveStatusLabel = (saveQueueState: SaveQueueSnapshot, syncState: SyncSnapshot): string => {
+  if (saveQueueState.status === 'failed') return `Not saved: ${saveQueueState.lastError ?? 'unknown error'}`;
+  if (syncState.status === 'offline') return 'Offline';
+  if (syncState.status === 'conflict') return 'Sync conflict';
+  if (saveQueueState.status === 'retrying' || syncState.status === 'error') return 'Retrying…';
+  const isSaving = saveQueueState.status !== 'saved' || saveQueueState.pendingCount > 0;
+  const isSyncing = syncState.status !== 'synced' || syncState.pendingCount > 0;
+  return isSaving || isSyncing ? 'Saving…' : 'All changes saved';
+};
+
+// A text field that keeps what the user types until Enter or blur, then commits a valid number
+// (anything else reverts to the current value)
+function NumberField({ value, format, isValid, onCommit, className, title }: {
+  value: number;
+  format: (value: number) => string;
+  isValid: (value: number) => boolean;
+  onCommit: (value: number) => void;
+  className: string;
+  title?: string;
+}) {
+  const [draft, setDraft] = useState(format(value));
+
+  useEffect(() => {
+    setDraft(format(value));
+  }, [value, format]);
+
+  const commit = () => {
+    const parsed = parseFloat(draft);
+    if (Number.isFinite(parsed) && isValid(parsed)) {
+      if (parsed !== value) onCommit(parsed);
+      setDraft(format(parsed));
+    } else {
+      setDraft(format(value));
+    }
+  };
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      value={draft}
+      title={title}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') {
+          setDraft(format(value));
+          e.currentTarget.blur();
+        }
+      }}
+      className={className}
+    />
+  );
+}
+
+const formatBpm = (bpm: number) => String(Math.round(bpm * 10) / 10);
+const formatOffset = (seconds: number) => seconds.toFixed(2);
+const isValidBpm = (bpm: number) => bpm >= MIN_BPM_INPUT && bpm <= MAX_BPM_INPUT;
+const isValidOffset = (seconds: number) => seconds >= 0;
+
 // Main PlaybarView component
 const PlaybarView: React.FC<PlaybarViewProps> = ({ user }) => { // Destructure user prop
   const { 
@@ -25,17 +94,62 @@ const PlaybarView: React.FC<PlaybarViewProps> = ({ user }) => { // Destructure u
     pause, 
     stop, 
     setBPM, 
+    audioOffset,
+    setAudioOffset,
+    audioAnalysis,
     loopEnabled,
     toggleLoop,
+    metronome,
+    toggleMetronome,
+    setMetronomeSettings,
     toggleInstrumentSidebar,
-    setSelectedWindow
+    setSelectedWindow,
+    isExporting,
+    exportProgress,
+    exportError,
+    startVideoExport,
+    r3fContext,
+    saveQueueState,
+    syncState,
+    retryFailedSaves,
+    discardFailedSaves,
+    exportProjectFile,
+    currentLoadedProjectId
   } = useStore();
 
   const [exportButtonHover, setExportButtonHover] = useState(false);
+  const [metronomeMenu, setMetronomeMenu] = useState<{ x: number; y: number } | null>(null);
+
+  // Close the metronome menu on any click outside it
+  useEffect(() => {
+    if (!metronomeMenu) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!(e.target as Element).closest?.('.metronome-menu-class')) {
+        setMetronomeMenu(null);
+      }
+    };
+    window.addEventListener('mousedown', handleMouseDown);
+    return () => window.removeEventListener('mousedown', handleMouseDown);
+  }, [metronomeMenu]);
 
   const handlePlaybarClick = () => {
     setSelectedWindow(null);
   };
+
+  // Proposes the detected tempo and first beat; nothing changes unless the user accepts
+  const handleDetectTempo = () => {
+    if (!audioAnalysis) return;
+    const estimate = detectTempo(audioAnalysis);
+    if (!estimate) {
+      window.alert('Could not detect a tempo in this audio.');
+      return;
+    }
+    const confidence = estimate.confidence < 0.3 ? ' (low confidence)' : '';
+    if (window.confirm(`Detected ${estimate.bpm} BPM${confidence}, first beat at ${formatOffset(estimate.firstBeatTime)}s. Apply the tempo and line up beat 0 with that beat?`)) {
+      setBPM(estimate.bpm);
+      setAudioOffset(estimate.firstBeatTime);
+    }
+  };
   
   return (
     <div
@@ -104,7 +218,26 @@ const PlaybarView: React.FC<PlaybarViewProps> = ({ user }) => { // Destructure u
         >
           <Repeat className="h-5 w-5 fill-current" />
         </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={metronome.enabled ? styles.metronomeButtonActive : styles.metronomeButtonInactive}
+          title={`Metronome${metronome.countIn ? ', with count-in' : ''} (right-click for options)`}
+          onClick={() => {
+            toggleMetronome();
+            setSelectedWindow(null);
+          }}
+          onContextMenu={(e) => {
+            e.preventDefault();
+            const rect = e.currentTarget.getBoundingClientRect();
+            setMetronomeMenu({ x: rect.left, y: rect.bottom + 4 });
+          }}
+        >
+          <Timer className="h-5 w-5" />
+        </Button>
       </div>
+
+      <MidiInputControls />
     </div>
 
     <div style={{ position: 'absolute', left: '50%', top: '50%', transform: 'translate(-50%, -50%)', pointerEvents: 'none' }}>
@@ -120,20 +253,65 @@ const PlaybarView: React.FC<PlaybarViewProps> = ({ user }) => { // Destructure u
         </div>
       )}
 
+      <div
+        className={`${styles.saveStatus} ${saveQueueState.status === 'failed' ? styles.saveStatusFailed : ''}`}
+        title={saveQueueState.lastError ?? syncState.lastError ?? undefined}
+      >
+        {getSaveStatusLabel(saveQueueState, syncState)}
+      </div>
+      {/* Changes that couldn't be saved are still in the editor: try again, keep a copy as a file, or let them go */}
+      {saveQueueState.status === 'failed' && (
+        <div className={styles.saveFailedActions}>
+          <button onClick={retryFailedSaves}>Retry</button>
+          {currentLoadedProjectId && (
+            <button onClick={() => void exportProjectFile(currentLoadedProjectId, false)}>Export</button>
+          )}
+          <button
+            onClick={() => {
+              if (window.confirm(`Discard ${saveQueueState.failedCount} unsaved change(s)? They will be lost when the project is reloaded.`)) {
+                discardFailedSaves();
+              }
+            }}
+          >
+            Discard
+          </button>
+        </div>
+      )}
+
       <div className={styles.beatDisplay}>
         {currentBeat.toFixed(2)}
       </div>
 
       <div className={styles.bpmContainer}>
         <span className={styles.bpmLabel}>BPM:</span>
-        <input
-          type="text"
+        <NumberField
           value={bpm}
-          onChange={(e) => {
-            setBPM(parseInt(e.target.value));
-            setSelectedWindow(null);
-          }}
+          format={formatBpm}
+          isValid={isValidBpm}
+          onCommit={setBPM}
+          className={styles.bpmInput}
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          className={styles.detectTempoButton}
+          onClick={handleDetectTempo}
+          disabled={!audioAnalysis}
+          title={audioAnalysis ? 'Detect tempo from audio' : 'Load audio to detect its tempo'}
+        >
+          <AudioWaveform className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className={styles.bpmContainer}>
+        <span className={styles.bpmLabel}>Offset:</span>
+        <NumberField
+          value={audioOffset}
+          format={formatOffset}
+          isValid={isValidOffset}
+          onCommit={setAudioOffset}
           className={styles.bpmInput}
+          title="Seconds into the audio that line up with beat 0"
         />
       </div>
 
@@ -147,11 +325,59 @@ const PlaybarView: React.FC<PlaybarViewProps> = ({ user }) => { // Destructure u
         }}
         onMouseEnter={() => setExportButtonHover(true)}
         onMouseLeave={() => setExportButtonHover(false)}
+        onClick={() => {
+          void startVideoExport();
+          setSelectedWindow(null);
+        }}
+        disabled={isExporting || !r3fContext}
+        title={exportError ? `Last export failed: ${exportError}` : undefined}
       >
         <Upload className={styles.exportIcon} />
-        <span>Export</span>
+        <span>{isExporting ? `Exporting ${Math.round(exportProgress * 100)}%` : 'Export'}</span>
       </Button>
     </div>
+    {metronomeMenu && (
+      <div
+        className="metronome-menu-class"
+        style={{
+          position: 'fixed',
+          top: `${metronomeMenu.y}px`,
+          left: `${metronomeMenu.x}px`,
+          backgroundColor: '#333',
+          border: '1px solid #555',
+          borderRadius: '4px',
+          padding: '4px 0',
+          boxShadow: '0 2px 10px rgba(0,0,0,0.2)',
+          zIndex: 100,
+          color: 'white',
+          fontSize: '14px',
+          whiteSpace: 'nowrap'
+        }}
+        onClick={(e) => e.stopPropagation()}
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div style={{ padding: '6px 14px', display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <span>Volume</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={metronome.volume}
+            onChange={(e) => setMetronomeSettings({ volume: parseFloat(e.target.value) })}
+          />
+          <span style={{ width: '40px', textAlign: 'right' }}>{Math.round(metronome.volume * 100)}%</span>
+        </div>
+        <label style={{ padding: '6px 14px', display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={metronome.countIn}
+            onChange={(e) => setMetronomeSettings({ countIn: e.target.checked })}
+          />
+          <span>Count in one bar before playing</span>
+        </label>
+      </div>
+    )}
   </div>
   );
 };
@@ -0,0 +1,131 @@
+import React, { useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import useStore from '../../store/store';
+import { AutomationLane, AutomationPoint } from '../../lib/types';
+import { Property } from '../../lib/properties/Property';
+import {
+  DEFAULT_AUTOMATION_CURVE,
+  automationValueToRatio,
+  evaluateAutomation,
+  ratioToAutomationValue,
+} from '../../lib/Automation';
+import styles from './PostProcessingView.module.css';
+
+const LANE_HEIGHT = 48;
+const POINT_RADIUS = 4;
+const PATH_SAMPLES = 200; // Points along the drawn envelope, so every curve type is drawn as it is evaluated
+const BEAT_SNAP = 0.25; // New and dragged points land on sixteenth notes
+
+interface PostEffectAutomationLaneProps {
+  lane: AutomationLane;
+  property: Property<number>;
+  totalBeats: number;
+}
+
+// Envelope editor for one post effect property over the whole song. Click to add a point,
+// drag a point to move it, right-click a point to delete it.
+function PostEffectAutomationLane({ lane, property, totalBeats }: PostEffectAutomationLaneProps) {
+  const { currentBeat, setPostEffectAutomationPoints, removePostEffectAutomationLane } = useStore();
+  const svgRef = useRef<SVGSVGElement>(null);
+  // Point being dragged; `otherPoints` are the lane's remaining points
+  const [drag, setDrag] = useState<{ otherPoints: AutomationPoint[]; point: AutomationPoint } | null>(null);
+
+  const beatToX = (beat: number) => `${(beat / totalBeats) * 100}%`;
+  const valueToY = (value: number | string) =>
+    POINT_RADIUS + (1 - automationValueToRatio(property, value)) * (LANE_HEIGHT - 2 * POINT_RADIUS);
+
+  // Beat and value under the pointer
+  const getPointerPosition = (event: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const beat = ((event.clientX - rect.left) / rect.width) * totalBeats;
+    const ratio = 1 - (event.clientY - rect.top - POINT_RADIUS) / (rect.height - 2 * POINT_RADIUS);
+    return {
+      beat: Math.max(0, Math.min(totalBeats, Math.round(beat / BEAT_SNAP) * BEAT_SNAP)),
+      value: ratioToAutomationValue(property, ratio),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent, point?: AutomationPoint) => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+    svgRef.current!.setPointerCapture(event.pointerId);
+    if (point) {
+      setDrag({ otherPoints: lane.points.filter(p => p !== point), point });
+      return;
+    }
+    const newPoint: AutomationPoint = { ...getPointerPosition(event), curve: DEFAULT_AUTOMATION_CURVE };
+    setPostEffectAutomationPoints(lane.id, [...lane.points, newPoint]);
+    setDrag({ otherPoints: lane.points, point: newPoint });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag) return;
+    setPostEffectAutomationPoints(lane.id, [...drag.otherPoints, { ...drag.point, ...getPointerPosition(event) }]);
+  };
+
+  const handleRemovePoint = (event: React.MouseEvent, point: AutomationPoint) => {
+    event.preventDefault();
+    setPostEffectAutomationPoints(lane.id, lane.points.filter(p => p !== point));
+  };
+
+  const envelope = lane.points.length > 0
+    ? Array.from({ length: PATH_SAMPLES + 1 }, (_, i) => {
+      const beat = (i / PATH_SAMPLES) * totalBeats;
+      return `${i === 0 ? 'M' : 'L'}${beat} ${valueToY(evaluateAutomation(lane.points, beat)!)}`;
+    }).join(' ')
+    : null;
+
+  return (
+    <div className={styles.automationLane}>
+      <div className={styles.automationHeader}>
+        <span>Automation · {lane.points.length === 0 ? 'click to add points' : `${lane.points.length} points`}</span>
+        <button
+          className={styles.iconButton}
+          onClick={() => removePostEffectAutomationLane(lane.id)}
+          title="Remove automation"
+        >
+          <X size={12} />
+        </button>
+      </div>
+      <div className={styles.automationCanvas} style={{ height: LANE_HEIGHT }}>
+        {/* The envelope stretches with the lane; the points below keep their shape */}
+        <svg
+          className={styles.automationLayer}
+          viewBox={`0 0 ${totalBeats} ${LANE_HEIGHT}`}
+          preserveAspectRatio="none"
+        >
+          {envelope && <path d={envelope} className={styles.envelope} vectorEffect="non-scaling-stroke" />}
+        </svg>
+        <svg
+          ref={svgRef}
+          className={styles.automationLayer}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setDrag(null)}
+          onPointerCancel={() => setDrag(null)}
+        >
+          <line
+            x1={beatToX(currentBeat)}
+            x2={beatToX(currentBeat)}
+            y1={0}
+            y2={LANE_HEIGHT}
+            className={styles.playhead}
+          />
+          {lane.points.map(point => (
+            <circle
+              key={point.beat}
+              cx={beatToX(point.beat)}
+              cy={valueToY(point.value)}
+              r={POINT_RADIUS}
+              className={styles.envelopePoint}
+              onPointerDown={(e) => handlePointerDown(e, point)}
+              onContextMenu={(e) => handleRemovePoint(e, point)}
+            />
+          ))}
+        </svg>
+      </div>
+    </div>
+  );
+}
+
+export default PostEffectAutomationLane;
@@ -0,0 +1,229 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, GripVertical, Activity, X } from 'lucide-react';
+import useStore from '../../store/store';
+import PostEffect from '../../lib/postprocessing/PostEffect';
+import { Property } from '../../lib/properties/Property';
+import { AutomationLane } from '../../lib/types';
+import { isAutomatableProperty } from '../../lib/Automation';
+import { availablePostEffectsData, getPostEffectDefinition } from '../../store/postProcessingSlice';
+import SliderPropertyControl from '../properties/SliderPropertyControl';
+import NumberInputPropertyControl from '../properties/NumberInputPropertyControl';
+import DropdownPropertyControl from '../properties/DropdownPropertyControl';
+import ColorPropertyControl from '../properties/ColorPropertyControl';
+import PostEffectAutomationLane from './PostEffectAutomationLane';
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from '@dnd-kit/core';
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  verticalListSortingStrategy,
+  useSortable,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import debounce from 'lodash/debounce';
+import styles from './PostProcessingView.module.css';
+
+const getPostEffectName = (postEffect: PostEffect): string =>
+  getPostEffectDefinition(postEffect)?.name ?? postEffect.constructor.name;
+
+interface PostEffectItemProps {
+  postEffect: PostEffect;
+  lanes: AutomationLane[]; // The project's post effect lanes
+  totalBeats: number;
+  onPropertyChange: (postEffectId: string, propertyName: string, value: any) => void;
+}
+
+function PostEffectItem({ postEffect, lanes, totalBeats, onPropertyChange }: PostEffectItemProps) {
+  const { removePostEffect, setPostEffectEnabled, addPostEffectAutomationLane, removePostEffectAutomationLane } = useStore();
+  const [collapsed, setCollapsed] = useState(false);
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: postEffect.id });
+
+  const getLane = (propertyName: string) => lanes.find(lane =>
+    lane.propertyName === propertyName && lane.target.type === 'effect' && lane.target.effectId === postEffect.id
+  );
+
+  const renderPropertyInput = (property: Property<any>) => {
+    switch (property.uiType) {
+      case 'slider':
+        return (
+          <SliderPropertyControl
+            property={property as Property<number>}
+            onChange={(value) => onPropertyChange(postEffect.id, property.name, value)}
+          />
+        );
+      case 'numberInput':
+        return (
+          <NumberInputPropertyControl
+            property={property as Property<number>}
+            onChange={(value) => onPropertyChange(postEffect.id, property.name, value)}
+          />
+        );
+      case 'dropdown':
+        return (
+          <DropdownPropertyControl
+            property={property as Property<unknown>}
+            onChange={(value) => onPropertyChange(postEffect.id, property.name, value)}
+          />
+        );
+      case 'color':
+        return (
+          <ColorPropertyControl
+            property={property as Property<string>}
+            onChange={(value) => onPropertyChange(postEffect.id, property.name, value)}
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  // A property control with, for numeric properties, a toggle for its automation envelope
+  const renderPropertyControl = (property: Property<any>) => {
+    const lane = getLane(property.name);
+    const canAutomate = isAutomatableProperty(property) && property.uiType !== 'color';
+    return (
+      <div key={property.name} className={styles.property}>
+        {canAutomate && (
+          <button
+            className={`${styles.iconButton} ${styles.automateButton} ${lane ? styles.automateButtonActive : ''}`}
+            onClick={() => lane ? removePostEffectAutomationLane(lane.id) : addPostEffectAutomationLane(postEffect.id, property.name)}
+            title={lane ? 'Remove automation' : 'Automate over time'}
+          >
+            <Activity size={12} />
+          </button>
+        )}
+        {renderPropertyInput(property)}
+        {lane && <PostEffectAutomationLane lane={lane} property={property} totalBeats={totalBeats} />}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`${styles.item} ${postEffect.enabled ? '' : styles.itemDisabled}`}
+      style={{ transform: CSS.Transform.toString(transform), transition, opacity: isDragging ? 0.5 : undefined }}
+    >
+      <div className={styles.itemHeader}>
+        <div className={styles.dragHandle} {...attributes} {...listeners}>
+          <GripVertical size={16} />
+        </div>
+        <input
+          type="checkbox"
+          checked={postEffect.enabled}
+          onChange={(e) => setPostEffectEnabled(postEffect.id, e.target.checked)}
+          title={postEffect.enabled ? 'Bypass' : 'Enable'}
+        />
+        <h4 className={styles.itemTitle} onClick={() => setCollapsed(!collapsed)}>
+          {getPostEffectName(postEffect)}
+        </h4>
+        <button className={styles.iconButton} onClick={() => removePostEffect(postEffect.id)} title="Remove">
+          <X size={16} />
+        </button>
+        <ChevronDown
+          size={16}
+          className={styles.chevron}
+          style={{ transform: collapsed ? 'rotate(-90deg)' : undefined }}
+          onClick={() => setCollapsed(!collapsed)}
+        />
+      </div>
+      {!collapsed && (
+        <div className={styles.itemProperties}>
+          {Array.from(postEffect.properties.values()).map(renderPropertyControl)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// The project's post-processing stack: effects applied to the whole rendered frame, top to bottom
+function PostProcessingView() {
+  const {
+    postEffects,
+    postEffectAutomation,
+    addPostEffect,
+    reorderPostEffects,
+    updatePostEffectProperty,
+    timeSignatureMap,
+    numMeasures,
+  } = useStore();
+  const [showAddMenu, setShowAddMenu] = useState(false);
+
+  // Sliders report every step of a drag; the store is updated once the value settles
+  const debouncedUpdateProperty = useMemo(
+    () => debounce((postEffectId: string, propertyName: string, value: any) => {
+      updatePostEffectProperty(postEffectId, propertyName, value);
+    }, 300),
+    [updatePostEffectProperty]
+  );
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+    const oldIndex = postEffects.findIndex(postEffect => postEffect.id === active.id);
+    const newIndex = postEffects.findIndex(postEffect => postEffect.id === over.id);
+    if (oldIndex !== -1 && newIndex !== -1) reorderPostEffects(oldIndex, newIndex);
+  };
+
+  return (
+    <div className={styles.container}>
+      <h3 className={styles.title}>Post Processing</h3>
+      <p className={styles.hint}>Applied to the whole picture, top to bottom, after every track is drawn.</p>
+
+      <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+        <SortableContext items={postEffects.map(postEffect => postEffect.id)} strategy={verticalListSortingStrategy}>
+          <div className={styles.list}>
+            {postEffects.length > 0 ? (
+              postEffects.map(postEffect => (
+                <PostEffectItem
+                  key={postEffect.id}
+                  postEffect={postEffect}
+                  lanes={postEffectAutomation}
+                  totalBeats={timeSignatureMap.getTotalBeats(numMeasures)}
+                  onPropertyChange={debouncedUpdateProperty}
+                />
+              ))
+            ) : (
+              <div className={styles.empty}>No post effects. The scene is shown as rendered.</div>
+            )}
+          </div>
+        </SortableContext>
+      </DndContext>
+
+      <button className={styles.addButton} onClick={() => setShowAddMenu(!showAddMenu)}>
+        + Add Post Effect
+      </button>
+      {showAddMenu && (
+        <div className={styles.addMenu}>
+          {availablePostEffectsData.map(definition => (
+            <div
+              key={definition.id}
+              className={styles.addMenuItem}
+              onClick={() => {
+                addPostEffect(definition.id);
+                setShowAddMenu(false);
+              }}
+            >
+              {definition.name}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PostProcessingView;
@@ -0,0 +1,3 @@
+import PostProcessingView from './PostProcessingView';
+
+export default PostProcessingView;
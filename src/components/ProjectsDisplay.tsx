@@ -1,5 +1,5 @@
 "use client"
-import { LogOut, ExternalLink, Plus, FileText, X } from "lucide-react"
+import { LogOut, ExternalLink, Plus, FileText, X, Download, Upload } from "lucide-react"
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -11,11 +11,12 @@ import styles from '../../app/projects/projects.module.css'
 import { ProjectMetadata } from '../store/projectSlice'; // Import the type
 import type { User } from '@supabase/supabase-js'; // Import User type
 import { logout } from "../../app/(auth)/logout/actions"; // Corrected relative path
-import { useState } from "react"; // Import useState
+import { useState, useRef } from "react"; // Import useState
 import { createClient } from "../utils/supabase/client"; // Correct the import path for the client-side helper
 import LogInButton from "./AuthButtons/LogInButton";
 import SignUpButton from "./AuthButtons/SignUpButton";
 import useStore from '../store/store'; // Import useStore to access deleteProject
+import { CABIN_FILE_EXTENSION } from '../Persistence/projectFile';
 
 // Define a type for the profile data (adjust fields as needed)
 interface ProfileData {
@@ -54,6 +55,39 @@ export default function ProjectsDisplay({
   const [isLoggingOut, setIsLoggingOut] = useState(false); // Add loading state
   const userInitials = getInitials(profile?.first_name, profile?.last_name);
   const deleteProject = useStore((state) => state.deleteProject); // Get deleteProject action
+  const exportProjectFile = useStore((state) => state.exportProjectFile);
+  const importProjectFile = useStore((state) => state.importProjectFile);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Handler for downloading a project as a .cabin file
+  const handleExportProject = async (e: React.MouseEvent, projectId: string) => {
+    e.stopPropagation(); // Prevent triggering the card's onClick
+    const includeAudio = window.confirm('Include the audio file in the project file? This makes the file larger.');
+    const exported = await exportProjectFile(projectId, includeAudio);
+    if (!exported) {
+      window.alert('Could not export the project. Please try again.');
+    }
+  };
+
+  // Handler for creating a project from a .cabin file
+  const handleImportFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || isImporting) return;
+
+    setIsImporting(true);
+    try {
+      const newProjectId = await importProjectFile(file);
+      if (!newProjectId) {
+        window.alert('Could not import the project. Please try again.');
+      }
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : 'Could not import the project.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
   // Handler for deleting a project
   const handleDeleteProject = async (e: React.MouseEvent, projectId: string) => {
@@ -157,6 +191,21 @@ export default function ProjectsDisplay({
       </header>
 
       <div className={styles.buttonContainer}>
+        <input
+          type="file"
+          ref={importInputRef}
+          style={{ display: 'none' }}
+          accept={`${CABIN_FILE_EXTENSION},application/json`}
+          onChange={handleImportFileSelected}
+        />
+        <button
+          className={styles.importProjectButton}
+          onClick={() => importInputRef.current?.click()}
+          disabled={isImporting}
+        >
+          <Upload height={16} width={16} style={{ marginRight: '0.5rem' }} />
+          {isImporting ? 'Importing...' : 'Import Project'}
+        </button>
         <button className={styles.createProjectButton} onClick={onCreateProject}>
           <Plus height={16} width={16} style={{ marginRight: '0.5rem' }} />
           Create Project
@@ -189,6 +238,15 @@ export default function ProjectsDisplay({
                     >
                       <X className={styles.deleteIcon} />
                     </button>
+                    {/* Export button - appears on hover */}
+                    <button
+                      className={styles.exportButton}
+                      onClick={(e) => handleExportProject(e, project.id)}
+                      aria-label="Download project file"
+                      title="Download project file"
+                    >
+                      <Download className={styles.deleteIcon} />
+                    </button>
                 </div>
                 <div className={styles.cardContent}>
                     {/* Use project name from props */}
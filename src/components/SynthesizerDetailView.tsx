@@ -11,6 +11,8 @@ import NumberInputPropertyControl from './properties/NumberInputPropertyControl'
 import DropdownPropertyControl from './properties/DropdownPropertyControl';
 import ColorPropertyControl from './properties/ColorPropertyControl';
 import ColorRangePropertyControl from './properties/ColorRangePropertyControl'; // Import the new control
+import MidiLearnProperty from './properties/MidiLearnProperty';
+import { isMidiMappableProperty } from '../lib/MidiMapping';
 import { InstrumentDefinition } from '../store/instrumentSlice'; // Import InstrumentDefinition
 import { ColorRange } from '../lib/types'; // Import ColorRange type
 
@@ -98,6 +100,13 @@ function SynthesizerDetailView({ track }: SynthesizerDetailViewProps) {
         // Cast metadata to any to display the uiType in the error message
         control = <div key={key}>Unsupported property type: {(property.metadata as any).uiType}</div>;
     }
+    if (isMidiMappableProperty(property)) {
+      return (
+        <MidiLearnProperty key={key} trackId={track.id} target={{ type: 'synth' }} propertyName={property.name}>
+          {control}
+        </MidiLearnProperty>
+      );
+    }
     return control;
   };
 
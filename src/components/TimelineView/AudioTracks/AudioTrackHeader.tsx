@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import useStore from '../../../store/store';
+import { AudioTrack } from '../../../lib/types';
+import { MAX_AUDIO_GAIN } from '../../../lib/AudioClips';
+import styles from './AudioTracks.module.css';
+
+interface AudioTrackHeaderProps {
+  audioTrack: AudioTrack;
+  top: number;
+  height: number;
+}
+
+// Sidebar controls of an audio track: name, mute/solo, gain, adding clips and removing the track
+function AudioTrackHeader({ audioTrack, top, height }: AudioTrackHeaderProps) {
+  const { updateAudioTrack, removeAudioTrack, addAudioClip, currentBeat } = useStore();
+  const [isEditing, setIsEditing] = useState(false);
+  const [inputValue, setInputValue] = useState(audioTrack.name);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isEditing && inputRef.current) {
+      inputRef.current.focus();
+      inputRef.current.select();
+    }
+  }, [isEditing]);
+
+  const handleSave = () => {
+    const name = inputValue.trim();
+    if (name && name !== audioTrack.name) {
+      updateAudioTrack(audioTrack.id, { name });
+    }
+    setIsEditing(false);
+  };
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    // New clips start at the playhead
+    void addAudioClip(audioTrack.id, file, currentBeat).then(clipId => {
+      if (!clipId) window.alert(`Could not load "${file.name}" as audio.`);
+    });
+  };
+
+  const handleRemove = () => {
+    if (audioTrack.clips.length === 0 || window.confirm(`Remove "${audioTrack.name}" and its clips?`)) {
+      removeAudioTrack(audioTrack.id);
+    }
+  };
+
+  return (
+    <div
+      className={styles.audioTrackHeader}
+      style={{ top: `${top}px`, height: `${height}px` }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className={styles.headerRow}>
+        {isEditing ? (
+          <input
+            ref={inputRef}
+            type="text"
+            value={inputValue}
+            onChange={(e) => setInputValue(e.target.value)}
+            onBlur={handleSave}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+              if (e.key === 'Escape') setIsEditing(false);
+            }}
+            className={styles.trackNameInput}
+          />
+        ) : (
+          <span
+            className={styles.trackName}
+            title={`${audioTrack.name} (double-click to rename)`}
+            onDoubleClick={() => {
+              setInputValue(audioTrack.name);
+              setIsEditing(true);
+            }}
+          >
+            {audioTrack.name}
+          </span>
+        )}
+        <button
+          className={`${styles.controlButton} ${audioTrack.isMuted ? styles.muteActive : ''}`}
+          onClick={() => updateAudioTrack(audioTrack.id, { isMuted: !audioTrack.isMuted })}
+          title="Mute"
+        >
+          M
+        </button>
+        <button
+          className={`${styles.controlButton} ${audioTrack.isSoloed ? styles.soloActive : ''}`}
+          onClick={() => updateAudioTrack(audioTrack.id, { isSoloed: !audioTrack.isSoloed })}
+          title="Solo"
+        >
+          S
+        </button>
+        <button
+          className={styles.controlButton}
+          onClick={() => fileInputRef.current?.click()}
+          title="Add a clip at the playhead"
+        >
+          +
+        </button>
+        <button
+          className={styles.controlButton}
+          onClick={handleRemove}
+          title="Remove audio track"
+        >
+          ×
+        </button>
+      </div>
+      <div className={styles.headerRow}>
+        <input
+          type="range"
+          min={0}
+          max={MAX_AUDIO_GAIN}
+          step={0.01}
+          value={audioTrack.gain}
+          onChange={(e) => updateAudioTrack(audioTrack.id, { gain: parseFloat(e.target.value) })}
+          onDoubleClick={() => updateAudioTrack(audioTrack.id, { gain: 1 })}
+          className={styles.gainSlider}
+          title="Track gain (double-click to reset)"
+        />
+        <span className={styles.gainValue}>{Math.round(audioTrack.gain * 100)}%</span>
+      </div>
+      <input
+        type="file"
+        ref={fileInputRef}
+        style={{ display: 'none' }}
+        accept="audio/*"
+        onChange={handleFileSelected}
+      />
+    </div>
+  );
+}
+
+export default AudioTrackHeader;
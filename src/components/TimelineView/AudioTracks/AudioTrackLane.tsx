@@ -0,0 +1,276 @@
+import React, { useEffect, useRef, useState } from 'react';
+import useStore from '../../../store/store';
+import { AudioClip, AudioTrack } from '../../../lib/types';
+import { getClipDuration, MAX_AUDIO_GAIN, MIN_CLIP_SECONDS } from '../../../lib/AudioClips';
+import { drawWaveform } from '../../../lib/WaveformPeaks';
+import styles from './AudioTracks.module.css';
+
+const CLIP_WAVEFORM_COLOR = 'rgba(0, 195, 255, 0.55)';
+const CLIP_PADDING = 4; // Pixels between the lane edges and the clip waveforms
+const TRIM_HANDLE_WIDTH = 6; // Must match .trimHandle in CSS
+
+type ClipDragMode = 'move' | 'trimStart' | 'trimEnd';
+
+interface AudioTrackLaneProps {
+  audioTrack: AudioTrack;
+  horizontalZoom: number;
+  pixelsPerBeatBase: number;
+  renderMeasures: number; // Total measures to render visually
+  height: number;
+  scrollLeft: number;
+  visibleWidth: number;
+}
+
+// The clips of an audio track against the beat grid. Clips are dragged to move them and
+// trimmed at their edges; their waveforms are drawn on one canvas covering the visible part.
+function AudioTrackLane({
+  audioTrack,
+  horizontalZoom,
+  pixelsPerBeatBase,
+  renderMeasures,
+  height,
+  scrollLeft,
+  visibleWidth
+}: AudioTrackLaneProps) {
+  const {
+    audioClipSources,
+    updateAudioClip,
+    removeAudioClip,
+    timeManager,
+    bpm,
+    tempoChanges,
+    timeSignatureMap,
+  } = useStore();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [clipMenu, setClipMenu] = useState<{ clipId: string; x: number; y: number } | null>(null);
+
+  const effectivePixelsPerBeat = pixelsPerBeatBase * horizontalZoom;
+  const totalWidth = effectivePixelsPerBeat * timeSignatureMap.getTotalBeats(renderMeasures);
+  // Only the visible part is drawn; the canvas moves along with the scroll position
+  const canvasWidth = Math.max(0, Math.min(visibleWidth, totalWidth - scrollLeft));
+
+  // A clip's extent in beats; its length follows the tempo map since the file plays at its own speed
+  const getClipBeats = (clip: AudioClip) => {
+    const endTime = timeManager.beatToTime(clip.startBeat) + getClipDuration(clip);
+    return { startBeat: clip.startBeat, endBeat: timeManager.timeToBeat(endTime) };
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = canvasWidth * dpr;
+    canvas.height = height * dpr;
+    canvas.style.width = `${canvasWidth}px`;
+    canvas.style.height = `${height}px`;
+    if (canvasWidth <= 0) return;
+
+    ctx.scale(dpr, dpr);
+    ctx.clearRect(0, 0, canvasWidth, height);
+    const tempoMap = timeManager.getTempoMap();
+    audioTrack.clips.forEach(clip => {
+      const source = audioClipSources[clip.sourceId];
+      if (!source) return;
+      const clipStartTime = tempoMap.beatToTime(clip.startBeat);
+      const endBeat = tempoMap.timeToBeat(clipStartTime + getClipDuration(clip));
+      const left = Math.max(0, Math.floor(clip.startBeat * effectivePixelsPerBeat - scrollLeft));
+      const right = Math.min(canvasWidth, Math.ceil(endBeat * effectivePixelsPerBeat - scrollLeft));
+      if (right <= left) return;
+
+      // Only the trimmed part of the file is drawn
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(left, 0, right - left, height);
+      ctx.clip();
+      drawWaveform(ctx, source.peaks, {
+        left,
+        top: CLIP_PADDING,
+        width: right - left,
+        height: height - CLIP_PADDING * 2,
+        xToTime: (x) => {
+          const time = tempoMap.beatToTime((scrollLeft + x) / effectivePixelsPerBeat) - clipStartTime + clip.inPoint;
+          return time > clip.outPoint ? Infinity : time;
+        },
+        color: CLIP_WAVEFORM_COLOR,
+      });
+      ctx.restore();
+    });
+  }, [
+      audioTrack.clips,
+      audioClipSources,
+      canvasWidth,
+      height,
+      scrollLeft,
+      effectivePixelsPerBeat,
+      timeManager,
+      bpm, // The tempo map is rebuilt when the tempo changes
+      tempoChanges
+  ]);
+
+  // Close the clip menu on any click outside it
+  useEffect(() => {
+    if (!clipMenu) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!(e.target as Element).closest?.('.audio-clip-menu-class')) {
+        setClipMenu(null);
+      }
+    };
+    window.addEventListener('mousedown', handleMouseDown);
+    return () => window.removeEventListener('mousedown', handleMouseDown);
+  }, [clipMenu]);
+
+  // Moves or trims a clip while the mouse is held. Positions snap to the time signature's
+  // beats unless Alt is held; trimming the start keeps the rest of the audio in place.
+  const startClipDrag = (e: React.MouseEvent, clip: AudioClip, mode: ClipDragMode) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setClipMenu(null);
+
+    const startX = e.clientX;
+    const originalStartTime = timeManager.beatToTime(clip.startBeat);
+    const originalEndTime = originalStartTime + getClipDuration(clip);
+    const originalEndBeat = timeManager.timeToBeat(originalEndTime);
+
+    const handleMouseMove = (event: MouseEvent) => {
+      const deltaBeats = (event.clientX - startX) / effectivePixelsPerBeat;
+      const snap = (beat: number) => Math.max(0, event.altKey ? beat : timeSignatureMap.snapToSignatureBeat(beat));
+
+      if (mode === 'move') {
+        updateAudioClip(audioTrack.id, clip.id, { startBeat: snap(clip.startBeat + deltaBeats) });
+      } else if (mode === 'trimStart') {
+        const targetTime = timeManager.beatToTime(snap(clip.startBeat + deltaBeats));
+        const inPoint = Math.max(0, Math.min(clip.outPoint - MIN_CLIP_SECONDS, clip.inPoint + targetTime - originalStartTime));
+        const startTime = originalStartTime + inPoint - clip.inPoint;
+        updateAudioClip(audioTrack.id, clip.id, { inPoint, startBeat: timeManager.timeToBeat(startTime) });
+      } else {
+        const targetTime = timeManager.beatToTime(snap(originalEndBeat + deltaBeats));
+        updateAudioClip(audioTrack.id, clip.id, { outPoint: clip.outPoint + targetTime - originalEndTime });
+      }
+    };
+
+    const handleMouseUp = () => {
+      document.body.style.cursor = '';
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+
+    document.body.style.cursor = mode === 'move' ? 'grabbing' : 'ew-resize';
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const menuClip = clipMenu ? audioTrack.clips.find(clip => clip.id === clipMenu.clipId) ?? null : null;
+
+  return (
+    <div
+      className={styles.audioTrackLane}
+      style={{
+        height: `${height}px`,
+        width: `${totalWidth}px`
+      }}
+    >
+      <canvas
+        ref={canvasRef}
+        className={styles.clipWaveformCanvas}
+        style={{
+          left: `${scrollLeft}px`
+        }}
+      />
+      {audioTrack.clips.map(clip => {
+        const { startBeat, endBeat } = getClipBeats(clip);
+        const isMissing = !audioClipSources[clip.sourceId];
+        const clipClasses = [
+          styles.audioClip,
+          clip.isMuted ? styles.audioClipMuted : '',
+          isMissing ? styles.audioClipMissing : '',
+        ].filter(Boolean).join(' ');
+        return (
+          <div
+            key={clip.id}
+            className={clipClasses}
+            style={{
+              left: `${startBeat * effectivePixelsPerBeat}px`,
+              width: `${Math.max(TRIM_HANDLE_WIDTH * 2, (endBeat - startBeat) * effectivePixelsPerBeat)}px`,
+            }}
+            title={isMissing ? `${clip.name} (audio not stored on this device)` : clip.name}
+            onMouseDown={(e) => startClipDrag(e, clip, 'move')}
+            onContextMenu={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              setClipMenu({ clipId: clip.id, x: e.clientX, y: e.clientY });
+            }}
+          >
+            <span className={styles.audioClipLabel}>{clip.name}</span>
+            <div
+              className={`${styles.trimHandle} ${styles.trimHandleStart}`}
+              onMouseDown={(e) => startClipDrag(e, clip, 'trimStart')}
+            />
+            <div
+              className={`${styles.trimHandle} ${styles.trimHandleEnd}`}
+              onMouseDown={(e) => startClipDrag(e, clip, 'trimEnd')}
+            />
+          </div>
+        );
+      })}
+
+      {clipMenu && menuClip && (
+        <div
+          className="audio-clip-menu-class"
+          style={{
+            position: 'fixed',
+            top: `${clipMenu.y}px`,
+            left: `${clipMenu.x}px`,
+            backgroundColor: '#333',
+            border: '1px solid #555',
+            borderRadius: '4px',
+            padding: '4px 0',
+            boxShadow: '0 2px 10px rgba(0,0,0,0.2)',
+            zIndex: 100,
+            color: 'white',
+            fontSize: '14px',
+            whiteSpace: 'nowrap'
+          }}
+          onClick={(e) => e.stopPropagation()}
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <div
+            style={{ padding: '6px 14px', cursor: 'pointer' }}
+            onClick={() => {
+              updateAudioClip(audioTrack.id, menuClip.id, { isMuted: !menuClip.isMuted });
+              setClipMenu(null);
+            }}
+          >
+            {menuClip.isMuted ? 'Unmute Clip' : 'Mute Clip'}
+          </div>
+          <div style={{ padding: '6px 14px', display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <span>Gain</span>
+            <input
+              type="range"
+              min={0}
+              max={MAX_AUDIO_GAIN}
+              step={0.01}
+              value={menuClip.gain}
+              onChange={(e) => updateAudioClip(audioTrack.id, menuClip.id, { gain: parseFloat(e.target.value) })}
+            />
+            <span style={{ width: '40px', textAlign: 'right' }}>{Math.round(menuClip.gain * 100)}%</span>
+          </div>
+          <div
+            style={{ padding: '6px 14px', cursor: 'pointer', color: '#ff8080', borderTop: '1px solid #555' }}
+            onClick={() => {
+              removeAudioClip(audioTrack.id, menuClip.id);
+              setClipMenu(null);
+            }}
+          >
+            Delete Clip
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AudioTrackLane;
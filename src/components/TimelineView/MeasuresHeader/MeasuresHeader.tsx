@@ -1,15 +1,11 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import useStore from '../../../store/store';
 import styles from './MeasuresHeader.module.css'; // Import CSS Module
-
-// Helper function for quantization (adjust as needed)
-const quantizeBeat = (beat: number): number => {
-  return Math.round(beat);
-};
+import TimeSignatureMap from '../../../lib/TimeSignatureMap';
 
 // Constants
 // PIXELS_PER_BEAT is now calculated from props
-const BEATS_PER_MEASURE = 4;
+// Measure lengths come from the project's time signature map
 const HEADER_HEIGHT = 40;
 const PLAYHEAD_SEEK_SNAP = 0; // Playhead seek snapping granularity (in beats). Set to 0 for continuous.
 const TOP_SECTION_HEIGHT = HEADER_HEIGHT / 2;
@@ -23,7 +19,6 @@ const PROJECT_RESIZE_HANDLE_HEIGHT_RATIO = 1.2; // Triangle height relative to w
 const PROJECT_RESIZE_HANDLE_COLOR = 'rgba(200, 200, 200, 0.9)';
 const PROJECT_RESIZE_AREA_PIXELS = 10; // Clickable pixel threshold around the handle
 const PROJECT_RESIZE_HANDLE_GAP = 3; // Gap between last measure line and handle
-const MIN_PROJECT_BEATS = BEATS_PER_MEASURE; // Minimum project length in beats (e.g., 1 measure)
 
 // --- Canvas Drawing Colors ---
 // const LOOP_REGION_ENABLED_BG_COLOR = 'rgba(80, 120, 255, 0.5)'; // Old blue
@@ -37,6 +32,11 @@ const PLAYHEAD_TRIANGLE_WIDTH = 16; // Made wider again
 const PLAYHEAD_COLOR = '#cccccc'; // white-gray
 const PLAYHEAD_CORNER_RADIUS = 3; // Radius for rounded corners
 const PLAYHEAD_VERTICAL_OFFSET = 1; // Pixels to shift triangle down
+// --- Tempo Marker Constants ---
+const TEMPO_MARKER_COLOR = 'rgba(120, 200, 160, 0.9)';
+const TEMPO_MARKER_HIT_HEIGHT = 12; // Markers are grabbed by their label at the bottom of the header
+const TEMPO_MARKER_HIT_WIDTH = 40; // Clickable pixel width to the right of a marker line
+const TIME_SIGNATURE_COLOR = 'rgba(200, 170, 255, 0.9)';
 
 interface MeasuresHeaderProps {
   horizontalZoom: number;
@@ -60,6 +60,15 @@ function MeasuresHeader({
     toggleLoop,
     setNumMeasures,
     currentBeat, // Get currentBeat from store
+    bpm,
+    tempoChanges,
+    setBPM,
+    setTempoChange,
+    moveTempoChange,
+    removeTempoChange,
+    timeSignatureMap,
+    setTimeSignatureChange,
+    removeTimeSignatureChange,
   } = useStore();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -75,13 +84,19 @@ function MeasuresHeader({
   }>({ type: null, initialBeat: 0, initialMouseX: 0, initialStartBeat: null, initialEndBeat: null });
   const [cursorStyle, setCursorStyle] = useState('pointer'); // State for dynamic cursor
   const [isResizingProject, setIsResizingProject] = useState(false); // State for project resize drag
+  const [tempoDragState, setTempoDragState] = useState<{ fromBeat: number; currentBeat: number } | null>(null);
 
   // Calculate effective pixels per beat based on zoom
   const effectivePixelsPerBeat = pixelsPerBeatBase * horizontalZoom;
-  const actualSongBeats = numMeasures * BEATS_PER_MEASURE; // Use prop
+  const actualSongBeats = timeSignatureMap.getTotalBeats(numMeasures); // Use prop
 
   // Calculate total render beats based on the renderMeasures prop
-  const totalRenderBeats = renderMeasures * BEATS_PER_MEASURE;
+  const totalRenderBeats = timeSignatureMap.getTotalBeats(renderMeasures);
+
+  // Snap to the beats of the time signature (e.g. eighth notes in 7/8)
+  const quantizeBeat = useCallback((beat: number): number => {
+    return timeSignatureMap.snapToSignatureBeat(beat);
+  }, [timeSignatureMap]);
 
   // --- Utility Functions (using effectivePixelsPerBeat) ---
   const calculateBeatFromX = useCallback((mouseX: number): number => {
@@ -107,6 +122,118 @@ function MeasuresHeader({
       return beat * effectivePixelsPerBeat;
   }, [effectivePixelsPerBeat]);
 
+  // The base tempo is shown as a marker at beat 0, followed by the tempo changes
+  const tempoMarkers = useMemo(() => [
+    { beat: 0, bpm, curve: 'step' as const },
+    ...tempoChanges,
+  ], [bpm, tempoChanges]);
+
+  // Returns the tempo marker whose label is under the mouse, if any
+  const findTempoMarkerAt = useCallback((mouseX: number, mouseY: number) => {
+    if (mouseY < HEADER_HEIGHT - TEMPO_MARKER_HIT_HEIGHT) return null;
+    // Search from the end so the later marker wins when labels overlap
+    for (let i = tempoMarkers.length - 1; i >= 0; i--) {
+      const markerX = beatToX(tempoMarkers[i].beat);
+      if (mouseX >= markerX - 3 && mouseX <= markerX + TEMPO_MARKER_HIT_WIDTH) {
+        return tempoMarkers[i];
+      }
+    }
+    return null;
+  }, [tempoMarkers, beatToX]);
+
+  // --- Tempo Marker Handlers (Bottom Half) ---
+  const handleTempoMarkerMove = useCallback((event: MouseEvent) => {
+    if (!tempoDragState || !overlayRef.current) return;
+    const overlayRect = overlayRef.current.getBoundingClientRect();
+    const targetBeat = quantizeBeat(calculateBeatFromX(event.clientX - overlayRect.left));
+    if (targetBeat > 0 && targetBeat !== tempoDragState.currentBeat) {
+      setTempoDragState({ ...tempoDragState, currentBeat: targetBeat });
+    }
+  }, [tempoDragState, calculateBeatFromX, quantizeBeat]);
+
+  const handleTempoMarkerEnd = useCallback(() => {
+    if (!tempoDragState) return;
+    // Only commit on release so a drag results in a single tempo map update
+    if (tempoDragState.currentBeat !== tempoDragState.fromBeat) {
+      moveTempoChange(tempoDragState.fromBeat, tempoDragState.currentBeat);
+    }
+    setTempoDragState(null);
+  }, [tempoDragState, moveTempoChange]);
+
+  // Double-click in the bottom half adds a tempo change, or edits the one under the mouse.
+  // Shift + double-click on a marker toggles between a sudden change and a gradual ramp.
+  const handleDoubleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const mouseY = event.nativeEvent.offsetY;
+    const mouseX = event.nativeEvent.offsetX;
+    if (mouseY < TOP_SECTION_HEIGHT) return;
+
+    const marker = findTempoMarkerAt(mouseX, mouseY);
+    if (marker && marker.beat > 0 && event.shiftKey) {
+      setTempoChange(marker.beat, marker.bpm, marker.curve === 'linear' ? 'step' : 'linear');
+      return;
+    }
+
+    const targetBeat = marker ? marker.beat : quantizeBeat(calculateBeatFromX(mouseX));
+    const defaultBpm = marker ? marker.bpm : useStore.getState().timeManager.getBPMAtBeat(targetBeat);
+    const message = targetBeat === 0
+      ? 'Project tempo (BPM):'
+      : `Tempo (BPM) from beat ${targetBeat + 1}. Leave empty to remove:`;
+    const input = window.prompt(message, String(Math.round(defaultBpm * 100) / 100));
+    if (input === null) return;
+
+    const trimmed = input.trim();
+    if (trimmed === '') {
+      if (targetBeat > 0) removeTempoChange(targetBeat);
+      return;
+    }
+    const newBpm = parseFloat(trimmed);
+    if (!Number.isFinite(newBpm) || newBpm <= 0) {
+      console.warn(`MeasuresHeader: Ignoring invalid tempo "${input}".`);
+      return;
+    }
+    if (targetBeat === 0) {
+      setBPM(newBpm);
+    } else {
+      setTempoChange(targetBeat, newBpm);
+    }
+  };
+
+  // Right-click in the top half edits the time signature of the measure under the mouse
+  const editTimeSignatureAt = (mouseX: number) => {
+    const measure = timeSignatureMap.getMeasureAtBeat(calculateBeatFromX(mouseX));
+    const current = TimeSignatureMap.format(timeSignatureMap.getSignatureAtMeasure(measure));
+    const message = measure === 0
+      ? 'Project time signature (e.g. 4/4, 6/8, 7/8):'
+      : `Time signature from measure ${measure + 1} (e.g. 5/4). Leave empty to remove:`;
+    const input = window.prompt(message, current);
+    if (input === null) return;
+
+    if (input.trim() === '') {
+      if (measure > 0) removeTimeSignatureChange(measure);
+      return;
+    }
+    const signature = TimeSignatureMap.parse(input);
+    if (!signature) {
+      console.warn(`MeasuresHeader: Ignoring invalid time signature "${input}".`);
+      return;
+    }
+    setTimeSignatureChange(measure, signature);
+  };
+
+  // Right-click in the top half edits the time signature; on a tempo marker it removes the marker
+  const handleContextMenu = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (event.nativeEvent.offsetY < TOP_SECTION_HEIGHT) {
+      event.preventDefault();
+      editTimeSignatureAt(event.nativeEvent.offsetX);
+      return;
+    }
+    const marker = findTempoMarkerAt(event.nativeEvent.offsetX, event.nativeEvent.offsetY);
+    if (marker && marker.beat > 0) {
+      event.preventDefault();
+      removeTempoChange(marker.beat);
+    }
+  };
+
   // --- Seeking Handlers (Bottom Half) ---
   const handleSeekMove = useCallback((event: MouseEvent) => {
     if (!isSeeking || !overlayRef.current) return;
@@ -191,7 +318,7 @@ function MeasuresHeader({
       setLoopRange(newStart, newEnd);
     }
 
-  }, [loopDragState, loopStartBeat, loopEndBeat, numMeasures, setLoopRange, calculateBeatFromX, actualSongBeats]); // Added loopStartBeat/EndBeat dependencies
+  }, [loopDragState, loopStartBeat, loopEndBeat, numMeasures, setLoopRange, calculateBeatFromX, actualSongBeats, quantizeBeat]); // Added loopStartBeat/EndBeat dependencies
 
   const handleLoopEnd = useCallback((event: MouseEvent) => {
       // Check if drag type was 'creating' OR 'moving' and it was a click
@@ -226,15 +353,16 @@ function MeasuresHeader({
     const mouseY = event.nativeEvent.offsetY;
     const mouseX = event.nativeEvent.offsetX;
     const clickedBeatRaw = calculateBeatFromX(mouseX);
-    // Quantize to the nearest beat
-    const clickedBeatQuantized = Math.round(clickedBeatRaw);
+    // Quantize to the nearest beat of the time signature
+    const clickedBeatQuantized = quantizeBeat(clickedBeatRaw);
 
     if (mouseY < TOP_SECTION_HEIGHT) {
       // --- Top Half: Initiate Loop Drag OR Project Resize ---
       event.preventDefault();
+      if (event.button !== 0) return; // Right-click edits the time signature instead
 
       // Check for Project Resize Handle interaction first
-      const endOfProjectBeat = numMeasures * BEATS_PER_MEASURE;
+      const endOfProjectBeat = actualSongBeats;
       const handleBaseX = beatToX(endOfProjectBeat) + PROJECT_RESIZE_HANDLE_GAP;
       const handleTipX = handleBaseX + PROJECT_RESIZE_HANDLE_WIDTH;
       const handleMinX = handleBaseX - PROJECT_RESIZE_AREA_PIXELS / 2;
@@ -276,8 +404,14 @@ function MeasuresHeader({
       });
 
     } else {
-      // --- Bottom Half: Initiate Seeking ---
+      // --- Bottom Half: Drag a Tempo Marker OR Initiate Seeking ---
       event.preventDefault();
+      const marker = findTempoMarkerAt(mouseX, mouseY);
+      if (marker && marker.beat > 0 && event.button === 0) {
+        setTempoDragState({ fromBeat: marker.beat, currentBeat: marker.beat });
+        return;
+      }
+      if (event.button !== 0) return;
       setCursorStyle('ew-resize'); // Set cursor for seeking
       const targetBeat = PLAYHEAD_SEEK_SNAP > 0
         ? Math.round(clickedBeatRaw / PLAYHEAD_SEEK_SNAP) * PLAYHEAD_SEEK_SNAP
@@ -295,17 +429,23 @@ function MeasuresHeader({
       }
       if (loopDragState.type !== null) return; // Don't update cursor during loop drag
       if (isSeeking) return; // Don't update cursor during seeking
+      if (tempoDragState) return; // Don't update cursor during tempo marker drag
 
       const mouseY = event.nativeEvent.offsetY;
       const mouseX = event.nativeEvent.offsetX;
       let newCursor = 'pointer'; // Default for bottom or outside loop
 
+      const hoveredMarker = findTempoMarkerAt(mouseX, mouseY);
+      if (hoveredMarker && hoveredMarker.beat > 0) {
+          newCursor = 'grab';
+      }
+
       if (mouseY < TOP_SECTION_HEIGHT) {
           const currentBeatRaw = calculateBeatFromX(mouseX);
           const handleBeatThreshold = HANDLE_PIXEL_THRESHOLD / effectivePixelsPerBeat; // Use effective value
 
           // Check for Project Resize Handle Hover first
-          const endOfProjectBeat = numMeasures * BEATS_PER_MEASURE;
+          const endOfProjectBeat = actualSongBeats;
           const handleBaseX = beatToX(endOfProjectBeat) + PROJECT_RESIZE_HANDLE_GAP;
           const handleTipX = handleBaseX + PROJECT_RESIZE_HANDLE_WIDTH;
           const handleMinX = handleBaseX - PROJECT_RESIZE_AREA_PIXELS / 2;
@@ -333,7 +473,7 @@ function MeasuresHeader({
           }
       }
       setCursorStyle(newCursor);
-  }, [loopDragState.type, isSeeking, loopStartBeat, loopEndBeat, loopEnabled, calculateBeatFromX, effectivePixelsPerBeat, beatToX, numMeasures]); // Added resize dependencies
+  }, [loopDragState.type, isSeeking, tempoDragState, findTempoMarkerAt, loopStartBeat, loopEndBeat, loopEnabled, calculateBeatFromX, effectivePixelsPerBeat, beatToX, numMeasures, actualSongBeats]); // Added resize dependencies
 
   // --- Project Resize Drag Handlers ---
   const handleProjectResizeMove = useCallback((event: MouseEvent) => {
@@ -343,11 +483,11 @@ function MeasuresHeader({
     const mouseX = event.clientX - overlayRect.left;
     const targetBeatRaw = calculateUnclampedBeatFromX(mouseX);
 
-    // Quantize to the nearest beat, enforce minimum project beats
-    const quantizedBeat = Math.max(MIN_PROJECT_BEATS, Math.round(targetBeatRaw));
+    // Quantize to the nearest beat of the time signature
+    const quantizedBeat = quantizeBeat(targetBeatRaw);
 
     // Calculate the required number of measures to contain this beat
-    const newNumMeasures = Math.max(1, Math.ceil(quantizedBeat / BEATS_PER_MEASURE)); // Ensure at least 1 measure
+    const newNumMeasures = Math.max(1, timeSignatureMap.getMeasureCountForBeats(quantizedBeat)); // Ensure at least 1 measure
 
     // Only call setNumMeasures if it actually changes
     if (newNumMeasures !== numMeasures) {
@@ -356,7 +496,7 @@ function MeasuresHeader({
          // The parent component is responsible for reacting to this change,
          // potentially adjusting renderMeasures and scroll position if needed.
     }
-  }, [isResizingProject, calculateUnclampedBeatFromX, numMeasures, setNumMeasures, actualSongBeats /* Recalculate if actualSongBeats changes */]);
+  }, [isResizingProject, calculateUnclampedBeatFromX, numMeasures, setNumMeasures, actualSongBeats /* Recalculate if actualSongBeats changes */, quantizeBeat, timeSignatureMap]);
 
   const handleProjectResizeEnd = useCallback(() => {
     if (isResizingProject) {
@@ -377,6 +517,10 @@ function MeasuresHeader({
         currentMoveHandler = handleLoopMove;
         currentEndHandler = handleLoopEnd;
         // Cursor already set by overlay
+    } else if (tempoDragState) {
+        currentMoveHandler = handleTempoMarkerMove;
+        currentEndHandler = handleTempoMarkerEnd;
+        document.body.style.cursor = 'grabbing';
     } else if (isSeeking) {
         currentMoveHandler = handleSeekMove;
         currentEndHandler = handleSeekEnd;
@@ -398,13 +542,14 @@ function MeasuresHeader({
         window.removeEventListener('mouseup', currentEndHandler);
       }
       // Reset cursor when any drag ends
-      if (isResizingProject || isSeeking) {
+      if (isResizingProject || isSeeking || tempoDragState) {
         document.body.style.cursor = '';
       }
     };
   }, [
       isResizingProject, handleProjectResizeMove, handleProjectResizeEnd, // Resize state/handlers
       loopDragState.type, handleLoopMove, handleLoopEnd,                 // Loop state/handlers
+      tempoDragState, handleTempoMarkerMove, handleTempoMarkerEnd,       // Tempo marker state/handlers
       isSeeking, handleSeekMove, handleSeekEnd                            // Seek state/handlers
   ]);
 
@@ -464,7 +609,7 @@ function MeasuresHeader({
     }
 
     // --- Draw Project Resize Handle (Top Half) ---
-    const endOfProjectBeat = numMeasures * BEATS_PER_MEASURE;
+    const endOfProjectBeat = actualSongBeats;
     const handleBaseX = beatToX(endOfProjectBeat) + PROJECT_RESIZE_HANDLE_GAP;
     // Use logicalWidth declared earlier in the effect
 
@@ -515,11 +660,21 @@ function MeasuresHeader({
     ctx.textAlign = 'left';
     ctx.textBaseline = 'top';
 
-    for (let beat = 0; beat <= totalRenderBeats; beat += 0.25) { // Iterate smallest unit up to render limit
+    // Walk the beats of the time signature, each split into four subdivisions (smallest unit)
+    const gridPositions = timeSignatureMap.getBeatGrid(renderMeasures)
+        .flatMap(({ beat, measure, beatInMeasure, beatLength }) => [0, 1, 2, 3].map(sub => ({
+            beat: beat + sub * beatLength / 4,
+            measure,
+            beatInMeasure: beatInMeasure + sub / 4,
+            beatLength,
+        })))
+        .filter(position => position.beat <= totalRenderBeats); // Up to render limit
+
+    for (const { beat, measure, beatInMeasure, beatLength } of gridPositions) {
         const x = beatToX(beat) + 0.5; // +0.5 for sharpness
-        const isMeasureStart = beat % BEATS_PER_MEASURE === 0;
-        const isBeatStart = beat % 1 === 0;
-        const measureNumber = Math.floor(beat / BEATS_PER_MEASURE) + 1;
+        const isMeasureStart = beatInMeasure === 0;
+        const isBeatStart = beatInMeasure % 1 === 0;
+        const measureNumber = measure + 1;
         const isBeyondSong = beat > actualSongBeats; // Check if beyond actual song length
 
         let drawLine = false;
@@ -540,9 +695,9 @@ function MeasuresHeader({
             strokeStyle = measureStrokeStyle;
 
             // Check label spacing for measures based on subdivision level
-            if ((subdivisionLevel === 'measure' && (beat / BEATS_PER_MEASURE) % 1 === 0) ||
-                (subdivisionLevel === 'measure_2' && (beat / BEATS_PER_MEASURE) % 2 === 0) ||
-                (subdivisionLevel === 'measure_4' && (beat / BEATS_PER_MEASURE) % 4 === 0)) {
+            if ((subdivisionLevel === 'measure') ||
+                (subdivisionLevel === 'measure_2' && measure % 2 === 0) ||
+                (subdivisionLevel === 'measure_4' && measure % 4 === 0)) {
                 if (x - lastLabelX >= MIN_LABEL_SPACING_PIXELS) {
                     drawLabel = true;
                 }
@@ -550,7 +705,7 @@ function MeasuresHeader({
         } else if (isBeatStart) {
             // Draw beat lines if spacing allows or if showing beats/sub-beats
              if (subdivisionLevel === 'beat' || subdivisionLevel === 'sub_beat') {
-                 if (effectivePixelsPerBeat >= MIN_SUBDIVISION_SPACING_PIXELS) {
+                 if (effectivePixelsPerBeat * beatLength >= MIN_SUBDIVISION_SPACING_PIXELS) {
                      drawLine = true;
                      lineLength = HEADER_HEIGHT - TOP_SECTION_HEIGHT - 5; // Medium length
                      lineWidth = 0.75;
@@ -563,7 +718,7 @@ function MeasuresHeader({
              }
         } else { // Sub-beat subdivisions
             if (subdivisionLevel === 'sub_beat') {
-                 if (effectivePixelsPerBeat * 0.25 >= MIN_SUBDIVISION_SPACING_PIXELS) {
+                 if (effectivePixelsPerBeat * beatLength * 0.25 >= MIN_SUBDIVISION_SPACING_PIXELS) {
                      drawLine = true;
                      lineLength = HEADER_HEIGHT - TOP_SECTION_HEIGHT - 10; // Shortest length
                      strokeStyle = baseStrokeStyle; // Use the base subdivision style
@@ -589,10 +744,9 @@ function MeasuresHeader({
             ctx.fillStyle = isBeyondSong ? LABEL_TEXT_DISABLED_COLOR : LABEL_TEXT_COLOR;
             let label = '';
             if (subdivisionLevel === 'sub_beat') {
-                const beatInMeasure = beat % BEATS_PER_MEASURE;
                 label = `${measureNumber}.${beatInMeasure + 1}`; // e.g., 1.1, 1.2, etc. (using 1-based beat)
             } else if (subdivisionLevel === 'beat') {
-                 label = `${measureNumber}.${beat % BEATS_PER_MEASURE + 1}`; // e.g., 1.1, 1.2 etc.
+                 label = `${measureNumber}.${beatInMeasure + 1}`; // e.g., 1.1, 1.2 etc.
             } else { // Measure level labels
                  label = measureNumber.toString();
             }
@@ -602,6 +756,47 @@ function MeasuresHeader({
         }
     }
 
+    // --- Draw Time Signatures (Bottom Half, at each signature change) ---
+    ctx.font = '9px Inter, sans-serif';
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = TIME_SIGNATURE_COLOR;
+    [{ measure: 0, ...timeSignatureMap.getInitialSignature() }, ...timeSignatureMap.getChanges()].forEach(change => {
+        const x = beatToX(timeSignatureMap.getMeasureStartBeat(change.measure)) + 0.5;
+        if (x > logicalWidth) return;
+        ctx.fillText(TimeSignatureMap.format(change), x + 3, TOP_SECTION_HEIGHT + 1);
+    });
+
+    // --- Draw Tempo Markers (Bottom Half) ---
+    ctx.font = '10px Inter, sans-serif';
+    ctx.textBaseline = 'bottom';
+    tempoMarkers.forEach((marker, index) => {
+        const isDragged = tempoDragState !== null && marker.beat === tempoDragState.fromBeat;
+        const markerBeat = isDragged ? tempoDragState.currentBeat : marker.beat;
+        const x = beatToX(markerBeat) + 0.5;
+        if (x > logicalWidth) return;
+
+        ctx.beginPath();
+        ctx.moveTo(x, TOP_SECTION_HEIGHT);
+        ctx.lineTo(x, HEADER_HEIGHT);
+        ctx.strokeStyle = TEMPO_MARKER_COLOR;
+        ctx.lineWidth = 1;
+        ctx.stroke();
+
+        // A ramp is drawn as a slope towards the next marker
+        const nextMarker = tempoMarkers[index + 1];
+        if (marker.curve === 'linear' && nextMarker && !isDragged) {
+            ctx.beginPath();
+            ctx.moveTo(x, HEADER_HEIGHT - (nextMarker.bpm > marker.bpm ? 1 : TEMPO_MARKER_HIT_HEIGHT));
+            ctx.lineTo(beatToX(nextMarker.beat) + 0.5, HEADER_HEIGHT - (nextMarker.bpm > marker.bpm ? TEMPO_MARKER_HIT_HEIGHT : 1));
+            ctx.setLineDash([2, 2]);
+            ctx.stroke();
+            ctx.setLineDash([]);
+        }
+
+        ctx.fillStyle = TEMPO_MARKER_COLOR;
+        ctx.fillText(`${Math.round(marker.bpm * 10) / 10}${marker.curve === 'linear' ? ' ~' : ''}`, x + 3, HEADER_HEIGHT - 1);
+    });
+
     // --- Draw Playhead Triangle (Bottom Half - ON TOP) ---
     const playheadX = beatToX(currentBeat) + 0.5; // Add 0.5 for centering alignment with grid lines
     if (playheadX >= 0 && playheadX <= logicalWidth) { // Only draw if within canvas bounds
@@ -646,7 +841,10 @@ function MeasuresHeader({
       effectivePixelsPerBeat,
       actualSongBeats, // Derived from numMeasures
       totalRenderBeats, // Derived from renderMeasures
-      currentBeat // Add currentBeat dependency
+      currentBeat, // Add currentBeat dependency
+      tempoMarkers,
+      tempoDragState,
+      timeSignatureMap
   ]);
 
   // --- Component Render ---
@@ -669,8 +867,10 @@ function MeasuresHeader({
         ref={overlayRef}
         className={styles.measuresOverlay} // Apply class from module
         onMouseDown={handleMouseDown}
+        onDoubleClick={handleDoubleClick}
+        onContextMenu={handleContextMenu}
         onMouseMove={handleOverlayMouseMove} // Add mouse move for cursor updates
-        onMouseLeave={() => {if (!isResizingProject && !loopDragState.type && !isSeeking) setCursorStyle('pointer')}} // Reset cursor only if not dragging
+        onMouseLeave={() => {if (!isResizingProject && !loopDragState.type && !isSeeking && !tempoDragState) setCursorStyle('pointer')}} // Reset cursor only if not dragging
         style={{
           cursor: cursorStyle
         }}
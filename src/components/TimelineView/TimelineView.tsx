@@ -5,8 +5,12 @@ import useStore from '../../store/store';
 import InstrumentsView from './InstrumentsView/InstrumentsView';
 import TrackTimelineView, { TrackTimelineViewHandle } from './TrackTimelineView';
 import MeasuresHeader from './MeasuresHeader/MeasuresHeader';
+import WaveformLane from './WaveformLane/WaveformLane';
+import AudioTrackHeader from './AudioTracks/AudioTrackHeader';
+import AudioTrackLane from './AudioTracks/AudioTrackLane';
 import BasicSynthesizer from '../../lib/synthesizers/BasicSynthesizer';
 import { Track } from '../../lib/types';
+import { AudioLines } from 'lucide-react';
 import styles from './TimelineView.module.css'; // Import the CSS module
 
 // Fixed height for each track
@@ -16,6 +20,8 @@ const SIDEBAR_WIDTH = 200; // Define sidebar width as a constant
 const MIN_VIEWPORT_MEASURES = 8; // Minimum measures to allow zooming out to see
 const EXTRA_RENDER_MEASURES = 8; // Render this many extra measures beyond content or min viewport
 const HEADER_HEIGHT = 40; // Define header height as a constant
+const WAVEFORM_LANE_HEIGHT = 48; // Audio waveform lane below the measures header, shown once audio is loaded
+const AUDIO_TRACK_HEIGHT = 48; // Each audio track lane, below the waveform lane
 const PLAYHEAD_WIDTH = 2; // Width of the playhead line in pixels (must match CSS)
 const PLAYHEAD_SEEK_SNAP = 0.05; // Playhead seek snapping granularity (in beats). Set to 0 for continuous.
 
@@ -30,7 +36,11 @@ function TimelineView() {
     selectedWindow,
     selectedTrackId,
     selectedBlockId,
-    splitMidiBlock
+    splitMidiBlock,
+    waveformPeaks,
+    audioFileName,
+    audioTracks,
+    addAudioTrack
   } = useStore();
   const timelineContentRef = useRef<HTMLDivElement>(null);
   const playheadRef = useRef<HTMLDivElement>(null);
@@ -47,6 +57,9 @@ function TimelineView() {
   // Calculate effective values based on zoom
   const effectiveTrackHeight = TRACK_HEIGHT_BASE * verticalZoom;
   const effectivePixelsPerBeat = PIXELS_PER_BEAT_BASE * horizontalZoom;
+  // Everything above the tracks: the measures header, the waveform lane (with audio loaded) and the audio tracks
+  const waveformLaneHeight = waveformPeaks ? WAVEFORM_LANE_HEIGHT : 0;
+  const headerHeight = HEADER_HEIGHT + waveformLaneHeight + audioTracks.length * AUDIO_TRACK_HEIGHT;
 
   // Handle adding a new track
   const handleAddTrack = () => {
@@ -58,7 +71,9 @@ function TimelineView() {
       synthesizer: new BasicSynthesizer(),
       isSoloed: false,
       isMuted: false,
-      effects: []
+      effects: [],
+      automation: [],
+      modulations: []
     };
     
     addTrack(newTrack);
@@ -142,7 +157,7 @@ function TimelineView() {
     // Update visible dimensions on scroll as well
     if (timelineContentRef.current) {
         setTimelineVisibleWidth(timelineContentRef.current.clientWidth - SIDEBAR_WIDTH);
-        setTimelineVisibleHeight(timelineContentRef.current.clientHeight - HEADER_HEIGHT);
+        setTimelineVisibleHeight(timelineContentRef.current.clientHeight - headerHeight);
     }
   };
 
@@ -178,14 +193,14 @@ function TimelineView() {
         } else {
           // Zoom out horizontally (scroll right)
           const visibleWidth = timelineContentRef.current?.clientWidth;
-          const numMeasures = useStore.getState().numMeasures;
+          const { numMeasures, timeSignatureMap } = useStore.getState();
           const targetMeasures = Math.max(MIN_VIEWPORT_MEASURES, numMeasures);
           
           let minHorizontalZoom = 0.1; // Default minimum zoom
 
           if (visibleWidth && visibleWidth > 0) {
             // Calculate zoom based on making targetVisibleMeasures fit
-            const targetBeats = (targetMeasures + EXTRA_RENDER_MEASURES) * 4; // Add buffer for zoom target
+            const targetBeats = timeSignatureMap.getTotalBeats(targetMeasures + EXTRA_RENDER_MEASURES); // Add buffer for zoom target
             const minWidthToDisplay = targetBeats * PIXELS_PER_BEAT_BASE;
             minHorizontalZoom = Math.max(0.01, visibleWidth / minWidthToDisplay);
           }
@@ -208,7 +223,7 @@ function TimelineView() {
     // Function to update height
     const updateHeight = () => {
         if (timelineElement) {
-            setTimelineVisibleHeight(timelineElement.clientHeight - HEADER_HEIGHT);
+            setTimelineVisibleHeight(timelineElement.clientHeight - headerHeight);
         }
     };
     // Function to update both
@@ -230,7 +245,7 @@ function TimelineView() {
         resizeObserver.unobserve(timelineElement);
       };
     }
-  }, [handleWheel]); // Dependency array includes handleWheel
+  }, [handleWheel, headerHeight]); // Re-measure when the waveform lane or audio tracks change the header height
 
   // Keyboard shortcut for splitting MIDI block
   useEffect(() => {
@@ -260,7 +275,7 @@ function TimelineView() {
     const mouseY = event.clientY - rect.top;  // Relative Y within container viewport
 
     // Use relative coordinates for the check
-    if (mouseX > SIDEBAR_WIDTH && mouseY > HEADER_HEIGHT && trackTimelineViewRef.current?.handleMouseDown) {
+    if (mouseX > SIDEBAR_WIDTH && mouseY > headerHeight && trackTimelineViewRef.current?.handleMouseDown) {
       trackTimelineViewRef.current.handleMouseDown(event);
     }
   };
@@ -272,7 +287,7 @@ function TimelineView() {
     const mouseY = event.clientY - rect.top;  // Relative Y
 
     // Use relative coordinates for the check
-    if (mouseX > SIDEBAR_WIDTH && mouseY > HEADER_HEIGHT && trackTimelineViewRef.current?.handleMouseMove) {
+    if (mouseX > SIDEBAR_WIDTH && mouseY > headerHeight && trackTimelineViewRef.current?.handleMouseMove) {
       trackTimelineViewRef.current.handleMouseMove(event);
     }
   };
@@ -284,7 +299,7 @@ function TimelineView() {
     const mouseY = event.clientY - rect.top;  // Relative Y
 
     // Use relative coordinates for the check
-    if (mouseX > SIDEBAR_WIDTH && mouseY > HEADER_HEIGHT && trackTimelineViewRef.current?.handleDoubleClick) {
+    if (mouseX > SIDEBAR_WIDTH && mouseY > headerHeight && trackTimelineViewRef.current?.handleDoubleClick) {
       trackTimelineViewRef.current.handleDoubleClick(event);
     }
   };
@@ -296,7 +311,7 @@ function TimelineView() {
     const mouseY = event.clientY - rect.top;  // Relative Y
 
     // Use relative coordinates for the check
-    if (mouseX > SIDEBAR_WIDTH && mouseY > HEADER_HEIGHT && trackTimelineViewRef.current?.handleContextMenu) {
+    if (mouseX > SIDEBAR_WIDTH && mouseY > headerHeight && trackTimelineViewRef.current?.handleContextMenu) {
       trackTimelineViewRef.current.handleContextMenu(event);
     } else {
       // Prevent default context menu in header/sidebar areas if not forwarded
@@ -314,6 +329,8 @@ function TimelineView() {
 
   const numMeasures = useStore(state => state.numMeasures);
   const renderMeasures = Math.max(MIN_VIEWPORT_MEASURES, numMeasures) + EXTRA_RENDER_MEASURES;
+  const timeSignatureMap = useStore(state => state.timeSignatureMap);
+  const renderBeats = timeSignatureMap.getTotalBeats(renderMeasures);
 
   const totalTracksHeight = tracks.length * effectiveTrackHeight;
 
@@ -343,22 +360,53 @@ function TimelineView() {
         {/* Timeline container */}
         <div className={styles.timelineContainer}>
           {/* Tracks header - fixed at top-left */}
-          <div className={styles.tracksHeader}>
+          <div className={styles.tracksHeader} style={{ height: `${HEADER_HEIGHT}px` }}>
             <span>Tracks</span>
-            <button
-              onClick={(e) => { e.stopPropagation(); handleAddTrack(); }}
-              className={styles.addTrackButton}
-              title="Add new track"
-            >
-              +
-            </button>
+            <div className={styles.tracksHeaderButtons}>
+              <button
+                onClick={(e) => { e.stopPropagation(); addAudioTrack(); }}
+                className={styles.addAudioTrackButton}
+                title="Add audio track"
+              >
+                <AudioLines className="h-4 w-4" />
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); handleAddTrack(); }}
+                className={styles.addTrackButton}
+                title="Add new track"
+              >
+                +
+              </button>
+            </div>
           </div>
 
+          {/* Waveform lane label - below the tracks header */}
+          {waveformPeaks && (
+            <div
+              className={styles.waveformLaneHeader}
+              style={{ top: `${HEADER_HEIGHT}px`, height: `${WAVEFORM_LANE_HEIGHT}px` }}
+              title={audioFileName ?? undefined}
+            >
+              <span className={styles.waveformLaneLabel}>{audioFileName || 'Audio'}</span>
+            </div>
+          )}
+
+          {/* Audio track controls - below the waveform lane */}
+          {audioTracks.map((audioTrack, index) => (
+            <AudioTrackHeader
+              key={audioTrack.id}
+              audioTrack={audioTrack}
+              top={HEADER_HEIGHT + waveformLaneHeight + index * AUDIO_TRACK_HEIGHT}
+              height={AUDIO_TRACK_HEIGHT}
+            />
+          ))}
+
           {/* Single TrackTimelineView for all tracks */}
           <div
                 className={styles.timelinesColumn}
                 style={{
                   left: `${SIDEBAR_WIDTH}px`,
+                  top: `${headerHeight}px`,
                 }}
               >
                 <TrackTimelineView
@@ -389,7 +437,7 @@ function TimelineView() {
             onMouseLeave={handleContentMouseLeave}
           >
             {/* Fixed sidebar background that extends full height */}
-            <div className={styles.sidebarBackground} />
+            <div className={styles.sidebarBackground} style={{ top: `${headerHeight}px` }} />
             
             {/* Measures header - sticky at top */}
             <div className={styles.measuresHeaderContainer}>
@@ -399,13 +447,35 @@ function TimelineView() {
                 numMeasures={numMeasures}
                 renderMeasures={renderMeasures}
               />
+              {waveformPeaks && (
+                <WaveformLane
+                  horizontalZoom={horizontalZoom}
+                  pixelsPerBeatBase={PIXELS_PER_BEAT_BASE}
+                  renderMeasures={renderMeasures}
+                  height={WAVEFORM_LANE_HEIGHT}
+                  scrollLeft={scrollLeft}
+                  visibleWidth={timelineVisibleWidth > 0 ? timelineVisibleWidth : 0}
+                />
+              )}
+              {audioTracks.map(audioTrack => (
+                <AudioTrackLane
+                  key={audioTrack.id}
+                  audioTrack={audioTrack}
+                  horizontalZoom={horizontalZoom}
+                  pixelsPerBeatBase={PIXELS_PER_BEAT_BASE}
+                  renderMeasures={renderMeasures}
+                  height={AUDIO_TRACK_HEIGHT}
+                  scrollLeft={scrollLeft}
+                  visibleWidth={timelineVisibleWidth > 0 ? timelineVisibleWidth : 0}
+                />
+              ))}
             </div>
             
             {/* Combined content area for instruments and timelines */}
             <div
               className={styles.combinedContentArea}
               style={{
-                width: `${(renderMeasures * 4 * effectivePixelsPerBeat)}px`,
+                width: `${(renderBeats * effectivePixelsPerBeat)}px`,
                 height: `${totalTracksHeight}px`,
               }}
             >
@@ -428,6 +498,7 @@ function TimelineView() {
                 className={styles.noTracksMessage}
                 style={{
                   left: `${SIDEBAR_WIDTH + 20}px`,
+                  top: `${headerHeight + 20}px`,
                 }}
               >
                 Click the + button to add a track
@@ -444,6 +515,8 @@ function TimelineView() {
             onMouseDown={handlePlayheadMouseDown}
             style={{
               left: `${playheadLeftStyle}px`,
+              top: `${headerHeight}px`,
+              height: `calc(100% - ${headerHeight}px)`,
             }}
           />
         </div>
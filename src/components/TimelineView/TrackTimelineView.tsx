@@ -1,8 +1,27 @@
-import React, { useRef, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
-import { Track, MIDIBlock } from '../../lib/types';
+import React, { useRef, useEffect, useCallback, useState, forwardRef, useImperativeHandle } from 'react';
+import { Track, MIDIBlock, AutomationPoint, AutomationTarget } from '../../lib/types';
 import useStore from '../../store/store';
 // Removed MidiBlockView import
 import { useTrackGestures } from './useTrackGestures'; // Import the new hook
+import {
+  AUTOMATION_CURVES,
+  DEFAULT_AUTOMATION_CURVE,
+  coerceAutomationValue,
+  evaluateAutomation,
+  getAutomationProperty,
+  isSameAutomationTarget,
+  ratioToAutomationValue,
+} from '../../lib/Automation';
+import {
+  TrackRowLayout,
+  drawAutomationLane,
+  getAutomatablePropertyOptions,
+  getTrackRowLayout,
+  hitTestAutomationPoint,
+  isInAutomationLane,
+  yToAutomationRatio,
+} from './automationLane';
+import { AUDIO_TO_MIDI_MODES, AudioToMidiMode } from '../../lib/AudioToMidi';
 
 
 // Padding/geometry constants (relative to track height)
@@ -92,6 +111,8 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
     selectedBlockId,
     selectBlock,
     addMidiBlock,
+    importMidi,
+    exportMidi,
     updateMidiBlock,
     removeMidiBlock,
     moveMidiBlock,
@@ -103,7 +124,16 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
     selectedTrackId,
     selectedBlock,
     currentBeat,
-    seekTo
+    seekTo,
+    timeSignatureMap,
+    visibleAutomationLanes,
+    setVisibleAutomationLane,
+    addAutomationLane,
+    setAutomationPoints,
+    removeAutomationLane,
+    isAudioLoaded,
+    isGeneratingMidi,
+    generateMidiFromAudio
   } = useStore();
   const timelineAreaRef = useRef<HTMLDivElement>(null); // Keep ref for hook, points to the container
   const internalCanvasRef = useRef<HTMLCanvasElement>(null); // Use internal ref for canvas
@@ -111,9 +141,35 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
   // Calculate effective values based on zoom
   const effectiveTrackHeight = trackHeightBase * verticalZoom;
   const effectivePixelsPerBeat = pixelsPerBeatBase * horizontalZoom;
-  const effectiveBlockVerticalPadding = effectiveTrackHeight * BLOCK_VERTICAL_PADDING_FACTOR;
-  const effectiveBlockHeight = effectiveTrackHeight - 2 * effectiveBlockVerticalPadding;
-  const actualSongBeats = numMeasures * 4;
+  const actualSongBeats = timeSignatureMap.getTotalBeats(numMeasures);
+
+  // Breakpoint being dragged in an automation lane; `otherPoints` are the lane's remaining points
+  const [automationDrag, setAutomationDrag] = useState<{
+    trackId: string;
+    laneId: string;
+    otherPoints: AutomationPoint[];
+    point: AutomationPoint;
+  } | null>(null);
+  // Context menu for a lane, or for one of its points when `point` is set
+  const [automationMenu, setAutomationMenu] = useState<{
+    x: number;
+    y: number;
+    trackId: string;
+    laneId: string;
+    point: AutomationPoint | null;
+  } | null>(null);
+
+  // Row layout of a track, with the automation lane (if shown) under the blocks
+  const getRowLayout = useCallback((trackIndex: number): TrackRowLayout => {
+    const track = tracks[trackIndex];
+    return getTrackRowLayout(track, trackIndex, effectiveTrackHeight, visibleAutomationLanes[track.id]);
+  }, [tracks, effectiveTrackHeight, visibleAutomationLanes]);
+
+  // Vertical extent of the blocks in a row
+  const getBlockBounds = useCallback((layout: TrackRowLayout) => {
+    const padding = layout.blockAreaHeight * BLOCK_VERTICAL_PADDING_FACTOR;
+    return { top: layout.blockAreaTop + padding, bottom: layout.blockAreaTop + layout.blockAreaHeight - padding };
+  }, []);
 
   const {
     handleStartEdge,
@@ -123,10 +179,13 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
     handleContextMenu,
     handleDeleteBlock,
     handleImportMidiClick,
+    handleExportMidiClick,
     handleFileSelected,
     showContextMenu,
+    closeContextMenu,
     contextMenuPosition,
     contextMenuBlockId,
+    contextMenuTrackId,
     fileInputRef,
     pendingUpdateBlock,    // The potential state of the block being dragged
     pendingTargetTrackId,  // The potential track ID if moved
@@ -136,6 +195,8 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
       tracks,
       updateMidiBlock,
       addMidiBlock,
+      importMidi,
+      exportMidi,
       removeMidiBlock,
       moveMidiBlock,
       selectBlock,
@@ -153,6 +214,7 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
       timelineVisibleHeight,
       numMeasures,
       renderMeasures,
+      timeSignatureMap,
   });
 
   // Helper function to draw rounded rectangles
@@ -181,18 +243,19 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
   const drawMidiBlock = useCallback(( // Keep this helper internal
     ctx: CanvasRenderingContext2D,
     blockData: MIDIBlock,
-    trackTopY: number,
+    layout: TrackRowLayout,
     isSelected: boolean,
     alpha: number,
     blockBaseColor: string // Added parameter for base color
   ) => {
       const leftPosition = blockData.startBeat * effectivePixelsPerBeat;
       const blockWidth = (blockData.endBeat - blockData.startBeat) * effectivePixelsPerBeat;
-      const blockTopY = trackTopY + effectiveBlockVerticalPadding;
+      const { top: blockTopY, bottom: blockBottomY } = getBlockBounds(layout);
+      const trackTopY = layout.blockAreaTop;
 
       ctx.save();
       ctx.globalAlpha = alpha;
-      drawRoundedRect(ctx, leftPosition, blockTopY, blockWidth, effectiveBlockHeight, BLOCK_CORNER_RADIUS);
+      drawRoundedRect(ctx, leftPosition, blockTopY, blockWidth, blockBottomY - blockTopY, BLOCK_CORNER_RADIUS);
       ctx.fillStyle = blockBaseColor; // Use passed-in color
       ctx.fill();
       if (isSelected) {
@@ -207,13 +270,13 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
       ctx.textBaseline = 'middle';
       const text = `${blockData.notes.length} notes`;
       const textX = leftPosition + EDGE_RESIZE_WIDTH + 4;
-      const textY = trackTopY + effectiveTrackHeight / 2;
+      const textY = trackTopY + layout.blockAreaHeight / 2;
       ctx.beginPath();
-      ctx.rect(textX - 4, trackTopY, blockWidth - EDGE_RESIZE_WIDTH * 1.5, effectiveTrackHeight);
+      ctx.rect(textX - 4, trackTopY, blockWidth - EDGE_RESIZE_WIDTH * 1.5, layout.blockAreaHeight);
       ctx.clip();
       ctx.fillText(text, textX, textY);
       ctx.restore();
-  }, [effectivePixelsPerBeat, effectiveTrackHeight, effectiveBlockVerticalPadding, effectiveBlockHeight, BASE_FONT_SIZE]);
+  }, [effectivePixelsPerBeat, getBlockBounds, BASE_FONT_SIZE]);
 
 
   // Canvas Drawing Logic (keep as is)
@@ -250,13 +313,13 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
     context.translate(-scrollLeft, -scrollTop);
 
     context.lineWidth = 1;
-    const firstBeatIndex = Math.max(0, Math.floor(startBeatClamped));
-    const lastBeatIndex = Math.ceil(endBeatClamped);
+    const beatGrid = timeSignatureMap.getBeatGrid(renderMeasures);
 
-    for (let i = firstBeatIndex; i <= lastBeatIndex; i++) {
-      const x = i * effectivePixelsPerBeat;
-      const isMeasureLine = i % 4 === 0;
-      const isBeyondSong = i > actualSongBeats;
+    for (const { beat, beatInMeasure } of beatGrid) {
+      if (beat < startBeatClamped - 1 || beat > endBeatClamped) continue;
+      const x = beat * effectivePixelsPerBeat;
+      const isMeasureLine = beatInMeasure === 0;
+      const isBeyondSong = beat > actualSongBeats;
       let strokeStyle = '#333';
       if (isMeasureLine) {
         strokeStyle = isBeyondSong ? '#444' : '#555';
@@ -274,6 +337,7 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
         const track = tracks[trackIndex];
         if (!track) continue;
         const trackTopY = trackIndex * effectiveTrackHeight;
+        const layout = getRowLayout(trackIndex);
 
         track.midiBlocks.forEach(block => {
             if (block.endBeat < startBeatClamped || block.startBeat > endBeatClamped) {
@@ -285,9 +349,11 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
             if (isBeingDragged) {
                 alpha = isCopyDrag ? 1 : DRAGGED_BLOCK_OPACITY;
             }
-            drawMidiBlock(context, block, trackTopY, isSelected, alpha, electricBlueColor);
+            drawMidiBlock(context, block, layout, isSelected, alpha, electricBlueColor);
         });
 
+        drawAutomationLane(context, track, layout, effectivePixelsPerBeat, startBeatClamped, endBeatClamped, scrollLeft);
+
         context.strokeStyle = '#333';
         context.lineWidth = 1;
         context.beginPath();
@@ -314,16 +380,15 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
         if (pendingUpdateBlock.endBeat >= startBeatClamped && pendingUpdateBlock.startBeat <= endBeatClamped) {
             const targetTrackIndex = tracks.findIndex(t => t.id === pendingTargetTrackId);
             if (targetTrackIndex !== -1) {
-                const targetTrackTopY = targetTrackIndex * effectiveTrackHeight;
-                drawMidiBlock(context, pendingUpdateBlock, targetTrackTopY, false, DRAGGED_BLOCK_OPACITY, electricBlueColor);
+                drawMidiBlock(context, pendingUpdateBlock, getRowLayout(targetTrackIndex), false, DRAGGED_BLOCK_OPACITY, electricBlueColor);
             }
         }
     }
     context.restore();
   }, [
       tracks, selectedBlockId, horizontalZoom, verticalZoom, pixelsPerBeatBase, trackHeightBase,
-      numMeasures, effectivePixelsPerBeat, effectiveTrackHeight, effectiveBlockVerticalPadding,
-      effectiveBlockHeight, actualSongBeats, pendingUpdateBlock, pendingTargetTrackId,
+      numMeasures, renderMeasures, timeSignatureMap, effectivePixelsPerBeat, effectiveTrackHeight, getRowLayout,
+      actualSongBeats, pendingUpdateBlock, pendingTargetTrackId,
       dragOperation, drawMidiBlock, selectedWindow, isCopyDrag, scrollLeft, scrollTop,
       timelineVisibleWidth, timelineVisibleHeight
   ]);
@@ -341,8 +406,7 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
         for (const block of hoveredTrack.midiBlocks) {
             const leftPosition = block.startBeat * effectivePixelsPerBeat;
             const blockWidth = (block.endBeat - block.startBeat) * effectivePixelsPerBeat;
-            const blockTop = trackIndex * effectiveTrackHeight + effectiveBlockVerticalPadding;
-            const blockBottom = blockTop + effectiveBlockHeight;
+            const { top: blockTop, bottom: blockBottom } = getBlockBounds(getRowLayout(trackIndex));
 
             if (args.actualOffsetX >= leftPosition && args.actualOffsetX <= leftPosition + blockWidth &&
                 args.actualOffsetY >= blockTop && args.actualOffsetY <= blockBottom)
@@ -365,7 +429,7 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
     if (canvas.style.cursor !== cursorStyle) {
         canvas.style.cursor = cursorStyle;
     }
- }, [tracks, effectiveTrackHeight, effectivePixelsPerBeat, effectiveBlockVerticalPadding, effectiveBlockHeight, scrollLeft]);
+ }, [tracks, effectiveTrackHeight, effectivePixelsPerBeat, getBlockBounds, getRowLayout, scrollLeft]);
 
  const handleInternalMouseLeave = useCallback(() => {
     const canvas = internalCanvasRef.current;
@@ -374,6 +438,92 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
     }
  }, []);
 
+ // --- Automation lane editing ---
+ // The lane under a content position, with the point hit there (if any)
+ const getAutomationHit = (x: number, y: number) => {
+    const trackIndex = Math.floor(y / effectiveTrackHeight);
+    if (trackIndex < 0 || trackIndex >= tracks.length) return null;
+    const layout = getRowLayout(trackIndex);
+    if (!layout.lane || !isInAutomationLane(layout, y)) return null;
+    const track = tracks[trackIndex];
+    return { track, layout, lane: layout.lane, point: hitTestAutomationPoint(track, layout, x, y, effectivePixelsPerBeat) };
+ };
+
+ // Starts dragging the point under the cursor, or adds a point where the lane was clicked and drags that
+ const handleAutomationMouseDown = (hit: NonNullable<ReturnType<typeof getAutomationHit>>, x: number, y: number) => {
+    const { track, layout, lane, point } = hit;
+    const property = getAutomationProperty(track, lane);
+    if (!property) return;
+    if (point) {
+      setAutomationDrag({ trackId: track.id, laneId: lane.id, otherPoints: lane.points.filter(p => p !== point), point });
+      return;
+    }
+    const beat = Math.max(0, x / effectivePixelsPerBeat);
+    const value = property.uiType === 'color'
+      ? evaluateAutomation(lane.points, beat) ?? property.value
+      : ratioToAutomationValue(property, yToAutomationRatio(y, layout));
+    const newPoint: AutomationPoint = { beat, value, curve: DEFAULT_AUTOMATION_CURVE };
+    setAutomationPoints(track.id, lane.id, [...lane.points, newPoint]);
+    setAutomationDrag({ trackId: track.id, laneId: lane.id, otherPoints: lane.points, point: newPoint });
+ };
+
+ // Follows the mouse while a point is dragged. Color points only move in time.
+ useEffect(() => {
+    if (!automationDrag) return;
+    const handleMouseMove = (e: MouseEvent) => {
+      const canvas = internalCanvasRef.current;
+      const trackIndex = tracks.findIndex(t => t.id === automationDrag.trackId);
+      if (!canvas || trackIndex === -1) return;
+      const track = tracks[trackIndex];
+      const layout = getRowLayout(trackIndex);
+      const property = layout.lane?.id === automationDrag.laneId ? getAutomationProperty(track, layout.lane) : null;
+      if (!property) return;
+
+      const rect = canvas.getBoundingClientRect();
+      const x = e.clientX - rect.left + scrollLeft;
+      const y = e.clientY - rect.top + scrollTop;
+      const movedPoint: AutomationPoint = {
+        ...automationDrag.point,
+        beat: Math.max(0, x / effectivePixelsPerBeat),
+        value: property.uiType === 'color'
+          ? automationDrag.point.value
+          : ratioToAutomationValue(property, yToAutomationRatio(y, layout)),
+      };
+      setAutomationPoints(track.id, automationDrag.laneId, [...automationDrag.otherPoints, movedPoint]);
+    };
+    const handleMouseUp = () => setAutomationDrag(null);
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+ }, [automationDrag, tracks, getRowLayout, scrollLeft, scrollTop, effectivePixelsPerBeat, setAutomationPoints]);
+
+ // Close the automation menu when clicking elsewhere
+ useEffect(() => {
+    if (!automationMenu) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!(event.target as HTMLElement).closest('.automation-menu-class')) setAutomationMenu(null);
+    };
+    window.addEventListener('click', handleClickOutside);
+    return () => window.removeEventListener('click', handleClickOutside);
+ }, [automationMenu]);
+
+ // Applies a change to the point the automation menu was opened on
+ const updateMenuPoint = (change: (point: AutomationPoint) => AutomationPoint | null) => {
+    if (!automationMenu?.point) return;
+    const lane = tracks.find(t => t.id === automationMenu.trackId)?.automation.find(l => l.id === automationMenu.laneId);
+    if (!lane) return;
+    const menuBeat = automationMenu.point.beat;
+    const points = lane.points.flatMap(point => {
+      if (point.beat !== menuBeat) return [point];
+      const changed = change(point);
+      return changed ? [changed] : [];
+    });
+    setAutomationPoints(automationMenu.trackId, automationMenu.laneId, points);
+ };
+
  // Canvas Event Handlers
  const nativeHandleCanvasMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     setSelectedWindow('timelineView'); // Set window on mouse down
@@ -389,6 +539,13 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
     const actualOffsetX = offsetX + scrollLeft;
     const actualOffsetY = offsetY + scrollTop;
 
+    const automationHit = getAutomationHit(actualOffsetX, actualOffsetY);
+    if (automationHit) {
+        e.stopPropagation();
+        handleAutomationMouseDown(automationHit, actualOffsetX, actualOffsetY);
+        return;
+    }
+
     // Use actualOffsetY to determine track index
     const trackIndex = Math.floor(actualOffsetY / effectiveTrackHeight); 
     if (trackIndex < 0 || trackIndex >= tracks.length) return; // Click outside track bounds
@@ -401,8 +558,7 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
     for (const block of clickedTrack.midiBlocks) {
       const leftPosition = block.startBeat * effectivePixelsPerBeat; // Use effective value
       const blockWidth = (block.endBeat - block.startBeat) * effectivePixelsPerBeat; // Use effective value
-      const blockTop = trackIndex * effectiveTrackHeight + effectiveBlockVerticalPadding; // Use effective values
-      const blockBottom = blockTop + effectiveBlockHeight; // Use effective height
+      const { top: blockTop, bottom: blockBottom } = getBlockBounds(getRowLayout(trackIndex));
 
       // Use actualOffsetX for hit detection
       if (actualOffsetX >= leftPosition && actualOffsetX <= leftPosition + blockWidth &&
@@ -450,6 +606,14 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
     const actualOffsetX = offsetX + scrollLeft;
     const actualOffsetY = offsetY + scrollTop;
 
+    // Double-clicking a breakpoint removes it; the lane never creates blocks
+    const automationHit = getAutomationHit(actualOffsetX, actualOffsetY);
+    if (automationHit) {
+        const { track, lane, point } = automationHit;
+        if (point) setAutomationPoints(track.id, lane.id, lane.points.filter(p => p !== point));
+        return;
+    }
+
     // Use actualOffsetY to determine track index
     const trackIndex = Math.floor(actualOffsetY / effectiveTrackHeight); 
      if (trackIndex < 0 || trackIndex >= tracks.length) return;
@@ -473,6 +637,18 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
     // Calculate actual offsets considering scroll
     const actualOffsetX = offsetX + scrollLeft;
     const actualOffsetY = offsetY + scrollTop;
+    const automationHit = getAutomationHit(actualOffsetX, actualOffsetY);
+    if (automationHit) {
+        setAutomationMenu({
+          x: e.clientX,
+          y: e.clientY,
+          trackId: automationHit.track.id,
+          laneId: automationHit.lane.id,
+          point: automationHit.point,
+        });
+        return;
+    }
+
     // Use actualOffsetY to determine track index
     const trackIndex = Math.floor(actualOffsetY / effectiveTrackHeight);
 
@@ -491,8 +667,7 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
     for (const block of clickedTrack.midiBlocks) {
       const leftPosition = block.startBeat * effectivePixelsPerBeat; // Use effective value
       const blockWidth = (block.endBeat - block.startBeat) * effectivePixelsPerBeat; // Use effective value
-       const blockTop = trackIndex * effectiveTrackHeight + effectiveBlockVerticalPadding; // Use effective values
-       const blockBottom = blockTop + effectiveBlockHeight; // Use effective height
+       const { top: blockTop, bottom: blockBottom } = getBlockBounds(getRowLayout(trackIndex));
 
        // Use actualOffsetX for hit detection
       if (actualOffsetX >= leftPosition && actualOffsetX <= leftPosition + blockWidth &&
@@ -521,17 +696,19 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
     const actualOffsetY = offsetY + scrollTop;
 
     let cursorStyle = 'default'; // Default cursor
+    const automationHit = getAutomationHit(actualOffsetX, actualOffsetY);
 
     // Use actualOffsetY to determine track index
     const trackIndex = Math.floor(actualOffsetY / effectiveTrackHeight); 
-    if (trackIndex >= 0 && trackIndex < tracks.length) {
+    if (automationHit) {
+      cursorStyle = automationHit.point ? 'move' : 'crosshair';
+    } else if (trackIndex >= 0 && trackIndex < tracks.length) {
       const hoveredTrack = tracks[trackIndex];
       // Hit detection logic similar to mouseDown
       for (const block of hoveredTrack.midiBlocks) {
         const leftPosition = block.startBeat * effectivePixelsPerBeat; // Use effective value
         const blockWidth = (block.endBeat - block.startBeat) * effectivePixelsPerBeat; // Use effective value
-        const blockTop = trackIndex * effectiveTrackHeight + effectiveBlockVerticalPadding; // Use effective values
-        const blockBottom = blockTop + effectiveBlockHeight; // Use effective height
+        const { top: blockTop, bottom: blockBottom } = getBlockBounds(getRowLayout(trackIndex));
 
         // Use actualOffsetX for general hit detection, but offsetX for edge checks relative to visible canvas
        if (actualOffsetX >= leftPosition && actualOffsetX <= leftPosition + blockWidth &&
@@ -622,7 +799,9 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
   }), [
       // Dependencies for the exposed handlers
       setSelectedWindow, handleStartEdge, handleEndEdge, selectBlock, handleMoveBlock,
-      handleDoubleClick, effectivePixelsPerBeat, handleContextMenu, handleInternalMouseMove, handleInternalMouseLeave
+      handleDoubleClick, effectivePixelsPerBeat, handleContextMenu, handleInternalMouseMove, handleInternalMouseLeave,
+      // The native handlers read these for automation lane hit testing
+      tracks, getRowLayout, scrollLeft, scrollTop, setAutomationPoints
   ]);
 
 
@@ -658,6 +837,24 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
   }, [selectedWindow, selectedBlock, clipboardBlock, selectedTrackId, setClipboardBlock, addMidiBlock, currentBeat, seekTo]);
 
 
+  const contextMenuTrack = contextMenuTrackId ? tracks.find(t => t.id === contextMenuTrackId) ?? null : null;
+  const automationMenuTrack = automationMenu ? tracks.find(t => t.id === automationMenu.trackId) ?? null : null;
+  const automationMenuLane = automationMenuTrack?.automation.find(l => l.id === automationMenu?.laneId) ?? null;
+  const automationMenuProperty = automationMenuTrack && automationMenuLane ? getAutomationProperty(automationMenuTrack, automationMenuLane) : null;
+
+  // Shows the lane automating a property under its track, creating the lane on first use
+  const handleShowAutomation = (track: Track, target: AutomationTarget, propertyName: string) => {
+    const laneId = addAutomationLane(track.id, target, propertyName);
+    if (laneId) setVisibleAutomationLane(track.id, laneId);
+    closeContextMenu();
+  };
+
+  const handleGenerateMidi = async (trackId: string, mode: AudioToMidiMode) => {
+    closeContextMenu();
+    const created = await generateMidiFromAudio(trackId, mode);
+    if (!created) window.alert('No notes were detected in the audio.');
+  };
+
   return (
     <div
       ref={timelineAreaRef} // Ref still points to the container div
@@ -717,10 +914,96 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
         >
            <div
             style={{ padding: '6px 14px', cursor: 'pointer' }}
-            onClick={handleImportMidiClick}
+            onClick={() => handleImportMidiClick('currentTrack')}
           >
             Import MIDI...
           </div>
+          <div
+            style={{ padding: '6px 14px', cursor: 'pointer' }}
+            onClick={() => handleImportMidiClick('track')}
+          >
+            Import MIDI as New Tracks...
+          </div>
+          <div
+            style={{ padding: '6px 14px', cursor: 'pointer' }}
+            onClick={() => handleImportMidiClick('channel')}
+          >
+            Import MIDI as New Tracks (by Channel)...
+          </div>
+
+          <div style={{ borderTop: '1px solid #555' }}>
+            {contextMenuBlockId && (
+              <div
+                style={{ padding: '6px 14px', cursor: 'pointer' }}
+                onClick={() => handleExportMidiClick('block')}
+              >
+                Export Block as MIDI...
+              </div>
+            )}
+            {contextMenuTrackId && (
+              <div
+                style={{ padding: '6px 14px', cursor: 'pointer' }}
+                onClick={() => handleExportMidiClick('track')}
+              >
+                Export Track as MIDI...
+              </div>
+            )}
+            <div
+              style={{ padding: '6px 14px', cursor: 'pointer' }}
+              onClick={() => handleExportMidiClick('project')}
+            >
+              Export Project as MIDI...
+            </div>
+          </div>
+
+          {contextMenuTrack && isAudioLoaded && (
+            <div style={{ borderTop: '1px solid #555' }}>
+              {isGeneratingMidi ? (
+                <div style={{ padding: '6px 14px', color: '#999', cursor: 'default' }}>
+                  Generating MIDI from Audio...
+                </div>
+              ) : AUDIO_TO_MIDI_MODES.map(mode => (
+                <div
+                  key={mode.value}
+                  style={{ padding: '6px 14px', cursor: 'pointer' }}
+                  onClick={() => void handleGenerateMidi(contextMenuTrack.id, mode.value)}
+                >
+                  Generate {mode.label} MIDI from Audio
+                </div>
+              ))}
+            </div>
+          )}
+
+          {contextMenuTrack && (
+            <div style={{ borderTop: '1px solid #555', maxHeight: '240px', overflowY: 'auto' }}>
+              <div style={{ padding: '6px 14px', color: '#999', fontSize: '12px', cursor: 'default' }}>
+                Automation
+              </div>
+              {visibleAutomationLanes[contextMenuTrack.id] && (
+                <div
+                  style={{ padding: '6px 14px', cursor: 'pointer' }}
+                  onClick={() => { setVisibleAutomationLane(contextMenuTrack.id, null); closeContextMenu(); }}
+                >
+                  Hide Automation Lane
+                </div>
+              )}
+              {getAutomatablePropertyOptions(contextMenuTrack).map(option => {
+                const lane = contextMenuTrack.automation.find(l =>
+                  l.propertyName === option.propertyName && isSameAutomationTarget(l.target, option.target)
+                );
+                const isVisible = !!lane && visibleAutomationLanes[contextMenuTrack.id] === lane.id;
+                return (
+                  <div
+                    key={`${option.target.type === 'effect' ? option.target.effectId : 'synth'}-${option.propertyName}`}
+                    style={{ padding: '6px 14px', cursor: 'pointer', color: isVisible ? '#f5a623' : undefined }}
+                    onClick={() => handleShowAutomation(contextMenuTrack, option.target, option.propertyName)}
+                  >
+                    {option.label}{lane && lane.points.length > 0 ? ' •' : ''}
+                  </div>
+                );
+              })}
+            </div>
+          )}
 
           {contextMenuBlockId && (
               <div
@@ -737,6 +1020,85 @@ const TrackTimelineView = forwardRef<TrackTimelineViewHandle, TrackTimelineViewP
           )}
         </div>
       )}
+
+      {automationMenu && automationMenuTrack && automationMenuLane && (
+        <div
+          className="automation-menu-class"
+          style={{
+            position: 'fixed',
+            top: `${automationMenu.y}px`,
+            left: `${automationMenu.x}px`,
+            backgroundColor: '#333',
+            border: '1px solid #555',
+            borderRadius: '4px',
+            padding: '4px 0',
+            boxShadow: '0 2px 10px rgba(0,0,0,0.2)',
+            zIndex: 100,
+            color: 'white',
+            fontSize: '14px',
+            whiteSpace: 'nowrap'
+          }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {automationMenu.point && (
+            <>
+              <div style={{ padding: '6px 14px', color: '#999', fontSize: '12px' }}>
+                Curve to next point
+              </div>
+              {AUTOMATION_CURVES.map(({ value, label }) => (
+                <div
+                  key={value}
+                  style={{ padding: '6px 14px', cursor: 'pointer', color: automationMenu.point?.curve === value ? '#f5a623' : undefined }}
+                  onClick={() => {
+                    updateMenuPoint(point => ({ ...point, curve: value }));
+                    setAutomationMenu(null);
+                  }}
+                >
+                  {label}
+                </div>
+              ))}
+              {automationMenuProperty?.uiType === 'color' && (
+                <label style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '6px 14px', borderTop: '1px solid #555', cursor: 'pointer' }}>
+                  Color
+                  <input
+                    type="color"
+                    defaultValue={String(automationMenu.point.value)}
+                    onChange={(e) => updateMenuPoint(point => ({ ...point, value: coerceAutomationValue(automationMenuProperty, e.target.value) }))}
+                  />
+                </label>
+              )}
+              <div
+                style={{ padding: '6px 14px', cursor: 'pointer', color: '#ff8080', borderTop: '1px solid #555' }}
+                onClick={() => {
+                  updateMenuPoint(() => null);
+                  setAutomationMenu(null);
+                }}
+              >
+                Delete Point
+              </div>
+            </>
+          )}
+          <div
+            style={{ padding: '6px 14px', cursor: 'pointer', borderTop: automationMenu.point ? '1px solid #555' : undefined }}
+            onClick={() => {
+              setVisibleAutomationLane(automationMenuTrack.id, null);
+              setAutomationMenu(null);
+            }}
+          >
+            Hide Automation Lane
+          </div>
+          <div
+            style={{ padding: '6px 14px', cursor: 'pointer', color: '#ff8080' }}
+            onClick={() => {
+              removeAutomationLane(automationMenuTrack.id, automationMenuLane.id);
+              setVisibleAutomationLane(automationMenuTrack.id, null);
+              setAutomationMenu(null);
+            }}
+          >
+            Delete Automation
+          </div>
+        </div>
+      )}
     </div>
   );
 });
@@ -0,0 +1,98 @@
+import React, { useEffect, useRef } from 'react';
+import useStore from '../../../store/store';
+import { drawWaveform } from '../../../lib/WaveformPeaks';
+import styles from './WaveformLane.module.css';
+
+const WAVEFORM_COLOR = 'rgba(144, 238, 144, 0.6)';
+const WAVEFORM_PADDING = 2; // Pixels kept free above and below the waveform
+
+interface WaveformLaneProps {
+  horizontalZoom: number;
+  pixelsPerBeatBase: number;
+  renderMeasures: number; // Total measures to render visually
+  height: number;
+  scrollLeft: number;
+  visibleWidth: number;
+}
+
+// The loaded audio drawn against the beat grid, for lining the audio up with the tracks below
+function WaveformLane({
+  horizontalZoom,
+  pixelsPerBeatBase,
+  renderMeasures,
+  height,
+  scrollLeft,
+  visibleWidth
+}: WaveformLaneProps) {
+  const {
+    waveformPeaks,
+    timeManager,
+    bpm,
+    tempoChanges,
+    audioOffset,
+    timeSignatureMap,
+  } = useStore();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const effectivePixelsPerBeat = pixelsPerBeatBase * horizontalZoom;
+  const totalWidth = effectivePixelsPerBeat * timeSignatureMap.getTotalBeats(renderMeasures);
+  // Only the visible part is drawn; the canvas moves along with the scroll position
+  const canvasWidth = Math.max(0, Math.min(visibleWidth, totalWidth - scrollLeft));
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = canvasWidth * dpr;
+    canvas.height = height * dpr;
+    canvas.style.width = `${canvasWidth}px`;
+    canvas.style.height = `${height}px`;
+    if (!waveformPeaks || canvasWidth <= 0) return;
+
+    ctx.scale(dpr, dpr);
+    ctx.clearRect(0, 0, canvasWidth, height);
+    // The tempo map turns timeline beats into seconds; the offset moves them into the file
+    const tempoMap = timeManager.getTempoMap();
+    drawWaveform(ctx, waveformPeaks, {
+      left: 0,
+      top: WAVEFORM_PADDING,
+      width: Math.ceil(canvasWidth),
+      height: height - WAVEFORM_PADDING * 2,
+      xToTime: (x) => tempoMap.beatToTime((scrollLeft + x) / effectivePixelsPerBeat) + audioOffset,
+      color: WAVEFORM_COLOR,
+    });
+  }, [
+      waveformPeaks,
+      canvasWidth,
+      height,
+      scrollLeft,
+      effectivePixelsPerBeat,
+      audioOffset,
+      timeManager,
+      bpm, // The tempo map is rebuilt when the tempo changes
+      tempoChanges
+  ]);
+
+  return (
+    <div
+      className={styles.waveformLaneContainer}
+      style={{
+        height: `${height}px`,
+        width: `${totalWidth}px`
+      }}
+    >
+      <canvas
+        ref={canvasRef}
+        className={styles.waveformCanvas}
+        style={{
+          left: `${scrollLeft}px`
+        }}
+      />
+    </div>
+  );
+}
+
+export default WaveformLane;
@@ -0,0 +1,195 @@
+import { AutomationLane, AutomationPoint, Track } from '../../lib/types';
+import { Property } from '../../lib/properties/Property';
+import {
+  automationValueToRatio,
+  evaluateAutomation,
+  getAutomationOwner,
+  getAutomationProperty,
+  isAutomatableProperty,
+} from '../../lib/Automation';
+import Effect from '../../lib/Effect';
+import { availableEffectsData } from '../../store/effectSlice';
+
+// Geometry and drawing of the automation lane shown under a track's blocks.
+// A track row keeps its height; when a lane is visible the blocks move up and the
+// lane takes the bottom part of the row.
+
+const AUTOMATION_LANE_HEIGHT_FACTOR = 0.45; // Share of the track height used by the lane
+const LANE_VERTICAL_PADDING = 4; // Keeps points at min/max clear of the lane edges
+const AUTOMATION_POINT_RADIUS = 4;
+const POINT_HIT_RADIUS = 7;
+const LANE_BACKGROUND_COLOR = 'rgba(255, 255, 255, 0.04)';
+const LANE_LINE_COLOR = '#f5a623';
+const LANE_LABEL_FONT_SIZE = 9;
+const COLOR_STRIP_STEP_PX = 3; // Width of each sampled slice when drawing a color envelope
+
+export interface TrackRowLayout {
+  blockAreaTop: number;
+  blockAreaHeight: number;
+  lane: AutomationLane | null;
+  laneTop: number;
+  laneHeight: number;
+}
+
+export interface AutomationPropertyOption {
+  target: AutomationLane['target'];
+  propertyName: string;
+  label: string; // e.g. "Synth › Size"
+}
+
+const effectDefinitions = Object.values(availableEffectsData).flat();
+
+const getEffectName = (effect: Effect): string =>
+  effectDefinitions.find(def => effect instanceof def.constructor)?.name ?? effect.constructor.name;
+
+// Splits a track row into the block area and, if one is shown, the automation lane
+export const getTrackRowLayout = (
+  track: Track,
+  trackIndex: number,
+  trackHeight: number,
+  visibleLaneId: string | undefined
+): TrackRowLayout => {
+  const top = trackIndex * trackHeight;
+  const lane = visibleLaneId ? track.automation.find(l => l.id === visibleLaneId) ?? null : null;
+  if (!lane) {
+    return { blockAreaTop: top, blockAreaHeight: trackHeight, lane: null, laneTop: top + trackHeight, laneHeight: 0 };
+  }
+  const laneHeight = trackHeight * AUTOMATION_LANE_HEIGHT_FACTOR;
+  return { blockAreaTop: top, blockAreaHeight: trackHeight - laneHeight, lane, laneTop: top + trackHeight - laneHeight, laneHeight };
+};
+
+// Every property of the track's synthesizer and effects that a lane can automate.
+// `isTarget` narrows the list, e.g. to the properties audio modulation can drive.
+export const getAutomatablePropertyOptions = (
+  track: Track,
+  isTarget: (property: Property<any>) => boolean = isAutomatableProperty
+): AutomationPropertyOption[] => {
+  const options: AutomationPropertyOption[] = [];
+  const collect = (properties: Map<string, Property<any>>, target: AutomationLane['target'], ownerLabel: string) => {
+    properties.forEach(property => {
+      if (isTarget(property)) {
+        options.push({ target, propertyName: property.name, label: `${ownerLabel} › ${property.label}` });
+      }
+    });
+  };
+  if (track.synthesizer) collect(track.synthesizer.properties, { type: 'synth' }, 'Synth');
+  track.effects.forEach((effect, index) => {
+    collect(effect.properties, { type: 'effect', effectId: effect.id }, `${index + 1}. ${getEffectName(effect)}`);
+  });
+  return options;
+};
+
+// Also labels modulation routes, which point at properties the same way
+export const getAutomationLaneLabel = (track: Track, lane: Pick<AutomationLane, 'target' | 'propertyName'>): string => {
+  const owner = getAutomationOwner(track, lane.target);
+  const property = owner?.properties.get(lane.propertyName);
+  if (!owner || !property) return `${lane.propertyName} (missing)`;
+  const ownerLabel = lane.target.type === 'synth' ? 'Synth' : getEffectName(owner as Effect);
+  return `${ownerLabel} › ${property.label}`;
+};
+
+// Y position of a value inside the lane
+export const automationValueToY = (property: Property<any>, value: number | string, layout: TrackRowLayout): number => {
+  const usableHeight = layout.laneHeight - 2 * LANE_VERTICAL_PADDING;
+  return layout.laneTop + LANE_VERTICAL_PADDING + (1 - automationValueToRatio(property, value)) * usableHeight;
+};
+
+// Inverse of automationValueToY, as a 0-1 ratio of the property's range
+export const yToAutomationRatio = (y: number, layout: TrackRowLayout): number => {
+  const usableHeight = layout.laneHeight - 2 * LANE_VERTICAL_PADDING;
+  return usableHeight > 0 ? 1 - (y - layout.laneTop - LANE_VERTICAL_PADDING) / usableHeight : 0.5;
+};
+
+// The point under (x, y) in content coordinates, or null
+export const hitTestAutomationPoint = (
+  track: Track,
+  layout: TrackRowLayout,
+  x: number,
+  y: number,
+  pixelsPerBeat: number
+): AutomationPoint | null => {
+  const property = layout.lane && getAutomationProperty(track, layout.lane);
+  if (!layout.lane || !property) return null;
+  for (const point of layout.lane.points) {
+    const dx = point.beat * pixelsPerBeat - x;
+    const dy = automationValueToY(property, point.value, layout) - y;
+    if (dx * dx + dy * dy <= POINT_HIT_RADIUS * POINT_HIT_RADIUS) return point;
+  }
+  return null;
+};
+
+export const isInAutomationLane = (layout: TrackRowLayout, y: number): boolean =>
+  !!layout.lane && y >= layout.laneTop && y <= layout.laneTop + layout.laneHeight;
+
+/**
+ * Draws a lane: its background, the envelope between startBeat and endBeat, the breakpoints and a label.
+ * Coordinates are content coordinates (the caller has already translated for scrolling).
+ */
+export const drawAutomationLane = (
+  ctx: CanvasRenderingContext2D,
+  track: Track,
+  layout: TrackRowLayout,
+  pixelsPerBeat: number,
+  startBeat: number,
+  endBeat: number,
+  labelX: number
+) => {
+  if (!layout.lane) return;
+  const lane = layout.lane;
+  const property = getAutomationProperty(track, lane);
+  const startX = startBeat * pixelsPerBeat;
+  const endX = endBeat * pixelsPerBeat;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(startX, layout.laneTop, endX - startX, layout.laneHeight);
+  ctx.clip();
+  ctx.fillStyle = LANE_BACKGROUND_COLOR;
+  ctx.fillRect(startX, layout.laneTop, endX - startX, layout.laneHeight);
+  ctx.strokeStyle = '#333';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(startX, layout.laneTop);
+  ctx.lineTo(endX, layout.laneTop);
+  ctx.stroke();
+
+  if (property && lane.points.length > 0) {
+    if (property.uiType === 'color') {
+      // Color envelopes are shown as a strip of the evaluated colors
+      const stripTop = layout.laneTop + LANE_VERTICAL_PADDING;
+      const stripHeight = layout.laneHeight - 2 * LANE_VERTICAL_PADDING;
+      for (let x = startX; x < endX; x += COLOR_STRIP_STEP_PX) {
+        ctx.fillStyle = String(evaluateAutomation(lane.points, x / pixelsPerBeat));
+        ctx.fillRect(x, stripTop, COLOR_STRIP_STEP_PX, stripHeight);
+      }
+    } else {
+      ctx.strokeStyle = LANE_LINE_COLOR;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      // Sampled per pixel so every curve type is drawn the way it is evaluated
+      for (let x = startX; x <= endX; x += 1) {
+        const y = automationValueToY(property, evaluateAutomation(lane.points, x / pixelsPerBeat)!, layout);
+        if (x === startX) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+      }
+      ctx.stroke();
+    }
+
+    for (const point of lane.points) {
+      if (point.beat < startBeat || point.beat > endBeat) continue;
+      ctx.beginPath();
+      ctx.arc(point.beat * pixelsPerBeat, automationValueToY(property, point.value, layout), AUTOMATION_POINT_RADIUS, 0, Math.PI * 2);
+      ctx.fillStyle = property.uiType === 'color' ? String(point.value) : LANE_LINE_COLOR;
+      ctx.fill();
+      ctx.strokeStyle = 'white';
+      ctx.lineWidth = 1;
+      ctx.stroke();
+    }
+  }
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.font = `${LANE_LABEL_FONT_SIZE}px sans-serif`;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  ctx.fillText(getAutomationLaneLabel(track, lane), labelX + 4, layout.laneTop + 2);
+  ctx.restore();
+};
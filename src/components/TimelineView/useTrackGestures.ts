@@ -1,17 +1,43 @@
 import { useState, useEffect, useCallback, RefObject, useRef } from 'react';
 import { Track, MIDIBlock } from '../../lib/types';
-import { MidiParser } from '../../lib/MidiParser'; // Import MidiParser
+import { MidiParser, MidiImportGrouping, MidiImportResult } from '../../lib/MidiParser'; // Import MidiParser
 import TimeManager from '../../lib/TimeManager'; // Import TimeManager type if needed
+import TimeSignatureMap from '../../lib/TimeSignatureMap';
 import { SelectedWindowType } from '../../store/uiSlice'; // <-- Import SelectedWindowType
+import { MidiExportTarget } from '../../store/exportSlice';
 
 // Constants from TrackTimelineView - consider moving these to a shared location if used elsewhere
 const GRID_SNAP = 0.25;
 
+// Where imported MIDI goes: into the clicked track, or into new tracks grouped by MIDI track or channel
+export type MidiImportTarget = 'currentTrack' | MidiImportGrouping;
+
+// True if the file's tempo or time signatures differ from the project's
+const hasDifferentTiming = (result: MidiImportResult, timeManager: TimeManager, timeSignatureMap: TimeSignatureMap) => {
+  const tempoMap = timeManager.getTempoMap();
+  const initialSignature = timeSignatureMap.getInitialSignature();
+  return (result.initialBpm !== null && Math.abs(result.initialBpm - tempoMap.getInitialBPM()) > 0.01)
+    || result.tempoChanges.length > 0
+    || (result.timeSignature !== null && TimeSignatureMap.format(result.timeSignature) !== TimeSignatureMap.format(initialSignature))
+    || result.timeSignatureChanges.length > 0;
+};
+
+const describeTiming = (result: MidiImportResult) => {
+  const details: string[] = [];
+  if (result.initialBpm !== null) details.push(`${Math.round(result.initialBpm * 100) / 100} BPM`);
+  if (result.tempoChanges.length > 0) details.push(`${result.tempoChanges.length} tempo change(s)`);
+  if (result.timeSignature) details.push(TimeSignatureMap.format(result.timeSignature));
+  if (result.timeSignatureChanges.length > 0) details.push(`${result.timeSignatureChanges.length} time signature change(s)`);
+  return details.join(', ');
+};
+
 // Export the props interface
 export interface UseTrackGesturesProps {
   tracks: Track[];
   updateMidiBlock: (trackId: string, block: MIDIBlock) => void;
   addMidiBlock: (trackId: string, block: MIDIBlock) => void;
+  importMidi: (result: MidiImportResult, targetTrackId: string | null, applyTiming: boolean) => void;
+  exportMidi: (target: MidiExportTarget) => void;
   removeMidiBlock: (trackId: string, blockId: string) => void;
   moveMidiBlock: (blockId: string, oldTrackId: string, newTrackId: string, newStartBeat: number, newEndBeat: number) => void;
   selectBlock: (blockId: string | null) => void;
@@ -33,12 +59,15 @@ export interface UseTrackGesturesProps {
   // Add missing props back
   numMeasures: number;
   renderMeasures: number;
+  timeSignatureMap: TimeSignatureMap; // New blocks default to one measure of the local signature
 }
 
 export function useTrackGestures({
   tracks,
   updateMidiBlock,
   addMidiBlock,
+  importMidi,
+  exportMidi,
   removeMidiBlock,
   moveMidiBlock,
   selectBlock,
@@ -54,6 +83,7 @@ export function useTrackGestures({
   // Destructure scroll props
   scrollLeft,
   scrollTop,
+  timeSignatureMap,
 }: UseTrackGesturesProps) {
   // Calculate effective values based on zoom
   const effectivePixelsPerBeat = pixelsPerBeatBase * horizontalZoom;
@@ -87,6 +117,7 @@ export function useTrackGestures({
 
   // Ref for file input
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const importTargetRef = useRef<MidiImportTarget>('currentTrack');
 
   // Helper to find track by ID
   const findTrackById = useCallback((trackId: string | null): Track | null => {
@@ -374,13 +405,13 @@ export function useTrackGestures({
     const newBlock: MIDIBlock = {
       id: `block-${Date.now()}`,
       startBeat: beat,
-      endBeat: beat + 4,
+      endBeat: beat + TimeSignatureMap.getMeasureLength(timeSignatureMap.getSignatureAtBeat(beat)),
       notes: []
     };
 
     addMidiBlock(targetTrack.id, newBlock);
     selectBlock(newBlock.id);
-  }, [addMidiBlock, selectBlock, findTrackById, timelineAreaRef, effectivePixelsPerBeat, GRID_SNAP, dragOperation, scrollLeft]);
+  }, [addMidiBlock, selectBlock, findTrackById, timelineAreaRef, effectivePixelsPerBeat, GRID_SNAP, dragOperation, scrollLeft, timeSignatureMap]);
 
 
   const handleContextMenu = useCallback((e: React.MouseEvent, blockId: string | null = null, trackId: string | null = null) => {
@@ -425,6 +456,12 @@ export function useTrackGestures({
   }, [selectBlock, tracks, findTrackAndBlock, timelineAreaRef, effectiveTrackHeight, dragOperation, scrollLeft, scrollTop]);
 
 
+  const closeContextMenu = useCallback(() => {
+    setShowContextMenu(false);
+    setContextMenuBlockId(null);
+    setContextMenuTrackId(null);
+  }, []);
+
   const handleDeleteBlock = useCallback(() => {
     if (contextMenuBlockId && contextMenuTrackId) {
       removeMidiBlock(contextMenuTrackId, contextMenuBlockId);
@@ -435,23 +472,40 @@ export function useTrackGestures({
     }
   }, [contextMenuBlockId, contextMenuTrackId, removeMidiBlock, selectBlock]);
 
-  const handleImportMidiClick = useCallback(() => {
-    if (!contextMenuTrackId) {
+  const handleExportMidiClick = useCallback((scope: MidiExportTarget['type']) => {
+    if (scope === 'block' && contextMenuTrackId && contextMenuBlockId) {
+      exportMidi({ type: 'block', trackId: contextMenuTrackId, blockId: contextMenuBlockId });
+    } else if (scope === 'track' && contextMenuTrackId) {
+      exportMidi({ type: 'track', trackId: contextMenuTrackId });
+    } else if (scope === 'project') {
+      exportMidi({ type: 'project' });
+    } else {
+      console.error(`Cannot export MIDI ${scope}: nothing selected.`);
+    }
+    setShowContextMenu(false);
+    setContextMenuBlockId(null);
+    setContextMenuTrackId(null);
+  }, [contextMenuTrackId, contextMenuBlockId, exportMidi]);
+
+  const handleImportMidiClick = useCallback((target: MidiImportTarget = 'currentTrack') => {
+    if (target === 'currentTrack' && !contextMenuTrackId) {
         console.error("Cannot import MIDI: target track ID unknown.");
         setShowContextMenu(false);
         return;
     }
+    importTargetRef.current = target;
     fileInputRef.current?.click();
     setShowContextMenu(false);
   }, [contextMenuTrackId]);
 
   const handleFileSelected = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    const targetTrackId = contextMenuTrackId; // Read from state
+    const importTarget = importTargetRef.current;
+    const targetTrackId = importTarget === 'currentTrack' ? contextMenuTrackId : null; // Read from state
 
     if (event.target) event.target.value = '';
 
-    if (!file || !targetTrackId) {
+    if (!file || (importTarget === 'currentTrack' && !targetTrackId)) {
       console.error("MIDI file selected but target track ID is missing or file is invalid.");
       setContextMenuTrackId(null);
       return;
@@ -468,11 +522,12 @@ export function useTrackGestures({
         }
 
         try {
-            const parsedBlocks = await MidiParser.parse(arrayBuffer, timeManager);
-            if (parsedBlocks.length > 0) {
-                parsedBlocks.forEach(block => {
-                    addMidiBlock(targetTrackId, block);
-                });
+            const grouping: MidiImportGrouping = importTarget === 'channel' ? 'channel' : 'track';
+            const result = await MidiParser.parse(arrayBuffer, grouping);
+            if (result.parts.length > 0) {
+                const applyTiming = hasDifferentTiming(result, timeManager, timeSignatureMap)
+                    && window.confirm(`Use the MIDI file's timing (${describeTiming(result)}) for this project?`);
+                importMidi(result, targetTrackId, applyTiming);
             } else {
                  console.log("No valid note data found in MIDI file to create blocks.");
             }
@@ -490,7 +545,7 @@ export function useTrackGestures({
 
     reader.readAsArrayBuffer(file);
 
-  }, [addMidiBlock, timeManager, contextMenuTrackId]); // Dependency on contextMenuTrackId state
+  }, [importMidi, timeManager, timeSignatureMap, contextMenuTrackId]); // Dependency on contextMenuTrackId state
 
   // Return values from the hook
   return {
@@ -501,10 +556,13 @@ export function useTrackGestures({
     handleContextMenu,
     handleDeleteBlock,
     handleImportMidiClick,
+    handleExportMidiClick,
     handleFileSelected,
     showContextMenu,
+    closeContextMenu,
     contextMenuPosition,
     contextMenuBlockId,
+    contextMenuTrackId,
     fileInputRef,
     // State needed for visual feedback
     pendingUpdateBlock,
@@ -1,73 +1,172 @@
 'use client';
 
-import React, { useRef, useState, useEffect, useCallback } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
-import * as THREE from 'three';
-import { EffectComposer, Bloom } from '@react-three/postprocessing';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { EffectComposer } from '@react-three/postprocessing';
+import type { Effect } from 'postprocessing';
 import { Button } from './ui/button';
+import { Progress } from './ui/progress';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
 import { Maximize2 } from 'lucide-react';
 import useStore from '../store/store';
-import VisualizerManager, { VisualObject3D } from '../lib/VisualizerManager';
+import VisualizerManager from '../lib/VisualizerManager';
+import InstancedObjectRenderer from '../lib/InstancedObjectRenderer';
+import type TimeManager from '../lib/TimeManager';
+import { applyAutomationLanes, getPostEffectAutomationProperty } from '../lib/Automation';
+
+// Scene component that handles animation and object rendering. Objects are drawn through
+// instanced meshes updated in place each frame, without re-rendering React.
+function Scene({ visualizerManager, timeManager }: { visualizerManager: VisualizerManager; timeManager: TimeManager }) {
+  const [renderer] = useState(() => new InstancedObjectRenderer());
+
+  useEffect(() => () => renderer.dispose(), [renderer]);
 
-// Scene component that handles animation and object rendering
-function Scene({ visualizerManager }: { visualizerManager: VisualizerManager }) {
-  const [objects, setObjects] = useState<VisualObject3D[]>([]);
-  
   // Update objects on each frame
   useFrame(() => {
-    setObjects(visualizerManager.getVisualObjects());
+    const objects = visualizerManager.getVisualObjects();
+    renderer.update(objects, timeManager.getCurrentTime()); // Animated materials follow the song
   });
-  
+
   return (
     <>
       <ambientLight intensity={0.5} />
       <directionalLight position={[10, 10, 5]} intensity={1} />
-      {objects.map(obj => (
-        <VisualObject key={obj.id} object={obj} />
-      ))}
+      <primitive object={renderer.group} />
     </>
   );
 }
 
-// Component for a single visual object
-function VisualObject({ object }: { object: VisualObject3D }) {
-  const meshRef = useRef<THREE.Mesh>(null);
-  
-  const isTransparent = object.opacity < 1.0;
-  // Use provided emissive properties, defaulting if undefined
-  const emissiveColor = object.emissive ?? object.color; // Default emissive to base color if not provided
-  const emissiveIntensity = object.emissiveIntensity ?? 0; // Default intensity to 0
+// Renders the project's post-processing stack over the scene. Editing a post effect replaces
+// it in the store, so the effect that renders it is kept by ID and only rebuilt when the
+// stack's order or enabled effects change. Values are read from the store every frame.
+function PostProcessingStack({ timeManager }: { timeManager: TimeManager }) {
+  const camera = useThree(state => state.camera);
+  const enabledIds = useStore(state => state.postEffects.filter(postEffect => postEffect.enabled).map(postEffect => postEffect.id).join('|'));
+  const allIds = useStore(state => state.postEffects.map(postEffect => postEffect.id).join('|'));
+  const [effects] = useState(() => new Map<string, Effect>());
+
+  // The composer rebuilds its passes whenever its children change, so they are memoized
+  const children = useMemo(() => enabledIds.split('|').filter(Boolean).map(id => {
+    let effect = effects.get(id);
+    if (!effect) {
+      const postEffect = useStore.getState().postEffects.find(p => p.id === id)!;
+      effect = postEffect.createEffect(camera);
+      effects.set(id, effect);
+    }
+    return <primitive key={id} object={effect} dispose={null} />;
+  }), [enabledIds, effects, camera]);
+
+  // Disposes the effects of removed post effects
+  useEffect(() => {
+    const ids = new Set(allIds.split('|'));
+    effects.forEach((effect, id) => {
+      if (ids.has(id)) return;
+      effect.dispose();
+      effects.delete(id);
+    });
+  }, [allIds, effects]);
+
+  useEffect(() => () => {
+    effects.forEach(effect => effect.dispose());
+    effects.clear();
+  }, [effects]);
+
+  // Runs before the composer renders (it renders at a higher priority)
+  useFrame(() => {
+    const { postEffects, postEffectAutomation } = useStore.getState();
+    const restore = applyAutomationLanes(
+      postEffectAutomation,
+      lane => getPostEffectAutomationProperty(postEffects, lane),
+      timeManager.getCurrentBeat()
+    );
+    postEffects.forEach(postEffect => {
+      const effect = effects.get(postEffect.id);
+      if (postEffect.enabled && effect) postEffect.updateEffect(effect);
+    });
+    restore();
+  });
+
+  return <EffectComposer>{children}</EffectComposer>;
+}
+
+// Hands the R3F renderer to the store so frames can be rendered and captured during export
+function ExportContextRegistrar() {
+  const gl = useThree(state => state.gl);
+  const invalidate = useThree(state => state.invalidate);
+  const advance = useThree(state => state.advance);
+  const registerR3FContext = useStore(state => state.registerR3FContext);
+
+  useEffect(() => {
+    registerR3FContext({
+      gl,
+      canvas: gl.domElement,
+      invalidate: () => invalidate(),
+      advance: (timestamp: number) => advance(timestamp),
+    });
+    return () => registerR3FContext(null);
+  }, [gl, invalidate, advance, registerR3FContext]);
+
+  return null;
+}
+
+// Beat indicator overlay - styled like page.tsx. `currentBeat` changes every frame during
+// playback, so it is read here rather than in VisualizerView.
+function BeatIndicator() {
+  const currentBeat = useStore(state => state.currentBeat);
+
+  return (
+    <div
+      className="absolute top-3 left-3 px-3 py-1 rounded-md border text-xs text-gray-300"
+      style={{
+        backgroundColor: "rgba(40, 40, 40, 0.7)",
+        borderColor: "rgba(80, 80, 80, 0.5)",
+      }}
+    >
+      Beat: {currentBeat.toFixed(2)}
+    </div>
+  );
+}
+
+// Export progress overlay, updated once per exported frame
+function ExportProgressOverlay() {
+  const exportProgress = useStore(state => state.exportProgress);
+  const exportPhase = useStore(state => state.exportPhase);
+  const cancelVideoExport = useStore(state => state.cancelVideoExport);
 
   return (
-    <mesh
-      ref={meshRef}
-      position={object.position}
-      rotation={object.rotation as any}
-      scale={object.scale}
+    <div
+      className="absolute bottom-3 left-3 right-3 px-3 py-2 rounded-md border text-xs text-gray-300 flex items-center gap-3"
+      style={{
+        backgroundColor: "rgba(40, 40, 40, 0.85)",
+        borderColor: "rgba(80, 80, 80, 0.5)",
+      }}
     >
-      {/* Conditionally render geometry based on type */}
-      {object.type === 'sphere' ? (
-        <sphereGeometry args={[0.5, 32, 32]} /> // Radius 0.5 for base sphere
-      ) : (
-        <boxGeometry args={[1, 1, 1]} /> // Default to cube
+      <span className="whitespace-nowrap">
+        {exportPhase === 'encoding' ? 'Encoding video' : 'Rendering frames'}… {Math.round(exportProgress * 100)}%
+      </span>
+      <Progress value={exportProgress * 100} className="h-2 flex-1" />
+      {exportPhase === 'rendering' && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={cancelVideoExport}
+          className="h-6 px-2 text-xs hover:bg-[#444]"
+        >
+          Cancel
+        </Button>
       )}
-      <meshStandardMaterial 
-        color={object.color} 
-        opacity={object.opacity}
-        transparent={isTransparent}
-        depthWrite={!isTransparent}
-        emissive={emissiveColor}       // Apply emissive color
-        emissiveIntensity={emissiveIntensity} // Apply emissive intensity
-        toneMapped={false} // Disable tone mapping for emissive materials for stronger bloom
-      />
-    </mesh>
+    </div>
   );
 }
 
 // Main VisualizerView component
 function VisualizerView() {
-  const { timeManager, tracks, currentBeat } = useStore();
+  const timeManager = useStore(state => state.timeManager);
+  const tracks = useStore(state => state.tracks);
+  const audioAnalysis = useStore(state => state.audioAnalysis);
+  const audioOffset = useStore(state => state.audioOffset);
+  const liveNotes = useStore(state => state.liveNotes);
+  const isExporting = useStore(state => state.isExporting);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -95,6 +194,16 @@ function VisualizerView() {
   useEffect(() => {
     visualizerManager.setTracks(tracks);
   }, [tracks, visualizerManager]); // Depend on tracks and the manager instance
+
+  useEffect(() => {
+    visualizerManager.setAudioAnalysis(audioAnalysis, audioOffset);
+  }, [audioAnalysis, audioOffset, visualizerManager]);
+
+  // Notes played on a MIDI controller in live performance mode
+  useEffect(() => {
+    visualizerManager.setLiveNotes(liveNotes);
+    return () => visualizerManager.setLiveNotes(null);
+  }, [liveNotes, visualizerManager]);
   
   // Fullscreen change handler
   const handleFullscreenChange = useCallback(() => {
@@ -130,28 +239,18 @@ function VisualizerView() {
     >
       <div style={{ flex: 1, overflow: 'hidden', position: 'relative' }}>
         {dimensions.width > 0 && dimensions.height > 0 && (
-          <Canvas style={{ background: '#000' }} camera={{ position: [0, 0, 15] }}>
-            <Scene visualizerManager={visualizerManager} />
-            <EffectComposer>
-              <Bloom 
-                intensity={1.0}
-                luminanceThreshold={0.1}
-                luminanceSmoothing={0.2}
-                mipmapBlur={true}
-              />
-            </EffectComposer>
+          <Canvas
+            style={{ background: '#000' }}
+            camera={{ position: [0, 0, 15] }}
+            frameloop={isExporting ? 'never' : 'always'} // Export drives rendering frame by frame
+          >
+            <ExportContextRegistrar />
+            <Scene visualizerManager={visualizerManager} timeManager={timeManager} />
+            <PostProcessingStack timeManager={timeManager} />
           </Canvas>
         )}
-        {/* Beat indicator overlay - styled like page.tsx */}
-        <div
-          className="absolute top-3 left-3 px-3 py-1 rounded-md border text-xs text-gray-300"
-          style={{
-            backgroundColor: "rgba(40, 40, 40, 0.7)",
-            borderColor: "rgba(80, 80, 80, 0.5)",
-          }}
-        >
-          Beat: {currentBeat.toFixed(2)}
-        </div>
+        <BeatIndicator />
+        {isExporting && <ExportProgressOverlay />}
         <TooltipProvider>
           <Tooltip>
             <TooltipTrigger asChild>
@@ -0,0 +1,71 @@
+import React from 'react';
+import useStore from '../../store/store';
+import { AutomationTarget } from '../../lib/types';
+import { isSameAutomationTarget } from '../../lib/Automation';
+import { formatMidiBinding } from '../../lib/MidiMapping';
+
+interface MidiLearnPropertyProps {
+  trackId: string;
+  target: AutomationTarget;
+  propertyName: string;
+  children: React.ReactNode;
+}
+
+// Wraps a property control with its MIDI controller binding. While MIDI learn is on, a click
+// on the control picks it as the property the next controller move is bound to.
+function MidiLearnProperty({ trackId, target, propertyName, children }: MidiLearnPropertyProps) {
+  const { midiCCBindings, isMidiLearnActive, midiLearnTarget, setMidiLearnTarget, removeMidiCCBinding } = useStore();
+
+  const isSameProperty = (other: { trackId: string; target: AutomationTarget; propertyName: string }) =>
+    other.trackId === trackId && other.propertyName === propertyName && isSameAutomationTarget(other.target, target);
+  const binding = midiCCBindings.find(isSameProperty);
+  const isLearnTarget = !!midiLearnTarget && isSameProperty(midiLearnTarget);
+
+  return (
+    <div
+      style={{
+        position: 'relative',
+        borderRadius: '4px',
+        outline: isLearnTarget ? '2px solid var(--accent)' : isMidiLearnActive ? '1px dashed #555' : 'none',
+        outlineOffset: '2px',
+      }}
+    >
+      {binding && (
+        <div style={{ display: 'flex', justifyContent: 'flex-end', alignItems: 'center', gap: '4px', fontSize: '0.7rem', color: '#9ca3af' }}>
+          <span>{formatMidiBinding(binding)}</span>
+          <button
+            title="Remove the MIDI controller binding"
+            onClick={() => removeMidiCCBinding(binding.id)}
+            style={{ padding: '0 4px', lineHeight: 1 }}
+          >
+            ×
+          </button>
+        </div>
+      )}
+      {children}
+      {isMidiLearnActive && (
+        // Covers the control so the click picks the property instead of changing it
+        <div
+          title={isLearnTarget ? 'Move a knob or fader on your MIDI controller' : 'Click, then move a controller to bind it'}
+          onClick={() => setMidiLearnTarget(isLearnTarget ? null : { trackId, target, propertyName })}
+          onPointerDown={(e) => e.stopPropagation()}
+          style={{
+            position: 'absolute',
+            inset: 0,
+            cursor: 'pointer',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            fontSize: '0.75rem',
+            color: 'white',
+            backgroundColor: isLearnTarget ? 'rgba(90, 142, 163, 0.35)' : 'transparent',
+          }}
+        >
+          {isLearnTarget && 'Move a knob…'}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MidiLearnProperty;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Property, NumericMetadata } from '../../lib/properties/Property';
 
 interface SliderPropertyControlProps {
@@ -13,6 +13,11 @@ function SliderPropertyControl({ property, onChange }: SliderPropertyControlProp
   // Use local state for the slider value
   const [localValue, setLocalValue] = useState<number>(property.value);
 
+  // Follow changes made elsewhere, e.g. by a MIDI controller
+  useEffect(() => {
+    setLocalValue(property.value);
+  }, [property.value]);
+
   const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = parseFloat(event.target.value);
     setLocalValue(newValue); // Update local state immediately for smooth UI
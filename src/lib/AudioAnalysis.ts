@@ -0,0 +1,201 @@
+import { ModulationSource } from './types';
+
+// Features of the loaded audio, computed once per file so visuals can follow the music
+// without MIDI. Every feature is a 0-1 value that can be read at any time in seconds.
+//
+// - rms: overall loudness
+// - low / mid / high: loudness of the bass (< 250 Hz), mids and treble (> 4 kHz)
+// - onset: jumps to the strength of a detected attack and decays after it
+
+export const FRAME_RATE = 100; // Analysis frames per second
+export const ANALYSIS_SAMPLE_RATE = 22050; // The audio is resampled to this before analysis
+const LOW_MID_CROSSOVER_HZ = 250;
+const MID_HIGH_CROSSOVER_HZ = 4000;
+const NORMALIZATION_PERCENTILE = 0.98; // Level mapped to 1, so a single peak doesn't flatten the rest
+const ONSET_COMPRESSION = 100; // Log compression applied to band levels before taking differences
+const ONSET_WINDOW_SECONDS = 0.15; // Half-width of the moving average the threshold follows
+const ONSET_THRESHOLD_RATIO = 1.5;
+const ONSET_MIN_GAP_SECONDS = 0.05;
+const ONSET_DECAY_SECONDS = 0.15; // Time for the onset envelope to fall to 1/e
+
+export interface AudioOnset {
+  time: number; // Seconds
+  strength: number; // 0-1
+}
+
+type FrameFeature = Exclude<ModulationSource, 'onset'>;
+
+export class AudioAnalysis {
+  readonly frameRate: number;
+  readonly duration: number;
+  readonly onsets: AudioOnset[]; // Sorted by time
+  private frames: Record<FrameFeature, Float32Array>;
+
+  constructor(frameRate: number, duration: number, frames: Record<FrameFeature, Float32Array>, onsets: AudioOnset[]) {
+    this.frameRate = frameRate;
+    this.duration = duration;
+    this.frames = frames;
+    this.onsets = onsets;
+  }
+
+  /**
+   * The value of a feature at a time in seconds, interpolated between frames.
+   * @returns 0-1, and 0 outside the audio.
+   */
+  getValue(source: ModulationSource, time: number): number {
+    if (!(time >= 0) || time > this.duration) return 0;
+    if (source === 'onset') return this.getOnsetEnvelope(time);
+
+    const values = this.frames[source];
+    const position = time * this.frameRate;
+    const index = Math.floor(position);
+    if (index >= values.length - 1) return values[values.length - 1] ?? 0;
+    const t = position - index;
+    return values[index] + (values[index + 1] - values[index]) * t;
+  }
+
+  private getOnsetEnvelope(time: number): number {
+    // Binary search for the last onset at or before the time
+    let low = 0;
+    let high = this.onsets.length - 1;
+    let last = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (this.onsets[mid].time <= time) {
+        last = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    if (last < 0) return 0;
+    const onset = this.onsets[last];
+    return onset.strength * Math.exp(-(time - onset.time) / ONSET_DECAY_SECONDS);
+  }
+}
+
+// A band of the audio; a band with neither cutoff is the full mix
+export interface BandFilter {
+  highpass?: number; // Hz
+  lowpass?: number; // Hz
+}
+
+/**
+ * Renders the audio once per band, as one mono channel each, in an OfflineAudioContext.
+ * @returns A buffer with a channel per band, in order.
+ */
+export const renderBands = async (buffer: AudioBuffer, bands: BandFilter[], sampleRate = ANALYSIS_SAMPLE_RATE): Promise<AudioBuffer> => {
+  const length = Math.max(1, Math.ceil(buffer.duration * sampleRate));
+  const context = new OfflineAudioContext(bands.length, length, sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  const merger = context.createChannelMerger(bands.length);
+
+  const filter = (type: BiquadFilterType, frequency: number) => {
+    const node = context.createBiquadFilter();
+    node.type = type;
+    node.frequency.value = frequency;
+    return node;
+  };
+
+  // Each merger input is mono, so every branch is downmixed on the way in
+  bands.forEach((band, channel) => {
+    let node: AudioNode = source;
+    if (band.highpass !== undefined) node = node.connect(filter('highpass', band.highpass));
+    if (band.lowpass !== undefined) node = node.connect(filter('lowpass', band.lowpass));
+    node.connect(merger, 0, channel);
+  });
+  merger.connect(context.destination);
+  source.start();
+  return context.startRendering();
+};
+
+// RMS of each frame, over a window of two hops centered on the frame's time.
+// `hop` is in samples and may be fractional (e.g. 220.5 at 22050 Hz and 100 frames per second).
+export const frameRms = (samples: Float32Array, hop: number, frameCount: number): Float32Array => {
+  const result = new Float32Array(frameCount);
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = Math.max(0, Math.round((frame - 1) * hop));
+    const end = Math.min(samples.length, Math.round((frame + 1) * hop));
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    result[frame] = end > start ? Math.sqrt(sum / (end - start)) : 0;
+  }
+  return result;
+};
+
+export const percentile = (values: Float32Array, ratio: number): number => {
+  const sorted = Float32Array.from(values).sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(ratio * sorted.length))] ?? 0;
+};
+
+// Scales values into 0-1 in place
+const normalize = (values: Float32Array): Float32Array => {
+  const reference = percentile(values, NORMALIZATION_PERCENTILE);
+  if (reference <= 0) return values.fill(0);
+  for (let i = 0; i < values.length; i++) values[i] = Math.min(1, values[i] / reference);
+  return values;
+};
+
+/**
+ * Finds attacks in per-frame band levels (FRAME_RATE frames per second): peaks of the summed
+ * rise in level that stand above a moving average.
+ * @returns Onsets sorted by time, with strengths scaled so strong attacks reach 1.
+ */
+export const detectOnsets = (bands: Float32Array[]): AudioOnset[] => {
+  const frameCount = bands[0]?.length ?? 0;
+  const flux = new Float32Array(frameCount);
+  for (let frame = 1; frame < frameCount; frame++) {
+    let sum = 0;
+    for (const band of bands) {
+      const rise = Math.log1p(ONSET_COMPRESSION * band[frame]) - Math.log1p(ONSET_COMPRESSION * band[frame - 1]);
+      if (rise > 0) sum += rise;
+    }
+    flux[frame] = sum;
+  }
+
+  const window = Math.max(1, Math.round(ONSET_WINDOW_SECONDS * FRAME_RATE));
+  const minGap = Math.round(ONSET_MIN_GAP_SECONDS * FRAME_RATE);
+  const candidates: { frame: number; flux: number }[] = [];
+  let lastFrame = -Infinity;
+  for (let frame = 1; frame < frameCount - 1; frame++) {
+    const value = flux[frame];
+    if (value <= 0 || value < flux[frame - 1] || value <= flux[frame + 1]) continue;
+    let sum = 0;
+    const start = Math.max(0, frame - window);
+    const end = Math.min(frameCount - 1, frame + window);
+    for (let i = start; i <= end; i++) sum += flux[i];
+    const threshold = (sum / (end - start + 1)) * ONSET_THRESHOLD_RATIO;
+    if (value > threshold && frame - lastFrame >= minGap) {
+      candidates.push({ frame, flux: value });
+      lastFrame = frame;
+    }
+  }
+
+  const reference = percentile(Float32Array.from(candidates.map(c => c.flux)), NORMALIZATION_PERCENTILE);
+  return candidates.map(c => ({
+    time: c.frame / FRAME_RATE,
+    strength: reference > 0 ? Math.min(1, c.flux / reference) : 1,
+  }));
+};
+
+/**
+ * Computes the per-frame features of a decoded file.
+ * Rendering the filtered bands runs in an OfflineAudioContext, so the page stays responsive.
+ */
+export const analyzeAudioBuffer = async (buffer: AudioBuffer): Promise<AudioAnalysis> => {
+  const rendered = await renderBands(buffer, [
+    {},
+    { lowpass: LOW_MID_CROSSOVER_HZ },
+    { highpass: LOW_MID_CROSSOVER_HZ, lowpass: MID_HIGH_CROSSOVER_HZ },
+    { highpass: MID_HIGH_CROSSOVER_HZ },
+  ]);
+  const hop = ANALYSIS_SAMPLE_RATE / FRAME_RATE;
+  const frameCount = Math.max(1, Math.ceil(rendered.length / hop));
+  const [rms, low, mid, high] = [0, 1, 2, 3].map(channel => frameRms(rendered.getChannelData(channel), hop, frameCount));
+
+  // Onsets are found on the raw levels, before normalization changes their relative size
+  const onsets = detectOnsets([low, mid, high]);
+  const frames = { rms: normalize(rms), low: normalize(low), mid: normalize(mid), high: normalize(high) };
+  return new AudioAnalysis(FRAME_RATE, buffer.duration, frames, onsets);
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { clampAudioClip, scheduleAudioClips, MIN_CLIP_SECONDS } from './AudioClips';
+import type { AudioClip, AudioTrack } from './types';
+
+const createClip = (id: string, changes: Partial<AudioClip> = {}): AudioClip => ({
+    id,
+    sourceId: `${id}-source`,
+    name: id,
+    startBeat: 0,
+    inPoint: 0,
+    outPoint: 2,
+    gain: 1,
+    isMuted: false,
+    ...changes,
+});
+
+const createTrack = (id: string, clips: AudioClip[], changes: Partial<AudioTrack> = {}): AudioTrack => ({
+    id,
+    name: id,
+    clips,
+    gain: 1,
+    isMuted: false,
+    isSoloed: false,
+    ...changes,
+});
+
+// 120 BPM
+const beatToTime = (beat: number) => beat / 2;
+
+describe('AudioClips', () => {
+    it('schedules clips in timeline seconds with clip and track gain combined', () => {
+        const tracks = [createTrack('stems', [createClip('vocals', { startBeat: 8, inPoint: 1, outPoint: 3, gain: 0.5 })], { gain: 1.5 })];
+        expect(scheduleAudioClips(tracks, beatToTime)).toEqual([
+            { id: 'vocals', sourceId: 'vocals-source', startTime: 4, inPoint: 1, outPoint: 3, gain: 0.75 },
+        ]);
+    });
+
+    it('drops muted clips and muted tracks', () => {
+        const tracks = [
+            createTrack('stems', [createClip('vocals'), createClip('drums', { isMuted: true })]),
+            createTrack('fx', [createClip('riser')], { isMuted: true }),
+        ];
+        expect(scheduleAudioClips(tracks, beatToTime).map(clip => clip.id)).toEqual(['vocals']);
+    });
+
+    it('plays only soloed tracks, even muted ones, while any track is soloed', () => {
+        const tracks = [
+            createTrack('stems', [createClip('vocals')]),
+            createTrack('fx', [createClip('riser')], { isSoloed: true, isMuted: true }),
+            createTrack('bass', [createClip('sub')], { isSoloed: true }),
+        ];
+        expect(scheduleAudioClips(tracks, beatToTime).map(clip => clip.id)).toEqual(['riser', 'sub']);
+    });
+
+    it('keeps trims inside the file and at least MIN_CLIP_SECONDS long', () => {
+        expect(clampAudioClip(createClip('vocals', { inPoint: 5, outPoint: 12 }), 10)).toMatchObject({ inPoint: 5, outPoint: 10 });
+        expect(clampAudioClip(createClip('vocals', { inPoint: 10, outPoint: 10 }), 10)).toMatchObject({
+            inPoint: 10 - MIN_CLIP_SECONDS,
+            outPoint: 10,
+        });
+        expect(clampAudioClip(createClip('vocals', { inPoint: 3, outPoint: 2 }), 10).outPoint).toBeCloseTo(3 + MIN_CLIP_SECONDS);
+        // Before the file is decoded only the in point is bounded
+        expect(clampAudioClip(createClip('vocals', { startBeat: -2, inPoint: -1, outPoint: 60 }))).toMatchObject({
+            startBeat: 0,
+            inPoint: 0,
+            outPoint: 60,
+        });
+    });
+});
@@ -0,0 +1,133 @@
+import { AudioClip, AudioTrack } from './types';
+
+// Audio tracks hold clips positioned in beats; playback and export work in seconds.
+// A clip is resolved into timeline seconds once, with mute/solo and gains applied,
+// and the same schedule is played live (AudioManager) and rendered for export.
+
+export const MIN_CLIP_SECONDS = 0.05; // Trimming stops short of an empty clip
+export const MAX_AUDIO_GAIN = 2;
+
+// A clip ready to play: where it starts on the timeline and which part of its file it plays
+export interface ScheduledAudioClip {
+  id: string; // The clip's ID
+  sourceId: string;
+  startTime: number; // Timeline seconds where the in point plays
+  inPoint: number; // Seconds into the file
+  outPoint: number; // Seconds into the file
+  gain: number; // Clip and track gain combined
+}
+
+export const getClipDuration = (clip: Pick<AudioClip, 'inPoint' | 'outPoint'>): number =>
+  Math.max(0, clip.outPoint - clip.inPoint);
+
+export const clampAudioGain = (gain: number): number =>
+  Number.isFinite(gain) ? Math.max(0, Math.min(MAX_AUDIO_GAIN, gain)) : 1;
+
+/**
+ * Keeps a clip's trims inside its file and its position on the timeline.
+ * @param sourceDuration Length of the file in seconds, when it's known (not yet decoded otherwise).
+ */
+export const clampAudioClip = (clip: AudioClip, sourceDuration?: number): AudioClip => {
+  const end = sourceDuration ?? Infinity;
+  const inPoint = Math.max(0, Math.min(clip.inPoint, end - MIN_CLIP_SECONDS));
+  const outPoint = Math.max(inPoint + MIN_CLIP_SECONDS, Math.min(clip.outPoint, end));
+  return {
+    ...clip,
+    startBeat: Math.max(0, clip.startBeat),
+    inPoint,
+    outPoint,
+    gain: clampAudioGain(clip.gain),
+  };
+};
+
+/**
+ * The clips that should be heard, in timeline seconds.
+ * @param beatToTime Converts timeline beats to seconds (the project's tempo map).
+ */
+export const scheduleAudioClips = (audioTracks: AudioTrack[], beatToTime: (beat: number) => number): ScheduledAudioClip[] => {
+  // As with MIDI tracks, solo overrides mute
+  const hasSolo = audioTracks.some(track => track.isSoloed);
+  return audioTracks
+    .filter(track => (hasSolo ? track.isSoloed : !track.isMuted))
+    .flatMap(track => track.clips
+      .filter(clip => !clip.isMuted && getClipDuration(clip) > 0)
+      .map(clip => ({
+        id: clip.id,
+        sourceId: clip.sourceId,
+        startTime: beatToTime(clip.startBeat),
+        inPoint: clip.inPoint,
+        outPoint: clip.outPoint,
+        gain: clip.gain * track.gain,
+      })));
+};
+
+// A started clip: its source, and the gain it plays through (adjustable while it plays)
+export interface PlayingAudioClip {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+// Whether two schedules of a clip play the same audio at the same time (gain aside)
+export const isSameClipTiming = (a: ScheduledAudioClip, b: ScheduledAudioClip): boolean =>
+  a.sourceId === b.sourceId && a.startTime === b.startTime && a.inPoint === b.inPoint && a.outPoint === b.outPoint;
+
+/**
+ * Starts a clip's source so the timeline time `fromTime` plays at context time `when`.
+ * Clips that end before `fromTime` are not started.
+ * @returns The started clip, or null.
+ */
+export const startScheduledClip = (
+  context: BaseAudioContext,
+  destination: AudioNode,
+  clip: ScheduledAudioClip,
+  buffer: AudioBuffer,
+  fromTime: number,
+  when: number
+): PlayingAudioClip | null => {
+  const outPoint = Math.min(clip.outPoint, buffer.duration);
+  const skipped = Math.max(0, fromTime - clip.startTime); // Part of the clip already behind the start position
+  const offset = clip.inPoint + skipped;
+  if (offset >= outPoint) return null;
+
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  const gain = context.createGain();
+  gain.gain.value = clip.gain;
+  source.connect(gain).connect(destination);
+  source.start(when + Math.max(0, clip.startTime - fromTime), offset, outPoint - offset);
+  return { source, gain };
+};
+
+/**
+ * Mixes the project audio and the clips between two timeline times, as heard at playback.
+ * @param mainAudio The project's audio file and the position in it that lines up with beat 0.
+ * @returns The mix, or null when there is nothing to hear.
+ */
+export const renderAudioMix = async (
+  mainAudio: { buffer: AudioBuffer; offset: number } | null,
+  clips: ScheduledAudioClip[],
+  buffers: (sourceId: string) => AudioBuffer | null,
+  startTime: number,
+  endTime: number,
+  sampleRate: number
+): Promise<AudioBuffer | null> => {
+  const playable = clips.flatMap(clip => {
+    const buffer = buffers(clip.sourceId);
+    return buffer ? [{ clip, buffer }] : []; // Files that haven't been decoded are left out
+  });
+  if (!mainAudio && playable.length === 0) return null;
+
+  const length = Math.max(1, Math.ceil((endTime - startTime) * sampleRate));
+  const context = new OfflineAudioContext(2, length, sampleRate);
+  if (mainAudio) {
+    const filePosition = startTime + mainAudio.offset;
+    if (filePosition < mainAudio.buffer.duration) {
+      const source = context.createBufferSource();
+      source.buffer = mainAudio.buffer;
+      source.connect(context.destination);
+      source.start(0, filePosition);
+    }
+  }
+  playable.forEach(({ clip, buffer }) => startScheduledClip(context, context.destination, clip, buffer, startTime, 0));
+  return context.startRendering();
+};
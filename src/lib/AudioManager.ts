@@ -1,3 +1,8 @@
+import { PlayingAudioClip, ScheduledAudioClip, isSameClipTiming, startScheduledClip } from './AudioClips';
+import { PLAYBACK_START_LEAD } from './TimeManager';
+
+const CLIP_GAIN_RAMP_SECONDS = 0.01; // Smooths gain changes of playing clips, so they don't click
+
 export class AudioManager {
     private audioContext: AudioContext | null = null;
     private audioBuffer: AudioBuffer | null = null;
@@ -9,6 +14,11 @@ export class AudioManager {
     private lastPauseTime: number | null = null; // AudioContext time when pause() was called (seconds)
     private fileName: string | null = null; // Store the file name
     private progressCallback: ((progress: number) => void) | null = null; // Callback for progress updates (percentage)
+    private startOffset: number = 0; // Position in the file (seconds) that lines up with beat 0
+    // --- Audio clips (audio tracks), mixed with the file above ---
+    private clipBuffers = new Map<string, AudioBuffer>(); // Decoded clip files by source ID
+    private clips: ScheduledAudioClip[] = [];
+    private playingClips = new Map<string, PlayingAudioClip & { clip: ScheduledAudioClip }>(); // By clip ID
 
     constructor() {
         if (typeof window !== 'undefined' && (window.AudioContext || (window as any).webkitAudioContext)) {
@@ -35,6 +45,123 @@ export class AudioManager {
         return this.fileName;
     }
 
+    get sampleRate(): number | null {
+        return this.audioBuffer?.sampleRate ?? this.audioContext?.sampleRate ?? null;
+    }
+
+    // Decoded buffer, used for offline work such as video export
+    getAudioBuffer(): AudioBuffer | null {
+        return this.audioBuffer;
+    }
+
+    // Offsets passed to seekTo and returned by getCurrentPlaybackTime are timeline seconds;
+    // the file position is that plus the start offset. Takes effect on the next seek or play.
+    setStartOffset(seconds: number): void {
+        this.startOffset = Number.isFinite(seconds) ? Math.max(0, seconds) : 0;
+    }
+
+    getStartOffset(): number {
+        return this.startOffset;
+    }
+
+    // --- Audio clip sources ---
+
+    async decodeClipSource(sourceId: string, audioData: ArrayBuffer): Promise<AudioBuffer> {
+        if (!this.audioContext) { throw new Error("AudioContext is not initialized."); }
+        const buffer = await this.audioContext.decodeAudioData(audioData);
+        this.clipBuffers.set(sourceId, buffer);
+        return buffer;
+    }
+
+    getClipSource(sourceId: string): AudioBuffer | null {
+        return this.clipBuffers.get(sourceId) ?? null;
+    }
+
+    removeClipSource(sourceId: string): void {
+        this.clipBuffers.delete(sourceId);
+    }
+
+    // The clips to mix in; takes effect on the next playClips call
+    setClips(clips: ScheduledAudioClip[]): void {
+        this.clips = clips;
+    }
+
+    getClips(): ScheduledAudioClip[] {
+        return this.clips;
+    }
+
+    // Starts every clip that is still ahead of (or playing at) the timeline time, replacing any clips already playing.
+    // `when` is the context time the timeline time plays at (see TimeManager.getAudioSchedule).
+    playClips(timelineTime: number, when?: number): void {
+        const context = this.audioContext;
+        if (!context) return;
+        this.stopClips();
+        if (this.clips.length === 0) return;
+
+        const startClips = () => {
+            const startTime = when ?? context.currentTime + PLAYBACK_START_LEAD; // Same lead as play(), so clips and file stay together
+            this.clips.forEach(clip => this.startClip(context, clip, timelineTime, startTime));
+        };
+
+        if (context.state === 'suspended') {
+            context.resume()
+                .then(startClips)
+                .catch(err => console.error("Failed to resume context:", err));
+            return;
+        }
+        startClips();
+    }
+
+    /**
+     * Replaces the clips while they play, without interrupting the ones that didn't move:
+     * clips with unchanged timing keep playing at their new gain, moved, trimmed or new
+     * clips (re)start at the timeline time, and clips no longer scheduled stop.
+     * `timelineTime` and `when` are as for playClips.
+     */
+    updateClips(clips: ScheduledAudioClip[], timelineTime: number, when?: number): void {
+        const context = this.audioContext;
+        if (!context || context.state === 'suspended') {
+            this.clips = clips;
+            this.playClips(timelineTime, when);
+            return;
+        }
+
+        const previous = this.playingClips;
+        this.clips = clips;
+        this.playingClips = new Map();
+        const startTime = when ?? context.currentTime + PLAYBACK_START_LEAD;
+        clips.forEach(clip => {
+            const playing = previous.get(clip.id);
+            if (playing && isSameClipTiming(playing.clip, clip)) {
+                playing.gain.gain.setTargetAtTime(clip.gain, context.currentTime, CLIP_GAIN_RAMP_SECONDS);
+                this.playingClips.set(clip.id, { ...playing, clip });
+                previous.delete(clip.id);
+            } else {
+                this.startClip(context, clip, timelineTime, startTime);
+            }
+        });
+        previous.forEach(playing => AudioManager.stopClip(playing));
+    }
+
+    stopClips(): void {
+        this.playingClips.forEach(playing => AudioManager.stopClip(playing));
+        this.playingClips.clear();
+    }
+
+    private startClip(context: AudioContext, clip: ScheduledAudioClip, timelineTime: number, startTime: number): void {
+        const buffer = this.clipBuffers.get(clip.sourceId);
+        const playing = buffer ? startScheduledClip(context, context.destination, clip, buffer, timelineTime, startTime) : null;
+        if (playing) this.playingClips.set(clip.id, { ...playing, clip });
+    }
+
+    private static stopClip({ source, gain }: PlayingAudioClip): void {
+        try {
+            source.stop(0);
+            source.disconnect();
+            gain.disconnect();
+        } catch { /* Ignore if already stopped */ }
+    }
+
     setProgressCallback(callback: (progress: number) => void): void {
         this.progressCallback = callback;
     }
@@ -69,7 +196,7 @@ export class AudioManager {
         this.isLoaded = false;
         this.duration = null;
         this.lastPauseTime = null;
-        this.lastPlaybackOffset = 0;
+        this.lastPlaybackOffset = this.startOffset;
         this.lastPlaybackStartTime = 0;
         this.fileName = fileName;
 
@@ -137,9 +264,9 @@ export class AudioManager {
         }
     }
 
-    // when: context time to start playback (AudioContext.currentTime + delay)
-    // offset: position within the audio buffer to start (in seconds)
-    play(): void {
+    // when: context time to start playback (defaults to AudioContext.currentTime + the start lead)
+    // The position within the audio buffer is the one left by the last seek or pause
+    play(when?: number): void {
         if (!this.audioContext || !this.audioBuffer || !this.isLoaded) {
             console.warn("AudioManager: Cannot play - audio not loaded or context unavailable.");
             return;
@@ -191,14 +318,13 @@ export class AudioManager {
             console.warn("AudioManager: AudioContext is suspended. Attempting to resume before playback.");
             this.audioContext.resume()
                 .then(() => {
-                    const now = this.audioContext!.currentTime + 0.05;
-                    startPlayback(now);
+                    startPlayback(when ?? this.audioContext!.currentTime + PLAYBACK_START_LEAD);
                 })
                 .catch(err => console.error("Failed to resume context:", err));
             return;
         }
 
-        startPlayback(this.audioContext.currentTime + 0.05);
+        startPlayback(when ?? this.audioContext.currentTime + PLAYBACK_START_LEAD);
     }
 
     // Returns the playback time (in seconds) where pause occurred
@@ -241,47 +367,51 @@ export class AudioManager {
         // Reset playback state fully on stop
         this.lastPauseTime = null;
         this.lastPlaybackStartTime = 0;
-        this.lastPlaybackOffset = 0;
+        this.lastPlaybackOffset = this.startOffset; // Beat 0
     }
 
-    // Go to a certain place in the audio file
-    seekTo(offset: number): void {
+    // Go to a certain place on the timeline (seconds from beat 0, before the start offset is applied).
+    // While playing, playback restarts there at context time `when`.
+    seekTo(offset: number, when?: number): void {
         if (!this.isLoaded || this.duration === null) {
             console.warn("AudioManager: Cannot seek - audio not loaded.");
             return;
         }
 
-        const validOffset = Math.max(0, Math.min(offset, this.duration));
+        const validOffset = Math.max(0, Math.min(offset + this.startOffset, this.duration));
         this.lastPlaybackOffset = validOffset; // Set the offset for the *next* play call
+        this.lastPauseTime = null; // A seek overrides the paused position
 
         // If we're playing, stop and resume at the correct time
         if (this.isPlaying() && this.audioContext) {
             this.stop();
             this.lastPlaybackOffset = validOffset;
-            this.play();
+            this.play(when);
             console.log(`Resuming playback at offset ${validOffset.toFixed(3)}`);
             return;
         }
     }
 
-    // Calculates the current position within the audio buffer in seconds
+    // Calculates the current position on the timeline in seconds (the file position minus the start offset)
     getCurrentPlaybackTime(): number {
         if (!this.audioContext || !this.isLoaded || this.duration === null) {
             return 0;
         }
 
+        let filePosition: number;
         if (this.lastPauseTime !== null) {
             // We are paused, calculate position based on when pause happened
-            return (this.lastPauseTime - this.lastPlaybackStartTime + this.lastPlaybackOffset) % this.duration;
+            filePosition = (this.lastPauseTime - this.lastPlaybackStartTime + this.lastPlaybackOffset) % this.duration;
         } else if (this.sourceNode) {
             // We are actively playing (or scheduled to play)
              // Ensure we don't calculate negative time if context time hasn't reached startTime yet
              const elapsedTime = Math.max(0, this.audioContext.currentTime - this.lastPlaybackStartTime);
-            return (elapsedTime + this.lastPlaybackOffset) % this.duration;
+            filePosition = (elapsedTime + this.lastPlaybackOffset) % this.duration;
         } else {
             // We are stopped, return the last set currentOffset (seek position)
-            return this.lastPlaybackOffset;
+            filePosition = this.lastPlaybackOffset;
         }
+        return Math.max(0, filePosition - this.startOffset);
     }
 
     isPlaying(): boolean {
@@ -0,0 +1,56 @@
+import { ModulationRoute, ModulationSource, Track } from './types';
+import { Property, NumericMetadata } from './properties/Property';
+import { getAutomationOwner } from './Automation';
+import type { AudioAnalysis } from './AudioAnalysis';
+
+// Routes features of the loaded audio onto synthesizer and effect properties.
+// Like automation, modulation is written into the live properties for one frame and
+// undone afterwards. It is applied on top of automation, so an envelope sets the base
+// value and the audio moves the property around it.
+
+export const MODULATION_SOURCES: { value: ModulationSource; label: string }[] = [
+  { value: 'rms', label: 'Level' },
+  { value: 'low', label: 'Low' },
+  { value: 'mid', label: 'Mid' },
+  { value: 'high', label: 'High' },
+  { value: 'onset', label: 'Onset' },
+];
+
+export const DEFAULT_MODULATION_AMOUNT = 0.5;
+
+// Only numeric properties have a range to move through
+export const isModulatableProperty = (property: Property<any>): boolean =>
+  property.uiType === 'slider' || property.uiType === 'numberInput';
+
+export const getModulationProperty = (track: Track, route: ModulationRoute): Property<any> | null => {
+  const property = getAutomationOwner(track, route.target)?.properties.get(route.propertyName);
+  return property && isModulatableProperty(property) ? property : null;
+};
+
+export const clampModulationAmount = (amount: number): number =>
+  Number.isFinite(amount) ? Math.max(-1, Math.min(1, amount)) : DEFAULT_MODULATION_AMOUNT;
+
+/**
+ * Adds the modulation of a track at `time` (seconds into the audio) to its synthesizer and effects.
+ * @returns A function that restores the values the properties had before.
+ */
+export const applyTrackModulation = (track: Track, analysis: AudioAnalysis | null, time: number): () => void => {
+  const overridden: { property: Property<any>; value: unknown }[] = [];
+  if (analysis) {
+    for (const route of track.modulations ?? []) {
+      const property = getModulationProperty(track, route);
+      if (!property || typeof property.value !== 'number') continue;
+      const { min, max, step } = property.metadata as NumericMetadata;
+      const offset = route.amount * analysis.getValue(route.source, time) * (max - min);
+      const raw = Math.max(min, Math.min(max, property.value + offset));
+      overridden.push({ property, value: property.value });
+      // Integer properties (counts, indices) stay whole numbers
+      property.value = step >= 1 ? Math.round(raw) : raw;
+    }
+  }
+  return () => {
+    for (let i = overridden.length - 1; i >= 0; i--) {
+      overridden[i].property.value = overridden[i].value;
+    }
+  };
+};
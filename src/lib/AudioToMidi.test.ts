@@ -0,0 +1,127 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { transcribeAudio } from './AudioToMidi';
+
+const SAMPLE_RATE = 44100;
+
+// Node has no Web Audio. This stand-in renders renderBands' graph (source → filters → merger)
+// without filtering, resampling each branch's mono downmix, which is enough for test signals
+// that already sit inside the bands they're meant for.
+interface FakeNode {
+    inputs: FakeNode[];
+    buffer?: AudioBuffer;
+    connect: (node: FakeNode, output?: number, input?: number) => FakeNode;
+}
+
+const createNode = (extra: object = {}): FakeNode => {
+    const node: FakeNode = {
+        inputs: [],
+        connect: (target, _output, input = target.inputs.length) => {
+            target.inputs[input] = node;
+            return target;
+        },
+        ...extra,
+    };
+    return node;
+};
+
+const createBuffer = (channels: Float32Array[], sampleRate: number) => ({
+    sampleRate,
+    length: channels[0].length,
+    duration: channels[0].length / sampleRate,
+    numberOfChannels: channels.length,
+    getChannelData: (channel: number) => channels[channel],
+}) as unknown as AudioBuffer;
+
+class FakeOfflineAudioContext {
+    destination = createNode();
+
+    constructor(private channelCount: number, private length: number, private sampleRate: number) {}
+
+    createBufferSource() { return createNode({ start: () => {} }); }
+    createBiquadFilter() { return createNode({ type: 'lowpass', frequency: { value: 0 } }); }
+    createChannelMerger() { return createNode(); }
+
+    async startRendering(): Promise<AudioBuffer> {
+        const merger = this.destination.inputs[0];
+        const channels = Array.from({ length: this.channelCount }, (_, channel) => {
+            let node = merger.inputs[channel];
+            while (!node.buffer) node = node.inputs[0];
+            return this.renderMono(node.buffer);
+        });
+        return createBuffer(channels, this.sampleRate);
+    }
+
+    private renderMono(buffer: AudioBuffer): Float32Array {
+        const output = new Float32Array(this.length);
+        const ratio = buffer.sampleRate / this.sampleRate;
+        for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+            const samples = buffer.getChannelData(channel);
+            for (let i = 0; i < this.length; i++) {
+                const position = i * ratio;
+                const index = Math.floor(position);
+                if (index + 1 >= samples.length) break;
+                const t = position - index;
+                output[i] += (samples[index] * (1 - t) + samples[index + 1] * t) / buffer.numberOfChannels;
+            }
+        }
+        return output;
+    }
+}
+
+// Mono audio from a list of tones, each a frequency (0 for silence) and a length in seconds
+const createAudio = (tones: { hz: number; seconds: number; decay?: number }[]) => {
+    const samples = new Float32Array(Math.round(tones.reduce((sum, tone) => sum + tone.seconds, 0) * SAMPLE_RATE));
+    let offset = 0;
+    for (const { hz, seconds, decay } of tones) {
+        const length = Math.round(seconds * SAMPLE_RATE);
+        for (let i = 0; i < length && hz > 0; i++) {
+            const time = i / SAMPLE_RATE;
+            const envelope = decay ? Math.exp(-time / decay) : 1;
+            samples[offset + i] = 0.5 * envelope * Math.sin(2 * Math.PI * hz * time);
+        }
+        offset += length;
+    }
+    return createBuffer([samples], SAMPLE_RATE);
+};
+
+const secondsToBeats = (time: number) => time * 2; // 120 BPM
+
+describe('transcribeAudio', () => {
+    beforeAll(() => {
+        globalThis.OfflineAudioContext = FakeOfflineAudioContext as unknown as typeof OfflineAudioContext;
+    });
+
+    it('tracks a melody as notes at their pitches', async () => {
+        // A4, C5, E5: half a second each, with short gaps between
+        const audio = createAudio([
+            { hz: 440, seconds: 0.45 }, { hz: 0, seconds: 0.05 },
+            { hz: 523.25, seconds: 0.45 }, { hz: 0, seconds: 0.05 },
+            { hz: 659.26, seconds: 0.45 }, { hz: 0, seconds: 0.3 },
+        ]);
+        const block = await transcribeAudio(audio, 'pitch', secondsToBeats);
+
+        expect(block).toMatchObject({ startBeat: 0, endBeat: 3 });
+        expect(block!.notes.map(note => [note.pitch, note.startBeat])).toEqual([
+            [69, 0],
+            [72, 1],
+            [76, 2],
+        ]);
+        block!.notes.forEach(note => expect(note.duration).toBeGreaterThanOrEqual(0.75));
+    });
+
+    it('places drum notes on the attacks, relative to the block', async () => {
+        // Four decaying 60 Hz hits on the beat, starting at beat 2
+        const hit = { hz: 60, seconds: 0.25, decay: 0.05 };
+        const rest = { hz: 0, seconds: 0.25 };
+        const audio = createAudio([rest, rest, rest, rest, hit, rest, hit, rest, hit, rest, hit, rest, rest]);
+        const block = await transcribeAudio(audio, 'percussive', secondsToBeats);
+
+        expect(block?.startBeat).toBe(2);
+        const kicks = block!.notes.filter(note => note.pitch === 36);
+        expect(kicks.map(note => note.startBeat)).toEqual([0, 1, 2, 3]);
+    });
+
+    it('returns null for silence', async () => {
+        expect(await transcribeAudio(createAudio([{ hz: 0, seconds: 1 }]), 'pitch', secondsToBeats)).toBeNull();
+    });
+});
@@ -0,0 +1,205 @@
+import { v4 as uuidv4 } from 'uuid';
+import { MIDIBlock, MIDINote } from './types';
+import { ANALYSIS_SAMPLE_RATE, FRAME_RATE, BandFilter, detectOnsets, frameRms, percentile, renderBands } from './AudioAnalysis';
+
+// Turns the loaded audio into a MIDI block as a starting point for a track.
+//
+// - percussive: attacks in a kick, a snare and a hi-hat band become General MIDI drum notes
+// - pitch: a monophonic melody is tracked (YIN) and split into notes at pitch changes and attacks
+
+export type AudioToMidiMode = 'percussive' | 'pitch';
+
+export const AUDIO_TO_MIDI_MODES: { value: AudioToMidiMode; label: string }[] = [
+  { value: 'percussive', label: 'Drums' },
+  { value: 'pitch', label: 'Melody' },
+];
+
+export const DEFAULT_QUANTIZE_BEATS = 0.25; // Sixteenth notes
+
+interface DrumVoice {
+  pitch: number; // General MIDI percussion note
+  band: BandFilter;
+}
+
+const DRUM_VOICES: DrumVoice[] = [
+  { pitch: 36, band: { lowpass: 150 } }, // Kick
+  { pitch: 38, band: { highpass: 200, lowpass: 2500 } }, // Snare
+  { pitch: 42, band: { highpass: 7000 } }, // Closed hi-hat
+];
+const DRUM_NOTE_BEATS = 0.25;
+const MIN_DRUM_STRENGTH = 0.2; // Weaker attacks are bleed from other instruments
+
+const PITCH_SAMPLE_RATE = 11025; // Enough for fundamentals up to MAX_PITCH_HZ, and fast to search
+const PITCH_FRAME_RATE = 50;
+const PITCH_WINDOW = 512; // Samples compared per lag
+const MIN_PITCH_HZ = 60;
+const MAX_PITCH_HZ = 1000;
+const YIN_THRESHOLD = 0.15; // Lower is stricter about what counts as pitched
+const PITCH_HYSTERESIS = 0.75; // Semitones a note may drift (vibrato) before a new note starts
+const MIN_NOTE_FRAMES = 3;
+const MIN_SPLIT_STRENGTH = 0.2; // Weaker attacks are level ripple within a held note, not a new note
+const SILENCE_RATIO = 0.1; // Frames quieter than this share of the loud level have no pitch
+const FRAMES_PER_YIELD = 200; // Pitch tracking gives the page a chance to render this often
+
+const yieldToBrowser = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const toVelocity = (level: number) => Math.round(30 + 97 * Math.max(0, Math.min(1, level)));
+
+const snap = (beat: number, quantize: number) => (quantize > 0 ? Math.round(beat / quantize) * quantize : beat);
+
+const transcribePercussive = async (
+  buffer: AudioBuffer,
+  timeToBeat: (time: number) => number,
+  quantize: number
+): Promise<Omit<MIDINote, 'id'>[]> => {
+  const rendered = await renderBands(buffer, DRUM_VOICES.map(voice => voice.band));
+  const hop = ANALYSIS_SAMPLE_RATE / FRAME_RATE;
+  const frameCount = Math.max(1, Math.ceil(rendered.length / hop));
+
+  const notes: Omit<MIDINote, 'id'>[] = [];
+  DRUM_VOICES.forEach((voice, channel) => {
+    const levels = frameRms(rendered.getChannelData(channel), hop, frameCount);
+    // Snapping can put two attacks on the same step; the stronger one is kept
+    const byBeat = new Map<number, Omit<MIDINote, 'id'>>();
+    detectOnsets([levels])
+      .filter(onset => onset.strength >= MIN_DRUM_STRENGTH)
+      .forEach(onset => {
+        const startBeat = snap(timeToBeat(onset.time), quantize);
+        const velocity = toVelocity(onset.strength);
+        if (startBeat < 0 || (byBeat.get(startBeat)?.velocity ?? -1) >= velocity) return;
+        byBeat.set(startBeat, { pitch: voice.pitch, startBeat, duration: DRUM_NOTE_BEATS, velocity });
+      });
+    notes.push(...byBeat.values());
+  });
+  return notes;
+};
+
+// YIN pitch estimate of the window starting at `start`, in Hz, or 0 when the window isn't pitched
+const detectPitch = (samples: Float32Array, start: number, yin: Float32Array): number => {
+  const maxLag = yin.length;
+  if (start < 0 || start + PITCH_WINDOW + maxLag > samples.length) return 0;
+
+  // Cumulative mean normalized difference
+  yin[0] = 1;
+  let runningSum = 0;
+  for (let lag = 1; lag < maxLag; lag++) {
+    let difference = 0;
+    for (let i = 0; i < PITCH_WINDOW; i++) {
+      const delta = samples[start + i] - samples[start + i + lag];
+      difference += delta * delta;
+    }
+    runningSum += difference;
+    yin[lag] = runningSum > 0 ? (difference * lag) / runningSum : 1;
+  }
+
+  const minLag = Math.floor(PITCH_SAMPLE_RATE / MAX_PITCH_HZ);
+  for (let lag = minLag; lag < maxLag - 1; lag++) {
+    if (yin[lag] >= YIN_THRESHOLD) continue;
+    while (lag + 1 < maxLag - 1 && yin[lag + 1] < yin[lag]) lag++;
+    // Parabolic interpolation around the minimum for sub-sample precision
+    const previous = yin[lag - 1];
+    const next = yin[lag + 1];
+    const curvature = previous + next - 2 * yin[lag];
+    const refinedLag = curvature > 0 ? lag + (previous - next) / (2 * curvature) : lag;
+    return PITCH_SAMPLE_RATE / refinedLag;
+  }
+  return 0;
+};
+
+const transcribePitch = async (
+  buffer: AudioBuffer,
+  timeToBeat: (time: number) => number,
+  quantize: number
+): Promise<Omit<MIDINote, 'id'>[]> => {
+  const rendered = await renderBands(buffer, [{ highpass: MIN_PITCH_HZ * 0.8, lowpass: MAX_PITCH_HZ * 2 }], PITCH_SAMPLE_RATE);
+  const samples = rendered.getChannelData(0);
+
+  // Attacks split repeated notes of the same pitch
+  const onsetHop = PITCH_SAMPLE_RATE / FRAME_RATE;
+  const onsetLevels = frameRms(samples, onsetHop, Math.max(1, Math.ceil(samples.length / onsetHop)));
+  const onsetFrames = new Set(detectOnsets([onsetLevels])
+    .filter(onset => onset.strength >= MIN_SPLIT_STRENGTH)
+    .map(onset => Math.round(onset.time * PITCH_FRAME_RATE)));
+
+  const hop = PITCH_SAMPLE_RATE / PITCH_FRAME_RATE;
+  const frameCount = Math.max(1, Math.ceil(samples.length / hop));
+  const levels = frameRms(samples, hop, frameCount);
+  const silence = percentile(levels, 0.95) * SILENCE_RATIO;
+
+  // Fractional MIDI pitch per frame, NaN where nothing is pitched
+  const pitches = new Float32Array(frameCount).fill(NaN);
+  const yin = new Float32Array(Math.ceil(PITCH_SAMPLE_RATE / MIN_PITCH_HZ));
+  for (let frame = 0; frame < frameCount; frame++) {
+    if (frame % FRAMES_PER_YIELD === 0) await yieldToBrowser();
+    if (levels[frame] <= silence) continue;
+    const frequency = detectPitch(samples, Math.round(frame * hop - PITCH_WINDOW / 2), yin);
+    if (frequency > 0) pitches[frame] = 69 + 12 * Math.log2(frequency / 440);
+  }
+
+  const loudLevel = percentile(levels, 0.95);
+  const notes: Omit<MIDINote, 'id'>[] = [];
+  let current: { pitch: number; startFrame: number; levelSum: number } | null = null;
+  const closeNote = (endFrame: number) => {
+    if (!current || endFrame - current.startFrame < MIN_NOTE_FRAMES) return;
+    const startBeat = snap(timeToBeat(current.startFrame / PITCH_FRAME_RATE), quantize);
+    const endBeat = snap(timeToBeat(endFrame / PITCH_FRAME_RATE), quantize);
+    const meanLevel = current.levelSum / (endFrame - current.startFrame);
+    if (startBeat < 0) return;
+    notes.push({
+      pitch: current.pitch,
+      startBeat,
+      duration: Math.max(quantize > 0 ? quantize : 0, endBeat - startBeat),
+      velocity: toVelocity(loudLevel > 0 ? meanLevel / loudLevel : 1),
+    });
+  };
+
+  for (let frame = 0; frame <= frameCount; frame++) {
+    const pitch = frame < frameCount ? pitches[frame] : NaN;
+    const isPitched = !Number.isNaN(pitch);
+    if (current && (!isPitched || Math.abs(pitch - current.pitch) > PITCH_HYSTERESIS || onsetFrames.has(frame))) {
+      closeNote(frame);
+      current = null;
+    }
+    if (!isPitched) continue;
+    if (!current) current = { pitch: Math.round(pitch), startFrame: frame, levelSum: 0 };
+    current.levelSum += levels[frame];
+  }
+
+  // Snapping can make neighbouring notes overlap; each note ends where the next one starts
+  notes.sort((a, b) => a.startBeat - b.startBeat);
+  return notes
+    .filter((note, index) => index === 0 || note.startBeat > notes[index - 1].startBeat)
+    .map((note, index, kept) => {
+      const next = kept[index + 1];
+      return next && note.startBeat + note.duration > next.startBeat ? { ...note, duration: next.startBeat - note.startBeat } : note;
+    });
+};
+
+/**
+ * Transcribes decoded audio into a block of notes.
+ * @param timeToBeat Converts seconds into the audio to beats on the timeline.
+ * @param quantize Grid in beats that notes snap to, or 0 to keep detected times.
+ * @returns A block spanning the notes (positions relative to its start), or null when nothing was detected.
+ */
+export const transcribeAudio = async (
+  buffer: AudioBuffer,
+  mode: AudioToMidiMode,
+  timeToBeat: (time: number) => number,
+  quantize: number = DEFAULT_QUANTIZE_BEATS
+): Promise<MIDIBlock | null> => {
+  const notes = mode === 'percussive'
+    ? await transcribePercussive(buffer, timeToBeat, quantize)
+    : await transcribePitch(buffer, timeToBeat, quantize);
+  if (notes.length === 0) return null;
+
+  const startBeat = Math.floor(Math.min(...notes.map(note => note.startBeat)));
+  const endBeat = Math.ceil(Math.max(...notes.map(note => note.startBeat + note.duration)));
+  return {
+    id: uuidv4(),
+    startBeat,
+    endBeat: Math.max(endBeat, startBeat + 1),
+    notes: notes
+      .sort((a, b) => a.startBeat - b.startBeat || a.pitch - b.pitch)
+      .map(note => ({ ...note, id: uuidv4(), startBeat: note.startBeat - startBeat })),
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { coerceAutomationValue, evaluateAutomation, normalizeAutomationPoints } from './Automation';
+import { Property } from './properties/Property';
+import type { AutomationCurve, AutomationPoint } from './types';
+
+// A segment from 0 at beat 0 to 100 at beat 4, shaped by `curve`
+const ramp = (curve: AutomationCurve): AutomationPoint[] => [
+    { beat: 0, value: 0, curve },
+    { beat: 4, value: 100, curve: 'linear' },
+];
+
+describe('Automation', () => {
+    it('shapes each segment by the curve of the point it starts at', () => {
+        expect(evaluateAutomation(ramp('linear'), 1)).toBeCloseTo(25);
+        expect(evaluateAutomation(ramp('step'), 3.9)).toBe(0);
+        expect(evaluateAutomation(ramp('easeIn'), 1)).toBeCloseTo(6.25);
+        expect(evaluateAutomation(ramp('easeOut'), 1)).toBeCloseTo(43.75);
+        expect(evaluateAutomation(ramp('sCurve'), 1)).toBeCloseTo(15.625);
+        expect(evaluateAutomation(ramp('sCurve'), 2)).toBeCloseTo(50);
+    });
+
+    it('holds the first value before the first point and the last value after the last', () => {
+        const points: AutomationPoint[] = [
+            { beat: 2, value: 10, curve: 'linear' },
+            { beat: 4, value: 20, curve: 'linear' },
+            { beat: 8, value: 40, curve: 'linear' },
+        ];
+        expect(evaluateAutomation(points, 0)).toBe(10);
+        expect(evaluateAutomation(points, 6)).toBeCloseTo(30);
+        expect(evaluateAutomation(points, 12)).toBe(40);
+        expect(evaluateAutomation([], 1)).toBeUndefined();
+    });
+
+    it('interpolates hex colors channel by channel', () => {
+        const points: AutomationPoint[] = [
+            { beat: 0, value: '#000000', curve: 'linear' },
+            { beat: 2, value: '#ff8040', curve: 'linear' },
+        ];
+        expect(evaluateAutomation(points, 1)).toBe('#804020');
+        expect(evaluateAutomation(points, 2)).toBe('#ff8040');
+    });
+
+    it('sorts points and keeps the last point per beat', () => {
+        const normalized = normalizeAutomationPoints([
+            { beat: 4, value: 1, curve: 'linear' },
+            { beat: 0, value: 2, curve: 'step' },
+            { beat: 4, value: 3, curve: 'easeIn' },
+            { beat: -1, value: 4, curve: 'linear' },
+        ]);
+        expect(normalized).toEqual([
+            { beat: 0, value: 2, curve: 'step' },
+            { beat: 4, value: 3, curve: 'easeIn' },
+        ]);
+    });
+
+    it('clamps numbers to the property range and rejects values it cannot use', () => {
+        const size = new Property<number>('size', 1, { uiType: 'slider', label: 'Size', min: 0, max: 5, step: 0.1 });
+        expect(coerceAutomationValue(size, 7)).toBe(5);
+        expect(coerceAutomationValue(size, -2)).toBe(0);
+        expect(coerceAutomationValue(size, '2.5')).toBe(2.5);
+        expect(coerceAutomationValue(size, 'loud')).toBe(1);
+
+        const color = new Property<string>('color', '#ffffff', { uiType: 'color', label: 'Color' });
+        expect(coerceAutomationValue(color, '#123456')).toBe('#123456');
+        expect(coerceAutomationValue(color, 3)).toBe('#ffffff');
+    });
+});
@@ -0,0 +1,165 @@
+import { AutomationCurve, AutomationLane, AutomationPoint, AutomationTarget, Track } from './types';
+import { Property, NumericMetadata } from './properties/Property';
+import type Synthesizer from './Synthesizer';
+import type Effect from './Effect';
+import type PostEffect from './postprocessing/PostEffect';
+
+// Breakpoint envelopes that drive synthesizer, effect and post effect properties over time.
+// Before a frame is rendered, applyTrackAutomation writes the envelope values into the
+// live properties and hands back a function that puts the static values back, so the
+// detail views and persistence keep seeing the values the user set.
+
+export const AUTOMATION_CURVES: { value: AutomationCurve; label: string }[] = [
+  { value: 'step', label: 'Step' },
+  { value: 'linear', label: 'Linear' },
+  { value: 'easeIn', label: 'Ease In' },
+  { value: 'easeOut', label: 'Ease Out' },
+  { value: 'sCurve', label: 'S-Curve' },
+];
+
+export const DEFAULT_AUTOMATION_CURVE: AutomationCurve = 'linear';
+
+type AutomatableOwner = Synthesizer | Effect;
+
+// Only numeric and color properties can follow an envelope
+export const isAutomatableProperty = (property: Property<any>): boolean =>
+  property.uiType === 'slider' || property.uiType === 'numberInput' || property.uiType === 'color';
+
+export const isSameAutomationTarget = (a: AutomationTarget, b: AutomationTarget): boolean =>
+  a.type === 'synth' ? b.type === 'synth' : b.type === 'effect' && a.effectId === b.effectId;
+
+// The synthesizer or effect a lane automates, or null when the effect was removed
+export const getAutomationOwner = (track: Track, target: AutomationTarget): AutomatableOwner | null => {
+  if (target.type === 'synth') return track.synthesizer ?? null;
+  return track.effects.find(effect => effect.id === target.effectId) ?? null;
+};
+
+export const getAutomationProperty = (track: Track, lane: AutomationLane): Property<any> | null => {
+  const property = getAutomationOwner(track, lane.target)?.properties.get(lane.propertyName);
+  return property && isAutomatableProperty(property) ? property : null;
+};
+
+// Post effect lanes live on the project rather than on a track, and target the post effect's ID
+export const getPostEffectAutomationProperty = (postEffects: PostEffect[], lane: AutomationLane): Property<any> | null => {
+  if (lane.target.type !== 'effect') return null;
+  const { effectId } = lane.target;
+  const property = postEffects.find(postEffect => postEffect.id === effectId)?.properties.get(lane.propertyName);
+  return property && isAutomatableProperty(property) ? property : null;
+};
+
+// Sorts points by beat and keeps only the last point per beat
+export const normalizeAutomationPoints = (points: AutomationPoint[]): AutomationPoint[] => {
+  const byBeat = new Map<number, AutomationPoint>();
+  points
+    .filter(point => Number.isFinite(point.beat) && point.beat >= 0)
+    .forEach(point => byBeat.set(point.beat, { ...point, curve: point.curve ?? DEFAULT_AUTOMATION_CURVE }));
+  return Array.from(byBeat.values()).sort((a, b) => a.beat - b.beat);
+};
+
+// Maps progress through a segment (0-1) to how far the value has moved (0-1)
+const shapeProgress = (curve: AutomationCurve, t: number): number => {
+  switch (curve) {
+    case 'step': return 0;
+    case 'easeIn': return t * t;
+    case 'easeOut': return 1 - (1 - t) * (1 - t);
+    case 'sCurve': return t * t * (3 - 2 * t);
+    default: return t;
+  }
+};
+
+const hexToRgb = (hex: string): [number, number, number] | null => {
+  const match = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : null;
+};
+
+const rgbToHex = (rgb: number[]): string =>
+  `#${rgb.map(channel => Math.max(0, Math.min(255, Math.round(channel))).toString(16).padStart(2, '0')).join('')}`;
+
+const interpolateValue = (from: number | string, to: number | string, amount: number): number | string => {
+  if (typeof from === 'number' && typeof to === 'number') return from + (to - from) * amount;
+  const fromRgb = hexToRgb(String(from));
+  const toRgb = hexToRgb(String(to));
+  if (!fromRgb || !toRgb) return amount < 1 ? from : to;
+  return rgbToHex(fromRgb.map((channel, i) => channel + (toRgb[i] - channel) * amount));
+};
+
+/**
+ * Evaluates an envelope at a beat. Before the first point the first value holds,
+ * after the last point the last value holds.
+ * @returns The value at `beat`, or undefined for an empty envelope.
+ */
+export const evaluateAutomation = (points: AutomationPoint[], beat: number): number | string | undefined => {
+  if (points.length === 0) return undefined;
+  if (beat <= points[0].beat) return points[0].value;
+  const last = points[points.length - 1];
+  if (beat >= last.beat) return last.value;
+
+  // Binary search for the segment containing the beat
+  let low = 0;
+  let high = points.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (points[mid].beat <= beat) low = mid; else high = mid;
+  }
+  const from = points[low];
+  const to = points[high];
+  const t = (beat - from.beat) / (to.beat - from.beat);
+  return interpolateValue(from.value, to.value, shapeProgress(from.curve, t));
+};
+
+// Fits a value to what the property accepts (numbers are clamped to the metadata range)
+export const coerceAutomationValue = (property: Property<any>, value: number | string): number | string => {
+  if (property.uiType === 'color') return typeof value === 'string' && hexToRgb(value) ? value : property.value;
+  const { min, max } = property.metadata as NumericMetadata;
+  const numeric = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(numeric)) return property.value;
+  return Math.max(min, Math.min(max, numeric));
+};
+
+// Vertical position (0 = min, 1 = max) of a numeric value within its property's range
+export const automationValueToRatio = (property: Property<any>, value: number | string): number => {
+  if (property.uiType === 'color' || typeof value !== 'number') return 0.5;
+  const { min, max } = property.metadata as NumericMetadata;
+  return max > min ? (value - min) / (max - min) : 0.5;
+};
+
+// Inverse of automationValueToRatio, snapped to the property's step
+export const ratioToAutomationValue = (property: Property<any>, ratio: number): number => {
+  const { min, max, step } = property.metadata as NumericMetadata;
+  const raw = min + Math.max(0, Math.min(1, ratio)) * (max - min);
+  const snapped = step > 0 ? min + Math.round((raw - min) / step) * step : raw;
+  return Math.max(min, Math.min(max, Number(snapped.toFixed(6))));
+};
+
+/**
+ * Writes the values of `lanes` at `beat` into the properties they automate.
+ * @param getProperty Finds a lane's property, or null when its owner is gone.
+ * @returns A function that restores the values the properties had before.
+ */
+export const applyAutomationLanes = (
+  lanes: AutomationLane[],
+  getProperty: (lane: AutomationLane) => Property<any> | null,
+  beat: number
+): () => void => {
+  const overridden: { property: Property<any>; value: unknown }[] = [];
+  for (const lane of lanes) {
+    const property = getProperty(lane);
+    const value = evaluateAutomation(lane.points, beat);
+    if (!property || value === undefined) continue;
+    overridden.push({ property, value: property.value });
+    property.value = coerceAutomationValue(property, value);
+  }
+  return () => {
+    // Restore in reverse so a property automated by two lanes ends up with its own value
+    for (let i = overridden.length - 1; i >= 0; i--) {
+      overridden[i].property.value = overridden[i].value;
+    }
+  };
+};
+
+/**
+ * Writes the automated values of a track at `beat` into its synthesizer and effects.
+ * @returns A function that restores the values the properties had before.
+ */
+export const applyTrackAutomation = (track: Track, beat: number): () => void =>
+  applyAutomationLanes(track.automation ?? [], lane => getAutomationProperty(track, lane), beat);
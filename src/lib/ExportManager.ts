@@ -0,0 +1,226 @@
+import { FFmpeg } from '@ffmpeg/ffmpeg';
+import { fetchFile, toBlobURL } from '@ffmpeg/util';
+
+// Where the single-threaded ffmpeg core is fetched from. Loaded as blob URLs so the
+// worker doesn't trip over cross-origin restrictions.
+const FFMPEG_CORE_BASE_URL = 'https://unpkg.com/@ffmpeg/core@0.12.10/dist/esm';
+
+const FRAME_FILE_PREFIX = 'frame_';
+const FRAME_FILE_EXTENSION = 'png';
+const AUDIO_FILE_NAME = 'audio.wav';
+const OUTPUT_FILE_NAME = 'output.mp4';
+
+export interface ExportOptions {
+    fps: number;
+    startBeat: number;
+    endBeat: number;
+    fileName: string;
+}
+
+/**
+ * Thin wrapper around ffmpeg.wasm used by the store's export action.
+ * Knows nothing about application time or state: it receives frames and audio,
+ * writes them to ffmpeg's in-memory file system and muxes them into an MP4.
+ */
+class ExportManager {
+    private ffmpeg: FFmpeg | null = null;
+    private isLoaded: boolean = false;
+    private frameCount: number = 0;
+    private fps: number = 30;
+    private encodeProgressCallback: ((progress: number) => void) | null = null;
+
+    get framesWritten(): number {
+        return this.frameCount;
+    }
+
+    setEncodeProgressCallback(callback: ((progress: number) => void) | null): void {
+        this.encodeProgressCallback = callback;
+    }
+
+    // Load ffmpeg.wasm (only once) and reset the per-export state
+    async initializeExport(options: ExportOptions): Promise<void> {
+        if (!this.ffmpeg) {
+            this.ffmpeg = new FFmpeg();
+            this.ffmpeg.on('progress', ({ progress }) => {
+                if (this.encodeProgressCallback) {
+                    this.encodeProgressCallback(Math.max(0, Math.min(1, progress)));
+                }
+            });
+        }
+
+        if (!this.isLoaded) {
+            console.log("ExportManager: Loading ffmpeg.wasm...");
+            await this.ffmpeg.load({
+                coreURL: await toBlobURL(`${FFMPEG_CORE_BASE_URL}/ffmpeg-core.js`, 'text/javascript'),
+                wasmURL: await toBlobURL(`${FFMPEG_CORE_BASE_URL}/ffmpeg-core.wasm`, 'application/wasm'),
+            });
+            this.isLoaded = true;
+            console.log("ExportManager: ffmpeg.wasm loaded.");
+        }
+
+        // Remove anything left behind by a previous (possibly cancelled) export
+        await this.cleanup();
+        this.fps = options.fps;
+    }
+
+    // Write one rendered frame to MEMFS as the next image in the sequence
+    async addFrame(frame: Blob): Promise<void> {
+        const ffmpeg = this.requireFFmpeg();
+        this.frameCount += 1;
+        await ffmpeg.writeFile(this.getFrameFileName(this.frameCount), await fetchFile(frame));
+    }
+
+    /**
+     * Muxes the written frames (and the audio, if given) into an MP4.
+     * @param audioWavData The audio segment matching the video duration, encoded as WAV.
+     * @returns The encoded video.
+     */
+    async finalizeExport(audioWavData: ArrayBuffer | null): Promise<Blob> {
+        const ffmpeg = this.requireFFmpeg();
+        if (this.frameCount === 0) {
+            throw new Error("ExportManager: No frames were added before finalizing.");
+        }
+
+        const hasAudio = audioWavData !== null;
+        if (audioWavData) {
+            await ffmpeg.writeFile(AUDIO_FILE_NAME, new Uint8Array(audioWavData));
+        }
+
+        const args = [
+            '-framerate', String(this.fps),
+            '-i', `${FRAME_FILE_PREFIX}%05d.${FRAME_FILE_EXTENSION}`,
+        ];
+        if (hasAudio) {
+            args.push('-i', AUDIO_FILE_NAME);
+        }
+        args.push(
+            // libx264 with yuv420p needs even dimensions
+            '-vf', 'scale=trunc(iw/2)*2:trunc(ih/2)*2',
+            '-c:v', 'libx264',
+            '-pix_fmt', 'yuv420p',
+        );
+        if (hasAudio) {
+            args.push('-c:a', 'aac', '-shortest');
+        }
+        args.push(OUTPUT_FILE_NAME);
+
+        console.log(`ExportManager: Encoding ${this.frameCount} frames at ${this.fps}fps...`);
+        const exitCode = await ffmpeg.exec(args);
+        if (exitCode !== 0) {
+            throw new Error(`ExportManager: ffmpeg exited with code ${exitCode}.`);
+        }
+
+        const data = await ffmpeg.readFile(OUTPUT_FILE_NAME);
+        if (typeof data === 'string') {
+            throw new Error("ExportManager: Unexpected text output from ffmpeg.");
+        }
+        return new Blob([data], { type: 'video/mp4' });
+    }
+
+    // Remove all temporary files from MEMFS
+    async cleanup(): Promise<void> {
+        if (!this.ffmpeg || !this.isLoaded) return;
+
+        const deleteIfPresent = async (path: string) => {
+            try {
+                await this.ffmpeg!.deleteFile(path);
+            } catch { /* File was never written */ }
+        };
+
+        for (let i = 1; i <= this.frameCount; i++) {
+            await deleteIfPresent(this.getFrameFileName(i));
+        }
+        await deleteIfPresent(AUDIO_FILE_NAME);
+        await deleteIfPresent(OUTPUT_FILE_NAME);
+
+        this.frameCount = 0;
+    }
+
+    private getFrameFileName(index: number): string {
+        return `${FRAME_FILE_PREFIX}${String(index).padStart(5, '0')}.${FRAME_FILE_EXTENSION}`;
+    }
+
+    private requireFFmpeg(): FFmpeg {
+        if (!this.ffmpeg || !this.isLoaded) {
+            throw new Error("ExportManager: ffmpeg is not loaded. Call initializeExport() first.");
+        }
+        return this.ffmpeg;
+    }
+}
+
+// --- Helpers ---
+
+/**
+ * Extracts [startTime, endTime) from an AudioBuffer and encodes it as a 16-bit PCM WAV file.
+ * Time outside the buffer is filled with silence so the audio always matches the video length.
+ */
+export function sliceAndConvertToWav(audioBuffer: AudioBuffer, startTime: number, endTime: number, sampleRate: number = audioBuffer.sampleRate): ArrayBuffer {
+    const numChannels = audioBuffer.numberOfChannels;
+    const startSample = Math.floor(startTime * sampleRate);
+    const frameLength = Math.max(0, Math.floor((endTime - startTime) * sampleRate));
+
+    const bytesPerSample = 2;
+    const blockAlign = numChannels * bytesPerSample;
+    const dataSize = frameLength * blockAlign;
+    const buffer = new ArrayBuffer(44 + dataSize);
+    const view = new DataView(buffer);
+
+    const writeString = (offset: number, value: string) => {
+        for (let i = 0; i < value.length; i++) {
+            view.setUint8(offset + i, value.charCodeAt(i));
+        }
+    };
+
+    // RIFF header
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(8, 'WAVE');
+    // fmt chunk
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, numChannels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bytesPerSample * 8, true);
+    // data chunk
+    writeString(36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < numChannels; c++) {
+        channels.push(audioBuffer.getChannelData(c));
+    }
+
+    let offset = 44;
+    for (let i = 0; i < frameLength; i++) {
+        const sourceIndex = startSample + i;
+        for (let c = 0; c < numChannels; c++) {
+            const channelData = channels[c];
+            const sample = sourceIndex >= 0 && sourceIndex < channelData.length ? channelData[sourceIndex] : 0;
+            const clamped = Math.max(-1, Math.min(1, sample));
+            view.setInt16(offset, clamped < 0 ? clamped * 0x8000 : clamped * 0x7FFF, true);
+            offset += bytesPerSample;
+        }
+    }
+
+    return buffer;
+}
+
+/**
+ * Starts a browser download of the given blob.
+ */
+export function triggerDownload(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Give the browser a moment to start the download before revoking
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export default ExportManager;
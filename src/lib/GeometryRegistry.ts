@@ -0,0 +1,90 @@
+import * as THREE from 'three';
+import { FontLoader, Font } from 'three/examples/jsm/loaders/FontLoader.js';
+import { TextGeometry } from 'three/examples/jsm/geometries/TextGeometry.js';
+import helvetiker from 'three/examples/fonts/helvetiker_regular.typeface.json';
+import { GeometryParams } from './types';
+
+// The shapes visual objects can take, by the type string synthesizers pass to `defineObject`.
+// Every shape fits a unit box centred on the origin, so scale means the same for all of them.
+// Unknown types are drawn as cubes.
+
+export type GeometryFactory = (params: GeometryParams) => THREE.BufferGeometry;
+
+interface GeometryDefinition {
+  create: GeometryFactory;
+  doubleSided: boolean; // Flat shapes are seen from both sides
+}
+
+const DEFAULT_SEGMENTS = 32;
+const DEFAULT_RADIUS_RATIO = 0.3;
+const LINE_THICKNESS = 0.05; // Line diameter relative to its unit length
+
+const segmentsOf = (params: GeometryParams, fallback = DEFAULT_SEGMENTS) =>
+  Math.max(3, Math.round(params.segments ?? fallback));
+const radiusRatioOf = (params: GeometryParams, fallback = DEFAULT_RADIUS_RATIO) =>
+  Math.max(0, Math.min(1, params.radiusRatio ?? fallback));
+
+let font: Font | null = null; // Parsed on first use
+const createTextGeometry = (params: GeometryParams): THREE.BufferGeometry => {
+  font = font ?? new FontLoader().parse(helvetiker);
+  const geometry = new TextGeometry(params.text || '?', {
+    font,
+    size: 1,
+    depth: 0.2,
+    curveSegments: Math.max(1, Math.round(params.segments ?? 4)),
+  });
+  // Centred on the origin and one unit tall, so each glyph scales and rotates about its middle
+  geometry.center();
+  geometry.scale(1 / 1.4, 1 / 1.4, 1 / 1.4); // Helvetiker glyphs stand about 1.4 units tall at size 1
+  return geometry;
+};
+
+const definitions = new Map<string, GeometryDefinition>();
+
+/**
+ * Adds a shape, or replaces an existing one, for objects of the given type.
+ * @param create Builds the geometry from the object's `geometry` properties; it should fit a unit box.
+ * @param doubleSided Whether the back faces are drawn, for shapes without a closed surface.
+ */
+export const registerGeometry = (type: string, create: GeometryFactory, doubleSided: boolean = false): void => {
+  definitions.set(type, { create, doubleSided });
+};
+
+registerGeometry('box', () => new THREE.BoxGeometry(1, 1, 1));
+registerGeometry('cube', () => new THREE.BoxGeometry(1, 1, 1));
+registerGeometry('sphere', params => new THREE.SphereGeometry(0.5, segmentsOf(params), segmentsOf(params)));
+// Many small particles, so fewer faces by default
+registerGeometry('particleSphere', params => new THREE.SphereGeometry(0.5, segmentsOf(params, 8), segmentsOf(params, 6)));
+registerGeometry('torus', params => {
+  const tube = 0.5 * radiusRatioOf(params) / (1 + radiusRatioOf(params));
+  return new THREE.TorusGeometry(0.5 - tube, tube, Math.max(3, Math.round(segmentsOf(params) / 2)), segmentsOf(params) * 2);
+});
+registerGeometry('cylinder', params => new THREE.CylinderGeometry(0.5 * radiusRatioOf(params, 1), 0.5, 1, segmentsOf(params)));
+registerGeometry('cone', params => new THREE.ConeGeometry(0.5, 1, segmentsOf(params)));
+registerGeometry('plane', () => new THREE.PlaneGeometry(1, 1), true);
+registerGeometry('ring', params => new THREE.RingGeometry(0.5 * radiusRatioOf(params, 0.7), 0.5, segmentsOf(params)), true);
+registerGeometry('icosahedron', params => new THREE.IcosahedronGeometry(0.5, Math.max(0, Math.round(params.detail ?? 0))));
+// A unit-length segment along the X axis; rotate and scale it to join two points
+registerGeometry('line', params =>
+  new THREE.CylinderGeometry(LINE_THICKNESS / 2, LINE_THICKNESS / 2, 1, segmentsOf(params, 6)).rotateZ(Math.PI / 2)
+);
+// A streak along the X axis that tapers from its head at +X towards its tail at -X
+registerGeometry('trail', params =>
+  new THREE.CylinderGeometry(LINE_THICKNESS * 2, LINE_THICKNESS * 2 * radiusRatioOf(params, 0), 1, segmentsOf(params, 6)).rotateZ(-Math.PI / 2)
+);
+registerGeometry('text', createTextGeometry);
+
+export const getGeometryTypes = (): string[] => Array.from(definitions.keys());
+
+// Identifies the geometry an object needs: same key, same geometry
+export const getGeometryKey = (type: string, params?: GeometryParams): string => {
+  if (!params) return type;
+  return `${type}|${params.segments ?? ''}|${params.radiusRatio ?? ''}|${params.detail ?? ''}|${params.text ?? ''}`;
+};
+
+const getDefinition = (type: string): GeometryDefinition => definitions.get(type) ?? definitions.get('box')!;
+
+export const createGeometry = (type: string, params: GeometryParams = {}): THREE.BufferGeometry =>
+  getDefinition(type).create(params);
+
+export const isDoubleSidedGeometry = (type: string): boolean => getDefinition(type).doubleSided;
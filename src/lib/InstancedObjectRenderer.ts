@@ -0,0 +1,179 @@
+import * as THREE from 'three';
+import type { VisualObject3D } from './VisualizerManager';
+import { GeometryParams, VisualMaterialType } from './types';
+import { createGeometry, getGeometryKey, isDoubleSidedGeometry } from './GeometryRegistry';
+import {
+  createVisualMaterial,
+  isBlendedMaterial,
+  DEFAULT_MATERIAL_TYPE,
+  DEFAULT_METALNESS,
+  DEFAULT_ROUGHNESS,
+  INSTANCE_ATTRIBUTES,
+} from './VisualMaterials';
+
+// Draws visual objects with one InstancedMesh per geometry, material and blending mode, so a
+// frame costs a few draw calls however many objects there are. Instance matrices, colors,
+// opacity, emissive and surface values are written in place each frame without going through React.
+
+const INITIAL_CAPACITY = 64;
+// Batches left empty this many frames in a row (about two seconds) are disposed, so geometries
+// and materials that are no longer drawn (removed tracks, changed synth settings) don't pile up
+const EMPTY_BATCH_FRAMES = 120;
+
+interface InstanceBatch {
+  type: string;
+  geometryParams?: GeometryParams;
+  mesh: THREE.InstancedMesh;
+  capacity: number;
+  count: number; // Instances written this frame
+  emptyFrames: number; // Frames in a row with no instances
+  opacities: THREE.InstancedBufferAttribute;
+  emissives: THREE.InstancedBufferAttribute;
+  surfaces: THREE.InstancedBufferAttribute; // Metalness, roughness
+}
+
+class InstancedObjectRenderer {
+  readonly group = new THREE.Group();
+  private batches: Map<string, InstanceBatch> = new Map(); // Key = `${geometryKey}|${material}|${blending}`
+  private materials: Map<string, THREE.Material> = new Map(); // Key = `${material}|${blending}|${side}`
+  private time: THREE.IUniform<number> = { value: 0 }; // Shared by the animated materials
+  // Scratch objects reused for every instance
+  private position = new THREE.Vector3();
+  private euler = new THREE.Euler();
+  private quaternion = new THREE.Quaternion();
+  private scale = new THREE.Vector3();
+  private matrix = new THREE.Matrix4();
+  private color = new THREE.Color();
+  private emissive = new THREE.Color();
+
+  /**
+   * Replaces what is drawn with `objects`.
+   * @param time Song time in seconds, which animated materials follow.
+   */
+  update(objects: VisualObject3D[], time: number): void {
+    this.time.value = time;
+    this.batches.forEach(batch => { batch.count = 0; });
+
+    objects.forEach(object => {
+      const material = object.material ?? DEFAULT_MATERIAL_TYPE;
+      const isTransparent = object.opacity < 1.0 || isBlendedMaterial(material);
+      const batch = this.getBatch(object.type, object.geometry, material, isTransparent);
+      if (batch.count === batch.capacity) this.grow(batch);
+      const index = batch.count++;
+
+      this.position.set(...object.position);
+      this.quaternion.setFromEuler(this.euler.set(...object.rotation));
+      this.scale.set(...object.scale);
+      batch.mesh.setMatrixAt(index, this.matrix.compose(this.position, this.quaternion, this.scale));
+      batch.mesh.setColorAt(index, this.color.set(object.color));
+      batch.opacities.setX(index, object.opacity);
+      // Emissive defaults to the base color, at no intensity unless one is given
+      this.emissive.set(object.emissive ?? object.color).multiplyScalar(object.emissiveIntensity ?? 0);
+      batch.emissives.setXYZ(index, this.emissive.r, this.emissive.g, this.emissive.b);
+      batch.surfaces.setXY(index, object.metalness ?? DEFAULT_METALNESS, object.roughness ?? DEFAULT_ROUGHNESS);
+    });
+
+    this.batches.forEach((batch, key) => {
+      batch.mesh.count = batch.count;
+      if (batch.count === 0) {
+        if (++batch.emptyFrames >= EMPTY_BATCH_FRAMES) this.disposeBatch(key, batch);
+        return;
+      }
+      batch.emptyFrames = 0;
+      batch.mesh.instanceMatrix.needsUpdate = true;
+      if (batch.mesh.instanceColor) batch.mesh.instanceColor.needsUpdate = true;
+      batch.opacities.needsUpdate = true;
+      batch.emissives.needsUpdate = true;
+      batch.surfaces.needsUpdate = true;
+    });
+  }
+
+  dispose(): void {
+    this.batches.forEach((batch, key) => this.disposeBatch(key, batch));
+    this.materials.forEach(material => material.dispose());
+    this.materials.clear();
+  }
+
+  // Removes the batch, and its material once no other batch uses it
+  private disposeBatch(key: string, batch: InstanceBatch): void {
+    this.group.remove(batch.mesh);
+    batch.mesh.geometry.dispose();
+    batch.mesh.dispose();
+    this.batches.delete(key);
+
+    const material = batch.mesh.material as THREE.Material;
+    const isShared = Array.from(this.batches.values()).some(other => other.mesh.material === material);
+    if (isShared) return;
+    this.materials.forEach((cached, materialKey) => {
+      if (cached === material) this.materials.delete(materialKey);
+    });
+    material.dispose();
+  }
+
+  private getBatch(
+    type: string,
+    geometryParams: GeometryParams | undefined,
+    materialType: VisualMaterialType,
+    isTransparent: boolean
+  ): InstanceBatch {
+    const key = `${getGeometryKey(type, geometryParams)}|${materialType}|${isTransparent ? 'transparent' : 'opaque'}`;
+    let batch = this.batches.get(key);
+    if (!batch) {
+      const material = this.getMaterial(materialType, isTransparent, isDoubleSidedGeometry(type));
+      batch = this.createBatch(type, geometryParams, material, INITIAL_CAPACITY);
+      this.batches.set(key, batch);
+    }
+    return batch;
+  }
+
+  private getMaterial(materialType: VisualMaterialType, isTransparent: boolean, isDoubleSided: boolean): THREE.Material {
+    const key = `${materialType}|${isTransparent ? 'transparent' : 'opaque'}|${isDoubleSided ? 'double' : 'front'}`;
+    let material = this.materials.get(key);
+    if (!material) {
+      material = createVisualMaterial(materialType, isTransparent, isDoubleSided, this.time);
+      this.materials.set(key, material);
+    }
+    return material;
+  }
+
+  // Each batch owns its geometry, since the per-instance attributes are stored on it
+  private createBatch(type: string, geometryParams: GeometryParams | undefined, material: THREE.Material, capacity: number): InstanceBatch {
+    const geometry = createGeometry(type, geometryParams);
+    const opacities = new THREE.InstancedBufferAttribute(new Float32Array(capacity), 1).setUsage(THREE.DynamicDrawUsage);
+    const emissives = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3).setUsage(THREE.DynamicDrawUsage);
+    const surfaces = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 2), 2).setUsage(THREE.DynamicDrawUsage);
+    geometry.setAttribute(INSTANCE_ATTRIBUTES.opacity, opacities);
+    geometry.setAttribute(INSTANCE_ATTRIBUTES.emissive, emissives);
+    geometry.setAttribute(INSTANCE_ATTRIBUTES.surface, surfaces);
+
+    const mesh = new THREE.InstancedMesh(geometry, material, capacity);
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3).setUsage(THREE.DynamicDrawUsage);
+    mesh.frustumCulled = false; // Instances spread far beyond the base geometry's bounds
+    mesh.count = 0;
+    this.group.add(mesh);
+    return { type, geometryParams, mesh, capacity, count: 0, emptyFrames: 0, opacities, emissives, surfaces };
+  }
+
+  // Swaps the batch's mesh for one with twice the room, keeping the instances written so far
+  private grow(batch: InstanceBatch): void {
+    const old = batch.mesh;
+    const { mesh, capacity, opacities, emissives, surfaces } = this.createBatch(
+      batch.type,
+      batch.geometryParams,
+      old.material as THREE.Material,
+      batch.capacity * 2
+    );
+    mesh.instanceMatrix.array.set(old.instanceMatrix.array);
+    mesh.instanceColor!.array.set(old.instanceColor!.array);
+    opacities.array.set(batch.opacities.array);
+    emissives.array.set(batch.emissives.array);
+    surfaces.array.set(batch.surfaces.array);
+    this.group.remove(old);
+    old.geometry.dispose();
+    old.dispose();
+    Object.assign(batch, { mesh, capacity, opacities, emissives, surfaces });
+  }
+}
+
+export default InstancedObjectRenderer;
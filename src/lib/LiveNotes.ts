@@ -0,0 +1,86 @@
+import { MIDIBlock } from './types';
+
+const HELD_NOTE_LOOKAHEAD = 1; // Seconds a held note reaches past now, so it stays in its sustain phase
+const RELEASED_NOTE_LIFETIME = 10; // Seconds a released note is kept, for physics and effects to settle
+
+interface LiveNote {
+  id: string;
+  trackId: string;
+  pitch: number;
+  velocity: number;
+  startTime: number; // Seconds on the performance clock
+  endTime: number | null; // Null while the key is held
+}
+
+// Notes played live on a MIDI controller, kept off the timeline. They are rendered on a
+// clock of their own (the performance clock, counted in beats at the current tempo), so
+// they play straight away whether or not the transport is running.
+class LiveNotes {
+  private notes: LiveNote[] = [];
+  private nextId = 0;
+
+  noteOn(trackId: string, pitch: number, velocity: number): void {
+    this.noteOff(pitch); // Retriggering a held key starts a new note
+    this.notes.push({
+      id: `live-${this.nextId++}`,
+      trackId,
+      pitch,
+      velocity,
+      startTime: this.now(),
+      endTime: null,
+    });
+  }
+
+  noteOff(pitch: number): void {
+    const now = this.now();
+    this.notes.forEach(note => {
+      if (note.pitch === pitch && note.endTime === null) note.endTime = now;
+    });
+  }
+
+  // Releases every held note, e.g. when the performance mode is turned off
+  releaseAll(): void {
+    const now = this.now();
+    this.notes.forEach(note => {
+      if (note.endTime === null) note.endTime = now;
+    });
+  }
+
+  /**
+   * The track's live notes as a block, for Synthesizer.getObjectsAtTime.
+   * @param bpm Tempo the live clock counts beats at.
+   * @returns The block and the beat to render it at, or null when the track has no live notes.
+   */
+  getBlock(trackId: string, bpm: number): { beat: number; block: MIDIBlock } | null {
+    const now = this.now();
+    this.notes = this.notes.filter(note => note.endTime === null || now - note.endTime < RELEASED_NOTE_LIFETIME);
+    const notes = this.notes.filter(note => note.trackId === trackId);
+    if (notes.length === 0) return null;
+
+    // Beats count from the oldest note, keeping the numbers small
+    const origin = notes[0].startTime;
+    const toBeats = (time: number) => ((time - origin) * bpm) / 60;
+    const endBeat = toBeats(now + HELD_NOTE_LOOKAHEAD);
+    return {
+      beat: toBeats(now),
+      block: {
+        id: `live-${trackId}`,
+        startBeat: 0,
+        endBeat,
+        notes: notes.map(note => ({
+          id: note.id,
+          pitch: note.pitch,
+          velocity: note.velocity,
+          startBeat: toBeats(note.startTime),
+          duration: (note.endTime === null ? endBeat : toBeats(note.endTime)) - toBeats(note.startTime),
+        })),
+      },
+    };
+  }
+
+  private now(): number {
+    return performance.now() / 1000;
+  }
+}
+
+export default LiveNotes;
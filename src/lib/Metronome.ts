@@ -0,0 +1,108 @@
+import TempoMap from './TempoMap';
+import TimeSignatureMap from './TimeSignatureMap';
+import { MetronomeSettings, TimeSignature } from './types';
+
+export const DEFAULT_METRONOME_SETTINGS: MetronomeSettings = { enabled: false, volume: 0.7, countIn: false };
+
+const SCHEDULE_AHEAD = 0.1; // Seconds of clicks queued on the audio clock at any time
+const SCHEDULER_INTERVAL_MS = 25; // Well under SCHEDULE_AHEAD, so a late timer doesn't drop a click
+const CLICK_DURATION = 0.05; // Seconds
+const ACCENT_FREQUENCY = 1600; // Hz, first beat of a measure
+const BEAT_FREQUENCY = 1000; // Hz, other beats
+const BEAT_LEVEL = 0.6; // Gain of other beats relative to the accent
+
+// A click track on the Web Audio clock. Clicks follow the time signature (accenting each
+// downbeat) and the tempo map. A timer queues the clicks due in the next SCHEDULE_AHEAD
+// seconds, so they land exactly on the beat however late the timer fires, and stopping
+// or restarting only ever has to cancel that short queue.
+class Metronome {
+  private context: AudioContext;
+  private output: GainNode;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private clicks = new Set<OscillatorNode>(); // Queued or sounding
+
+  constructor(context: AudioContext) {
+    this.context = context;
+    this.output = context.createGain();
+    this.output.gain.value = DEFAULT_METRONOME_SETTINGS.volume;
+    this.output.connect(context.destination);
+  }
+
+  setVolume(volume: number): void {
+    const gain = Number.isFinite(volume) ? Math.max(0, Math.min(1, volume)) : DEFAULT_METRONOME_SETTINGS.volume;
+    this.output.gain.setTargetAtTime(gain, this.context.currentTime, 0.01);
+  }
+
+  /**
+   * Clicks every signature beat from a timeline position on, until stopped.
+   * @param timelineTime Timeline seconds playing at `when`.
+   * @param when The context time `timelineTime` plays at (see TimeManager.getAudioSchedule).
+   */
+  start(timelineTime: number, when: number, tempoMap: TempoMap, signatureMap: TimeSignatureMap): void {
+    this.stopTimer();
+    let next = signatureMap.getNextSignatureBeat(timelineTime > 0 ? tempoMap.timeToBeat(timelineTime) : 0);
+
+    const scheduleClicks = () => {
+      const now = this.context.currentTime;
+      let at = when + tempoMap.beatToTime(next.beat) - timelineTime;
+      while (at < now + SCHEDULE_AHEAD) {
+        // Clicks the timer fell too far behind for are skipped rather than played late
+        if (at >= now) this.click(at, next.beatInMeasure === 0);
+        next = signatureMap.getNextSignatureBeat(next.beat + next.beatLength);
+        at = when + tempoMap.beatToTime(next.beat) - timelineTime;
+      }
+    };
+
+    scheduleClicks();
+    this.timer = setInterval(scheduleClicks, SCHEDULER_INTERVAL_MS);
+  }
+
+  /**
+   * Queues one bar of clicks ending at `until`, when playback starts.
+   * @param signature The time signature of the bar.
+   * @param beatSeconds Length of one beat of the signature in seconds.
+   */
+  countIn(until: number, signature: TimeSignature, beatSeconds: number): void {
+    const barStart = until - signature.numerator * beatSeconds;
+    for (let i = 0; i < signature.numerator; i++) {
+      const at = barStart + i * beatSeconds;
+      if (at >= this.context.currentTime) this.click(at, i === 0);
+    }
+  }
+
+  // Silences the metronome, including clicks already queued
+  stop(): void {
+    this.stopTimer();
+    this.clicks.forEach(click => {
+      try {
+        click.stop(0);
+      } catch { /* Ignore if already stopped */ }
+    });
+    this.clicks.clear();
+  }
+
+  private stopTimer(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private click(at: number, accent: boolean): void {
+    const oscillator = this.context.createOscillator();
+    const envelope = this.context.createGain();
+    oscillator.frequency.value = accent ? ACCENT_FREQUENCY : BEAT_FREQUENCY;
+    envelope.gain.setValueAtTime(accent ? 1 : BEAT_LEVEL, at);
+    envelope.gain.exponentialRampToValueAtTime(0.001, at + CLICK_DURATION);
+    oscillator.connect(envelope).connect(this.output);
+    oscillator.onended = () => {
+      this.clicks.delete(oscillator);
+      envelope.disconnect();
+    };
+    oscillator.start(at);
+    oscillator.stop(at + CLICK_DURATION);
+    this.clicks.add(oscillator);
+  }
+}
+
+export default Metronome;
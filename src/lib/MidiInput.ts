@@ -0,0 +1,119 @@
+// Hardware MIDI input through the Web MIDI API. Messages from the connected inputs (or
+// from one chosen input) are parsed into note and controller events for the listeners.
+
+export type MidiInputMessage =
+  | { type: 'noteOn'; channel: number; pitch: number; velocity: number }
+  | { type: 'noteOff'; channel: number; pitch: number }
+  | { type: 'controlChange'; channel: number; controller: number; value: number };
+
+export interface MidiInputDevice {
+  id: string;
+  name: string;
+}
+
+// Parses a channel voice message; anything else (clock, sysex, pitch bend...) gives null
+export const parseMidiMessage = (data: Uint8Array): MidiInputMessage | null => {
+  if (data.length < 3) return null;
+  const status = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+  switch (status) {
+    case 0x90:
+      // Many keyboards send a note-on with velocity 0 instead of a note-off
+      return data[2] > 0
+        ? { type: 'noteOn', channel, pitch: data[1], velocity: data[2] }
+        : { type: 'noteOff', channel, pitch: data[1] };
+    case 0x80:
+      return { type: 'noteOff', channel, pitch: data[1] };
+    case 0xb0:
+      return { type: 'controlChange', channel, controller: data[1], value: data[2] };
+    default:
+      return null;
+  }
+};
+
+class MidiInput {
+  private access: MIDIAccess | null = null;
+  private inputId: string | null = null; // Null listens to every input
+  private listeners: ((message: MidiInputMessage) => void)[] = [];
+  private deviceListeners: ((devices: MidiInputDevice[]) => void)[] = [];
+
+  static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && typeof navigator.requestMIDIAccess === 'function';
+  }
+
+  get isEnabled(): boolean {
+    return this.access !== null;
+  }
+
+  /**
+   * Asks for MIDI access and starts listening. The browser may prompt the user.
+   * @returns Whether access was granted.
+   */
+  async enable(): Promise<boolean> {
+    if (this.access) return true;
+    if (!MidiInput.isSupported()) return false;
+    try {
+      this.access = await navigator.requestMIDIAccess();
+    } catch (error) {
+      console.error("MidiInput: MIDI access was denied:", error);
+      return false;
+    }
+    // Inputs plugged in later are picked up as they connect
+    this.access.onstatechange = () => {
+      this.attachInputs();
+      this.notifyDevices();
+    };
+    this.attachInputs();
+    this.notifyDevices();
+    return true;
+  }
+
+  getDevices(): MidiInputDevice[] {
+    if (!this.access) return [];
+    return Array.from(this.access.inputs.values())
+      .filter(input => input.state === 'connected')
+      .map(input => ({ id: input.id, name: input.name || 'MIDI input' }));
+  }
+
+  // Listens to one input only, or to all of them with null
+  setInputId(inputId: string | null): void {
+    this.inputId = inputId;
+  }
+
+  getInputId(): string | null {
+    return this.inputId;
+  }
+
+  // Register a callback for every parsed message
+  onMessage(callback: (message: MidiInputMessage) => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      this.listeners = this.listeners.filter(cb => cb !== callback);
+    };
+  }
+
+  // Register a callback for when inputs connect or disconnect
+  onDevicesChange(callback: (devices: MidiInputDevice[]) => void): () => void {
+    this.deviceListeners.push(callback);
+    return () => {
+      this.deviceListeners = this.deviceListeners.filter(cb => cb !== callback);
+    };
+  }
+
+  private attachInputs(): void {
+    this.access?.inputs.forEach(input => {
+      input.onmidimessage = (event: MIDIMessageEvent) => {
+        if (!event.data || (this.inputId !== null && input.id !== this.inputId)) return;
+        const message = parseMidiMessage(event.data);
+        if (message) this.listeners.forEach(callback => callback(message));
+      };
+    });
+  }
+
+  private notifyDevices(): void {
+    const devices = this.getDevices();
+    this.deviceListeners.forEach(callback => callback(devices));
+  }
+}
+
+export default MidiInput;
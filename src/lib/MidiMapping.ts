@@ -0,0 +1,64 @@
+import { MidiCCBinding, Track } from './types';
+import { Property } from './properties/Property';
+import { getAutomationOwner, ratioToAutomationValue } from './Automation';
+
+// Hardware knobs and faders (MIDI CC, 0-127) driving synthesizer and effect properties.
+// Numeric properties sweep their metadata range; color properties sweep the hue, keeping
+// the saturation and lightness of the current color.
+
+const MAX_CC_VALUE = 127;
+
+export const isMidiMappableProperty = (property: Property<any>): boolean =>
+  property.uiType === 'slider' || property.uiType === 'numberInput' || property.uiType === 'color';
+
+// The property a binding drives, or null when its track, effect or property is gone
+export const getMidiBindingProperty = (track: Track, binding: MidiCCBinding): Property<any> | null => {
+  const property = getAutomationOwner(track, binding.target)?.properties.get(binding.propertyName);
+  return property && isMidiMappableProperty(property) ? property : null;
+};
+
+export const formatMidiBinding = (binding: Pick<MidiCCBinding, 'channel' | 'controller'>): string =>
+  `CC ${binding.controller} · Ch ${binding.channel + 1}`;
+
+const hexToHsl = (hex: string): [number, number, number] | null => {
+  const match = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  if (!match) return null;
+  const [r, g, b] = [match[1], match[2], match[3]].map(channel => parseInt(channel, 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) return [0, 0, lightness];
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  let hue: number;
+  if (max === r) hue = ((g - b) / delta) % 6;
+  else if (max === g) hue = (b - r) / delta + 2;
+  else hue = (r - g) / delta + 4;
+  return [(hue * 60 + 360) % 360, saturation, lightness];
+};
+
+const hslToHex = (hue: number, saturation: number, lightness: number): string => {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = lightness - chroma / 2;
+  const sector = Math.floor(hue / 60) % 6;
+  const [r, g, b] = [
+    [chroma, x, 0], [x, chroma, 0], [0, chroma, x],
+    [0, x, chroma], [x, 0, chroma], [chroma, 0, x],
+  ][sector];
+  return `#${[r, g, b].map(channel => Math.round((channel + m) * 255).toString(16).padStart(2, '0')).join('')}`;
+};
+
+/**
+ * The property value a controller position stands for.
+ * @param ccValue Controller value, 0-127.
+ */
+export const ccToPropertyValue = (property: Property<any>, ccValue: number): number | string => {
+  const ratio = Math.max(0, Math.min(1, ccValue / MAX_CC_VALUE));
+  if (property.uiType !== 'color') return ratioToAutomationValue(property, ratio);
+
+  const hsl = hexToHsl(String(property.value));
+  // A grey has no hue to turn, so the sweep goes through fully saturated colors
+  const [saturation, lightness] = hsl && hsl[1] > 0.05 ? [hsl[1], hsl[2]] : [1, 0.5];
+  return hslToHex(ratio * 359, saturation, lightness);
+};
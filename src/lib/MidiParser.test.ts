@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import * as MidiFile from 'midi-file';
+import { MidiParser } from './MidiParser';
+
+const TICKS_PER_BEAT = 480;
+
+const toArrayBuffer = (tracks: MidiFile.MidiEvent[][]): ArrayBuffer =>
+    new Uint8Array(MidiFile.writeMidi({
+        header: { format: 1, numTracks: tracks.length, ticksPerBeat: TICKS_PER_BEAT },
+        tracks: tracks.map(events => [...events, { deltaTime: 0, meta: true, type: 'endOfTrack' } as MidiFile.MidiEvent]),
+    })).buffer;
+
+const note = (deltaTime: number, channel: number, noteNumber: number, lengthTicks: number): MidiFile.MidiEvent[] => [
+    { deltaTime, channel, type: 'noteOn', noteNumber, velocity: 100 },
+    { deltaTime: lengthTicks, channel, type: 'noteOff', noteNumber, velocity: 0 },
+];
+
+// A conductor track with tempo and signature changes, plus a melody and drums sharing one track
+const createFile = () => toArrayBuffer([
+    [
+        { deltaTime: 0, meta: true, type: 'setTempo', microsecondsPerBeat: 500_000 }, // 120 BPM
+        { deltaTime: 0, meta: true, type: 'timeSignature', numerator: 3, denominator: 4, metronome: 24, thirtyseconds: 8 },
+        // Four bars of 3/4 in
+        { deltaTime: 12 * TICKS_PER_BEAT, meta: true, type: 'setTempo', microsecondsPerBeat: 1_000_000 }, // 60 BPM
+        { deltaTime: 0, meta: true, type: 'timeSignature', numerator: 7, denominator: 8, metronome: 12, thirtyseconds: 8 },
+    ],
+    [
+        { deltaTime: 0, meta: true, type: 'trackName', text: 'Band' },
+        { deltaTime: 0, channel: 0, type: 'programChange', programNumber: 33 },
+        ...note(4 * TICKS_PER_BEAT, 0, 40, TICKS_PER_BEAT),
+        ...note(0, 9, 36, TICKS_PER_BEAT / 2),
+        ...note(0, 0, 43, 2 * TICKS_PER_BEAT),
+    ],
+]);
+
+describe('MidiParser', () => {
+    it('reads the tempo and time signature maps', async () => {
+        const result = await MidiParser.parse(createFile());
+        expect(result.initialBpm).toBe(120);
+        expect(result.tempoChanges).toEqual([{ beat: 12, bpm: 60, curve: 'step' }]);
+        expect(result.timeSignature).toEqual({ numerator: 3, denominator: 4 });
+        expect(result.timeSignatureChanges).toEqual([{ measure: 4, numerator: 7, denominator: 8 }]);
+    });
+
+    it('makes one part per track, or one per channel', async () => {
+        const byTrack = await MidiParser.parse(createFile(), 'track');
+        expect(byTrack.parts).toHaveLength(1);
+        expect(byTrack.parts[0]).toMatchObject({ name: 'Band', trackIndex: 1, channel: null, program: 33 });
+        expect(byTrack.parts[0].block.notes).toHaveLength(3);
+
+        const byChannel = await MidiParser.parse(createFile(), 'channel');
+        expect(byChannel.parts.map(part => [part.name, part.channel, part.block.notes.map(n => n.pitch)])).toEqual([
+            ['Band (Channel 1)', 0, [40, 43]],
+            ['Band (Drums)', 9, [36]],
+        ]);
+    });
+
+    it('positions notes relative to their block', async () => {
+        const { parts: [part] } = await MidiParser.parse(createFile());
+        expect(part.block).toMatchObject({ startBeat: 4, endBeat: 7.5 });
+        expect(part.block.notes.map(n => [n.pitch, n.startBeat, n.duration])).toEqual([
+            [40, 0, 1],
+            [36, 1, 0.5],
+            [43, 1.5, 2],
+        ]);
+    });
+
+    it('rejects data that is not a MIDI file', async () => {
+        await expect(MidiParser.parse(new Uint8Array([1, 2, 3, 4]).buffer)).rejects.toThrow('MIDI parsing failed');
+    });
+});
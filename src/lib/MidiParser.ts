@@ -1,109 +1,235 @@
 import * as MidiFile from 'midi-file';
-import { MIDIBlock, MIDINote } from './types';
-import TimeManager from './TimeManager'; // Corrected default import
+import { MIDIBlock, MIDINote, TempoChange, TimeSignature, TimeSignatureChange } from './types';
+import TimeSignatureMap from './TimeSignatureMap';
+
+const DEFAULT_TICKS_PER_BEAT = 480;
+const DRUM_CHANNEL = 9; // General MIDI percussion channel (channel 10 when counting from 1)
+
+// How imported notes are grouped into parts
+// 'track': one part per MIDI track, 'channel': one part per MIDI channel
+export type MidiImportGrouping = 'track' | 'channel';
+
+// A group of notes from the file that becomes one block (and optionally one track)
+export interface ImportedMidiPart {
+    name: string; // From the track-name meta event, or a generated fallback
+    trackIndex: number; // MIDI track the notes came from (the first one, when grouping by channel)
+    channel: number | null; // 0-15, or null if the part uses more than one channel
+    program: number | null; // Last program change before the first note, if any
+    block: MIDIBlock;
+}
+
+export interface MidiImportResult {
+    parts: ImportedMidiPart[];
+    initialBpm: number | null; // Tempo at beat 0, or null if the file has no tempo event there
+    tempoChanges: TempoChange[]; // Tempo changes after beat 0
+    timeSignature: TimeSignature | null; // Signature at beat 0, or null if the file has none
+    timeSignatureChanges: TimeSignatureChange[];
+}
 
 interface ParsedNote {
-    midi: number;
-    time: number; // Start time in seconds
-    duration: number; // Duration in seconds
-    velocity: number; // 0-1 range
+    pitch: number;
+    startTick: number;
+    endTick: number;
+    velocity: number; // 0-127
+}
+
+// Notes and metadata collected for one part while walking the file
+interface PartAccumulator {
+    key: number;
+    trackIndex: number;
+    trackName: string | null;
+    channels: Set<number>;
+    program: number | null;
+    notes: ParsedNote[];
+}
+
+interface TimedMetaEvent<T> {
+    tick: number;
+    event: T;
 }
 
 export class MidiParser {
-    static async parse(fileBuffer: ArrayBuffer, timeManager: TimeManager): Promise<MIDIBlock[]> {
+    /**
+     * Parses a standard MIDI file.
+     * Note positions come straight from the file's ticks, so notes keep their musical
+     * position (beat) regardless of the project's tempo. The file's tempo and time
+     * signature meta events are returned separately so the caller can apply them.
+     */
+    static async parse(fileBuffer: ArrayBuffer, grouping: MidiImportGrouping = 'track'): Promise<MidiImportResult> {
         try {
             // Convert ArrayBuffer to Uint8Array for the parser
             const midiData = new Uint8Array(fileBuffer);
             const parsedMidi = MidiFile.parseMidi(midiData);
 
-            const midiBlocks: MIDIBlock[] = [];
-
             if (!parsedMidi.header || !parsedMidi.tracks) {
                  throw new Error("Invalid MIDI file structure.");
             }
+            if (parsedMidi.header.framesPerSecond) {
+                throw new Error("SMPTE-timed MIDI files are not supported.");
+            }
+
+            const ticksPerBeat = parsedMidi.header.ticksPerBeat || DEFAULT_TICKS_PER_BEAT; // Default if not specified
+            const ticksToBeats = (tick: number) => tick / ticksPerBeat;
 
-            const ticksPerBeat = parsedMidi.header.ticksPerBeat || 480; // Default if not specified
-            const bpm = timeManager.getBPM(); // Get BPM once
-            const secondsPerTick = (60.0 / bpm) / ticksPerBeat;
+            const parts = new Map<number, PartAccumulator>();
+            const tempoEvents: TimedMetaEvent<MidiFile.MidiSetTempoEvent>[] = [];
+            const signatureEvents: TimedMetaEvent<MidiFile.MidiTimeSignatureEvent>[] = [];
 
             for (let i = 0; i < parsedMidi.tracks.length; i++) {
                 const track = parsedMidi.tracks[i];
-                const notes: ParsedNote[] = [];
                 let currentTick = 0; // Current time in ticks
-                const activeNotes: { [key: number]: { tick: number, velocity: number } } = {};
+                let trackName: string | null = null;
+                const programByChannel = new Map<number, number>();
+                // Keyed by channel and pitch so overlapping notes on different channels don't collide
+                const activeNotes = new Map<string, { tick: number, velocity: number }>();
 
                 track.forEach(event => {
                     currentTick += event.deltaTime;
-                    // Calculate current time in seconds manually
-                    const currentTimeSeconds = currentTick * secondsPerTick;
-
-                    if (event.type === 'noteOn' && event.velocity > 0) {
-                        // Note On event
-                        activeNotes[event.noteNumber] = {
-                            tick: currentTick,
-                            velocity: event.velocity / 127 // Normalize velocity to 0-1
-                        };
-                    } else if (event.type === 'noteOff' || (event.type === 'noteOn' && event.velocity === 0)) {
-                        // Note Off event or Note On with velocity 0
-                        const startNoteData = activeNotes[event.noteNumber];
-                        if (startNoteData) {
-                            const startNoteTimeSeconds = startNoteData.tick * secondsPerTick;
-                            const durationSeconds = currentTimeSeconds - startNoteTimeSeconds;
-
-                            if (durationSeconds > 0) { // Only add notes with positive duration
-                                notes.push({
-                                    midi: event.noteNumber,
-                                    time: startNoteTimeSeconds,
-                                    duration: durationSeconds,
-                                    velocity: startNoteData.velocity
-                                });
+
+                    switch (event.type) {
+                        case 'trackName':
+                            trackName = trackName ?? event.text.trim();
+                            break;
+                        case 'setTempo':
+                            tempoEvents.push({ tick: currentTick, event });
+                            break;
+                        case 'timeSignature':
+                            signatureEvents.push({ tick: currentTick, event });
+                            break;
+                        case 'programChange':
+                            programByChannel.set(event.channel, event.programNumber);
+                            break;
+                        case 'noteOn':
+                        case 'noteOff': {
+                            const noteKey = `${event.channel}:${event.noteNumber}`;
+                            if (event.type === 'noteOn' && event.velocity > 0) {
+                                activeNotes.set(noteKey, { tick: currentTick, velocity: event.velocity });
+                                return;
+                            }
+                            // Note Off event or Note On with velocity 0
+                            const startNoteData = activeNotes.get(noteKey);
+                            if (!startNoteData) return;
+                            activeNotes.delete(noteKey);
+                            if (currentTick <= startNoteData.tick) return; // Only add notes with positive duration
+
+                            const partKey = grouping === 'channel' ? event.channel : i;
+                            let part = parts.get(partKey);
+                            if (!part) {
+                                part = {
+                                    key: partKey,
+                                    trackIndex: i,
+                                    trackName,
+                                    channels: new Set(),
+                                    program: programByChannel.get(event.channel) ?? null,
+                                    notes: [],
+                                };
+                                parts.set(partKey, part);
                             }
-                             delete activeNotes[event.noteNumber]; // Remove from active notes
+                            part.trackName = part.trackName ?? trackName;
+                            part.channels.add(event.channel);
+                            part.notes.push({
+                                pitch: event.noteNumber,
+                                startTick: startNoteData.tick,
+                                endTick: currentTick,
+                                velocity: startNoteData.velocity,
+                            });
+                            break;
                         }
                     }
                 });
-
-                // If notes were found in this track, create a MIDIBlock
-                if (notes.length > 0) {
-                    let minStartTime = Infinity;
-                    let maxEndTime = 0;
-
-                    const midiNotes: MIDINote[] = notes.map(note => {
-                         minStartTime = Math.min(minStartTime, note.time);
-                         maxEndTime = Math.max(maxEndTime, note.time + note.duration);
-
-                        const startBeat = timeManager.timeToBeat(note.time);
-                        const endBeat = timeManager.timeToBeat(note.time + note.duration);
-                        const durationBeat = endBeat - startBeat; // Calculate duration in beats
-                        
-                        return {
-                            id: `note-${note.midi}-${startBeat.toFixed(2)}`,
-                            midi: note.midi,
-                            pitch: note.midi, // Use midi value for pitch
-                            startBeat: startBeat,
-                            endBeat: endBeat,
-                            duration: durationBeat, // Add duration in beats
-                            velocity: note.velocity
-                        };
-                    });
-
-                    const startBeatOverall = timeManager.timeToBeat(minStartTime);
-                    const endBeatOverall = timeManager.timeToBeat(maxEndTime);
-
-                    const block: MIDIBlock = {
-                        id: `midi-block-track-${i}-${Date.now()}`,
-                        startBeat: startBeatOverall,
-                        endBeat: endBeatOverall,
-                        notes: midiNotes
-                    };
-                    midiBlocks.push(block);
-                }
             }
 
-            return midiBlocks;
+            const importedParts: ImportedMidiPart[] = Array.from(parts.values())
+                .sort((a, b) => a.key - b.key)
+                .map(part => MidiParser.buildPart(part, grouping, ticksToBeats));
+
+            const { initialBpm, tempoChanges } = MidiParser.buildTempoChanges(tempoEvents, ticksToBeats);
+            const { timeSignature, timeSignatureChanges } = MidiParser.buildTimeSignatureChanges(signatureEvents, ticksToBeats);
+
+            return { parts: importedParts, initialBpm, tempoChanges, timeSignature, timeSignatureChanges };
         } catch (error) {
             console.error("Error parsing MIDI file:", error);
             throw new Error(`MIDI parsing failed: ${error instanceof Error ? error.message : String(error)}`);
         }
     }
-} 
\ No newline at end of file
+
+    private static buildPart(part: PartAccumulator, grouping: MidiImportGrouping, ticksToBeats: (tick: number) => number): ImportedMidiPart {
+        const channel = part.channels.size === 1 ? Array.from(part.channels)[0] : null;
+
+        // Block spans the part's notes; note positions are stored relative to the block start
+        const blockStartBeat = ticksToBeats(Math.min(...part.notes.map(n => n.startTick)));
+        const blockEndBeat = ticksToBeats(Math.max(...part.notes.map(n => n.endTick)));
+
+        const midiNotes: MIDINote[] = part.notes.map(note => {
+            const startBeat = ticksToBeats(note.startTick) - blockStartBeat;
+            return {
+                id: `note-${note.pitch}-${startBeat.toFixed(2)}`,
+                pitch: note.pitch,
+                startBeat,
+                duration: ticksToBeats(note.endTick - note.startTick),
+                velocity: note.velocity,
+            };
+        });
+
+        const block: MIDIBlock = {
+            id: `midi-block-${grouping}-${part.key}-${Date.now()}`,
+            startBeat: blockStartBeat,
+            endBeat: blockEndBeat,
+            notes: midiNotes,
+        };
+
+        return {
+            name: MidiParser.getPartName(part, grouping, channel),
+            trackIndex: part.trackIndex,
+            channel,
+            program: part.program,
+            block,
+        };
+    }
+
+    private static getPartName(part: PartAccumulator, grouping: MidiImportGrouping, channel: number | null): string {
+        if (grouping === 'channel') {
+            const channelLabel = channel === DRUM_CHANNEL ? 'Drums' : `Channel ${part.key + 1}`;
+            return part.trackName ? `${part.trackName} (${channelLabel})` : channelLabel;
+        }
+        return part.trackName || `MIDI Track ${part.trackIndex + 1}`;
+    }
+
+    // Converts setTempo events (microseconds per beat) into the app's tempo changes
+    private static buildTempoChanges(events: TimedMetaEvent<MidiFile.MidiSetTempoEvent>[], ticksToBeats: (tick: number) => number) {
+        let initialBpm: number | null = null;
+        const tempoChanges: TempoChange[] = [];
+        for (const { tick, event } of [...events].sort((a, b) => a.tick - b.tick)) {
+            const bpm = 60_000_000 / event.microsecondsPerBeat;
+            if (tick === 0) {
+                initialBpm = bpm;
+            } else {
+                tempoChanges.push({ beat: ticksToBeats(tick), bpm, curve: 'step' });
+            }
+        }
+        return { initialBpm, tempoChanges };
+    }
+
+    // Converts timeSignature events (positioned in ticks) into measure-based signature changes
+    private static buildTimeSignatureChanges(events: TimedMetaEvent<MidiFile.MidiTimeSignatureEvent>[], ticksToBeats: (tick: number) => number) {
+        let timeSignature: TimeSignature | null = null;
+        const timeSignatureChanges: TimeSignatureChange[] = [];
+        let signatureMap = new TimeSignatureMap();
+
+        for (const { tick, event } of [...events].sort((a, b) => a.tick - b.tick)) {
+            const signature = { numerator: event.numerator, denominator: event.denominator };
+            if (!TimeSignatureMap.isValidSignature(signature)) continue;
+
+            const beat = ticksToBeats(tick);
+            if (beat === 0) {
+                timeSignature = signature;
+            } else {
+                // Signature changes belong on a bar line; round up if the file places one mid-measure
+                const measure = signatureMap.getMeasureCountForBeats(beat);
+                timeSignatureChanges.push({ measure, ...signature });
+            }
+            signatureMap = new TimeSignatureMap(timeSignature ?? undefined, timeSignatureChanges);
+        }
+        return { timeSignature, timeSignatureChanges: signatureMap.getChanges() };
+    }
+}
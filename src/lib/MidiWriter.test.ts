@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import * as MidiFile from 'midi-file';
+import { MidiWriter } from './MidiWriter';
+import { MidiParser } from './MidiParser';
+import TempoMap from './TempoMap';
+import TimeSignatureMap from './TimeSignatureMap';
+import { MIDIBlock } from './types';
+
+// Two back-to-back notes of the same pitch, then a chord
+const block: MIDIBlock = {
+    id: 'block',
+    startBeat: 4,
+    endBeat: 8,
+    notes: [
+        { id: 'a', pitch: 60, startBeat: 0, duration: 1, velocity: 100 },
+        { id: 'b', pitch: 60, startBeat: 1, duration: 1, velocity: 0 },
+        { id: 'c', pitch: 64, startBeat: 2, duration: 2, velocity: 90 },
+        { id: 'd', pitch: 67, startBeat: 2, duration: 2, velocity: 90 },
+    ],
+};
+
+const tempoMap = new TempoMap(120, [{ beat: 8, bpm: 90 }]);
+const signatureMap = new TimeSignatureMap({ numerator: 4, denominator: 4 }, [{ measure: 2, numerator: 6, denominator: 8 }]);
+
+// Absolute tick of every event in a track
+const withTicks = (events: MidiFile.MidiEvent[]) => {
+    let tick = 0;
+    return events.map(event => ({ ...event, tick: (tick += event.deltaTime) }));
+};
+
+describe('MidiWriter', () => {
+    it('writes the tempo map and signatures to a conductor track', () => {
+        const file = MidiFile.parseMidi(MidiWriter.write([{ name: 'Lead', blocks: [block] }], tempoMap, signatureMap, 'Song'));
+        expect(file.header).toMatchObject({ format: 1, numTracks: 2, ticksPerBeat: 480 });
+
+        const conductor = withTicks(file.tracks[0]);
+        expect(conductor.map(e => [e.type, e.tick])).toEqual([
+            ['trackName', 0],
+            ['timeSignature', 0],
+            ['setTempo', 0],
+            ['timeSignature', 8 * 480],
+            ['setTempo', 8 * 480],
+            ['endOfTrack', 8 * 480],
+        ]);
+        expect(conductor[3]).toMatchObject({ numerator: 6, denominator: 8, metronome: 12 });
+        expect(conductor[4]).toMatchObject({ microsecondsPerBeat: 666_667 });
+    });
+
+    it('ends a note before the next one at the same tick starts', () => {
+        const file = MidiFile.parseMidi(MidiWriter.write([{ name: 'Lead', blocks: [block], channel: 2 }], tempoMap, signatureMap));
+        const notes = withTicks(file.tracks[1]).filter(e => e.type === 'noteOn' || e.type === 'noteOff');
+        expect(notes.slice(0, 3).map(e => [e.type, e.tick])).toEqual([
+            ['noteOn', 4 * 480],
+            ['noteOff', 5 * 480],
+            ['noteOn', 5 * 480],
+        ]);
+        // Velocity 0 would turn the note on into a note off
+        expect(notes[2]).toMatchObject({ channel: 2, velocity: 1 });
+    });
+
+    it('round-trips through the parser', async () => {
+        const data = MidiWriter.write([{ name: 'Lead', blocks: [block] }], tempoMap, signatureMap);
+        const result = await MidiParser.parse(data.slice().buffer);
+        expect(result.initialBpm).toBe(120);
+        expect(result.tempoChanges).toEqual([{ beat: 8, bpm: expect.closeTo(90, 3), curve: 'step' }]);
+        expect(result.timeSignatureChanges).toEqual([{ measure: 2, numerator: 6, denominator: 8 }]);
+        expect(result.parts[0].block).toMatchObject({ startBeat: 4, endBeat: 8 });
+        expect(result.parts[0].block.notes.map(n => [n.pitch, n.startBeat, n.duration])).toEqual([
+            [60, 0, 1],
+            [60, 1, 1],
+            [64, 2, 2],
+            [67, 2, 2],
+        ]);
+    });
+
+    it('writes a single block as a clip from beat 0', () => {
+        const file = MidiFile.parseMidi(MidiWriter.writeBlock(block, 'Clip', tempoMap, signatureMap));
+        const firstNote = withTicks(file.tracks[1]).find(e => e.type === 'noteOn');
+        expect(firstNote?.tick).toBe(0);
+    });
+});
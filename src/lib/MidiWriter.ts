@@ -0,0 +1,135 @@
+import * as MidiFile from 'midi-file';
+import { MIDIBlock } from './types';
+import TempoMap from './TempoMap';
+import TimeSignatureMap from './TimeSignatureMap';
+
+const TICKS_PER_BEAT = 480;
+const RAMP_STEP_BEATS = 0.25; // Linear tempo ramps are written as a staircase of tempo events this far apart
+const MIDI_CLOCKS_PER_QUARTER = 24;
+
+// One MIDI track in the exported file
+export interface MidiExportTrack {
+    name: string;
+    blocks: MIDIBlock[];
+    channel?: number; // 0-15, defaults to 0
+}
+
+// An event positioned in absolute ticks, before delta times are computed
+interface TimedEvent {
+    tick: number;
+    priority: number; // Orders events that share a tick (note offs before note ons)
+    event: MidiFile.MidiEvent;
+}
+
+export class MidiWriter {
+    /**
+     * Writes a format 1 MIDI file: a conductor track holding the tempo map and time
+     * signatures, followed by one track per entry in `tracks`. Block and note positions
+     * are kept in beats, so they line up with the project's bars in any DAW.
+     */
+    static write(tracks: MidiExportTrack[], tempoMap: TempoMap, timeSignatureMap: TimeSignatureMap, title?: string): Uint8Array {
+        const conductorEvents = [
+            ...(title ? [MidiWriter.at(0, 0, { deltaTime: 0, meta: true, type: 'trackName', text: title })] : []),
+            ...MidiWriter.buildTimeSignatureEvents(timeSignatureMap),
+            ...MidiWriter.buildTempoEvents(tempoMap),
+        ];
+
+        const midiData: MidiFile.MidiData = {
+            header: { format: 1, numTracks: tracks.length + 1, ticksPerBeat: TICKS_PER_BEAT },
+            tracks: [
+                MidiWriter.finishTrack(conductorEvents),
+                ...tracks.map(track => MidiWriter.finishTrack(MidiWriter.buildNoteTrackEvents(track))),
+            ],
+        };
+
+        return new Uint8Array(MidiFile.writeMidi(midiData));
+    }
+
+    /**
+     * Writes a single block as a clip starting at beat 0, using the tempo and time
+     * signature in effect where the block starts.
+     */
+    static writeBlock(block: MIDIBlock, name: string, tempoMap: TempoMap, timeSignatureMap: TimeSignatureMap): Uint8Array {
+        const clip: MIDIBlock = { ...block, startBeat: 0, endBeat: block.endBeat - block.startBeat };
+        return MidiWriter.write(
+            [{ name, blocks: [clip] }],
+            TempoMap.constant(tempoMap.getBPMAtBeat(block.startBeat)),
+            new TimeSignatureMap(timeSignatureMap.getSignatureAtBeat(block.startBeat)),
+        );
+    }
+
+    private static at(beat: number, priority: number, event: MidiFile.MidiEvent): TimedEvent {
+        return { tick: Math.max(0, Math.round(beat * TICKS_PER_BEAT)), priority, event };
+    }
+
+    private static buildTimeSignatureEvents(timeSignatureMap: TimeSignatureMap): TimedEvent[] {
+        const points = [{ measure: 0, ...timeSignatureMap.getInitialSignature() }, ...timeSignatureMap.getChanges()];
+        return points.map(point => MidiWriter.at(timeSignatureMap.getMeasureStartBeat(point.measure), 1, {
+            deltaTime: 0,
+            meta: true,
+            type: 'timeSignature',
+            numerator: point.numerator,
+            denominator: point.denominator,
+            metronome: MIDI_CLOCKS_PER_QUARTER * TimeSignatureMap.getBeatUnit(point),
+            thirtyseconds: 8,
+        }));
+    }
+
+    // MIDI only has instant tempo changes, so linear ramps are approximated with small steps
+    private static buildTempoEvents(tempoMap: TempoMap): TimedEvent[] {
+        const points = [{ beat: 0, bpm: tempoMap.getInitialBPM(), curve: 'step' as const }, ...tempoMap.getChanges()];
+        const events: TimedEvent[] = [];
+        const pushTempo = (beat: number, bpm: number) => events.push(MidiWriter.at(beat, 2, {
+            deltaTime: 0,
+            meta: true,
+            type: 'setTempo',
+            microsecondsPerBeat: Math.round(60_000_000 / bpm),
+        }));
+
+        points.forEach((point, i) => {
+            const next = points[i + 1];
+            if (point.curve !== 'linear' || !next) {
+                pushTempo(point.beat, point.bpm);
+                return;
+            }
+            for (let beat = point.beat; beat < next.beat; beat += RAMP_STEP_BEATS) {
+                // Tempo at the middle of each step keeps the total duration close to the ramp's
+                const stepEnd = Math.min(beat + RAMP_STEP_BEATS, next.beat);
+                pushTempo(beat, tempoMap.getBPMAtBeat((beat + stepEnd) / 2));
+            }
+        });
+        return events;
+    }
+
+    private static buildNoteTrackEvents(track: MidiExportTrack): TimedEvent[] {
+        const channel = track.channel ?? 0;
+        const events: TimedEvent[] = [MidiWriter.at(0, 0, { deltaTime: 0, meta: true, type: 'trackName', text: track.name })];
+
+        track.blocks.forEach(block => {
+            block.notes.forEach(note => {
+                if (note.duration <= 0) return;
+                // Note positions are relative to their block
+                const startBeat = block.startBeat + note.startBeat;
+                const noteNumber = Math.max(0, Math.min(127, Math.round(note.pitch)));
+                // A note on with velocity 0 would be read as a note off
+                const velocity = Math.max(1, Math.min(127, Math.round(note.velocity)));
+                events.push(MidiWriter.at(startBeat, 4, { deltaTime: 0, type: 'noteOn', channel, noteNumber, velocity }));
+                events.push(MidiWriter.at(startBeat + note.duration, 3, { deltaTime: 0, type: 'noteOff', channel, noteNumber, velocity: 0 }));
+            });
+        });
+        return events;
+    }
+
+    // Sorts events, converts absolute ticks to delta times and terminates the track
+    private static finishTrack(events: TimedEvent[]): MidiFile.MidiEvent[] {
+        const sorted = [...events].sort((a, b) => a.tick - b.tick || a.priority - b.priority);
+        let previousTick = 0;
+        const trackEvents = sorted.map(({ tick, event }) => {
+            const deltaTime = tick - previousTick;
+            previousTick = tick;
+            return { ...event, deltaTime };
+        });
+        trackEvents.push({ deltaTime: 0, meta: true, type: 'endOfTrack' });
+        return trackEvents;
+    }
+}
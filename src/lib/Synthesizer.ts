@@ -1,11 +1,55 @@
-import { MIDIBlock, VisualObject } from './types';
+import { MIDIBlock, VisualMaterialType, VisualObject, VisualObjectProperties } from './types';
 import { Property } from './properties/Property';
 import VisualObjectEngine from './VisualObjectEngine';
+import TempoMap from './TempoMap';
+import { DEFAULT_MATERIAL_TYPE, DEFAULT_METALNESS, DEFAULT_ROUGHNESS, VISUAL_MATERIAL_OPTIONS } from './VisualMaterials';
 
 abstract class Synthesizer {
-  // Map to store configurable properties
-  public properties: Map<string, Property<any>> = new Map();
+  // Map to store configurable properties, always including the shared material properties
+  private propertyMap: Map<string, Property<any>> = new Map();
   protected engine!: VisualObjectEngine; // Non-null assertion, initialized in subclass
+  // Song tempo map, set by VisualizerManager before rendering. When null, the bpm argument is treated as constant.
+  private tempoMap: TempoMap | null = null;
+
+  // Every synthesizer's objects can be shaded with any material
+  constructor() {
+    this.addMaterialProperties();
+  }
+
+  public get properties(): Map<string, Property<any>> {
+    return this.propertyMap;
+  }
+
+  // Subclasses may replace the whole map; the material properties are added to it
+  public set properties(properties: Map<string, Property<any>>) {
+    this.propertyMap = properties;
+    this.addMaterialProperties();
+  }
+
+  // Registers the shared material properties; properties already present are kept
+  private addMaterialProperties(): void {
+    if (!this.properties.has('material')) {
+      this.properties.set('material', new Property<VisualMaterialType>(
+        'material',
+        DEFAULT_MATERIAL_TYPE,
+        { label: 'Material', uiType: 'dropdown', options: VISUAL_MATERIAL_OPTIONS }
+      ));
+    }
+    if (!this.properties.has('metalness')) {
+      this.properties.set('metalness', new Property<number>(
+        'metalness',
+        DEFAULT_METALNESS,
+        { label: 'Metalness', uiType: 'slider', min: 0, max: 1, step: 0.01 }
+      ));
+    }
+    if (!this.properties.has('roughness')) {
+      this.properties.set('roughness', new Property<number>(
+        'roughness',
+        DEFAULT_ROUGHNESS,
+        { label: 'Roughness', uiType: 'slider', min: 0, max: 1, step: 0.01 }
+      ));
+    }
+  }
 
   // Abstract method for getting visual objects
   abstract getObjectsAtTime(time: number, midiBlocks: MIDIBlock[], bpm: number): VisualObject[];
@@ -23,6 +67,23 @@ abstract class Synthesizer {
     }
   }
   
+  public setTempoMap(tempoMap: TempoMap | null): void {
+    this.tempoMap = tempoMap;
+  }
+
+  public getTempoMap(): TempoMap | null {
+    return this.tempoMap;
+  }
+
+  // Shading for objects that do not set their own
+  public getMaterialSettings(): Required<Pick<VisualObjectProperties, 'material' | 'metalness' | 'roughness'>> {
+    return {
+      material: this.getPropertyValue<VisualMaterialType>('material') ?? DEFAULT_MATERIAL_TYPE,
+      metalness: this.getPropertyValue<number>('metalness') ?? DEFAULT_METALNESS,
+      roughness: this.getPropertyValue<number>('roughness') ?? DEFAULT_ROUGHNESS,
+    };
+  }
+
   // Helper to get a property value safely
   protected getPropertyValue<T>(name: string): T | undefined {
     const property = this.properties.get(name) as Property<T> | undefined;
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { AudioAnalysis, FRAME_RATE } from './AudioAnalysis';
+import { detectTempo } from './TempoDetection';
+
+const noFrames = { rms: new Float32Array(0), low: new Float32Array(0), mid: new Float32Array(0), high: new Float32Array(0) };
+
+// Analysis of audio with an attack every `period` seconds from `firstBeat` on
+const analysisWithBeats = (bpm: number, firstBeat: number, duration: number, offbeatStrength = 0) => {
+    const period = 60 / bpm;
+    const onsets = [];
+    for (let time = firstBeat; time < duration; time += period) {
+        onsets.push({ time: Math.round(time * FRAME_RATE) / FRAME_RATE, strength: 1 });
+        if (offbeatStrength > 0 && time + period / 2 < duration) {
+            onsets.push({ time: Math.round((time + period / 2) * FRAME_RATE) / FRAME_RATE, strength: offbeatStrength });
+        }
+    }
+    return new AudioAnalysis(FRAME_RATE, duration, noFrames, onsets);
+};
+
+describe('detectTempo', () => {
+    it('finds the tempo and the first beat of a steady pulse', () => {
+        const estimate = detectTempo(analysisWithBeats(120, 0.25, 20));
+        expect(estimate?.bpm).toBeCloseTo(120, 0);
+        expect(estimate?.firstBeatTime).toBeCloseTo(0.25, 1);
+        expect(estimate?.confidence).toBeGreaterThan(0);
+    });
+
+    it('finds tempos away from 120 BPM', () => {
+        expect(detectTempo(analysisWithBeats(90, 0.1, 20))?.bpm).toBeCloseTo(90, 0);
+        expect(detectTempo(analysisWithBeats(150, 0, 20))?.bpm).toBeCloseTo(150, 0);
+    });
+
+    it('counts quieter offbeats as part of the beat, not as a double tempo', () => {
+        expect(detectTempo(analysisWithBeats(100, 0, 20, 0.3))?.bpm).toBeCloseTo(100, 0);
+    });
+
+    it('gives up on audio with too few attacks', () => {
+        expect(detectTempo(analysisWithBeats(120, 0, 3))).toBeNull();
+    });
+});
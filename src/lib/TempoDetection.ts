@@ -0,0 +1,89 @@
+import type { AudioAnalysis } from './AudioAnalysis';
+
+// Estimates the tempo of the loaded audio from its onsets. The onsets are spread into a
+// pulse train, whose autocorrelation peaks at the beat period; a preference for tempos
+// around 120 BPM settles which of the related periods (half, double) is the beat.
+// The phase of the beat grid that lines up with the most onsets gives the first beat.
+
+const MIN_DETECTED_BPM = 60;
+const MAX_DETECTED_BPM = 200;
+const PREFERRED_BPM = 120;
+const TEMPO_PREFERENCE_WIDTH = 1; // Octaves; how quickly the preference falls off around PREFERRED_BPM
+const PULSE_WIDTH_FRAMES = 2; // Standard deviation of the pulse each onset becomes
+
+export interface TempoEstimate {
+  bpm: number; // Rounded to 0.1
+  firstBeatTime: number; // Seconds into the audio of the first beat of the grid
+  confidence: number; // 0-1, how much the winning period stands out
+}
+
+// Each onset becomes a small Gaussian pulse weighted by its strength
+const buildPulseTrain = (analysis: AudioAnalysis): Float32Array => {
+  const frameCount = Math.ceil(analysis.duration * analysis.frameRate) + 1;
+  const pulses = new Float32Array(frameCount);
+  const reach = PULSE_WIDTH_FRAMES * 3;
+  for (const onset of analysis.onsets) {
+    const center = onset.time * analysis.frameRate;
+    for (let frame = Math.max(0, Math.floor(center - reach)); frame <= Math.min(frameCount - 1, Math.ceil(center + reach)); frame++) {
+      const distance = (frame - center) / PULSE_WIDTH_FRAMES;
+      pulses[frame] += onset.strength * Math.exp(-0.5 * distance * distance);
+    }
+  }
+  return pulses;
+};
+
+const autocorrelate = (values: Float32Array, lag: number): number => {
+  let sum = 0;
+  for (let i = 0; i + lag < values.length; i++) sum += values[i] * values[i + lag];
+  return sum / Math.max(1, values.length - lag);
+};
+
+/**
+ * Proposes a tempo and beat grid for analyzed audio.
+ * @returns The estimate, or null when the audio has too few onsets to tell.
+ */
+export const detectTempo = (analysis: AudioAnalysis): TempoEstimate | null => {
+  if (analysis.onsets.length < 8) return null;
+  const pulses = buildPulseTrain(analysis);
+  const frameRate = analysis.frameRate;
+
+  const minLag = Math.floor((60 / MAX_DETECTED_BPM) * frameRate);
+  const maxLag = Math.ceil((60 / MIN_DETECTED_BPM) * frameRate);
+  const scores = new Float32Array(maxLag + 2);
+  let bestLag = -1;
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    const bpm = (60 * frameRate) / lag;
+    const octavesFromPreferred = Math.log2(bpm / PREFERRED_BPM) / TEMPO_PREFERENCE_WIDTH;
+    scores[lag] = autocorrelate(pulses, lag) * Math.exp(-0.5 * octavesFromPreferred * octavesFromPreferred);
+    if (lag >= minLag && lag <= maxLag && (bestLag < 0 || scores[lag] > scores[bestLag])) bestLag = lag;
+  }
+  if (bestLag < 0 || scores[bestLag] <= 0) return null;
+
+  // Parabolic interpolation for a period between whole frames
+  const previous = scores[bestLag - 1];
+  const next = scores[bestLag + 1];
+  const curvature = previous + next - 2 * scores[bestLag];
+  const period = curvature < 0 ? bestLag + (previous - next) / (2 * curvature) : bestLag;
+
+  // The phase whose beats land on the most pulse energy
+  let bestPhase = 0;
+  let bestPhaseScore = -1;
+  for (let phase = 0; phase < period; phase++) {
+    let score = 0;
+    for (let position = phase; position < pulses.length; position += period) score += pulses[Math.round(position)] ?? 0;
+    if (score > bestPhaseScore) {
+      bestPhaseScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  let meanScore = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) meanScore += scores[lag];
+  meanScore /= maxLag - minLag + 1;
+
+  return {
+    bpm: Math.round((600 * frameRate) / period) / 10,
+    firstBeatTime: bestPhase / frameRate,
+    confidence: Math.max(0, Math.min(1, 1 - meanScore / scores[bestLag])),
+  };
+};
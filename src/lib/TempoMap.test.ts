@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import TempoMap from './TempoMap';
+
+describe('TempoMap', () => {
+    it('converts at a constant tempo', () => {
+        const map = TempoMap.constant(120);
+        expect(map.beatToTime(4)).toBeCloseTo(2);
+        expect(map.timeToBeat(3)).toBeCloseTo(6);
+    });
+
+    it('applies step changes from their beat onwards', () => {
+        const map = new TempoMap(120, [{ beat: 4, bpm: 60 }]);
+        expect(map.getBPMAtBeat(3.9)).toBe(120);
+        expect(map.getBPMAtBeat(4)).toBe(60);
+        // 4 beats at 120 BPM, then 2 beats at 60 BPM
+        expect(map.beatToTime(6)).toBeCloseTo(4);
+        expect(map.timeToBeat(4)).toBeCloseTo(6);
+    });
+
+    it('ramps linearly to the next change and round-trips beats through time', () => {
+        const map = new TempoMap(120, [
+            { beat: 4, bpm: 120, curve: 'linear' },
+            { beat: 12, bpm: 60 },
+        ]);
+        expect(map.getBPMAtBeat(8)).toBeCloseTo(90);
+        // The ramp takes longer than 8 beats at 120 BPM and less than 8 beats at 60 BPM
+        const rampSeconds = map.beatToTime(12) - map.beatToTime(4);
+        expect(rampSeconds).toBeGreaterThan(4);
+        expect(rampSeconds).toBeLessThan(8);
+
+        for (const beat of [0, 2, 4, 5.5, 8, 11.75, 12, 20]) {
+            expect(map.timeToBeat(map.beatToTime(beat))).toBeCloseTo(beat, 6);
+        }
+    });
+
+    it('drops invalid changes and keeps the last change per beat', () => {
+        const changes = TempoMap.normalizeChanges([
+            { beat: 8, bpm: 100 },
+            { beat: 0, bpm: 90 },
+            { beat: 4, bpm: Number.NaN },
+            { beat: 8, bpm: 140 },
+            { beat: 2, bpm: 80 },
+        ]);
+        expect(changes).toEqual([
+            { beat: 2, bpm: 80, curve: 'step' },
+            { beat: 8, bpm: 140, curve: 'step' },
+        ]);
+    });
+});
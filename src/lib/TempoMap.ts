@@ -0,0 +1,136 @@
+import { TempoChange } from './types';
+
+// A tempo segment with its start time precomputed so lookups don't re-integrate the whole map
+interface TempoSegment {
+  beat: number; // Beat where this segment starts
+  bpm: number; // Tempo at the start of the segment
+  endBpm: number; // Tempo at the end of the segment (differs from bpm only for linear ramps)
+  time: number; // Time in seconds where this segment starts
+}
+
+const MIN_BPM = 1;
+const DEFAULT_BPM = 120;
+
+// Converts between beats and seconds for a song whose tempo changes over time.
+// The initial tempo applies from beat 0 until the first change. A change with a
+// 'linear' curve ramps the tempo from its own BPM to the next change's BPM (e.g. a ritardando).
+class TempoMap {
+  private initialBpm: number;
+  private changes: TempoChange[];
+  private segments: TempoSegment[] = [];
+
+  constructor(initialBpm: number, changes: TempoChange[] = []) {
+    this.initialBpm = Number.isFinite(initialBpm) ? Math.max(MIN_BPM, initialBpm) : DEFAULT_BPM;
+    this.changes = TempoMap.normalizeChanges(changes);
+    this.buildSegments();
+  }
+
+  // Tempo map with a single fixed tempo
+  static constant(bpm: number): TempoMap {
+    return new TempoMap(bpm);
+  }
+
+  // Sort changes, drop invalid ones and keep only the last change per beat
+  static normalizeChanges(changes: TempoChange[]): TempoChange[] {
+    const byBeat = new Map<number, TempoChange>();
+    changes
+      .filter(c => Number.isFinite(c.beat) && c.beat > 0 && Number.isFinite(c.bpm) && c.bpm >= MIN_BPM)
+      .forEach(c => byBeat.set(c.beat, { beat: c.beat, bpm: c.bpm, curve: c.curve ?? 'step' }));
+    return Array.from(byBeat.values()).sort((a, b) => a.beat - b.beat);
+  }
+
+  getInitialBPM(): number {
+    return this.initialBpm;
+  }
+
+  getChanges(): TempoChange[] {
+    return this.changes;
+  }
+
+  hasTempoChanges(): boolean {
+    return this.changes.length > 0;
+  }
+
+  // Tempo (BPM) in effect at the given beat
+  getBPMAtBeat(beat: number): number {
+    const index = this.findSegmentIndexByBeat(beat);
+    const segment = this.segments[index];
+    const slope = this.getSegmentSlope(index);
+    if (slope === 0) return segment.bpm;
+    const nextSegment = this.segments[index + 1];
+    const clampedBeat = Math.max(segment.beat, Math.min(nextSegment.beat, beat));
+    return segment.bpm + slope * (clampedBeat - segment.beat);
+  }
+
+  // Convert a beat number to time in seconds
+  beatToTime(beat: number): number {
+    const index = this.findSegmentIndexByBeat(beat);
+    const segment = this.segments[index];
+    return segment.time + this.secondsWithinSegment(index, beat - segment.beat);
+  }
+
+  // Convert time in seconds to a beat number
+  timeToBeat(time: number): number {
+    const index = this.findSegmentIndexByTime(time);
+    const segment = this.segments[index];
+    const elapsed = time - segment.time;
+    const slope = this.getSegmentSlope(index);
+
+    if (slope === 0) {
+      return segment.beat + elapsed * (segment.bpm / 60);
+    }
+    // Inverse of secondsWithinSegment for a linear ramp
+    return segment.beat + (segment.bpm / slope) * (Math.exp((slope * elapsed) / 60) - 1);
+  }
+
+  private buildSegments(): void {
+    const points = [{ beat: 0, bpm: this.initialBpm, curve: 'step' as const }, ...this.changes];
+    this.segments = points.map((point, i) => {
+      const next = points[i + 1];
+      const endBpm = next && point.curve === 'linear' ? next.bpm : point.bpm;
+      return { beat: point.beat, bpm: point.bpm, endBpm, time: 0 };
+    });
+    // Start times depend on every previous segment, so fill them in once all segments exist
+    for (let i = 1; i < this.segments.length; i++) {
+      const previous = this.segments[i - 1];
+      this.segments[i].time = previous.time + this.secondsWithinSegment(i - 1, this.segments[i].beat - previous.beat);
+    }
+  }
+
+  // Rate of tempo change in BPM per beat (0 for a constant segment)
+  private getSegmentSlope(index: number): number {
+    const segment = this.segments[index];
+    const next = this.segments[index + 1];
+    if (!next || segment.bpm === segment.endBpm) return 0;
+    return (segment.endBpm - segment.bpm) / (next.beat - segment.beat);
+  }
+
+  // Seconds elapsed after `beats` beats into the segment
+  private secondsWithinSegment(index: number, beats: number): number {
+    const segment = this.segments[index];
+    const slope = this.getSegmentSlope(index);
+    if (slope === 0) {
+      return beats * (60 / segment.bpm);
+    }
+    // Integral of 60 / (bpm + slope * b) db
+    return (60 / slope) * Math.log((segment.bpm + slope * beats) / segment.bpm);
+  }
+
+  private findSegmentIndexByBeat(beat: number): number {
+    let index = 0;
+    while (index + 1 < this.segments.length && this.segments[index + 1].beat <= beat) {
+      index++;
+    }
+    return index;
+  }
+
+  private findSegmentIndexByTime(time: number): number {
+    let index = 0;
+    while (index + 1 < this.segments.length && this.segments[index + 1].time <= time) {
+      index++;
+    }
+    return index;
+  }
+}
+
+export default TempoMap;
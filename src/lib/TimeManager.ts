@@ -1,14 +1,36 @@
-// Updated TimeManager with proper state management and animation frame handling
+import TempoMap from './TempoMap';
+import { TempoChange } from './types';
+
+// Audio started by the transport begins this far ahead, so every node can be scheduled for the same instant
+export const PLAYBACK_START_LEAD = 0.05;
+const MAX_CLOCK_DRIFT = 0.1; // Seconds the smoothed audio clock may be off before it jumps (tab throttling, device changes)
+const CLOCK_DRIFT_CORRECTION = 0.1; // Share of the drift corrected per reading below that
+
+// Where playback was last (re)started: timeline seconds and the clock reading they play at
+interface PlaybackAnchor {
+  time: number;
+  clockTime: number;
+  usesAudioClock: boolean;
+}
+
+// The transport: the current position on the timeline, and the one place the rest of the
+// app reads it from. While playing, the position is derived from a clock rather than
+// accumulated per frame, so it can't drift from the audio or jitter after throttled frames.
+// With an AudioContext the clock is the audio hardware's (smoothed between its block-sized
+// steps, and delayed by the output latency so visuals match what is heard); without one
+// it's the performance clock.
 class TimeManager {
-  private bpm: number = 120;
+  private tempoMap: TempoMap;
   private isPlaying: boolean = false;
-  private currentBeat: number = 0;
-  private lastUpdateTime: number | null = null;
+  private currentBeat: number = 0; // Position while stopped; while playing, see getCurrentBeat
+  private anchor: PlaybackAnchor | null = null;
+  private audioContext: AudioContext | null = null;
+  private audioClock: { contextTime: number; performanceTime: number } | null = null; // Smoothed context time at a performance time
   private animationFrameId: number | null = null;
   private onUpdateCallbacks: ((beat: number) => void)[] = [];
 
   constructor(initialBpm: number = 120) {
-    this.bpm = initialBpm;
+    this.tempoMap = new TempoMap(initialBpm);
   }
 
   // Register a callback to be called when the beat updates
@@ -19,70 +41,165 @@ class TimeManager {
     };
   }
 
+  // The context the audio plays through; its clock drives playback while it runs
+  setAudioContext(context: AudioContext | null): void {
+    if (context === this.audioContext) return;
+    const beat = this.getCurrentBeat();
+    this.audioContext = context;
+    this.audioClock = null;
+    if (this.isPlaying) this.anchorAt(beat, 0);
+  }
+
+  // Initial tempo of the song (the tempo at beat 0)
   getBPM(): number {
-    return this.bpm;
+    return this.tempoMap.getInitialBPM();
   }
 
   setBPM(bpm: number): void {
-    this.bpm = bpm;
+    this.setTempoMap(new TempoMap(bpm, this.tempoMap.getChanges()));
   }
 
-  getCurrentBeat(): number {
-    return this.currentBeat;
+  getTempoMap(): TempoMap {
+    return this.tempoMap;
+  }
+
+  setTempoChanges(changes: TempoChange[]): void {
+    this.setTempoMap(new TempoMap(this.tempoMap.getInitialBPM(), changes));
+  }
+
+  // Tempo in effect at the given beat (defaults to the current beat)
+  getBPMAtBeat(beat: number = this.getCurrentBeat()): number {
+    return this.tempoMap.getBPMAtBeat(beat);
   }
 
-  play(): void {
-    if (this.isPlaying) return;
-    
-    this.isPlaying = true;
-    this.lastUpdateTime = performance.now();
-    this.startAnimationLoop();
+  // The beat being heard right now
+  getCurrentBeat(): number {
+    if (!this.isPlaying || !this.anchor) return this.currentBeat;
+    return this.timeToBeat(this.anchor.time + Math.max(0, this.readClock(this.anchor.usesAudioClock) - this.anchor.clockTime));
+  }
+
+  /**
+   * Starts playback from the current beat.
+   * @param countIn Extra seconds to wait before the current beat plays (a count-in); the position holds until then.
+   * @returns The context time the current beat plays at, for scheduling audio; null without an audio clock.
+   */
+  play(countIn: number = 0): number | null {
+    if (!this.isPlaying) {
+      this.isPlaying = true;
+      // The clock only advances once the context runs; play is called from a user gesture, so resuming succeeds
+      if (this.audioContext?.state === 'suspended') {
+        this.audioContext.resume().catch(err => console.error("TimeManager: Failed to resume AudioContext:", err));
+      }
+      this.anchorAt(this.currentBeat, PLAYBACK_START_LEAD + Math.max(0, countIn));
+      this.startAnimationLoop();
+    }
+    return this.getAudioSchedule().when ?? null;
   }
 
   pause(): void {
+    this.currentBeat = this.getCurrentBeat();
     this.isPlaying = false;
+    this.anchor = null;
     this.stopAnimationLoop();
   }
 
   stop(): void {
-    this.isPlaying = false;
-    this.stopAnimationLoop();
+    this.pause();
     this.seekTo(0);
   }
 
+  // Moves to a beat. While playing, the new position plays after the start lead, like play().
   seekTo(beat: number): void {
     this.currentBeat = beat;
+    if (this.isPlaying) this.anchorAt(beat, PLAYBACK_START_LEAD);
     this.notifyUpdateCallbacks();
   }
 
+  // Moves to a position in timeline seconds (e.g. an export frame)
+  seekToTime(time: number): void {
+    this.seekTo(this.timeToBeat(time));
+  }
+
   isPlaybackActive(): boolean {
     return this.isPlaying;
   }
 
+  /**
+   * Where audio started now should begin to stay in line with the transport: the timeline
+   * time (seconds) and the context time it plays at. `when` is undefined without an audio
+   * clock, in which case the audio starts as soon as it can.
+   */
+  getAudioSchedule(): { time: number; when?: number } {
+    if (!this.isPlaying || !this.anchor || !this.anchor.usesAudioClock || !this.audioContext) {
+      return { time: this.getCurrentTime() };
+    }
+    const when = Math.max(this.audioContext.currentTime + PLAYBACK_START_LEAD, this.anchor.clockTime);
+    return { time: this.anchor.time + when - this.anchor.clockTime, when };
+  }
+
+  // Swaps the tempo map without moving the beat being played
+  private setTempoMap(tempoMap: TempoMap): void {
+    const beat = this.getCurrentBeat();
+    this.tempoMap = tempoMap;
+    if (this.isPlaying) this.anchorAt(beat, 0);
+  }
+
+  // Restarts the clock reading at `beat`, `lead` seconds from now. With a lead, audio
+  // scheduled for the anchor starts exactly at `beat`; without one, the position carries
+  // on from what is being heard.
+  private anchorAt(beat: number, lead: number): void {
+    const usesAudioClock = this.isAudioClockAvailable();
+    const clockTime = lead > 0 && usesAudioClock && this.audioContext
+      ? this.audioContext.currentTime + lead
+      : this.readClock(usesAudioClock) + lead;
+    this.anchor = { time: this.beatToTime(beat), clockTime, usesAudioClock };
+  }
+
+  // A suspended context counts: play() resumes it, and the transport waits for the audio
+  private isAudioClockAvailable(): boolean {
+    const state = this.audioContext?.state;
+    return state === 'running' || state === 'suspended';
+  }
+
+  // Seconds on the chosen clock. The audio clock reads the context time being heard, so it
+  // compares directly with the context times audio was scheduled at.
+  private readClock(useAudioClock: boolean): number {
+    const now = performance.now();
+    if (!useAudioClock || !this.audioContext) return now / 1000;
+
+    const context = this.audioContext;
+    // currentTime moves in steps of one render block; extrapolate between them and pull
+    // the estimate towards each new reading, jumping only when it is far off
+    const measured = context.currentTime;
+    if (context.state !== 'running' || !this.audioClock) {
+      this.audioClock = { contextTime: measured, performanceTime: now };
+    } else {
+      const predicted = this.audioClock.contextTime + (now - this.audioClock.performanceTime) / 1000;
+      const drift = measured - predicted;
+      const contextTime = Math.abs(drift) > MAX_CLOCK_DRIFT ? measured : predicted + drift * CLOCK_DRIFT_CORRECTION;
+      this.audioClock = { contextTime, performanceTime: now };
+    }
+    const latency = (context.outputLatency || 0) + (context.baseLatency || 0);
+    return this.audioClock.contextTime - latency;
+  }
+
   // Initialize animation loop for timing updates
   private startAnimationLoop(): void {
     if (this.animationFrameId !== null) return;
-    
-    const updateLoop = (timestamp: number) => {
-      if (!this.isPlaying || this.lastUpdateTime === null) {
-        this.lastUpdateTime = timestamp;
-        this.animationFrameId = requestAnimationFrame(updateLoop);
+
+    const updateLoop = () => {
+      if (!this.isPlaying) {
+        this.animationFrameId = null;
         return;
       }
-
-      const elapsed = (timestamp - this.lastUpdateTime) / 1000; // Convert to seconds
-      this.lastUpdateTime = timestamp;
-      
-      // Calculate beat increment based on elapsed time and BPM
-      // BPM = beats per minute, so divide by 60 to get beats per second
-      const beatIncrement = (this.bpm / 60) * elapsed;
-      this.currentBeat += beatIncrement;
-      
+      // A context that stopped or started running since the last anchor switches clocks in place
+      if (this.anchor && this.anchor.usesAudioClock !== this.isAudioClockAvailable()) {
+        this.anchorAt(this.getCurrentBeat(), 0);
+      }
       this.notifyUpdateCallbacks();
-      
       this.animationFrameId = requestAnimationFrame(updateLoop);
     };
-    
+
     this.animationFrameId = requestAnimationFrame(updateLoop);
   }
 
@@ -96,29 +213,27 @@ class TimeManager {
 
   // Notify all registered callbacks of the current beat
   private notifyUpdateCallbacks(): void {
+    const beat = this.getCurrentBeat();
     for (const callback of this.onUpdateCallbacks) {
-      callback(this.currentBeat);
+      callback(beat);
     }
   }
 
-  // Convert a beat number to time in seconds based on current BPM
+  // Convert a beat number to time in seconds using the tempo map
   public beatToTime(beat: number): number {
-      if (this.bpm <= 0) return 0; // Avoid division by zero or negative BPM
-      const secondsPerBeat = 60.0 / this.bpm;
-      return beat * secondsPerBeat;
+      return this.tempoMap.beatToTime(beat);
   }
 
-  // Convert time in seconds to a beat number based on current BPM
+  // Convert time in seconds to a beat number using the tempo map
   public timeToBeat(time: number): number {
-      if (this.bpm <= 0 || time <= 0) return 0;
-      const beatsPerSecond = this.bpm / 60.0;
-      return time * beatsPerSecond;
+      if (time <= 0) return 0;
+      return this.tempoMap.timeToBeat(time);
   }
 
   // Get the current time in seconds
   public getCurrentTime(): number {
-      return this.beatToTime(this.currentBeat);
+      return this.beatToTime(this.getCurrentBeat());
   }
 }
 
-export default TimeManager; 
\ No newline at end of file
+export default TimeManager;
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import TimeSignatureMap from './TimeSignatureMap';
+
+describe('TimeSignatureMap', () => {
+    // Two bars of 4/4, two of 7/8, then 3/4
+    const map = new TimeSignatureMap({ numerator: 4, denominator: 4 }, [
+        { measure: 2, numerator: 7, denominator: 8 },
+        { measure: 4, numerator: 3, denominator: 4 },
+    ]);
+
+    it('finds where measures start across signature changes', () => {
+        expect(map.getMeasureStartBeat(1)).toBe(4);
+        expect(map.getMeasureStartBeat(2)).toBe(8);
+        expect(map.getMeasureStartBeat(3)).toBe(11.5);
+        expect(map.getMeasureStartBeat(4)).toBe(15);
+        expect(map.getMeasureStartBeat(6)).toBe(21);
+        expect(map.getTotalBeats(6)).toBe(21);
+    });
+
+    it('finds the measure and signature at a beat', () => {
+        expect(map.getMeasureAtBeat(7.99)).toBe(1);
+        expect(map.getMeasureAtBeat(8)).toBe(2);
+        expect(map.getMeasureAtBeat(11.5)).toBe(3);
+        expect(map.getMeasureAtBeat(18)).toBe(5);
+        expect(map.getSignatureAtBeat(10)).toEqual({ numerator: 7, denominator: 8 });
+        expect(map.getSignatureAtMeasure(5)).toEqual({ numerator: 3, denominator: 4 });
+        expect(map.getMeasureCountForBeats(11.5)).toBe(3);
+        expect(map.getMeasureCountForBeats(11.6)).toBe(4);
+    });
+
+    it('lays out and snaps to the beats of each signature', () => {
+        const grid = map.getBeatGrid(3);
+        // 4 + 4 + 7 beats, then the closing downbeat
+        expect(grid).toHaveLength(16);
+        expect(grid[8]).toEqual({ beat: 8, measure: 2, beatInMeasure: 0, beatLength: 0.5 });
+        expect(grid[15]).toEqual({ beat: 11.5, measure: 3, beatInMeasure: 0, beatLength: 0.5 });
+        expect(map.snapToSignatureBeat(8.7)).toBe(8.5);
+        expect(map.snapToSignatureBeat(11.4)).toBe(11.5);
+    });
+
+    it('falls back to 4/4 and drops invalid changes', () => {
+        const fallback = new TimeSignatureMap({ numerator: 0, denominator: 3 }, [
+            { measure: 0, numerator: 3, denominator: 4 },
+            { measure: 2, numerator: 5, denominator: 6 },
+        ]);
+        expect(fallback.getInitialSignature()).toEqual({ numerator: 4, denominator: 4 });
+        expect(fallback.getChanges()).toEqual([]);
+        expect(TimeSignatureMap.parse(' 7 / 8 ')).toEqual({ numerator: 7, denominator: 8 });
+        expect(TimeSignatureMap.parse('7/9')).toBeNull();
+    });
+});
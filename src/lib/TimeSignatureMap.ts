@@ -0,0 +1,202 @@
+import { TimeSignature, TimeSignatureChange } from './types';
+
+// A run of measures sharing one time signature, with its start beat precomputed
+interface SignatureSegment {
+  measure: number; // First measure (0-based) of the segment
+  beat: number; // Beat where the segment starts
+  signature: TimeSignature;
+}
+
+// One beat of the time signature, as laid out on the timeline
+export interface SignatureBeat {
+  beat: number; // Position in quarter-note beats
+  measure: number; // 0-based measure index
+  beatInMeasure: number; // 0-based beat index within the measure
+  beatLength: number; // Length of this beat in quarter-note beats
+}
+
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = { numerator: 4, denominator: 4 };
+const VALID_DENOMINATORS = [1, 2, 4, 8, 16, 32];
+
+// Maps between measures and beats for a song whose time signature can change at any bar.
+// Beats throughout the app are quarter notes, so a 7/8 measure is 3.5 beats long.
+class TimeSignatureMap {
+  private initialSignature: TimeSignature;
+  private changes: TimeSignatureChange[];
+  private segments: SignatureSegment[] = [];
+
+  constructor(initialSignature: TimeSignature = DEFAULT_TIME_SIGNATURE, changes: TimeSignatureChange[] = []) {
+    this.initialSignature = TimeSignatureMap.isValidSignature(initialSignature)
+      ? { numerator: initialSignature.numerator, denominator: initialSignature.denominator }
+      : DEFAULT_TIME_SIGNATURE;
+    this.changes = TimeSignatureMap.normalizeChanges(changes);
+    this.buildSegments();
+  }
+
+  static isValidSignature(signature: TimeSignature | null | undefined): signature is TimeSignature {
+    return !!signature
+      && Number.isInteger(signature.numerator) && signature.numerator >= 1
+      && VALID_DENOMINATORS.includes(signature.denominator);
+  }
+
+  // Sort changes, drop invalid ones and keep only the last change per measure
+  static normalizeChanges(changes: TimeSignatureChange[]): TimeSignatureChange[] {
+    const byMeasure = new Map<number, TimeSignatureChange>();
+    changes
+      .filter(c => Number.isInteger(c.measure) && c.measure > 0 && TimeSignatureMap.isValidSignature(c))
+      .forEach(c => byMeasure.set(c.measure, { measure: c.measure, numerator: c.numerator, denominator: c.denominator }));
+    return Array.from(byMeasure.values()).sort((a, b) => a.measure - b.measure);
+  }
+
+  // Parses "7/8"-style input, returning null if it isn't a valid signature
+  static parse(text: string): TimeSignature | null {
+    const match = text.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+    if (!match) return null;
+    const signature = { numerator: parseInt(match[1], 10), denominator: parseInt(match[2], 10) };
+    return TimeSignatureMap.isValidSignature(signature) ? signature : null;
+  }
+
+  static format(signature: TimeSignature): string {
+    return `${signature.numerator}/${signature.denominator}`;
+  }
+
+  // Length of one beat of the signature, in quarter-note beats
+  static getBeatUnit(signature: TimeSignature): number {
+    return 4 / signature.denominator;
+  }
+
+  // Length of one measure of the signature, in quarter-note beats
+  static getMeasureLength(signature: TimeSignature): number {
+    return signature.numerator * TimeSignatureMap.getBeatUnit(signature);
+  }
+
+  getInitialSignature(): TimeSignature {
+    return this.initialSignature;
+  }
+
+  getChanges(): TimeSignatureChange[] {
+    return this.changes;
+  }
+
+  // Time signature in effect for the given measure (0-based)
+  getSignatureAtMeasure(measure: number): TimeSignature {
+    return this.segments[this.findSegmentIndexByMeasure(measure)].signature;
+  }
+
+  getSignatureAtBeat(beat: number): TimeSignature {
+    return this.segments[this.findSegmentIndexByBeat(beat)].signature;
+  }
+
+  // Beat where the given measure (0-based) starts
+  getMeasureStartBeat(measure: number): number {
+    const segment = this.segments[this.findSegmentIndexByMeasure(measure)];
+    return segment.beat + (measure - segment.measure) * TimeSignatureMap.getMeasureLength(segment.signature);
+  }
+
+  // Index (0-based) of the measure containing the given beat
+  getMeasureAtBeat(beat: number): number {
+    const segment = this.segments[this.findSegmentIndexByBeat(beat)];
+    const measureLength = TimeSignatureMap.getMeasureLength(segment.signature);
+    return segment.measure + Math.floor(Math.max(0, beat - segment.beat) / measureLength + 1e-9);
+  }
+
+  // Total length in beats of the first `numMeasures` measures
+  getTotalBeats(numMeasures: number): number {
+    return this.getMeasureStartBeat(numMeasures);
+  }
+
+  // Smallest number of whole measures that contains `beats` beats
+  getMeasureCountForBeats(beats: number): number {
+    if (beats <= 0) return 0;
+    const measure = this.getMeasureAtBeat(beats);
+    return this.getMeasureStartBeat(measure) >= beats - 1e-9 ? measure : measure + 1;
+  }
+
+  // Snaps a beat to the nearest beat of the time signature (e.g. eighth notes in 7/8)
+  snapToSignatureBeat(beat: number): number {
+    const measure = this.getMeasureAtBeat(beat);
+    const measureStart = this.getMeasureStartBeat(measure);
+    const signature = this.getSignatureAtMeasure(measure);
+    const unit = TimeSignatureMap.getBeatUnit(signature);
+    const measureLength = TimeSignatureMap.getMeasureLength(signature);
+    const snapped = Math.round((beat - measureStart) / unit) * unit;
+    // Snapping to the end of the measure lands on the next measure's downbeat
+    return measureStart + Math.min(snapped, measureLength);
+  }
+
+  // The first signature beat at or after the given beat
+  getNextSignatureBeat(beat: number): SignatureBeat {
+    const measure = this.getMeasureAtBeat(beat);
+    const measureStart = this.getMeasureStartBeat(measure);
+    const signature = this.getSignatureAtMeasure(measure);
+    const beatLength = TimeSignatureMap.getBeatUnit(signature);
+    const beatInMeasure = Math.max(0, Math.ceil((beat - measureStart) / beatLength - 1e-6));
+    if (beatInMeasure < signature.numerator) {
+      return { beat: measureStart + beatInMeasure * beatLength, measure, beatInMeasure, beatLength };
+    }
+    // Past the last beat of the measure: the next downbeat
+    const nextSignature = this.getSignatureAtMeasure(measure + 1);
+    return {
+      beat: this.getMeasureStartBeat(measure + 1),
+      measure: measure + 1,
+      beatInMeasure: 0,
+      beatLength: TimeSignatureMap.getBeatUnit(nextSignature),
+    };
+  }
+
+  // Every signature beat in the first `numMeasures` measures, followed by the closing downbeat
+  getBeatGrid(numMeasures: number): SignatureBeat[] {
+    const grid: SignatureBeat[] = [];
+    for (let measure = 0; measure < numMeasures; measure++) {
+      const measureStart = this.getMeasureStartBeat(measure);
+      const signature = this.getSignatureAtMeasure(measure);
+      const beatLength = TimeSignatureMap.getBeatUnit(signature);
+      for (let i = 0; i < signature.numerator; i++) {
+        grid.push({ beat: measureStart + i * beatLength, measure, beatInMeasure: i, beatLength });
+      }
+    }
+    const closingSignature = this.getSignatureAtMeasure(numMeasures);
+    grid.push({
+      beat: this.getMeasureStartBeat(numMeasures),
+      measure: numMeasures,
+      beatInMeasure: 0,
+      beatLength: TimeSignatureMap.getBeatUnit(closingSignature),
+    });
+    return grid;
+  }
+
+  private buildSegments(): void {
+    const points: TimeSignatureChange[] = [{ measure: 0, ...this.initialSignature }, ...this.changes];
+    this.segments = [];
+    let beat = 0;
+    points.forEach((point, i) => {
+      if (i > 0) {
+        const previous = this.segments[i - 1];
+        beat += (point.measure - previous.measure) * TimeSignatureMap.getMeasureLength(previous.signature);
+      }
+      this.segments.push({
+        measure: point.measure,
+        beat,
+        signature: { numerator: point.numerator, denominator: point.denominator },
+      });
+    });
+  }
+
+  private findSegmentIndexByMeasure(measure: number): number {
+    let index = 0;
+    while (index + 1 < this.segments.length && this.segments[index + 1].measure <= measure) {
+      index++;
+    }
+    return index;
+  }
+
+  private findSegmentIndexByBeat(beat: number): number {
+    let index = 0;
+    while (index + 1 < this.segments.length && this.segments[index + 1].beat <= beat + 1e-9) {
+      index++;
+    }
+    return index;
+  }
+}
+
+export default TimeSignatureMap;
@@ -0,0 +1,178 @@
+import * as THREE from 'three';
+import { VisualMaterialType } from './types';
+import { DropdownOption } from './properties/Property';
+
+// Materials for instanced visual objects. Each reads the object's opacity, emissive,
+// metalness and roughness from per-instance attributes (InstancedMesh only provides a
+// per-instance color), so one material serves every object in a batch.
+
+export const DEFAULT_MATERIAL_TYPE: VisualMaterialType = 'standard';
+export const DEFAULT_METALNESS = 0;
+export const DEFAULT_ROUGHNESS = 1;
+
+export const VISUAL_MATERIAL_OPTIONS: DropdownOption<VisualMaterialType>[] = [
+  { value: 'standard', label: 'Standard' },
+  { value: 'basic', label: 'Unlit' },
+  { value: 'physical', label: 'Physical (clearcoat)' },
+  { value: 'wireframe', label: 'Wireframe' },
+  { value: 'additive', label: 'Additive glow' },
+  { value: 'noise', label: 'Noise displacement' },
+  { value: 'fresnel', label: 'Fresnel glow' },
+];
+
+const NOISE_DISPLACEMENT = 0.15; // Along the normal, in the shape's unit size
+const NOISE_FREQUENCY = 3.0;
+const NOISE_SPEED = 0.8; // Noise field movement per second of song time
+const FRESNEL_POWER = 2.5;
+
+// Per-instance values: instanceOpacity (float), instanceEmissive (color * intensity),
+// instanceSurface (metalness, roughness)
+export const INSTANCE_ATTRIBUTES = { opacity: 'instanceOpacity', emissive: 'instanceEmissive', surface: 'instanceSurface' } as const;
+
+const INSTANCE_VERTEX_DECLARATIONS = `
+attribute float instanceOpacity;
+attribute vec3 instanceEmissive;
+attribute vec2 instanceSurface;
+varying float vInstanceOpacity;
+varying vec3 vInstanceEmissive;
+varying vec2 vInstanceSurface;`;
+
+const INSTANCE_VERTEX_ASSIGNMENTS = `
+vInstanceOpacity = instanceOpacity;
+vInstanceEmissive = instanceEmissive;
+vInstanceSurface = instanceSurface;`;
+
+const INSTANCE_FRAGMENT_DECLARATIONS = `
+varying float vInstanceOpacity;
+varying vec3 vInstanceEmissive;
+varying vec2 vInstanceSurface;`;
+
+// Smooth 3D value noise in [-1, 1]
+const NOISE_FUNCTIONS = `
+uniform float uTime;
+float visualHash(vec3 p) {
+  p = fract(p * 0.3183099 + 0.1);
+  p *= 17.0;
+  return fract(p.x * p.y * p.z * (p.x + p.y + p.z));
+}
+float visualNoise(vec3 p) {
+  vec3 i = floor(p);
+  vec3 f = fract(p);
+  f = f * f * (3.0 - 2.0 * f);
+  return mix(
+    mix(mix(visualHash(i), visualHash(i + vec3(1, 0, 0)), f.x), mix(visualHash(i + vec3(0, 1, 0)), visualHash(i + vec3(1, 1, 0)), f.x), f.y),
+    mix(mix(visualHash(i + vec3(0, 0, 1)), visualHash(i + vec3(1, 0, 1)), f.x), mix(visualHash(i + vec3(0, 1, 1)), visualHash(i + vec3(1, 1, 1)), f.x), f.y),
+    f.z
+  ) * 2.0 - 1.0;
+}`;
+
+// Patches a built-in lit or unlit material to read the instance attributes
+const patchInstanceAttributes = (
+  material: THREE.MeshStandardMaterial | THREE.MeshBasicMaterial,
+  type: VisualMaterialType,
+  time: THREE.IUniform<number>
+): void => {
+  const isLit = material instanceof THREE.MeshStandardMaterial;
+  const displaces = type === 'noise';
+  material.onBeforeCompile = shader => {
+    if (displaces) shader.uniforms.uTime = time;
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>${INSTANCE_VERTEX_DECLARATIONS}${displaces ? NOISE_FUNCTIONS : ''}`)
+      .replace('#include <begin_vertex>', `#include <begin_vertex>${INSTANCE_VERTEX_ASSIGNMENTS}${displaces
+        ? `\ntransformed += normal * visualNoise(position * ${NOISE_FREQUENCY.toFixed(2)} + uTime * ${NOISE_SPEED.toFixed(2)}) * ${NOISE_DISPLACEMENT.toFixed(2)};`
+        : ''}`);
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>${INSTANCE_FRAGMENT_DECLARATIONS}`)
+      .replace('vec4 diffuseColor = vec4( diffuse, opacity );', 'vec4 diffuseColor = vec4( diffuse, opacity * vInstanceOpacity );');
+    if (isLit) {
+      shader.fragmentShader = shader.fragmentShader
+        .replace('vec3 totalEmissiveRadiance = emissive;', 'vec3 totalEmissiveRadiance = vInstanceEmissive;')
+        .replace('#include <metalnessmap_fragment>', '#include <metalnessmap_fragment>\nmetalnessFactor = vInstanceSurface.x;')
+        .replace('#include <roughnessmap_fragment>', '#include <roughnessmap_fragment>\nroughnessFactor = vInstanceSurface.y;');
+    } else {
+      // Unlit materials have no emissive term, so it is added to the output
+      shader.fragmentShader = shader.fragmentShader
+        .replace('#include <opaque_fragment>', 'outgoingLight += vInstanceEmissive;\n#include <opaque_fragment>');
+    }
+  };
+  // The patch differs by type while the callback's source does not, so programs are cached by type
+  material.customProgramCacheKey = () => `visual-${type}`;
+};
+
+// Glows at the silhouette and fades towards the faces pointing at the camera
+const createFresnelMaterial = (doubleSided: boolean): THREE.ShaderMaterial => new THREE.ShaderMaterial({
+  vertexShader: `${INSTANCE_VERTEX_DECLARATIONS}
+varying vec3 vColor;
+varying vec3 vViewNormal;
+varying vec3 vViewDirection;
+void main() {
+  ${INSTANCE_VERTEX_ASSIGNMENTS}
+  #ifdef USE_INSTANCING_COLOR
+    vColor = instanceColor;
+  #else
+    vColor = vec3(1.0);
+  #endif
+  vec4 mvPosition = modelViewMatrix * instanceMatrix * vec4(position, 1.0);
+  vViewNormal = normalize(normalMatrix * mat3(instanceMatrix) * normal);
+  vViewDirection = normalize(-mvPosition.xyz);
+  gl_Position = projectionMatrix * mvPosition;
+}`,
+  fragmentShader: `${INSTANCE_FRAGMENT_DECLARATIONS}
+varying vec3 vColor;
+varying vec3 vViewNormal;
+varying vec3 vViewDirection;
+void main() {
+  float facing = abs(dot(normalize(vViewNormal), normalize(vViewDirection)));
+  float rim = pow(1.0 - facing, ${FRESNEL_POWER.toFixed(2)});
+  vec3 color = vColor * (0.15 + rim * 1.5) + vInstanceEmissive * rim;
+  gl_FragColor = vec4(color, vInstanceOpacity * clamp(rim + 0.15, 0.0, 1.0));
+  #include <colorspace_fragment>
+}`,
+  transparent: true,
+  depthWrite: false,
+  blending: THREE.AdditiveBlending,
+  side: doubleSided ? THREE.DoubleSide : THREE.FrontSide,
+  toneMapped: false,
+});
+
+// Additive and fresnel materials blend onto what is behind them whatever the object's opacity
+export const isBlendedMaterial = (type: VisualMaterialType): boolean => type === 'additive' || type === 'fresnel';
+
+/**
+ * Creates the material for a batch of instanced objects.
+ * @param time Song time in seconds, for animated materials; the caller updates its value.
+ */
+export const createVisualMaterial = (
+  type: VisualMaterialType,
+  transparent: boolean,
+  doubleSided: boolean,
+  time: THREE.IUniform<number>
+): THREE.Material => {
+  if (type === 'fresnel') return createFresnelMaterial(doubleSided);
+
+  const common = {
+    transparent: transparent || isBlendedMaterial(type),
+    depthWrite: !transparent && !isBlendedMaterial(type),
+    side: doubleSided ? THREE.DoubleSide : THREE.FrontSide,
+    toneMapped: false, // Disable tone mapping for emissive materials for stronger bloom
+  };
+  let material: THREE.MeshStandardMaterial | THREE.MeshBasicMaterial;
+  switch (type) {
+    case 'basic':
+      material = new THREE.MeshBasicMaterial(common);
+      break;
+    case 'additive':
+      material = new THREE.MeshBasicMaterial({ ...common, blending: THREE.AdditiveBlending });
+      break;
+    case 'physical':
+      material = new THREE.MeshPhysicalMaterial({ ...common, clearcoat: 1, clearcoatRoughness: 0.1 });
+      break;
+    case 'wireframe':
+      material = new THREE.MeshStandardMaterial({ ...common, wireframe: true });
+      break;
+    default: // 'standard' and 'noise'
+      material = new THREE.MeshStandardMaterial(common);
+  }
+  patchInstanceAttributes(material, type, time);
+  return material;
+};
@@ -1,6 +1,7 @@
-import { MIDINote, MIDIBlock, VisualObject } from './types';
+import { MIDINote, MIDIBlock, VisualObject, GeometryParams } from './types';
 import Synthesizer from './Synthesizer'; // Assuming Synthesizer provides getPropertyValue
 import { PhysicsUtils } from './PhysicsUtils'; // Import PhysicsUtils
+import TempoMap from './TempoMap';
 
 // --- Interfaces and Types ---
 
@@ -10,6 +11,7 @@ interface VisualObjectProperties {
   rotation?: [number, number, number];
   color?: string;
   opacity?: number;
+  geometry?: GeometryParams;
   // Add other potential properties as needed
 }
 
@@ -106,6 +108,7 @@ interface DefinitionLevel {
     rotationMapper?: MapperFn<[number, number, number]>;
     colorMapper?: MapperFn<string>;
     opacityMapper?: MapperFn<number>;
+    geometryMapper?: MapperFn<GeometryParams>;
     adsrConfig?: ADSRConfig | ADSRConfigFn; // ADSR for this level
     physicsEnvelopeConfig?: PhysicsEnvelopeConfig | PhysicsEnvelopeConfigFn; // Physics envelope for this level
     approachEnvelopeConfig?: ApproachEnvelopeConfig | ApproachEnvelopeConfigFn; // --- NEW: Approach envelope for this level ---
@@ -188,6 +191,12 @@ class ObjectDefinition {
         return this;
     }
 
+    // Shape parameters for the object's type, e.g. the ring thickness of a 'torus'
+    withGeometry(mapperFn: MapperFn<GeometryParams>): this {
+        this.getCurrentLevelConfig().geometryMapper = mapperFn;
+        return this;
+    }
+
     setType(type: string): this {
         this.getCurrentLevelConfig().type = type;
         return this;
@@ -223,12 +232,11 @@ class VisualObjectEngine {
     }
 
      // Helper to calculate ADSR value (simplified example)
-    private calculateADSR(time: number, noteStartTime: number, noteEndTime: number, bpm: number, config: ADSRConfig): { amplitude: number; phase: 'attack' | 'decay' | 'sustain' | 'release' | 'idle' } {
+    private calculateADSR(time: number, noteStartTime: number, noteEndTime: number, tempoMap: TempoMap, config: ADSRConfig): { amplitude: number; phase: 'attack' | 'decay' | 'sustain' | 'release' | 'idle' } {
         const { attack, decay, sustain, release } = config;
-        const secondsPerBeat = 60 / bpm;
-        const noteStartSec = noteStartTime * secondsPerBeat;
-        const noteEndSec = noteEndTime * secondsPerBeat;
-        const currentTimeSec = time * secondsPerBeat;
+        const noteStartSec = tempoMap.beatToTime(noteStartTime);
+        const noteEndSec = tempoMap.beatToTime(noteEndTime);
+        const currentTimeSec = tempoMap.beatToTime(time);
         const timeFromStart = currentTimeSec - noteStartSec;
 
         if (timeFromStart < 0) return { amplitude: 0, phase: 'idle' };
@@ -265,8 +273,10 @@ class VisualObjectEngine {
 
     getObjectsAtTime(time: number, midiBlocks: MIDIBlock[], bpm: number): VisualObject[] {
         const allVisualObjects: VisualObject[] = [];
-        const secondsPerBeat = 60 / bpm;
-        const currentTimeSec = time * secondsPerBeat;
+        // Beat/second conversions follow the song's tempo map when one is set
+        const tempoMap = this.synthesizer.getTempoMap() ?? TempoMap.constant(bpm);
+        const currentTimeSec = tempoMap.beatToTime(time);
+        const currentBpm = tempoMap.getBPMAtBeat(time);
 
         const DEFAULT_TENSION = 100;
         const DEFAULT_FRICTION = 10;
@@ -279,9 +289,9 @@ class VisualObjectEngine {
                 block.notes.forEach(note => {
                     const noteAbsoluteStartBeat = blockAbsoluteStartBeat + note.startBeat;
                     const noteAbsoluteEndBeat = noteAbsoluteStartBeat + note.duration;
-                    const noteDurationSeconds = note.duration * secondsPerBeat;
-                    const noteStartSec = noteAbsoluteStartBeat * secondsPerBeat;
-                    const noteEndSec = noteAbsoluteEndBeat * secondsPerBeat;
+                    const noteStartSec = tempoMap.beatToTime(noteAbsoluteStartBeat);
+                    const noteEndSec = tempoMap.beatToTime(noteAbsoluteEndBeat);
+                    const noteDurationSeconds = noteEndSec - noteStartSec;
 
                     const noteCtx: NoteContext = { note };
 
@@ -353,7 +363,7 @@ class VisualObjectEngine {
                                         const currentAdsrConfig = typeof levelConfig.adsrConfig === 'function'
                                             ? levelConfig.adsrConfig.call(this.synthesizer, noteCtx)
                                             : levelConfig.adsrConfig;
-                                        const adsrResult = this.calculateADSR(time, noteAbsoluteStartBeat, noteAbsoluteEndBeat, bpm, currentAdsrConfig);
+                                        const adsrResult = this.calculateADSR(time, noteAbsoluteStartBeat, noteAbsoluteEndBeat, tempoMap, currentAdsrConfig);
                                         adsrAmplitude = adsrResult.amplitude;
                                         adsrPhase = adsrResult.phase;
                                     }
@@ -371,7 +381,7 @@ class VisualObjectEngine {
                                                 if (definition.conditionFn.call(this.synthesizer, contributingNoteCtx)) {
                                                     const contribNoteAbsStartBeat = blockAbsStartBeatP + contributingNote.startBeat;
                                                     if (contribNoteAbsStartBeat <= time) { // Only past/present notes
-                                                        const timeSinceContribNoteStart = Math.max(0, (time - contribNoteAbsStartBeat) * secondsPerBeat);
+                                                        const timeSinceContribNoteStart = Math.max(0, currentTimeSec - tempoMap.beatToTime(contribNoteAbsStartBeat));
                                                         const currentPhysicsConfig = typeof physicsConfigProvider === 'function'
                                                             ? physicsConfigProvider.call(this.synthesizer, contributingNoteCtx)
                                                             : physicsConfigProvider;
@@ -421,7 +431,7 @@ class VisualObjectEngine {
                                     const currentContext: MappingContext = {
                                         note: note,
                                         time: time,
-                                        bpm: bpm,
+                                        bpm: currentBpm,
                                         noteAbsoluteStartBeat: noteAbsoluteStartBeat,
                                         timeSinceNoteStart: timeSinceNoteStart, // Can be negative now
                                         noteProgressPercent: noteProgressPercent, // 0 during approach
@@ -444,6 +454,7 @@ class VisualObjectEngine {
                                     if (levelConfig.rotationMapper) calculatedProps.rotation = levelConfig.rotationMapper.call(this.synthesizer, currentContext);
                                     if (levelConfig.colorMapper) calculatedProps.color = levelConfig.colorMapper.call(this.synthesizer, currentContext);
                                     if (levelConfig.opacityMapper) calculatedProps.opacity = levelConfig.opacityMapper.call(this.synthesizer, currentContext);
+                                    if (levelConfig.geometryMapper) calculatedProps.geometry = levelConfig.geometryMapper.call(this.synthesizer, currentContext);
 
 
                                     currentContext.calculatedProperties = calculatedProps;
@@ -464,6 +475,7 @@ class VisualObjectEngine {
                                                  rotation: calculatedProps.rotation ?? [0, 0, 0],
                                                  color: calculatedProps.color ?? '#ffffff',
                                                  opacity: finalOpacity, // Use potentially calculated opacity
+                                                 ...(calculatedProps.geometry && { geometry: calculatedProps.geometry }),
                                              },
                                              // id: `${block.id}-${note.id}-${note.pitch}-${levelConfig.level}-${isDuringApproach ? 'approach' : 'active'}` // REMOVED id property
                                              // sourceNoteId is added conditionally below
@@ -1,6 +1,10 @@
 import TimeManager from './TimeManager';
 // Remove TrackManager import if unused elsewhere, keep types
-import { VisualObject, Track, VisualObjectProperties } from './types'; // Add Track type
+import { VisualObject, Track, VisualObjectProperties, GeometryParams, VisualMaterialType } from './types'; // Add Track type
+import { applyTrackAutomation } from './Automation';
+import { applyTrackModulation } from './AudioModulation';
+import type { AudioAnalysis } from './AudioAnalysis';
+import type LiveNotes from './LiveNotes';
 
 // Define interface for visual objects to be rendered
 export interface VisualObject3D {
@@ -13,12 +17,20 @@ export interface VisualObject3D {
   opacity: number;
   emissive?: string;         // Add emissive color
   emissiveIntensity?: number; // Add emissive intensity
+  geometry?: GeometryParams; // Shape parameters for the type's geometry
+  material: VisualMaterialType;
+  metalness: number;
+  roughness: number;
 }
 
 class VisualizerManager {
   private timeManager: TimeManager;
   // Store tracks directly
   private tracks: Track[] = []; 
+  // Features of the loaded audio, read by modulation routes (null when there is no audio)
+  private audioAnalysis: AudioAnalysis | null = null;
+  private audioOffset: number = 0; // Seconds into the audio that line up with beat 0
+  private liveNotes: LiveNotes | null = null; // Notes played on a MIDI controller, rendered on top of the timeline
   // State map: Key = `${track.id}-${note.id}`, Value = last frame's properties
   private objectStates: Map<string, VisualObjectProperties> = new Map();
   // Set to track active state keys this frame for cleanup
@@ -43,6 +55,15 @@ class VisualizerManager {
     // this.objectStates.clear(); 
   }
   
+  setAudioAnalysis(analysis: AudioAnalysis | null, audioOffset: number = 0): void {
+    this.audioAnalysis = analysis;
+    this.audioOffset = audioOffset;
+  }
+
+  setLiveNotes(liveNotes: LiveNotes | null): void {
+    this.liveNotes = liveNotes;
+  }
+
   // Method to reset the internal state (e.g., on playback start/loop)
   resetState(): void {
     this.objectStates.clear();
@@ -64,7 +85,9 @@ class VisualizerManager {
   // Get all visual objects to render at current time
   getVisualObjects(): VisualObject3D[] {
     const time = this.timeManager.getCurrentBeat();
-    const bpm = this.timeManager.getBPM();
+    const tempoMap = this.timeManager.getTempoMap();
+    const bpm = tempoMap.getBPMAtBeat(time); // Tempo in effect right now
+    const audioTime = tempoMap.beatToTime(time) + this.audioOffset;
     const finalRenderObjects: VisualObject3D[] = [];
     
     this.activeStateKeysThisFrame.clear();
@@ -77,11 +100,21 @@ class VisualizerManager {
         : !track.isMuted;
       if (!shouldIncludeTrack || !track.synthesizer) return;
       
-      const synthVisuals: VisualObject[] = track.synthesizer.getObjectsAtTime(
+      track.synthesizer.setTempoMap(tempoMap);
+      // Automated properties take their envelope values for this frame only
+      const restoreAutomation = applyTrackAutomation(track, time);
+      const restoreModulation = applyTrackModulation(track, this.audioAnalysis, audioTime);
+      let synthVisuals: VisualObject[] = track.synthesizer.getObjectsAtTime(
         time,
         track.midiBlocks,
         bpm
       );
+      // Live notes run on their own clock at a steady tempo (see LiveNotes)
+      const live = this.liveNotes?.getBlock(track.id, bpm);
+      if (live) {
+        track.synthesizer.setTempoMap(null);
+        synthVisuals = [...synthVisuals, ...track.synthesizer.getObjectsAtTime(live.beat, [live.block], bpm)];
+      }
 
       const statefulVisualsForEffects: VisualObject[] = [];
       synthVisuals.forEach(synthVisObj => {
@@ -126,6 +159,10 @@ class VisualizerManager {
           finalVisualsAfterEffects = effect.applyEffect(finalVisualsAfterEffects, time, bpm);
         }
       }
+      // Read before the automated values are restored
+      const materialSettings = track.synthesizer.getMaterialSettings();
+      restoreModulation();
+      restoreAutomation();
 
       finalVisualsAfterEffects.forEach((finalVisObj, index) => {
         if (!finalVisObj || !finalVisObj.properties) return; 
@@ -175,7 +212,11 @@ class VisualizerManager {
             color,
             opacity: clampedOpacity,
             emissive: emissive,                 // Pass emissive color
-            emissiveIntensity: emissiveIntensity // Pass emissive intensity
+            emissiveIntensity: emissiveIntensity, // Pass emissive intensity
+            geometry: props.geometry,
+            material: props.material ?? materialSettings.material,
+            metalness: props.metalness ?? materialSettings.metalness,
+            roughness: props.roughness ?? materialSettings.roughness
           });
         }
       });
@@ -0,0 +1,135 @@
+// Overview of the loaded audio for drawing its waveform. The min/max of every block of
+// samples is computed once per file, at several resolutions, so any zoom level reads only
+// a few peaks per pixel instead of the raw samples.
+
+const BASE_SAMPLES_PER_PEAK = 256; // Finest resolution, enough for the closest timeline zoom
+const LEVEL_FACTOR = 4; // Each coarser level merges this many peaks of the previous one
+
+interface PeakLevel {
+  samplesPerPeak: number;
+  min: Float32Array;
+  max: Float32Array;
+}
+
+export interface PeakRange {
+  min: number; // -1 to 1
+  max: number; // -1 to 1
+}
+
+export class WaveformPeaks {
+  readonly sampleRate: number;
+  readonly duration: number;
+  private levels: PeakLevel[]; // Finest first
+
+  private constructor(sampleRate: number, duration: number, levels: PeakLevel[]) {
+    this.sampleRate = sampleRate;
+    this.duration = duration;
+    this.levels = levels;
+  }
+
+  // Builds every level from the samples of all channels, so neither side of a stereo file is hidden
+  static fromAudioBuffer(buffer: AudioBuffer): WaveformPeaks {
+    const peakCount = Math.max(1, Math.ceil(buffer.length / BASE_SAMPLES_PER_PEAK));
+    const min = new Float32Array(peakCount);
+    const max = new Float32Array(peakCount);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const samples = buffer.getChannelData(channel);
+      for (let peak = 0; peak < peakCount; peak++) {
+        const start = peak * BASE_SAMPLES_PER_PEAK;
+        const end = Math.min(samples.length, start + BASE_SAMPLES_PER_PEAK);
+        let low = min[peak];
+        let high = max[peak];
+        for (let i = start; i < end; i++) {
+          if (samples[i] < low) low = samples[i];
+          if (samples[i] > high) high = samples[i];
+        }
+        min[peak] = low;
+        max[peak] = high;
+      }
+    }
+
+    const levels: PeakLevel[] = [{ samplesPerPeak: BASE_SAMPLES_PER_PEAK, min, max }];
+    while (levels[levels.length - 1].min.length > 1) {
+      const previous = levels[levels.length - 1];
+      const count = Math.ceil(previous.min.length / LEVEL_FACTOR);
+      const level: PeakLevel = {
+        samplesPerPeak: previous.samplesPerPeak * LEVEL_FACTOR,
+        min: new Float32Array(count),
+        max: new Float32Array(count),
+      };
+      for (let peak = 0; peak < count; peak++) {
+        const start = peak * LEVEL_FACTOR;
+        const end = Math.min(previous.min.length, start + LEVEL_FACTOR);
+        let low = previous.min[start];
+        let high = previous.max[start];
+        for (let i = start + 1; i < end; i++) {
+          if (previous.min[i] < low) low = previous.min[i];
+          if (previous.max[i] > high) high = previous.max[i];
+        }
+        level.min[peak] = low;
+        level.max[peak] = high;
+      }
+      levels.push(level);
+    }
+    return new WaveformPeaks(buffer.sampleRate, buffer.duration, levels);
+  }
+
+  /**
+   * Lowest and highest sample between two times in seconds, read from the coarsest level
+   * that still has a peak per span (so the result is at most one peak wider than asked).
+   * @returns A zero range outside the audio.
+   */
+  getRange(startTime: number, endTime: number): PeakRange {
+    const start = Math.max(0, startTime) * this.sampleRate;
+    const end = Math.min(this.duration, endTime) * this.sampleRate;
+    if (!(end > start)) return { min: 0, max: 0 };
+
+    let level = this.levels[0];
+    for (const candidate of this.levels) {
+      if (candidate.samplesPerPeak > end - start) break;
+      level = candidate;
+    }
+    const first = Math.floor(start / level.samplesPerPeak);
+    const last = Math.min(level.min.length, Math.max(first + 1, Math.ceil(end / level.samplesPerPeak)));
+    let min = 0;
+    let max = 0;
+    for (let peak = first; peak < last; peak++) {
+      if (level.min[peak] < min) min = level.min[peak];
+      if (level.max[peak] > max) max = level.max[peak];
+    }
+    return { min, max };
+  }
+}
+
+export interface WaveformDrawOptions {
+  left: number; // Canvas area to draw in, in CSS pixels
+  top: number;
+  width: number;
+  height: number;
+  xToTime: (x: number) => number; // Seconds into the audio at a horizontal canvas position
+  color: string;
+}
+
+/**
+ * Draws one min/max bar per pixel column. Columns outside the audio stay empty.
+ */
+export const drawWaveform = (ctx: CanvasRenderingContext2D, peaks: WaveformPeaks, options: WaveformDrawOptions): void => {
+  const { left, top, width, height, xToTime, color } = options;
+  const center = top + height / 2;
+  const halfHeight = height / 2;
+
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  let startTime = xToTime(left);
+  for (let column = 0; column < width; column++) {
+    const endTime = xToTime(left + column + 1);
+    if (endTime > 0 && startTime < peaks.duration) {
+      const { min, max } = peaks.getRange(startTime, endTime);
+      const barTop = center - max * halfHeight;
+      // Silence still shows as a one pixel line, so the extent of the audio stays visible
+      ctx.rect(left + column, barTop, 1, Math.max(1, (max - min) * halfHeight));
+    }
+    startTime = endTime;
+  }
+  ctx.fill();
+};
@@ -1,27 +1,85 @@
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import type { ProjectSettings, TrackData, SynthData, EffectData, MidiBlockData, MidiNoteData } from '@/Persistence/persistence-backend';
 
 const DB_NAME = 'cabin-visuals-db';
-const DB_VERSION = 1;
+const DB_VERSION = 2; // v2 adds the granular project stores and the sync queue
 const STORE_NAME = 'audio_files';
-const AUDIO_KEY = 'user_audio_file';
+const PROJECT_AUDIO_KEY_PREFIX = 'project:'; // Each project's audio file, keyed by project ID
+const LEGACY_AUDIO_KEY = 'user_audio_file'; // The single audio slot shared by all projects in earlier versions
+const CLIP_KEY_PREFIX = 'clip:'; // Files played by audio clips, keyed by source ID
 
-interface AudioDB extends DBSchema {
+// --- Local project records (granular schema from projectRefactor.md) ---
+// `updatedAt` is the local modification time (ms since epoch)
+
+export interface LocalProjectRecord {
+  id: string;
+  name: string;
+  updatedAt: number;
+}
+
+export type LocalSettingsRecord = ProjectSettings & { updatedAt: number };
+export type LocalTrackRecord = Omit<TrackData, 'synth' | 'effects' | 'midiBlocks'> & { updatedAt: number };
+export type LocalSynthRecord = SynthData & { updatedAt: number };
+export type LocalEffectRecord = EffectData & { updatedAt: number };
+export type LocalMidiBlockRecord = Omit<MidiBlockData, 'notes'> & { updatedAt: number };
+export type LocalMidiNoteRecord = MidiNoteData & { blockId: string; updatedAt: number };
+
+// Entities that can be written to the remote backend
+export type SyncEntity = 'project' | 'projectSettings' | 'track' | 'synth' | 'effect' | 'midiBlock' | 'midiNotes' | 'midiNote';
+
+// A write waiting to be sent to the remote backend. Entries are replayed in `id` order.
+export interface SyncQueueEntry {
+  id?: number; // Auto-incremented
+  projectId: string | null;
+  entity: SyncEntity;
+  op: 'save' | 'delete';
+  key: string; // Primary key of the entity (block ID for 'midiNotes')
+  payload: any;
+  queuedAt: number;
+}
+
+interface CabinVisualsDB extends DBSchema {
   [STORE_NAME]: {
     key: string;
     value: Blob | File;
   };
+  projectMetadata: { key: string; value: LocalProjectRecord };
+  projectSettings: { key: string; value: LocalSettingsRecord };
+  tracks: { key: string; value: LocalTrackRecord; indexes: { 'by-project': string } };
+  trackSynths: { key: string; value: LocalSynthRecord };
+  trackEffects: { key: string; value: LocalEffectRecord; indexes: { 'by-track': string } };
+  midiBlocks: { key: string; value: LocalMidiBlockRecord; indexes: { 'by-track': string } };
+  midiNotes: { key: string; value: LocalMidiNoteRecord; indexes: { 'by-block': string } };
+  syncQueue: { key: number; value: SyncQueueEntry; indexes: { 'by-project': string } };
+  // Per-project last sync times ("project:<id>"), plus the last known remote `updated_at`
+  // of each of its rows ("project:<id>:<table>:<key>")
+  syncState: { key: string; value: string };
 }
 
-let dbPromise: Promise<IDBPDatabase<AudioDB>> | null = null;
+export type CabinVisualsDBSchema = CabinVisualsDB;
+
+let dbPromise: Promise<IDBPDatabase<CabinVisualsDB>> | null = null;
 
-function getDb(): Promise<IDBPDatabase<AudioDB>> {
+export function getDb(): Promise<IDBPDatabase<CabinVisualsDB>> {
   if (!dbPromise) {
-    dbPromise = openDB<AudioDB>(DB_NAME, DB_VERSION, {
-      upgrade(db) {
+    dbPromise = openDB<CabinVisualsDB>(DB_NAME, DB_VERSION, {
+      upgrade(db, oldVersion) {
         if (!db.objectStoreNames.contains(STORE_NAME)) {
           db.createObjectStore(STORE_NAME);
           console.log(`IndexedDB: Object store "${STORE_NAME}" created.`);
         }
+        if (oldVersion < 2) {
+          db.createObjectStore('projectMetadata', { keyPath: 'id' });
+          db.createObjectStore('projectSettings', { keyPath: 'projectId' });
+          db.createObjectStore('tracks', { keyPath: 'id' }).createIndex('by-project', 'projectId');
+          db.createObjectStore('trackSynths', { keyPath: 'trackId' });
+          db.createObjectStore('trackEffects', { keyPath: 'id' }).createIndex('by-track', 'trackId');
+          db.createObjectStore('midiBlocks', { keyPath: 'id' }).createIndex('by-track', 'trackId');
+          db.createObjectStore('midiNotes', { keyPath: 'id' }).createIndex('by-block', 'blockId');
+          db.createObjectStore('syncQueue', { keyPath: 'id', autoIncrement: true }).createIndex('by-project', 'projectId');
+          db.createObjectStore('syncState');
+          console.log("IndexedDB: Project stores created.");
+        }
       },
     });
     dbPromise.then(() => console.log(`IndexedDB: Database "${DB_NAME}" opened.`))
@@ -31,15 +89,16 @@ function getDb(): Promise<IDBPDatabase<AudioDB>> {
 }
 
 /**
- * Saves the user's audio file to IndexedDB.
- * Overwrites any existing file with the same key.
+ * Saves a project's audio file to IndexedDB.
+ * Overwrites any file stored for the project before.
+ * @param projectId The project the audio belongs to.
  * @param file The audio file (Blob or File) to save.
  */
-export async function saveAudioFile(file: Blob | File): Promise<void> {
+export async function saveAudioFile(projectId: string, file: Blob | File): Promise<void> {
   try {
     const db = await getDb();
-    await db.put(STORE_NAME, file, AUDIO_KEY);
-    console.log(`IndexedDB: Audio file saved successfully with key "${AUDIO_KEY}".`);
+    await db.put(STORE_NAME, file, `${PROJECT_AUDIO_KEY_PREFIX}${projectId}`);
+    console.log(`IndexedDB: Audio file saved successfully for project "${projectId}".`);
   } catch (error) {
     console.error("IndexedDB: Error saving audio file:", error);
     // Decide if re-throwing is needed based on future error handling requirements
@@ -48,18 +107,18 @@ export async function saveAudioFile(file: Blob | File): Promise<void> {
 }
 
 /**
- * Loads the user's audio file from IndexedDB.
+ * Loads a project's audio file from IndexedDB.
  * @returns The loaded file (Blob or File), or null if not found.
  */
-export async function loadAudioFile(): Promise<Blob | File | null> {
+export async function loadAudioFile(projectId: string): Promise<Blob | File | null> {
   try {
     const db = await getDb();
-    const file = await db.get(STORE_NAME, AUDIO_KEY);
+    const file = await db.get(STORE_NAME, `${PROJECT_AUDIO_KEY_PREFIX}${projectId}`);
     if (file) {
-      console.log(`IndexedDB: Audio file loaded successfully for key "${AUDIO_KEY}".`);
+      console.log(`IndexedDB: Audio file loaded successfully for project "${projectId}".`);
       return file;
     } else {
-      console.log(`IndexedDB: No audio file found for key "${AUDIO_KEY}".`);
+      console.log(`IndexedDB: No audio file found for project "${projectId}".`);
       return null;
     }
   } catch (error) {
@@ -69,15 +128,73 @@ export async function loadAudioFile(): Promise<Blob | File | null> {
 }
 
 /**
- * Deletes the user's audio file from IndexedDB.
+ * Deletes a project's audio file from IndexedDB.
  */
-export async function deleteAudioFile(): Promise<void> {
+export async function deleteAudioFile(projectId: string): Promise<void> {
   try {
     const db = await getDb();
-    await db.delete(STORE_NAME, AUDIO_KEY);
-    console.log(`IndexedDB: Audio file deleted successfully for key "${AUDIO_KEY}".`);
+    await db.delete(STORE_NAME, `${PROJECT_AUDIO_KEY_PREFIX}${projectId}`);
+    console.log(`IndexedDB: Audio file deleted successfully for project "${projectId}".`);
   } catch (error) {
     console.error("IndexedDB: Error deleting audio file:", error);
     // Decide if re-throwing is needed
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Removes and returns the audio file saved before audio was stored per project, if any.
+ * Whichever project takes it first keeps it.
+ */
+export async function takeLegacyAudioFile(): Promise<Blob | File | null> {
+  try {
+    const db = await getDb();
+    const file = await db.get(STORE_NAME, LEGACY_AUDIO_KEY);
+    if (!file) return null;
+    await db.delete(STORE_NAME, LEGACY_AUDIO_KEY);
+    console.log(`IndexedDB: Took the audio file stored under "${LEGACY_AUDIO_KEY}".`);
+    return file;
+  } catch (error) {
+    console.error("IndexedDB: Error reading the legacy audio file:", error);
+    return null;
+  }
+}
+
+/**
+ * Saves a file played by audio clips to IndexedDB.
+ * @param sourceId The source ID the clips refer to.
+ * @param file The audio file (Blob or File) to save.
+ */
+export async function saveAudioClipFile(sourceId: string, file: Blob | File): Promise<void> {
+  try {
+    const db = await getDb();
+    await db.put(STORE_NAME, file, `${CLIP_KEY_PREFIX}${sourceId}`);
+  } catch (error) {
+    console.error(`IndexedDB: Error saving clip audio "${sourceId}":`, error);
+  }
+}
+
+/**
+ * Deletes a file played by audio clips from IndexedDB.
+ */
+export async function deleteAudioClipFile(sourceId: string): Promise<void> {
+  try {
+    const db = await getDb();
+    await db.delete(STORE_NAME, `${CLIP_KEY_PREFIX}${sourceId}`);
+  } catch (error) {
+    console.error(`IndexedDB: Error deleting clip audio "${sourceId}":`, error);
+  }
+}
+
+/**
+ * Loads a file played by audio clips from IndexedDB.
+ * @returns The file, or null if not found.
+ */
+export async function loadAudioClipFile(sourceId: string): Promise<Blob | File | null> {
+  try {
+    const db = await getDb();
+    return (await db.get(STORE_NAME, `${CLIP_KEY_PREFIX}${sourceId}`)) ?? null;
+  } catch (error) {
+    console.error(`IndexedDB: Error loading clip audio "${sourceId}":`, error);
+    return null;
+  }
+}
@@ -0,0 +1,98 @@
+import { HalfFloatType, ShaderMaterial, Texture, TextureDataType, Uniform, WebGLRenderer, WebGLRenderTarget } from 'three';
+import { Effect, EffectAttribute, ShaderPass } from 'postprocessing';
+import PostEffect from './PostEffect';
+import { Property } from '../properties/Property';
+
+// Keeps the brightest of each new frame and the fading previous frames, so moving objects
+// leave trails. The accumulated frames live in two render targets that take turns.
+const TRAIL_FRAGMENT_SHADER = `
+uniform sampler2D inputBuffer;
+uniform sampler2D previousBuffer;
+uniform float damp;
+varying vec2 vUv;
+void main() {
+  vec4 current = texture2D(inputBuffer, vUv);
+  vec4 previous = texture2D(previousBuffer, vUv) * damp;
+  gl_FragColor = max(current, previous);
+}`;
+
+const TRAIL_VERTEX_SHADER = `
+varying vec2 vUv;
+void main() {
+  vUv = position.xy * 0.5 + 0.5;
+  gl_Position = vec4(position.xy, 1.0, 1.0);
+}`;
+
+const OUTPUT_FRAGMENT_SHADER = `
+uniform sampler2D trailBuffer;
+void mainImage(const in vec4 inputColor, const in vec2 uv, out vec4 outputColor) {
+  outputColor = texture2D(trailBuffer, uv);
+}`;
+
+// The render targets, material and pass are disposed by Effect.dispose, which disposes every such field
+export class AfterimageEffect extends Effect {
+  public damp = 0.9; // Share of the previous frame kept
+  private trailMaterial = new ShaderMaterial({
+    uniforms: {
+      inputBuffer: new Uniform<Texture | null>(null),
+      previousBuffer: new Uniform<Texture | null>(null),
+      damp: new Uniform(0.9),
+    },
+    vertexShader: TRAIL_VERTEX_SHADER,
+    fragmentShader: TRAIL_FRAGMENT_SHADER,
+    depthWrite: false,
+    depthTest: false,
+  });
+  private trailPass = new ShaderPass(this.trailMaterial);
+  private read = new WebGLRenderTarget(1, 1, { depthBuffer: false, type: HalfFloatType });
+  private write = new WebGLRenderTarget(1, 1, { depthBuffer: false, type: HalfFloatType });
+
+  constructor() {
+    // Reads the input buffer directly, so like a convolution it needs a pass of its own
+    super('AfterimageEffect', OUTPUT_FRAGMENT_SHADER, {
+      attributes: EffectAttribute.CONVOLUTION,
+      uniforms: new Map([['trailBuffer', new Uniform<Texture | null>(null)]]),
+    });
+  }
+
+  update(renderer: WebGLRenderer, inputBuffer: WebGLRenderTarget): void {
+    this.trailMaterial.uniforms.previousBuffer.value = this.read.texture;
+    this.trailMaterial.uniforms.damp.value = this.damp;
+    this.trailPass.render(renderer, inputBuffer, this.write);
+    [this.read, this.write] = [this.write, this.read];
+    this.uniforms.get('trailBuffer')!.value = this.read.texture;
+  }
+
+  setSize(width: number, height: number): void {
+    this.read.setSize(width, height);
+    this.write.setSize(width, height);
+  }
+
+  initialize(renderer: WebGLRenderer, alpha: boolean, frameBufferType: number): void {
+    // Matches the composer's buffers, so bright values survive for the bloom after it
+    this.read.texture.type = frameBufferType as TextureDataType;
+    this.write.texture.type = frameBufferType as TextureDataType;
+  }
+}
+
+/**
+ * Leaves fading trails behind moving objects by feeding each frame back into the next.
+ */
+class AfterimagePostEffect extends PostEffect<AfterimageEffect> {
+  constructor(id: string) {
+    super(id);
+    this.properties = new Map<string, Property<any>>([
+      ['persistence', new Property<number>('persistence', 0.85, { uiType: 'slider', label: 'Persistence', min: 0, max: 0.99, step: 0.01, description: 'How much of each frame is left in the next' })],
+    ]);
+  }
+
+  createEffect(): AfterimageEffect {
+    return new AfterimageEffect();
+  }
+
+  updateEffect(effect: AfterimageEffect): void {
+    effect.damp = this.getPropertyValue<number>('persistence') ?? 0.85;
+  }
+}
+
+export default AfterimagePostEffect;
@@ -0,0 +1,29 @@
+import { BloomEffect } from 'postprocessing';
+import PostEffect from './PostEffect';
+import { Property } from '../properties/Property';
+
+/**
+ * Makes bright and emissive objects glow.
+ */
+class BloomPostEffect extends PostEffect<BloomEffect> {
+  constructor(id: string) {
+    super(id);
+    this.properties = new Map<string, Property<any>>([
+      ['intensity', new Property<number>('intensity', 1.0, { uiType: 'slider', label: 'Intensity', min: 0, max: 5, step: 0.05 })],
+      ['threshold', new Property<number>('threshold', 0.1, { uiType: 'slider', label: 'Threshold', min: 0, max: 1, step: 0.01, description: 'Brightness above which pixels glow' })],
+      ['smoothing', new Property<number>('smoothing', 0.2, { uiType: 'slider', label: 'Smoothing', min: 0, max: 1, step: 0.01, description: 'Softness of the threshold' })],
+    ]);
+  }
+
+  createEffect(): BloomEffect {
+    return new BloomEffect({ mipmapBlur: true });
+  }
+
+  updateEffect(effect: BloomEffect): void {
+    effect.intensity = this.getPropertyValue<number>('intensity') ?? 1.0;
+    effect.luminanceMaterial.threshold = this.getPropertyValue<number>('threshold') ?? 0.1;
+    effect.luminanceMaterial.smoothing = this.getPropertyValue<number>('smoothing') ?? 0.2;
+  }
+}
+
+export default BloomPostEffect;
@@ -0,0 +1,26 @@
+import { ChromaticAberrationEffect } from 'postprocessing';
+import PostEffect from './PostEffect';
+import { Property } from '../properties/Property';
+
+/**
+ * Splits the red and blue channels apart, strongest towards the edges of the frame.
+ */
+class ChromaticAberrationPostEffect extends PostEffect<ChromaticAberrationEffect> {
+  constructor(id: string) {
+    super(id);
+    this.properties = new Map<string, Property<any>>([
+      ['offset', new Property<number>('offset', 0.002, { uiType: 'slider', label: 'Offset', min: 0, max: 0.03, step: 0.0005, description: 'Distance between the color channels' })],
+    ]);
+  }
+
+  createEffect(): ChromaticAberrationEffect {
+    return new ChromaticAberrationEffect({ radialModulation: true, modulationOffset: 0.2 });
+  }
+
+  updateEffect(effect: ChromaticAberrationEffect): void {
+    const offset = this.getPropertyValue<number>('offset') ?? 0.002;
+    effect.offset.set(offset, offset);
+  }
+}
+
+export default ChromaticAberrationPostEffect;
@@ -0,0 +1,96 @@
+import { LookupTexture, LUT3DEffect } from 'postprocessing';
+import PostEffect from './PostEffect';
+import { Property, DropdownOption } from '../properties/Property';
+
+export type ColorGradingPreset = 'warm' | 'cool' | 'tealOrange' | 'noir' | 'vintage' | 'neon';
+
+const PRESET_OPTIONS: DropdownOption<ColorGradingPreset>[] = [
+  { value: 'warm', label: 'Warm' },
+  { value: 'cool', label: 'Cool' },
+  { value: 'tealOrange', label: 'Teal & Orange' },
+  { value: 'noir', label: 'Noir' },
+  { value: 'vintage', label: 'Vintage' },
+  { value: 'neon', label: 'Neon' },
+];
+
+const LUT_SIZE = 32;
+
+type RGB = [number, number, number];
+
+const luma = ([r, g, b]: RGB) => r * 0.2126 + g * 0.7152 + b * 0.0722;
+const saturate = (color: RGB, amount: number): RGB => {
+  const l = luma(color);
+  return color.map(c => l + (c - l) * amount) as RGB;
+};
+const contrast = (color: RGB, amount: number): RGB => color.map(c => (c - 0.5) * amount + 0.5) as RGB;
+
+// Each grade maps an sRGB color to its graded color, all channels in [0, 1]
+const GRADES: Record<ColorGradingPreset, (color: RGB) => RGB> = {
+  warm: ([r, g, b]) => [r * 1.08 + 0.02, g * 1.01, b * 0.86],
+  cool: ([r, g, b]) => [r * 0.88, g * 0.99, b * 1.08 + 0.03],
+  // Shadows pushed towards teal and highlights towards orange
+  tealOrange: color => {
+    const l = luma(color);
+    const [r, g, b] = contrast(color, 1.1);
+    return [r - 0.08 * (1 - l) + 0.1 * l, g + 0.03 * (1 - l) + 0.02 * l, b + 0.08 * (1 - l) - 0.1 * l];
+  },
+  noir: color => contrast(saturate(color, 0), 1.35),
+  // Lifted blacks, muted colors and a yellow cast
+  vintage: color => {
+    const [r, g, b] = saturate(color, 0.65);
+    return [0.08 + r * 0.88, 0.06 + g * 0.86, 0.04 + b * 0.76];
+  },
+  neon: color => contrast(saturate(color, 1.6), 1.15),
+};
+
+// Builds a lookup table by running every grid color through the preset's grade
+const createPresetLut = (preset: ColorGradingPreset): LookupTexture => {
+  const grade = GRADES[preset];
+  const data = new Float32Array(LUT_SIZE ** 3 * 4);
+  const step = 1 / (LUT_SIZE - 1);
+  for (let r = 0; r < LUT_SIZE; ++r) {
+    for (let g = 0; g < LUT_SIZE; ++g) {
+      for (let b = 0; b < LUT_SIZE; ++b) {
+        const i = (r + g * LUT_SIZE + b * LUT_SIZE ** 2) * 4;
+        const graded = grade([r * step, g * step, b * step]);
+        data[i] = Math.min(1, Math.max(0, graded[0]));
+        data[i + 1] = Math.min(1, Math.max(0, graded[1]));
+        data[i + 2] = Math.min(1, Math.max(0, graded[2]));
+        data[i + 3] = 1;
+      }
+    }
+  }
+  // 8-bit tables filter linearly on every device, unlike float ones
+  const lut = new LookupTexture(data, LUT_SIZE).convertToUint8();
+  lut.name = preset;
+  return lut;
+};
+
+/**
+ * Grades the colors of the frame with a lookup table (LUT) preset.
+ */
+class ColorGradingPostEffect extends PostEffect<LUT3DEffect> {
+  constructor(id: string) {
+    super(id);
+    this.properties = new Map<string, Property<any>>([
+      ['preset', new Property<ColorGradingPreset>('preset', 'tealOrange', { uiType: 'dropdown', label: 'Preset', options: PRESET_OPTIONS })],
+      ['intensity', new Property<number>('intensity', 1, { uiType: 'slider', label: 'Intensity', min: 0, max: 1, step: 0.01 })],
+    ]);
+  }
+
+  createEffect(): LUT3DEffect {
+    return new LUT3DEffect(createPresetLut(this.getPropertyValue<ColorGradingPreset>('preset') ?? 'tealOrange'));
+  }
+
+  updateEffect(effect: LUT3DEffect): void {
+    const preset = this.getPropertyValue<ColorGradingPreset>('preset') ?? 'tealOrange';
+    if (effect.lut.name !== preset) {
+      const previous = effect.lut;
+      effect.lut = createPresetLut(preset);
+      previous.dispose();
+    }
+    effect.blendMode.opacity.value = this.getPropertyValue<number>('intensity') ?? 1;
+  }
+}
+
+export default ColorGradingPostEffect;
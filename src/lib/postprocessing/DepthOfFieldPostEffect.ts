@@ -0,0 +1,30 @@
+import type { Camera } from 'three';
+import { DepthOfFieldEffect } from 'postprocessing';
+import PostEffect from './PostEffect';
+import { Property } from '../properties/Property';
+
+/**
+ * Blurs what is nearer or farther than the focus distance, like a camera lens.
+ */
+class DepthOfFieldPostEffect extends PostEffect<DepthOfFieldEffect> {
+  constructor(id: string) {
+    super(id);
+    this.properties = new Map<string, Property<any>>([
+      ['focusDistance', new Property<number>('focusDistance', 15, { uiType: 'slider', label: 'Focus Distance', min: 0, max: 50, step: 0.1, description: 'Distance from the camera that is sharp' })],
+      ['focusRange', new Property<number>('focusRange', 5, { uiType: 'slider', label: 'Focus Range', min: 0.1, max: 30, step: 0.1, description: 'Depth around the focus distance that stays sharp' })],
+      ['bokehScale', new Property<number>('bokehScale', 2, { uiType: 'slider', label: 'Blur', min: 0, max: 10, step: 0.1 })],
+    ]);
+  }
+
+  createEffect(camera: Camera): DepthOfFieldEffect {
+    return new DepthOfFieldEffect(camera);
+  }
+
+  updateEffect(effect: DepthOfFieldEffect): void {
+    effect.cocMaterial.worldFocusDistance = this.getPropertyValue<number>('focusDistance') ?? 15;
+    effect.cocMaterial.worldFocusRange = this.getPropertyValue<number>('focusRange') ?? 5;
+    effect.bokehScale = this.getPropertyValue<number>('bokehScale') ?? 2;
+  }
+}
+
+export default DepthOfFieldPostEffect;
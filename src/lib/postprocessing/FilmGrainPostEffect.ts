@@ -0,0 +1,26 @@
+import { BlendFunction, NoiseEffect } from 'postprocessing';
+import PostEffect from './PostEffect';
+import { Property } from '../properties/Property';
+
+/**
+ * Overlays animated noise like the grain of film stock.
+ */
+class FilmGrainPostEffect extends PostEffect<NoiseEffect> {
+  constructor(id: string) {
+    super(id);
+    this.properties = new Map<string, Property<any>>([
+      ['amount', new Property<number>('amount', 0.25, { uiType: 'slider', label: 'Amount', min: 0, max: 1, step: 0.01 })],
+    ]);
+  }
+
+  createEffect(): NoiseEffect {
+    // Premultiplied grain darkens and brightens the image instead of washing it out
+    return new NoiseEffect({ blendFunction: BlendFunction.SCREEN, premultiply: true });
+  }
+
+  updateEffect(effect: NoiseEffect): void {
+    effect.blendMode.opacity.value = this.getPropertyValue<number>('amount') ?? 0.25;
+  }
+}
+
+export default FilmGrainPostEffect;
@@ -0,0 +1,38 @@
+import { GlitchEffect, GlitchMode } from 'postprocessing';
+import PostEffect from './PostEffect';
+import { Property } from '../properties/Property';
+
+/**
+ * Digital corruption: displaced blocks, torn lines and split colors. At zero intensity the
+ * effect is off, so automating the intensity up for a few beats glitches a drop.
+ */
+class GlitchPostEffect extends PostEffect<GlitchEffect> {
+  constructor(id: string) {
+    super(id);
+    this.properties = new Map<string, Property<any>>([
+      ['intensity', new Property<number>('intensity', 0.3, { uiType: 'slider', label: 'Intensity', min: 0, max: 1, step: 0.01 })],
+      ['frequency', new Property<number>('frequency', 0.5, { uiType: 'slider', label: 'Frequency', min: 0, max: 1, step: 0.01, description: 'How often glitches happen; at 1 they never stop' })],
+    ]);
+  }
+
+  createEffect(): GlitchEffect {
+    return new GlitchEffect();
+  }
+
+  updateEffect(effect: GlitchEffect): void {
+    const intensity = this.getPropertyValue<number>('intensity') ?? 0.3;
+    const frequency = this.getPropertyValue<number>('frequency') ?? 0.5;
+    if (intensity <= 0) {
+      effect.mode = GlitchMode.DISABLED;
+      return;
+    }
+    effect.mode = frequency >= 1 ? GlitchMode.CONSTANT_WILD : GlitchMode.SPORADIC;
+    effect.strength.set(intensity * 0.3, intensity);
+    // Frequency 0 waits 2-4 s between glitches, frequency 1 waits none
+    const delay = 2 * (1 - frequency);
+    effect.minDelay = delay;
+    effect.maxDelay = delay * 2;
+  }
+}
+
+export default GlitchPostEffect;
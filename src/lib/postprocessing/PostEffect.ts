@@ -0,0 +1,67 @@
+import type { Camera } from 'three';
+import type { Effect } from 'postprocessing';
+import { Property } from '../properties/Property';
+
+/**
+ * Abstract base class for the project's post-processing stages.
+ * A post effect holds its settings as properties, like track effects do, and builds the
+ * `postprocessing` effect that renders it. The rendered effect is created once and then
+ * follows the property values (including automated ones) every frame.
+ */
+abstract class PostEffect<E extends Effect = Effect> {
+  // Map to store configurable properties for the post effect
+  public properties: Map<string, Property<any>> = new Map();
+  public id: string;
+  public enabled: boolean = true;
+
+  constructor(id: string) {
+    this.id = id;
+  }
+
+  /**
+   * Builds the effect that renders this stage.
+   * @param camera The scene camera, for effects that need depth.
+   */
+  abstract createEffect(camera: Camera): E;
+
+  /**
+   * Writes the current property values into an effect built by createEffect. Runs every frame.
+   */
+  abstract updateEffect(effect: E): void;
+
+  /**
+   * Creates a copy with the same ID, property values and enabled state.
+   */
+  public clone(): this {
+    const cloned = new (this.constructor as new (id: string) => this)(this.id);
+    this.properties.forEach((property, name) => cloned.setPropertyValue(name, property.value));
+    cloned.enabled = this.enabled;
+    return cloned;
+  }
+
+  /**
+   * Sets the value of a specific property on this post effect.
+   * @param name The name of the property to set.
+   * @param value The new value for the property.
+   */
+  public setPropertyValue<T>(name: string, value: T): void {
+    const property = this.properties.get(name) as Property<T> | undefined;
+    if (property) {
+      property.value = value;
+    } else {
+      console.warn(`Property "${name}" not found on post effect.`);
+    }
+  }
+
+  /**
+   * Helper method to safely retrieve the current value of a property.
+   * @param name The name of the property to get.
+   * @returns The current value of the property, or undefined if the property doesn't exist.
+   */
+  protected getPropertyValue<T>(name: string): T | undefined {
+    const property = this.properties.get(name) as Property<T> | undefined;
+    return property?.value;
+  }
+}
+
+export default PostEffect;
@@ -0,0 +1,27 @@
+import { VignetteEffect } from 'postprocessing';
+import PostEffect from './PostEffect';
+import { Property } from '../properties/Property';
+
+/**
+ * Darkens the corners of the frame.
+ */
+class VignettePostEffect extends PostEffect<VignetteEffect> {
+  constructor(id: string) {
+    super(id);
+    this.properties = new Map<string, Property<any>>([
+      ['offset', new Property<number>('offset', 0.3, { uiType: 'slider', label: 'Size', min: 0, max: 1, step: 0.01, description: 'How far the dark edge reaches into the frame' })],
+      ['darkness', new Property<number>('darkness', 0.6, { uiType: 'slider', label: 'Darkness', min: 0, max: 1, step: 0.01 })],
+    ]);
+  }
+
+  createEffect(): VignetteEffect {
+    return new VignetteEffect();
+  }
+
+  updateEffect(effect: VignetteEffect): void {
+    effect.offset = this.getPropertyValue<number>('offset') ?? 0.3;
+    effect.darkness = this.getPropertyValue<number>('darkness') ?? 0.6;
+  }
+}
+
+export default VignettePostEffect;
@@ -13,12 +13,44 @@ export interface MIDIBlock {
   notes: MIDINote[];
 }
 
+// A tempo change at a given beat. 'linear' ramps the tempo towards the next change.
+export interface TempoChange {
+  beat: number;
+  bpm: number;
+  curve?: 'step' | 'linear';
+}
+
+export interface TimeSignature {
+  numerator: number; // Beats per measure, in units of the denominator
+  denominator: number; // Note value of one beat (4 = quarter, 8 = eighth)
+}
+
+// A time signature that applies from the start of `measure` (0-based) onwards
+export interface TimeSignatureChange extends TimeSignature {
+  measure: number;
+}
+
+// Shape parameters for an object's geometry (see GeometryRegistry). Each distinct set of
+// parameters becomes its own geometry, so synths should draw them from a small set of values.
+export interface GeometryParams {
+  segments?: number; // Radial detail of round shapes
+  radiusRatio?: number; // Torus tube to ring radius, ring hole to outer radius, cylinder top to bottom, trail tail to head
+  detail?: number; // Icosahedron subdivisions
+  text?: string; // Characters drawn by 'text' objects
+}
+
+// How an object is shaded (see VisualMaterials)
+export type VisualMaterialType = 'standard' | 'basic' | 'physical' | 'wireframe' | 'additive' | 'noise' | 'fresnel';
+
 export interface VisualObjectProperties {
   // Basic properties
   color: string;
   opacity?: number;
   emissive?: string;         // <-- Add emissive color
   emissiveIntensity?: number; // <-- Add emissive intensity
+  material?: VisualMaterialType; // Defaults to the synthesizer's material property
+  metalness?: number; // 0-1, for lit materials
+  roughness?: number; // 0-1, for lit materials
   
   // Legacy property for simple 2D objects
   size?: number;
@@ -29,6 +61,7 @@ export interface VisualObjectProperties {
   rotation?: [number, number, number];
   scale?: [number, number, number];
   velocity?: [number, number, number];
+  geometry?: GeometryParams; // Parameters for the object type's geometry
   
   // Expandable with more properties later
 }
@@ -39,6 +72,90 @@ export interface VisualObject {
   sourceNoteId?: string;
 }
 
+// How an automation value moves from one breakpoint to the next
+export type AutomationCurve = 'step' | 'linear' | 'easeIn' | 'easeOut' | 'sCurve';
+
+// A breakpoint of an automation envelope. `curve` shapes the segment towards the next point.
+export interface AutomationPoint {
+  beat: number;
+  value: number | string; // Numbers for numeric properties, hex colors for color properties
+  curve: AutomationCurve;
+}
+
+// The synthesizer or effect whose property a lane automates
+export type AutomationTarget =
+  | { type: 'synth' }
+  | { type: 'effect'; effectId: string };
+
+// One automated property of a track's synthesizer or one of its effects
+export interface AutomationLane {
+  id: string;
+  target: AutomationTarget;
+  propertyName: string;
+  points: AutomationPoint[]; // Sorted by beat
+}
+
+// A feature of the loaded audio, normalized to 0-1 (see AudioAnalysis)
+export type ModulationSource = 'rms' | 'low' | 'mid' | 'high' | 'onset';
+
+// Routes an audio feature onto a numeric property of a track's synthesizer or one of its effects
+export interface ModulationRoute {
+  id: string;
+  source: ModulationSource;
+  target: AutomationTarget;
+  propertyName: string;
+  amount: number; // -1 to 1, share of the property's range added at full source level
+}
+
+// Binds a MIDI controller (CC) to a property of a track's synthesizer or one of its effects
+export interface MidiCCBinding {
+  id: string;
+  channel: number; // 0-15
+  controller: number; // 0-127
+  trackId: string;
+  target: AutomationTarget;
+  propertyName: string;
+}
+
+// A region of an audio file placed on an audio track. The file plays at its own speed,
+// so the clip's length in beats depends on the tempo map.
+export interface AudioClip {
+  id: string;
+  sourceId: string; // Decoded file the clip plays; several clips can share one
+  name: string;
+  startBeat: number; // Where the in point plays on the timeline
+  inPoint: number; // Seconds into the file where the clip starts
+  outPoint: number; // Seconds into the file where the clip ends
+  gain: number; // Linear; 1 plays the file as is
+  isMuted: boolean;
+}
+
+// A lane of audio clips (stems, intros, sound effects), mixed with the project audio
+export interface AudioTrack {
+  id: string;
+  name: string;
+  clips: AudioClip[];
+  gain: number; // Linear, applied on top of each clip's gain
+  isMuted: boolean;
+  isSoloed: boolean; // When any audio track is soloed, only soloed audio tracks play
+}
+
+// The project's audio file as recorded in its settings. The file itself is stored on each
+// device by project ID and, for projects that opt in, in Supabase Storage.
+export interface ProjectAudioFile {
+  name: string;
+  duration: number; // Seconds
+  hash: string; // SHA-256 of the file's bytes (hex), to tell a stale local copy from the current file
+  storagePath: string | null; // Null unless the project opted in to the upload and it finished
+}
+
+// Metronome preferences of a project
+export interface MetronomeSettings {
+  enabled: boolean; // Click on every beat during playback
+  volume: number; // 0-1
+  countIn: boolean; // Play one bar of clicks before playback starts
+}
+
 // Import the actual Synthesizer class
 import Synthesizer from './Synthesizer';
 import Effect from './Effect';
@@ -51,6 +168,8 @@ export interface Track {
   midiBlocks: MIDIBlock[];
   synthesizer: Synthesizer;
   effects: Effect[];
+  automation: AutomationLane[];
+  modulations: ModulationRoute[];
 }
 
 // Interface for the Color Range property type
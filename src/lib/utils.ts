@@ -3,4 +3,9 @@ import { twMerge } from "tailwind-merge"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
-} 
\ No newline at end of file
+}
+
+// Turns a project, track or block name into a file name that is safe to download
+export function toFileName(name: string, extension: string, fallbackName: string) {
+  return `${name.trim().replace(/[^\w\- ]+/g, '').replace(/\s+/g, '-') || fallbackName}${extension}`
+}
@@ -1,6 +1,19 @@
 import { StateCreator } from 'zustand';
 import { AudioManager } from '@/lib/AudioManager';
+import { AudioAnalysis, analyzeAudioBuffer } from '@/lib/AudioAnalysis';
+import { AudioToMidiMode, transcribeAudio } from '@/lib/AudioToMidi';
+import { WaveformPeaks } from '@/lib/WaveformPeaks';
+import { ProjectAudioFile } from '@/lib/types';
+import { deleteAudioFile, loadAudioFile, saveAudioFile, takeLegacyAudioFile } from '@/lib/idbHelper';
+import { deleteProjectAudio, downloadProjectAudio, uploadProjectAudio } from '@/Persistence/audio-storage';
 import { AppState } from './store'; // Import the combined AppState
+import * as SupabasePersist from './persistStore/supabase/persistProjectSettings';
+
+// Hex SHA-256 of a file's bytes
+const hashAudioData = async (data: ArrayBuffer): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
 
 // Audio Slice
 export interface AudioState {
@@ -9,11 +22,25 @@ export interface AudioState {
   audioDuration: number | null;
   audioFileName: string | null;
   loadingProgress: number; // Track loading progress
+  audioAnalysis: AudioAnalysis | null; // Modulation sources, computed after the audio loads
+  isAnalyzingAudio: boolean;
+  waveformPeaks: WaveformPeaks | null; // Waveform overview for the timeline and MIDI editor
+  isGeneratingMidi: boolean;
+  projectAudio: ProjectAudioFile | null; // The current project's audio file, as recorded in its settings
+  isAudioUploadEnabled: boolean; // Whether the current project keeps a copy of its audio in Supabase Storage
 }
 
 export interface AudioActions {
   loadAudio: (audioData: ArrayBuffer, fileName?: string) => Promise<void>;
-  clearAudio: () => void; // Add clearAudio action
+  clearAudio: () => void; // Removes the audio from the current project
+  // Makes the file the current project's audio: plays it, stores it for the project and uploads it if enabled
+  setProjectAudioFile: (file: File) => Promise<void>;
+  // Opts the current project in or out of keeping its audio in Supabase Storage. Opting out deletes the stored copy.
+  setAudioUploadEnabled: (enabled: boolean) => Promise<void>;
+  // Loads a project's own audio (on project load), from this device or else from storage
+  loadProjectAudio: (projectId: string, projectAudio: ProjectAudioFile | null) => Promise<void>;
+  // Transcribes the loaded audio into a new block on the track; resolves to false when nothing was detected
+  generateMidiFromAudio: (trackId: string, mode: AudioToMidiMode) => Promise<boolean>;
 }
 
 export type AudioSlice = AudioState & AudioActions;
@@ -23,7 +50,7 @@ export const createAudioSlice: StateCreator<
   [],
   [],
   AudioSlice
-> = (set) => {
+> = (set, get) => {
     const audioManager = new AudioManager(); // Initialize AudioManager here
     
     // Set up the progress callback
@@ -31,15 +58,53 @@ export const createAudioSlice: StateCreator<
         set({ loadingProgress: progress });
     });
     
+    // Records the project's audio file (saving the settings only when it's a different file or
+    // name) and, if the project opted in, uploads it when it hasn't been yet. The upload finishes
+    // in the background and is retried the next time the project opens.
+    const recordProjectAudio = (projectId: string, file: Blob | File, projectAudio: ProjectAudioFile) => {
+        const previous = get().projectAudio;
+        set({ projectAudio });
+        if (previous?.hash !== projectAudio.hash || previous?.name !== projectAudio.name) {
+            void SupabasePersist.persistProjectSettings(get);
+        }
+        if (projectAudio.storagePath || !get().isAudioUploadEnabled) return;
+
+        void uploadProjectAudio(projectId, file, projectAudio.hash).then(storagePath => {
+            // The project or its audio may have changed during the upload
+            if (!storagePath || get().currentLoadedProjectId !== projectId || get().projectAudio?.hash !== projectAudio.hash) return;
+            set({ projectAudio: { ...projectAudio, storagePath } });
+            void SupabasePersist.persistProjectSettings(get);
+        });
+    };
+
+    const unloadAudio = () => {
+        audioManager.stop();
+        set({
+            isAudioLoaded: false,
+            audioDuration: null,
+            audioFileName: null,
+            loadingProgress: 0,
+            audioAnalysis: null,
+            isAnalyzingAudio: false,
+            waveformPeaks: null
+        });
+    };
+
     return {
         audioManager,
         isAudioLoaded: audioManager.isAudioLoaded,
         audioDuration: audioManager.audioDuration,
         audioFileName: null,
         loadingProgress: 0,
+        audioAnalysis: null,
+        isAnalyzingAudio: false,
+        waveformPeaks: null,
+        isGeneratingMidi: false,
+        projectAudio: null,
+        isAudioUploadEnabled: false,
         loadAudio: async (audioData: ArrayBuffer, fileName: string = '') => {
             // Reset loading progress
-            set({ loadingProgress: 0 });
+            set({ loadingProgress: 0, audioAnalysis: null, isAnalyzingAudio: false, waveformPeaks: null });
             
             // Ensure AudioContext is resumed (required for user interaction)
             if (audioManager.context && audioManager.context.state === 'suspended') {
@@ -48,11 +113,13 @@ export const createAudioSlice: StateCreator<
             
             try {
                 const { duration } = await audioManager.loadAudio(audioData, fileName);
+                const loadedBuffer = audioManager.getAudioBuffer();
                 
                 set({ 
                     isAudioLoaded: true, 
                     audioDuration: duration,
                     audioFileName: fileName || audioManager.audioFileName,
+                    waveformPeaks: loadedBuffer ? WaveformPeaks.fromAudioBuffer(loadedBuffer) : null,
                     // Progress is now handled by the callback, but we'll set it to 100 here just to be safe
                     loadingProgress: 100
                 });
@@ -66,19 +133,138 @@ export const createAudioSlice: StateCreator<
                 });
                 throw error; // Re-throw so the component can catch it
             }
+
+            // Analysis runs in the background; loading is done once the audio can play
+            const buffer = audioManager.getAudioBuffer();
+            if (buffer) {
+                // Another file may have been loaded (or the audio cleared) by the time it finishes
+                const isCurrent = () => get().isAudioLoaded && audioManager.getAudioBuffer() === buffer;
+                set({ isAnalyzingAudio: true });
+                analyzeAudioBuffer(buffer)
+                    .then(analysis => {
+                        if (isCurrent()) set({ audioAnalysis: analysis, isAnalyzingAudio: false });
+                    })
+                    .catch(error => {
+                        console.error("Store: Failed to analyze audio", error);
+                        if (isCurrent()) set({ isAnalyzingAudio: false });
+                    });
+            }
         },
         clearAudio: () => {
-            // Stop any playback
-            audioManager.stop();
-            
-            // Clear the audio state
-            set({
-                isAudioLoaded: false,
-                audioDuration: null,
-                audioFileName: null,
-                loadingProgress: 0
-            });
+            unloadAudio();
+            const projectId = get().currentLoadedProjectId;
+            if (projectId) {
+                void deleteAudioFile(projectId);
+                if (get().projectAudio?.storagePath) void deleteProjectAudio(projectId);
+                set({ projectAudio: null });
+                void SupabasePersist.persistProjectSettings(get);
+            }
             console.log("Audio cleared from store.");
+        },
+        setProjectAudioFile: async (file: File) => {
+            const projectId = get().currentLoadedProjectId;
+            const data = await file.arrayBuffer();
+            // Hashed first: decoding takes over the buffer
+            const hash = await hashAudioData(data);
+            await get().loadAudio(data, file.name);
+            if (!projectId || get().currentLoadedProjectId !== projectId) return;
+
+            await saveAudioFile(projectId, file);
+            recordProjectAudio(projectId, file, {
+                name: file.name,
+                duration: get().audioDuration ?? 0,
+                hash,
+                storagePath: null,
+            });
+        },
+        setAudioUploadEnabled: async (enabled: boolean) => {
+            const projectId = get().currentLoadedProjectId;
+            if (!projectId || get().isAudioUploadEnabled === enabled) return;
+            set({ isAudioUploadEnabled: enabled });
+            const { projectAudio } = get();
+            if (!enabled && projectAudio?.storagePath) {
+                void deleteProjectAudio(projectId);
+                set({ projectAudio: { ...projectAudio, storagePath: null } });
+            }
+            void SupabasePersist.persistProjectSettings(get);
+            if (!enabled || !projectAudio || projectAudio.storagePath) return;
+
+            const file = await loadAudioFile(projectId);
+            if (file && get().currentLoadedProjectId === projectId) recordProjectAudio(projectId, file, projectAudio);
+        },
+        loadProjectAudio: async (projectId: string, projectAudio: ProjectAudioFile | null) => {
+            // The previous project's audio must not carry over, even when this one has none
+            unloadAudio();
+            set({ projectAudio });
+
+            let file = await loadAudioFile(projectId);
+            let hash = file ? await hashAudioData(await file.arrayBuffer()) : null;
+            if (!file && !projectAudio) {
+                // Audio saved before it was stored per project goes to the first project opened without audio
+                file = await takeLegacyAudioFile();
+                hash = file ? await hashAudioData(await file.arrayBuffer()) : null;
+                if (file) await saveAudioFile(projectId, file);
+            }
+            if (projectAudio?.storagePath && hash !== projectAudio.hash) {
+                // Missing on this device, or replaced on another one
+                const remote = await downloadProjectAudio(projectAudio.storagePath);
+                if (remote) {
+                    file = new File([remote], projectAudio.name, { type: remote.type });
+                    hash = projectAudio.hash;
+                    await saveAudioFile(projectId, file);
+                }
+            }
+            if (!file || !hash || get().currentLoadedProjectId !== projectId) {
+                if (projectAudio && !file) console.warn(`Store: The audio "${projectAudio.name}" is not stored on this device.`);
+                return;
+            }
+
+            const name = projectAudio?.hash === hash ? projectAudio.name : file instanceof File ? file.name : 'audio';
+            try {
+                await get().loadAudio(await file.arrayBuffer(), name);
+            } catch (error) {
+                console.error("Store: Failed to load the project's audio", error);
+                return;
+            }
+            if (get().currentLoadedProjectId !== projectId) return;
+
+            if (projectAudio?.hash === hash) {
+                // Already recorded; only the upload may be missing
+                if (!projectAudio.storagePath && get().isAudioUploadEnabled) recordProjectAudio(projectId, file, projectAudio);
+            } else {
+                // A file without a record (imported, or from before audio was stored per project)
+                recordProjectAudio(projectId, file, { name, duration: get().audioDuration ?? 0, hash, storagePath: null });
+            }
+        },
+        generateMidiFromAudio: async (trackId: string, mode: AudioToMidiMode) => {
+            const buffer = audioManager.getAudioBuffer();
+            if (!get().isAudioLoaded || !buffer || get().isGeneratingMidi) return false;
+
+            set({ isGeneratingMidi: true });
+            try {
+                const tempoMap = get().timeManager.getTempoMap();
+                const { audioOffset } = get();
+                // Audio before the start offset maps to negative beats and is left out
+                const block = await transcribeAudio(buffer, mode, time => tempoMap.timeToBeat(time - audioOffset));
+                if (!block) {
+                    console.log("Store: No notes detected in the audio.");
+                    return false;
+                }
+                // The track may have been deleted while the audio was being transcribed
+                if (!get().tracks.some(t => t.id === trackId)) return false;
+                get().addMidiBlock(trackId, block);
+                // Make sure the project is long enough to hold the generated notes
+                const requiredMeasures = get().timeSignatureMap.getMeasureCountForBeats(block.endBeat);
+                if (requiredMeasures > get().numMeasures) {
+                    get().setNumMeasures(requiredMeasures);
+                }
+                return true;
+            } catch (error) {
+                console.error("Store: Failed to generate MIDI from audio", error);
+                return false;
+            } finally {
+                set({ isGeneratingMidi: false });
+            }
         }
     };
 } 
\ No newline at end of file
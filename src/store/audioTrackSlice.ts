@@ -0,0 +1,182 @@
+import { StateCreator } from 'zustand';
+import { v4 as uuidv4 } from 'uuid';
+import { AudioClip, AudioTrack } from '@/lib/types';
+import { clampAudioClip, clampAudioGain, scheduleAudioClips } from '@/lib/AudioClips';
+import { WaveformPeaks } from '@/lib/WaveformPeaks';
+import { deleteAudioClipFile, loadAudioClipFile, saveAudioClipFile } from '@/lib/idbHelper';
+import { AppState } from './store'; // Import the combined AppState
+import * as SupabasePersist from './persistStore/supabase/persistProjectSettings';
+
+// A decoded file that clips play
+export interface AudioClipSource {
+  name: string;
+  duration: number; // Seconds
+  peaks: WaveformPeaks;
+}
+
+// Audio Track Slice
+// Audio tracks are stored with the project settings. Their files are stored locally
+// (IndexedDB) and decoded into the AudioManager, which mixes the clips at playback.
+// Each file belongs to one project and is deleted once none of its clips are left.
+export interface AudioTrackState {
+  audioTracks: AudioTrack[];
+  audioClipSources: Record<string, AudioClipSource>; // Decoded files by source ID; missing until loaded
+}
+
+export interface AudioTrackActions {
+  addAudioTrack: () => string;
+  removeAudioTrack: (trackId: string) => void;
+  updateAudioTrack: (trackId: string, changes: Partial<Pick<AudioTrack, 'name' | 'gain' | 'isMuted' | 'isSoloed'>>) => void;
+  // Decodes and stores the file, then places a clip of the whole file at `startBeat`; resolves to the clip ID
+  addAudioClip: (trackId: string, file: File, startBeat: number) => Promise<string | null>;
+  updateAudioClip: (trackId: string, clipId: string, changes: Partial<Omit<AudioClip, 'id' | 'sourceId'>>) => void;
+  removeAudioClip: (trackId: string, clipId: string) => void;
+  // Replaces the audio tracks (e.g. on project load) and loads any files not decoded yet
+  setAudioTracks: (audioTracks: AudioTrack[]) => Promise<void>;
+  // Hands the current clips to the AudioManager; call whenever their timing or gain may have changed.
+  // While playing, only clips whose timing changed are restarted, unless `restartAll` is set
+  // (needed when the tempo changed, which moves the playhead in seconds).
+  syncAudioClipPlayback: (restartAll?: boolean) => void;
+}
+
+export type AudioTrackSlice = AudioTrackState & AudioTrackActions;
+
+export const createAudioTrackSlice: StateCreator<
+  AppState,
+  [],
+  [],
+  AudioTrackSlice
+> = (set, get) => {
+  // Replaces the audio tracks, then saves and reschedules them
+  const applyAudioTracks = (audioTracks: AudioTrack[]) => {
+    set({ audioTracks });
+    get().syncAudioClipPlayback();
+    void SupabasePersist.persistProjectSettings(get);
+  };
+
+  const updateAudioTrackClips = (trackId: string, update: (clips: AudioClip[]) => AudioClip[]) => {
+    applyAudioTracks(get().audioTracks.map(t => (t.id === trackId ? { ...t, clips: update(t.clips) } : t)));
+  };
+
+  // Deletes the stored and decoded files no clip plays anymore
+  const releaseSources = (sourceIds: string[]) => {
+    const used = new Set(get().audioTracks.flatMap(t => t.clips.map(clip => clip.sourceId)));
+    const unused = sourceIds.filter(sourceId => !used.has(sourceId));
+    if (unused.length === 0) return;
+    unused.forEach(sourceId => {
+      get().audioManager.removeClipSource(sourceId);
+      void deleteAudioClipFile(sourceId);
+    });
+    set(state => ({
+      audioClipSources: Object.fromEntries(Object.entries(state.audioClipSources).filter(([sourceId]) => !unused.includes(sourceId))),
+    }));
+  };
+
+  const decodeSource = async (sourceId: string, file: Blob | File, name: string): Promise<AudioClipSource> => {
+    const buffer = await get().audioManager.decodeClipSource(sourceId, await file.arrayBuffer());
+    const source: AudioClipSource = { name, duration: buffer.duration, peaks: WaveformPeaks.fromAudioBuffer(buffer) };
+    set(state => ({ audioClipSources: { ...state.audioClipSources, [sourceId]: source } }));
+    return source;
+  };
+
+  return {
+    audioTracks: [],
+    audioClipSources: {},
+    addAudioTrack: () => {
+      const id = uuidv4();
+      const audioTracks = get().audioTracks;
+      applyAudioTracks([
+        ...audioTracks,
+        { id, name: `Audio ${audioTracks.length + 1}`, clips: [], gain: 1, isMuted: false, isSoloed: false },
+      ]);
+      return id;
+    },
+    removeAudioTrack: (trackId: string) => {
+      const removed = get().audioTracks.find(t => t.id === trackId);
+      applyAudioTracks(get().audioTracks.filter(t => t.id !== trackId));
+      // Other clips may still play the same files
+      releaseSources(removed?.clips.map(clip => clip.sourceId) ?? []);
+    },
+    updateAudioTrack: (trackId, changes) => {
+      const normalized = changes.gain === undefined ? changes : { ...changes, gain: clampAudioGain(changes.gain) };
+      applyAudioTracks(get().audioTracks.map(t => (t.id === trackId ? { ...t, ...normalized } : t)));
+    },
+    addAudioClip: async (trackId: string, file: File, startBeat: number) => {
+      if (!get().audioTracks.some(t => t.id === trackId)) return null;
+      const sourceId = uuidv4();
+      try {
+        const source = await decodeSource(sourceId, file, file.name);
+        await saveAudioClipFile(sourceId, file);
+        // The track may have been removed while the file was decoding
+        if (!get().audioTracks.some(t => t.id === trackId)) {
+          releaseSources([sourceId]);
+          return null;
+        }
+
+        const clip = clampAudioClip({
+          id: uuidv4(),
+          sourceId,
+          name: file.name,
+          startBeat,
+          inPoint: 0,
+          outPoint: source.duration,
+          gain: 1,
+          isMuted: false,
+        }, source.duration);
+        updateAudioTrackClips(trackId, clips => [...clips, clip]);
+        return clip.id;
+      } catch (error) {
+        console.error("Store: Failed to add audio clip", error);
+        return null;
+      }
+    },
+    updateAudioClip: (trackId, clipId, changes) => {
+      updateAudioTrackClips(trackId, clips => clips.map(clip => {
+        if (clip.id !== clipId) return clip;
+        return clampAudioClip({ ...clip, ...changes }, get().audioClipSources[clip.sourceId]?.duration);
+      }));
+    },
+    removeAudioClip: (trackId: string, clipId: string) => {
+      const removed = get().audioTracks.find(t => t.id === trackId)?.clips.find(clip => clip.id === clipId);
+      updateAudioTrackClips(trackId, clips => clips.filter(clip => clip.id !== clipId));
+      if (removed) releaseSources([removed.sourceId]);
+    },
+    setAudioTracks: async (audioTracks: AudioTrack[]) => {
+      set({ audioTracks });
+      get().syncAudioClipPlayback();
+
+      const missing = new Set(audioTracks.flatMap(t => t.clips.map(clip => clip.sourceId)));
+      Object.keys(get().audioClipSources).forEach(sourceId => missing.delete(sourceId));
+      for (const sourceId of missing) {
+        const file = await loadAudioClipFile(sourceId);
+        if (!file) {
+          console.warn(`Store: Audio for clip source ${sourceId} is not stored on this device.`);
+          continue;
+        }
+        try {
+          const clipName = audioTracks.flatMap(t => t.clips).find(clip => clip.sourceId === sourceId)?.name;
+          await decodeSource(sourceId, file, file instanceof File ? file.name : clipName ?? 'audio');
+        } catch (error) {
+          console.error(`Store: Failed to decode clip source ${sourceId}`, error);
+        }
+      }
+      // Clips whose files just loaded can now be heard
+      get().syncAudioClipPlayback();
+    },
+    syncAudioClipPlayback: (restartAll = false) => {
+      const { audioManager, audioTracks, timeManager, isPlaying } = get();
+      const clips = scheduleAudioClips(audioTracks, beat => timeManager.beatToTime(beat));
+      if (!isPlaying) {
+        audioManager.setClips(clips);
+        return;
+      }
+      const { time, when } = timeManager.getAudioSchedule();
+      if (restartAll) {
+        audioManager.setClips(clips);
+        audioManager.playClips(time, when);
+      } else {
+        audioManager.updateClips(clips, time, when);
+      }
+    },
+  };
+};
@@ -0,0 +1,203 @@
+import { StateCreator } from 'zustand';
+import type { WebGLRenderer } from 'three';
+import ExportManager, { ExportOptions, sliceAndConvertToWav, triggerDownload } from '@/lib/ExportManager';
+import { MidiWriter } from '@/lib/MidiWriter';
+import { renderAudioMix } from '@/lib/AudioClips';
+import { toFileName } from '@/lib/utils';
+import { AppState } from './store';
+
+// Share of the progress bar spent on rendering frames; the rest is ffmpeg encoding
+const RENDER_PROGRESS_SHARE = 0.8;
+const DEFAULT_EXPORT_FPS = 30;
+const DEFAULT_EXPORT_SAMPLE_RATE = 44100; // Used when neither the project audio nor a context sets one
+
+// React Three Fiber context needed to render and capture frames on demand
+export interface R3FContext {
+  gl: WebGLRenderer;
+  canvas: HTMLCanvasElement;
+  invalidate: () => void;
+  advance: (timestamp: number) => void;
+}
+
+export type ExportPhase = 'idle' | 'rendering' | 'encoding';
+
+// What to write to a .mid file
+export type MidiExportTarget =
+  | { type: 'block'; trackId: string; blockId: string }
+  | { type: 'track'; trackId: string }
+  | { type: 'project' };
+
+// Export Slice
+export interface ExportState {
+  isExporting: boolean;
+  exportProgress: number; // 0 to 1
+  exportPhase: ExportPhase;
+  exportError: string | null;
+  exportManagerInstance: ExportManager | null;
+  r3fContext: R3FContext | null;
+}
+
+export interface ExportActions {
+  registerR3FContext: (context: R3FContext | null) => void;
+  startVideoExport: (options?: Partial<ExportOptions>) => Promise<void>;
+  cancelVideoExport: () => void;
+  exportMidi: (target: MidiExportTarget) => void;
+}
+
+export type ExportSlice = ExportState & ExportActions;
+
+const toMidiFileName = (name: string) => toFileName(name, '.mid', 'cabin-visuals');
+
+const captureCanvas = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob(blob => {
+    if (blob) resolve(blob);
+    else reject(new Error("Failed to capture frame from canvas."));
+  }, 'image/png');
+});
+
+export const createExportSlice: StateCreator<
+  AppState,
+  [],
+  [],
+  ExportSlice
+> = (set, get) => {
+
+  // Moves the transport to `time` (timeline seconds) and renders the scene for it.
+  // Objects are drawn in useFrame, so a single render shows the frame.
+  const renderFrameAt = (time: number, context: R3FContext) => {
+    get().timeManager.seekToTime(time);
+    context.advance(performance.now());
+  };
+
+  return {
+    isExporting: false,
+    exportProgress: 0,
+    exportPhase: 'idle',
+    exportError: null,
+    exportManagerInstance: null,
+    r3fContext: null,
+    registerR3FContext: (context: R3FContext | null) => {
+      set(state => ({
+        r3fContext: context,
+        exportManagerInstance: state.exportManagerInstance ?? (context ? new ExportManager() : null),
+      }));
+    },
+    startVideoExport: async (options: Partial<ExportOptions> = {}) => {
+      const { r3fContext, exportManagerInstance, isExporting, isPlaying, audioManager, isAudioLoaded, timeManager } = get();
+      if (!r3fContext || !exportManagerInstance) {
+        console.error("startVideoExport: Visualizer is not ready for export.");
+        return;
+      }
+      if (isExporting) {
+        console.warn("startVideoExport: An export is already in progress.");
+        return;
+      }
+      if (isPlaying) {
+        get().pause();
+      }
+
+      // Default range: the loop region if one is active, otherwise the whole project
+      const { loopEnabled, loopStartBeat, loopEndBeat, numMeasures, timeSignatureMap, currentBeat } = get();
+      const useLoop = loopEnabled && loopStartBeat !== null && loopEndBeat !== null && loopEndBeat > loopStartBeat;
+      const exportOptions: ExportOptions = {
+        fps: options.fps ?? DEFAULT_EXPORT_FPS,
+        startBeat: options.startBeat ?? (useLoop ? loopStartBeat! : 0),
+        endBeat: options.endBeat ?? (useLoop ? loopEndBeat! : timeSignatureMap.getTotalBeats(numMeasures)),
+        fileName: options.fileName ?? 'cabin-visuals-export.mp4',
+      };
+
+      const startTime = timeManager.beatToTime(exportOptions.startBeat);
+      const endTime = timeManager.beatToTime(exportOptions.endBeat);
+      const totalFrames = Math.max(1, Math.ceil((endTime - startTime) * exportOptions.fps));
+
+      set({ isExporting: true, exportProgress: 0, exportPhase: 'rendering', exportError: null });
+      try {
+        await exportManagerInstance.initializeExport(exportOptions);
+
+        for (let i = 0; i < totalFrames; i++) {
+          if (!get().isExporting) {
+            console.log("startVideoExport: Export cancelled.");
+            return;
+          }
+          renderFrameAt(startTime + i / exportOptions.fps, r3fContext);
+          const frameBlob = await captureCanvas(r3fContext.canvas);
+          await exportManagerInstance.addFrame(frameBlob);
+          set({ exportProgress: ((i + 1) / totalFrames) * RENDER_PROGRESS_SHARE });
+        }
+
+        let audioWavData: ArrayBuffer | null = null;
+        const audioBuffer = audioManager.getAudioBuffer();
+        // The project audio (offset so its start offset lines up with beat 0) mixed with the audio clips
+        const mix = await renderAudioMix(
+          isAudioLoaded && audioBuffer ? { buffer: audioBuffer, offset: get().audioOffset } : null,
+          audioManager.getClips(),
+          sourceId => audioManager.getClipSource(sourceId),
+          startTime,
+          endTime,
+          audioManager.sampleRate ?? DEFAULT_EXPORT_SAMPLE_RATE
+        );
+        if (mix) {
+          audioWavData = sliceAndConvertToWav(mix, 0, endTime - startTime, mix.sampleRate);
+        } else {
+          console.warn("startVideoExport: No audio loaded, exporting video only.");
+        }
+
+        set({ exportPhase: 'encoding' });
+        exportManagerInstance.setEncodeProgressCallback(progress => {
+          set({ exportProgress: RENDER_PROGRESS_SHARE + progress * (1 - RENDER_PROGRESS_SHARE) });
+        });
+        const videoBlob = await exportManagerInstance.finalizeExport(audioWavData);
+        triggerDownload(videoBlob, exportOptions.fileName);
+      } catch (error) {
+        console.error("startVideoExport: Export failed:", error);
+        set({ exportError: error instanceof Error ? error.message : String(error) });
+      } finally {
+        exportManagerInstance.setEncodeProgressCallback(null);
+        await exportManagerInstance.cleanup();
+        // Return the timeline to where the user left it
+        get().seekTo(currentBeat);
+        set({ isExporting: false, exportProgress: 0, exportPhase: 'idle' });
+      }
+    },
+    cancelVideoExport: () => {
+      if (get().exportPhase === 'rendering') {
+        set({ isExporting: false });
+      }
+    },
+    exportMidi: (target: MidiExportTarget) => {
+      const { tracks, timeManager, timeSignatureMap } = get();
+      const tempoMap = timeManager.getTempoMap();
+      let data: Uint8Array;
+      let fileName: string;
+
+      if (target.type === 'project') {
+        if (tracks.length === 0) {
+          console.warn("exportMidi: Project has no tracks to export.");
+          return;
+        }
+        data = MidiWriter.write(tracks.map(t => ({ name: t.name, blocks: t.midiBlocks })), tempoMap, timeSignatureMap);
+        fileName = 'cabin-visuals-project.mid';
+      } else {
+        const track = tracks.find(t => t.id === target.trackId);
+        if (!track) {
+          console.error(`exportMidi: Track ${target.trackId} not found.`);
+          return;
+        }
+        if (target.type === 'track') {
+          data = MidiWriter.write([{ name: track.name, blocks: track.midiBlocks }], tempoMap, timeSignatureMap);
+          fileName = toMidiFileName(track.name);
+        } else {
+          const block = track.midiBlocks.find(b => b.id === target.blockId);
+          if (!block) {
+            console.error(`exportMidi: Block ${target.blockId} not found on track ${track.name}.`);
+            return;
+          }
+          data = MidiWriter.writeBlock(block, track.name, tempoMap, timeSignatureMap);
+          fileName = toMidiFileName(`${track.name} clip`);
+        }
+      }
+
+      triggerDownload(new Blob([data], { type: 'audio/midi' }), fileName);
+    },
+  };
+}
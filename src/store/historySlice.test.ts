@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { create } from 'zustand';
+import type { Track } from '@/lib/types';
+import type { AppState } from './store';
+import { createHistorySlice } from './historySlice';
+
+// Restoring a snapshot also saves the difference to Supabase, which these tests don't reach
+vi.mock('./persistStore/supabase/persistTrackSlice', () => ({ persistTracksDiff: vi.fn() }));
+
+const track = (name: string) => ({ id: name, name }) as unknown as Track;
+
+// Just the history slice and the track list it snapshots
+const createHistoryStore = () => create<AppState>()((set, get, api) => ({
+    tracks: [],
+    restoreTracks: (tracks: Track[]) => set({ tracks }),
+    ...createHistorySlice(set, get, api),
+}) as unknown as AppState);
+
+describe('historySlice', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('undoes and redoes edits', () => {
+        const store = createHistoryStore();
+        const edit = (tracks: Track[]) => {
+            store.getState().recordHistory('Edit');
+            store.setState({ tracks });
+        };
+        const first = [track('a')];
+        const second = [track('a'), track('b')];
+        edit(first);
+        edit(second);
+
+        store.getState().undo();
+        expect(store.getState().tracks).toBe(first);
+        store.getState().undo();
+        expect(store.getState().tracks).toEqual([]);
+        store.getState().redo();
+        store.getState().redo();
+        expect(store.getState().tracks).toBe(second);
+
+        // A new edit clears the redo stack
+        store.getState().undo();
+        edit([track('c')]);
+        expect(store.getState().redoStack).toEqual([]);
+    });
+
+    it('coalesces edits sharing a key within the window', () => {
+        const store = createHistoryStore();
+        const drag = (name: string) => {
+            store.getState().recordHistory('Move note', 'drag');
+            store.setState({ tracks: [track(name)] });
+        };
+        drag('step 1');
+        vi.advanceTimersByTime(500);
+        drag('step 2');
+        vi.advanceTimersByTime(500);
+        drag('step 3');
+        expect(store.getState().undoStack).toHaveLength(1);
+
+        // After the window closes the next edit is its own step
+        vi.advanceTimersByTime(1500);
+        drag('step 4');
+        expect(store.getState().undoStack).toHaveLength(2);
+
+        store.getState().undo();
+        store.getState().undo();
+        expect(store.getState().tracks).toEqual([]);
+    });
+
+    it('records a batch of edits as one step', () => {
+        const store = createHistoryStore();
+        store.getState().batchHistory('Paste', () => {
+            store.getState().recordHistory('Add');
+            store.setState({ tracks: [track('a')] });
+            store.getState().recordHistory('Add');
+            store.setState({ tracks: [track('a'), track('b')] });
+        });
+        expect(store.getState().undoStack.map(entry => entry.label)).toEqual(['Paste']);
+    });
+
+    it('keeps the last 100 steps', () => {
+        const store = createHistoryStore();
+        for (let i = 0; i < 120; i++) {
+            store.getState().recordHistory(`Edit ${i}`);
+            store.setState({ tracks: [track(String(i))] });
+        }
+        const { undoStack } = store.getState();
+        expect(undoStack).toHaveLength(100);
+        expect(undoStack[0].label).toBe('Edit 20');
+    });
+});
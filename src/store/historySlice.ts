@@ -0,0 +1,114 @@
+import { StateCreator } from 'zustand';
+import { Track } from '@/lib/types';
+import { AppState } from './store';
+import * as SupabasePersist from './persistStore/supabase/persistTrackSlice';
+
+const MAX_HISTORY_ENTRIES = 100;
+// Edits sharing a coalesce key within this window (e.g. one note drag or slider sweep) undo as one step
+const HISTORY_COALESCE_MS = 1000;
+
+// Tracks hold immutable blocks, synths and effects (edits clone them), so a history
+// entry can keep a reference to the whole track list instead of a deep copy.
+export interface HistoryEntry {
+  label: string;
+  tracks: Track[];
+  coalesceKey?: string;
+  timestamp: number;
+}
+
+// History Slice
+export interface HistoryState {
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+}
+
+export interface HistoryActions {
+  // Snapshots the tracks before a change. Call at the start of every undoable action.
+  recordHistory: (label: string, coalesceKey?: string) => void;
+  // Runs several undoable actions as a single history step (coalesced like recordHistory)
+  batchHistory: (label: string, action: () => void, coalesceKey?: string) => void;
+  undo: () => void;
+  redo: () => void;
+  clearHistory: () => void;
+}
+
+export type HistorySlice = HistoryState & HistoryActions;
+
+export const createHistorySlice: StateCreator<
+  AppState,
+  [],
+  [],
+  HistorySlice
+> = (set, get) => {
+  let batchDepth = 0;
+
+  // Swaps the track list for `entry`'s snapshot and brings Supabase in line with it
+  const restore = (entry: HistoryEntry) => {
+    const previousTracks = get().tracks;
+    get().restoreTracks(entry.tracks);
+    void SupabasePersist.persistTracksDiff(get, previousTracks, entry.tracks);
+    console.log(`History: Restored state for "${entry.label}"`);
+  };
+
+  // Drops entries whose snapshot matches the current tracks (actions that ended up changing nothing)
+  const popChangedEntry = (stack: HistoryEntry[]) => {
+    const remaining = [...stack];
+    let entry = remaining.pop();
+    while (entry && entry.tracks === get().tracks) {
+      entry = remaining.pop();
+    }
+    return { entry, remaining };
+  };
+
+  return {
+    undoStack: [],
+    redoStack: [],
+    recordHistory: (label: string, coalesceKey?: string) => {
+      if (batchDepth > 0) return;
+      const now = Date.now();
+      const { undoStack, tracks } = get();
+      const last = undoStack[undoStack.length - 1];
+
+      if (coalesceKey && last?.coalesceKey === coalesceKey && now - last.timestamp < HISTORY_COALESCE_MS) {
+        // Keep the snapshot from before the first edit, extend the window
+        set({ undoStack: [...undoStack.slice(0, -1), { ...last, timestamp: now }], redoStack: [] });
+        return;
+      }
+
+      const entry: HistoryEntry = { label, tracks, coalesceKey, timestamp: now };
+      set({ undoStack: [...undoStack, entry].slice(-MAX_HISTORY_ENTRIES), redoStack: [] });
+    },
+    batchHistory: (label: string, action: () => void, coalesceKey?: string) => {
+      get().recordHistory(label, coalesceKey);
+      batchDepth++;
+      try {
+        action();
+      } finally {
+        batchDepth--;
+      }
+    },
+    undo: () => {
+      const { entry, remaining } = popChangedEntry(get().undoStack);
+      if (!entry) {
+        set({ undoStack: remaining });
+        return;
+      }
+      const redoEntry: HistoryEntry = { label: entry.label, tracks: get().tracks, timestamp: Date.now() };
+      set({ undoStack: remaining, redoStack: [...get().redoStack, redoEntry] });
+      restore(entry);
+    },
+    redo: () => {
+      const { entry, remaining } = popChangedEntry(get().redoStack);
+      if (!entry) {
+        set({ redoStack: remaining });
+        return;
+      }
+      const undoEntry: HistoryEntry = { label: entry.label, tracks: get().tracks, timestamp: Date.now() };
+      set({ redoStack: remaining, undoStack: [...get().undoStack, undoEntry] });
+      restore(entry);
+    },
+    clearHistory: () => {
+      set({ undoStack: [], redoStack: [] });
+    },
+  };
+};
@@ -0,0 +1,310 @@
+import { StateCreator } from 'zustand';
+import { v4 as uuidv4 } from 'uuid';
+import MidiInput, { MidiInputDevice } from '@/lib/MidiInput';
+import LiveNotes from '@/lib/LiveNotes';
+import { ccToPropertyValue, getMidiBindingProperty } from '@/lib/MidiMapping';
+import { DEFAULT_AUTOMATION_CURVE, isSameAutomationTarget } from '@/lib/Automation';
+import { AutomationTarget, MidiCCBinding, MIDINote } from '@/lib/types';
+import { AppState } from './store';
+import * as SupabasePersist from './persistStore/supabase/persistProjectSettings';
+
+export const MIDI_RECORD_QUANTIZE_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'Off' },
+  { value: 1, label: '1/4' },
+  { value: 0.5, label: '1/8' },
+  { value: 0.25, label: '1/16' },
+  { value: 0.125, label: '1/32' },
+];
+
+const MIN_RECORDED_NOTE_BEATS = 1 / 32; // Shortest note recorded without quantize
+const MIN_RECORDED_POINT_SPACING = 1 / 16; // Beats between automation points recorded from a controller
+const AUTOMATION_PASS_GAP = 1; // Beats without controller moves after which the next move starts a new pass
+
+export type MidiInputStatus = 'off' | 'pending' | 'ready' | 'unsupported' | 'denied';
+
+// A key held down while recording, written to its block when released
+interface HeldRecordNote {
+  trackId: string;
+  blockId: string;
+  startBeat: number; // Song beat, before quantize
+  velocity: number;
+}
+
+// The property MIDI learn binds the next controller move to
+export interface MidiLearnTarget {
+  trackId: string;
+  target: AutomationTarget;
+  propertyName: string;
+}
+
+// Controller moves recorded into one automation lane since the controller was picked up
+interface AutomationPass {
+  lastBeat: number;
+}
+
+// MIDI Input Slice
+export interface MidiInputState {
+  midiInput: MidiInput;
+  liveNotes: LiveNotes; // Rendered by VisualizerManager
+  midiInputStatus: MidiInputStatus;
+  midiInputDevices: MidiInputDevice[];
+  selectedMidiInputId: string | null; // Null listens to every input
+  isMidiRecordArmed: boolean; // Record notes into the selected block while playing
+  midiRecordQuantize: number; // Grid in beats recorded notes snap to; 0 records them as played
+  isLivePerformance: boolean; // Notes play the selected track's synth straight away instead of being recorded
+  // --- Controller Mapping ---
+  midiCCBindings: MidiCCBinding[]; // Saved with the project
+  isMidiLearnActive: boolean;
+  midiLearnTarget: MidiLearnTarget | null; // Clicked property waiting for a controller
+  isMidiCCAutomationRecording: boolean; // Controller moves are written as automation while playing
+}
+
+export interface MidiInputActions {
+  enableMidiInput: () => Promise<boolean>;
+  selectMidiInput: (inputId: string | null) => void;
+  toggleMidiRecordArmed: () => void;
+  setMidiRecordQuantize: (beats: number) => void;
+  toggleLivePerformance: () => void;
+  // Writes the notes still held while recording, ending them at the current beat
+  finishHeldMidiNotes: () => void;
+  // --- Controller Mapping Actions ---
+  toggleMidiLearn: () => void;
+  setMidiLearnTarget: (target: MidiLearnTarget | null) => void;
+  setMidiCCBindings: (bindings: MidiCCBinding[]) => void;
+  removeMidiCCBinding: (bindingId: string) => void;
+  toggleMidiCCAutomationRecording: () => void;
+}
+
+export type MidiInputSlice = MidiInputState & MidiInputActions;
+
+export const createMidiInputSlice: StateCreator<
+  AppState,
+  [],
+  [],
+  MidiInputSlice
+> = (set, get) => {
+  const midiInput = new MidiInput();
+  const liveNotes = new LiveNotes();
+  const heldRecordNotes = new Map<number, HeldRecordNote>(); // By pitch
+  const pendingCCValues = new Map<string, number>(); // Latest controller value by binding ID, applied once per frame
+  let ccFrameId: number | null = null;
+  const automationPasses = new Map<string, AutomationPass>(); // By lane ID
+
+  const quantize = (beat: number) => {
+    const grid = get().midiRecordQuantize;
+    return grid > 0 ? Math.round(beat / grid) * grid : beat;
+  };
+
+  // Adds a recorded note to its block. Notes are kept inside the block; one held across a
+  // loop jump ends at the block's end.
+  const writeRecordedNote = (pitch: number, held: HeldRecordNote, endBeat: number) => {
+    const track = get().tracks.find(t => t.id === held.trackId);
+    const block = track?.midiBlocks.find(b => b.id === held.blockId);
+    if (!block) return;
+
+    const startBeat = Math.max(block.startBeat, quantize(held.startBeat));
+    if (startBeat >= block.endBeat) return;
+    const minDuration = get().midiRecordQuantize || MIN_RECORDED_NOTE_BEATS;
+    const end = endBeat < held.startBeat ? block.endBeat : quantize(endBeat);
+    const duration = Math.min(Math.max(end - startBeat, minDuration), block.endBeat - startBeat);
+
+    const note: MIDINote = {
+      id: uuidv4(),
+      pitch,
+      velocity: held.velocity,
+      startBeat: startBeat - block.startBeat,
+      duration,
+    };
+    get().updateMidiBlock(held.trackId, { ...block, notes: [...block.notes, note] });
+  };
+
+  const handleNoteOn = (pitch: number, velocity: number) => {
+    const { isLivePerformance, isMidiRecordArmed, isPlaying, selectedTrackId, selectedBlockId, tracks, timeManager } = get();
+    if (!selectedTrackId) return;
+
+    if (isLivePerformance) {
+      liveNotes.noteOn(selectedTrackId, pitch, velocity);
+      return;
+    }
+    if (!isMidiRecordArmed || !isPlaying || !selectedBlockId) return;
+    const block = tracks.find(t => t.id === selectedTrackId)?.midiBlocks.find(b => b.id === selectedBlockId);
+    if (!block) return;
+
+    const beat = timeManager.getCurrentBeat();
+    if (beat < block.startBeat || beat >= block.endBeat) return;
+    heldRecordNotes.set(pitch, { trackId: selectedTrackId, blockId: selectedBlockId, startBeat: beat, velocity });
+  };
+
+  const handleNoteOff = (pitch: number) => {
+    liveNotes.noteOff(pitch);
+    const held = heldRecordNotes.get(pitch);
+    if (!held) return;
+    heldRecordNotes.delete(pitch);
+    writeRecordedNote(pitch, held, get().timeManager.getCurrentBeat());
+  };
+
+  // Writes a controller move into the property's automation lane. Moves overwrite the
+  // points they pass over; a new pass starts after a jump back or a pause in the moves.
+  const recordCCAutomation = (binding: MidiCCBinding, value: number | string) => {
+    const beat = get().timeManager.getCurrentBeat();
+    const laneId = get().addAutomationLane(binding.trackId, binding.target, binding.propertyName);
+    const lane = get().tracks.find(t => t.id === binding.trackId)?.automation.find(l => l.id === laneId);
+    if (!laneId || !lane) return;
+
+    const pass = automationPasses.get(laneId);
+    const isNewPass = !pass || beat < pass.lastBeat || beat - pass.lastBeat > AUTOMATION_PASS_GAP;
+    // Moves close together update the pass's last point rather than adding one
+    const replacesLast = !isNewPass && beat - pass.lastBeat < MIN_RECORDED_POINT_SPACING;
+    const pointBeat = replacesLast ? pass.lastBeat : beat;
+    const clearFrom = isNewPass ? beat : pass.lastBeat;
+    const points = lane.points.filter(point => (point.beat <= clearFrom || point.beat > beat) && point.beat !== pointBeat);
+    get().setAutomationPoints(binding.trackId, laneId, [...points, { beat: pointBeat, value, curve: DEFAULT_AUTOMATION_CURVE }]);
+    if (!replacesLast) automationPasses.set(laneId, { lastBeat: beat });
+  };
+
+  const applyPendingCCValues = () => {
+    ccFrameId = null;
+    const values = Array.from(pendingCCValues.entries());
+    pendingCCValues.clear();
+    // Property and automation edits from controllers coalesce, so a sweep of any knobs undoes as one step
+    get().batchHistory('MIDI controller', () => values.forEach(([bindingId, ccValue]) => {
+      const binding = get().midiCCBindings.find(b => b.id === bindingId);
+      const track = binding && get().tracks.find(t => t.id === binding.trackId);
+      const property = binding && track ? getMidiBindingProperty(track, binding) : null;
+      if (!binding || !track || !property) return;
+
+      const value = ccToPropertyValue(property, ccValue);
+      if (binding.target.type === 'synth') {
+        const synthesizer = track.synthesizer.clone();
+        synthesizer.setPropertyValue(binding.propertyName, value);
+        get().updateTrack(track.id, { synthesizer });
+      } else {
+        const effectId = binding.target.effectId;
+        get().updateEffectPropertyOnTrack(track.id, track.effects.findIndex(e => e.id === effectId), binding.propertyName, value);
+      }
+      if (get().isMidiCCAutomationRecording && get().isPlaying) {
+        recordCCAutomation(binding, value);
+      }
+    }), 'midi-cc');
+  };
+
+  const handleControlChange = (channel: number, controller: number, value: number) => {
+    const { isMidiLearnActive, midiLearnTarget, midiCCBindings } = get();
+    if (isMidiLearnActive && midiLearnTarget) {
+      // One controller per property, and one property per controller
+      const others = midiCCBindings.filter(binding =>
+        !(binding.channel === channel && binding.controller === controller) &&
+        !(binding.trackId === midiLearnTarget.trackId &&
+          binding.propertyName === midiLearnTarget.propertyName &&
+          isSameAutomationTarget(binding.target, midiLearnTarget.target))
+      );
+      get().setMidiCCBindings([...others, { id: uuidv4(), channel, controller, ...midiLearnTarget }]);
+      set({ midiLearnTarget: null });
+      return;
+    }
+
+    midiCCBindings
+      .filter(binding => binding.channel === channel && binding.controller === controller)
+      .forEach(binding => pendingCCValues.set(binding.id, value));
+    if (pendingCCValues.size > 0 && ccFrameId === null) {
+      ccFrameId = requestAnimationFrame(applyPendingCCValues);
+    }
+  };
+
+  midiInput.onMessage(message => {
+    if (message.type === 'noteOn') {
+      handleNoteOn(message.pitch, message.velocity);
+    } else if (message.type === 'noteOff') {
+      handleNoteOff(message.pitch);
+    } else {
+      handleControlChange(message.channel, message.controller, message.value);
+    }
+  });
+
+  midiInput.onDevicesChange(devices => {
+    set({ midiInputDevices: devices });
+    // A chosen input that was unplugged falls back to listening to every input
+    const selected = get().selectedMidiInputId;
+    if (selected && !devices.some(device => device.id === selected)) {
+      get().selectMidiInput(null);
+    }
+  });
+
+  return {
+    midiInput,
+    liveNotes,
+    midiInputStatus: 'off',
+    midiInputDevices: [],
+    selectedMidiInputId: null,
+    isMidiRecordArmed: false,
+    midiRecordQuantize: 0.25,
+    isLivePerformance: false,
+    midiCCBindings: [],
+    isMidiLearnActive: false,
+    midiLearnTarget: null,
+    isMidiCCAutomationRecording: false,
+    enableMidiInput: async () => {
+      if (midiInput.isEnabled) return true;
+      if (!MidiInput.isSupported()) {
+        set({ midiInputStatus: 'unsupported' });
+        return false;
+      }
+      set({ midiInputStatus: 'pending' });
+      const granted = await midiInput.enable();
+      set({ midiInputStatus: granted ? 'ready' : 'denied' });
+      return granted;
+    },
+    selectMidiInput: (inputId: string | null) => {
+      midiInput.setInputId(inputId);
+      set({ selectedMidiInputId: inputId });
+    },
+    toggleMidiRecordArmed: () => {
+      const isMidiRecordArmed = !get().isMidiRecordArmed;
+      if (isMidiRecordArmed) {
+        liveNotes.releaseAll();
+        void get().enableMidiInput();
+      } else {
+        get().finishHeldMidiNotes();
+      }
+      set({ isMidiRecordArmed, isLivePerformance: false });
+    },
+    setMidiRecordQuantize: (beats: number) => {
+      set({ midiRecordQuantize: Number.isFinite(beats) ? Math.max(0, beats) : 0 });
+    },
+    toggleLivePerformance: () => {
+      const isLivePerformance = !get().isLivePerformance;
+      if (isLivePerformance) {
+        get().finishHeldMidiNotes();
+        void get().enableMidiInput();
+      } else {
+        liveNotes.releaseAll();
+      }
+      set({ isLivePerformance, isMidiRecordArmed: false });
+    },
+    finishHeldMidiNotes: () => {
+      const endBeat = get().timeManager.getCurrentBeat();
+      heldRecordNotes.forEach((held, pitch) => writeRecordedNote(pitch, held, endBeat));
+      heldRecordNotes.clear();
+    },
+    // --- Controller Mapping Action Implementations ---
+    toggleMidiLearn: () => {
+      const isMidiLearnActive = !get().isMidiLearnActive;
+      if (isMidiLearnActive) void get().enableMidiInput();
+      set({ isMidiLearnActive, midiLearnTarget: null });
+    },
+    setMidiLearnTarget: (target: MidiLearnTarget | null) => {
+      set({ midiLearnTarget: target });
+    },
+    setMidiCCBindings: (bindings: MidiCCBinding[]) => {
+      set({ midiCCBindings: bindings });
+      void SupabasePersist.persistProjectSettings(get);
+    },
+    removeMidiCCBinding: (bindingId: string) => {
+      get().setMidiCCBindings(get().midiCCBindings.filter(binding => binding.id !== bindingId));
+    },
+    toggleMidiCCAutomationRecording: () => {
+      set(state => ({ isMidiCCAutomationRecording: !state.isMidiCCAutomationRecording }));
+      automationPasses.clear();
+    },
+  };
+};
@@ -1,6 +1,6 @@
 import { AppState } from '../../store';
-import * as supabaseService from '@/Persistence/supabase-service';
-import type { ProjectSettings } from '@/Persistence/supabase-service';
+import type { ProjectSettings } from '@/Persistence/persistence-backend';
+import { serializePostEffect } from '@/utils/persistenceUtils';
 
 const logError = (action: string, error: any) => {
     console.error(`Supabase Persistence Error [${action}]:`, error);
@@ -8,7 +8,7 @@ const logError = (action: string, error: any) => {
 
 /**
  * Persists the current project's settings to Supabase.
- * Fetches necessary state using get() and saves it via supabase service.
+ * Fetches necessary state using get() and saves it via the persistence adapter.
  * @param get Function to access the current Zustand state (AppState).
  */
 export const persistProjectSettings = async (get: () => AppState) => {
@@ -22,6 +22,17 @@ export const persistProjectSettings = async (get: () => AppState) => {
         const settings: ProjectSettings = {
             projectId,
             bpm: get().bpm,
+            tempoChanges: get().tempoChanges,
+            timeSignature: get().timeSignature,
+            timeSignatureChanges: get().timeSignatureChanges,
+            audioOffset: get().audioOffset,
+            audioTracks: get().audioTracks,
+            audioFile: get().projectAudio,
+            uploadAudio: get().isAudioUploadEnabled,
+            metronome: get().metronome,
+            midiCCBindings: get().midiCCBindings,
+            postEffects: get().postEffects.map(serializePostEffect),
+            postEffectAutomation: get().postEffectAutomation,
             isPlaying: get().isPlaying,
             loopEnabled: get().loopEnabled,
             loopStartBeat: get().loopStartBeat,
@@ -31,7 +42,7 @@ export const persistProjectSettings = async (get: () => AppState) => {
             selectedWindow: get().selectedWindow,
         };
 
-        await supabaseService.saveProjectSettings(settings);
+        await get().persistence.saveProjectSettings(settings);
     } catch (error) {
         logError('persistProjectSettings', error);
     }
@@ -1,5 +1,5 @@
 import { AppState } from '../../store';
-import * as supabaseService from '@/Persistence/supabase-service';
+import type { CabinProjectFile } from '@/Persistence/projectFile';
 
 const logError = (action: string, error: any) => {
     console.error(`Supabase Persistence Error [${action}]:`, error);
@@ -13,7 +13,7 @@ const logError = (action: string, error: any) => {
  */
 export const persistCreateNewProject = async (get: () => AppState, name: string): Promise<string | null> => {
     try {
-        const newProjectId = await supabaseService.createSupabaseProject(name);
+        const newProjectId = await get().persistence.createProject(name);
         return newProjectId;
     } catch (error) {
         logError('persistCreateNewProject', error);
@@ -21,6 +21,22 @@ export const persistCreateNewProject = async (get: () => AppState, name: string)
     }
 };
 
+/**
+ * Creates a new project in Supabase from a .cabin project file.
+ * @param get Function to access the current Zustand state (AppState).
+ * @param file The parsed project file.
+ * @param name The name for the new project.
+ * @returns The ID of the newly created project, or null if the import failed.
+ */
+export const persistImportProject = async (get: () => AppState, file: CabinProjectFile, name: string): Promise<string | null> => {
+    try {
+        return await get().persistence.importProject(file, name);
+    } catch (error) {
+        logError('persistImportProject', error);
+        return null;
+    }
+};
+
 /**
  * Deletes a project and all its associated data from Supabase.
  * @param get Function to access the current Zustand state (AppState).
@@ -28,19 +44,20 @@ export const persistCreateNewProject = async (get: () => AppState, name: string)
  */
 export const persistDeleteProject = async (get: () => AppState, projectId: string) => {
     try {
-        await supabaseService.deleteSupabaseProject(projectId);
+        await get().persistence.deleteProject(projectId);
     } catch (error) {
         logError('persistDeleteProject', error);
     }
 };
 
 /**
- * Loads the project list from Supabase.
+ * Loads the project list from Supabase, including projects only stored locally.
+ * @param get Function to access the current Zustand state (AppState).
  * @returns Array of project metadata or empty array on error.
  */
-export const persistLoadProjectList = async (): Promise<Array<{ id: string; name: string }>> => {
+export const persistLoadProjectList = async (get: () => AppState): Promise<Array<{ id: string; name: string }>> => {
     try {
-        return await supabaseService.getSupabaseProjectList();
+        return await get().persistence.getProjectList();
     } catch (error) {
         logError('persistLoadProjectList', error);
         return [];
@@ -48,16 +65,31 @@ export const persistLoadProjectList = async (): Promise<Array<{ id: string; name
 };
 
 /**
- * Loads a full project from Supabase.
+ * Loads a full project from Supabase, or from the local copy when offline.
+ * @param get Function to access the current Zustand state (AppState).
  * @param projectId The ID of the project to load.
  * @returns The project data or null on error.
  */
-export const persistLoadProject = async (projectId: string) => {
+export const persistLoadProject = async (get: () => AppState, projectId: string) => {
     try {
-        return await supabaseService.loadFullProjectFromSupabase(projectId);
+        return await get().persistence.loadFullProject(projectId);
     } catch (error) {
         logError('persistLoadProject', error);
         return null;
     }
 };
 
+/**
+ * Loads a project's audio tracks without loading the rest of the project.
+ * @param get Function to access the current Zustand state (AppState).
+ * @param projectId The ID of the project.
+ * @returns The audio tracks, or an empty array if the project can't be read.
+ */
+export const persistLoadAudioTracks = async (get: () => AppState, projectId: string) => {
+    try {
+        return (await get().persistence.loadAudioTracks(projectId)) ?? [];
+    } catch (error) {
+        logError('persistLoadAudioTracks', error);
+        return [];
+    }
+};
@@ -1,6 +1,5 @@
 import { AppState } from '../../store';
 import { Track, MIDIBlock } from '@/lib/types';
-import * as supabaseService from '@/Persistence/supabase-service';
 import { v4 as uuidv4, validate as uuidValidate } from 'uuid';
 import { serializeSynth, serializeEffect } from '@/utils/persistenceUtils';
 
@@ -17,12 +16,14 @@ export const persistAddTrack = async (get: () => AppState, track: Track) => {
         
         const order = get().tracks.length - 1;
         
-        await supabaseService.saveTrack({
+        await get().persistence.saveTrack({
             id: track.id,
             projectId,
             name: track.name,
             isMuted: track.isMuted,
             isSoloed: track.isSoloed,
+            automation: track.automation,
+            modulations: track.modulations,
             order,
         });
 
@@ -30,7 +31,7 @@ export const persistAddTrack = async (get: () => AppState, track: Track) => {
             const synthData = serializeSynth(track.synthesizer, track.id);
             if (synthData) {
                 try { console.log('[DEBUG] persistAddTrack.serializeSynth:', synthData); } catch {}
-                await supabaseService.saveSynth({
+                await get().persistence.saveSynth({
                     trackId: track.id,
                     type: synthData.type,
                     settings: synthData.settings,
@@ -42,21 +43,60 @@ export const persistAddTrack = async (get: () => AppState, track: Track) => {
     }
 };
 
+// Tracks are saved one after another so each gets the right order and exists before its blocks
+export const persistImportedTracks = async (get: () => AppState, tracks: Track[]) => {
+    const firstOrder = get().tracks.length - tracks.length;
+    try {
+        const projectId = get().currentLoadedProjectId;
+        if (!projectId) throw new Error("No project loaded");
+
+        for (const [index, track] of tracks.entries()) {
+            await get().persistence.saveTrack({
+                id: track.id,
+                projectId,
+                name: track.name,
+                isMuted: track.isMuted,
+                isSoloed: track.isSoloed,
+                automation: track.automation,
+                modulations: track.modulations,
+                order: firstOrder + index,
+            });
+
+            const synthData = serializeSynth(track.synthesizer, track.id);
+            if (synthData) {
+                await get().persistence.saveSynth({
+                    trackId: track.id,
+                    type: synthData.type,
+                    settings: synthData.settings,
+                });
+            }
+
+            for (const block of track.midiBlocks) {
+                await persistAddMidiBlock(get, track.id, block);
+            }
+        }
+    } catch (error) {
+        logError('importTracks', error);
+    }
+};
+
 export const persistRemoveTrack = async (get: () => AppState, trackId: string) => {
     try {
-        await supabaseService.deleteTrack(trackId);
+        await get().persistence.deleteTrack(trackId);
 
         // Update order of remaining tracks
         const finalTracks = get().tracks;
         const projectId = get().currentLoadedProjectId;
         if (projectId) {
             const updatePromises = finalTracks.map((t, index) =>
-                supabaseService.saveTrack({
+                get().persistence.saveTrack({
                     id: t.id,
                     projectId,
                     name: t.name,
                     isMuted: t.isMuted,
                     isSoloed: t.isSoloed,
+                    automation: t.automation,
+                    modulations: t.modulations,
                     order: index,
                 })
             );
@@ -69,7 +109,7 @@ export const persistRemoveTrack = async (get: () => AppState, trackId: string) =
 
 export const persistAddMidiBlock = async (get: () => AppState, trackId: string, block: MIDIBlock) => {
     try {
-        await supabaseService.saveMidiBlock({
+        await get().persistence.saveMidiBlock({
             id: block.id,
             trackId,
             startBeat: block.startBeat,
@@ -77,7 +117,7 @@ export const persistAddMidiBlock = async (get: () => AppState, trackId: string,
         });
 
         if (block.notes && block.notes.length > 0) {
-            await supabaseService.saveMidiNotesBatch(
+            await get().persistence.saveMidiNotesBatch(
                 block.notes.map(n => ({
                     id: String(n.id),
                     startBeat: n.startBeat,
@@ -95,7 +135,7 @@ export const persistAddMidiBlock = async (get: () => AppState, trackId: string,
 
 export const persistUpdateMidiBlock = async (get: () => AppState, trackId: string, updatedBlock: MIDIBlock, previousBlock?: MIDIBlock) => {
     try {
-        await supabaseService.saveMidiBlock({
+        await get().persistence.saveMidiBlock({
             id: updatedBlock.id,
             trackId,
             startBeat: updatedBlock.startBeat,
@@ -109,13 +149,13 @@ export const persistUpdateMidiBlock = async (get: () => AppState, trackId: strin
             const removedNoteIds = Array.from(previousNoteIds).filter(id => !currentNoteIds.has(id));
 
             for (const noteId of removedNoteIds) {
-                await supabaseService.deleteMidiNote(String(noteId));
+                await get().persistence.deleteMidiNote(String(noteId));
             }
         }
 
         // Save all current notes
         if (updatedBlock.notes && updatedBlock.notes.length > 0) {
-            await supabaseService.saveMidiNotesBatch(
+            await get().persistence.saveMidiNotesBatch(
                 updatedBlock.notes.map(n => ({
                     id: String(n.id),
                     startBeat: n.startBeat,
@@ -133,7 +173,7 @@ export const persistUpdateMidiBlock = async (get: () => AppState, trackId: strin
 
 export const persistRemoveMidiBlock = async (get: () => AppState, blockId: string) => {
     try {
-        await supabaseService.deleteMidiBlock(blockId);
+        await get().persistence.deleteMidiBlock(blockId);
     } catch (error) {
         logError('removeMidiBlock', error);
     }
@@ -141,7 +181,7 @@ export const persistRemoveMidiBlock = async (get: () => AppState, blockId: strin
 
 export const persistMoveMidiBlock = async (get: () => AppState, blockId: string, oldTrackId: string, newTrackId: string, movedBlock: MIDIBlock) => {
     try {
-        await supabaseService.saveMidiBlock({
+        await get().persistence.saveMidiBlock({
             id: blockId,
             trackId: newTrackId,
             startBeat: movedBlock.startBeat,
@@ -149,7 +189,7 @@ export const persistMoveMidiBlock = async (get: () => AppState, blockId: string,
         });
 
         if (movedBlock.notes && movedBlock.notes.length > 0) {
-            await supabaseService.saveMidiNotesBatch(
+            await get().persistence.saveMidiNotesBatch(
                 movedBlock.notes.map(n => ({
                     id: String(n.id),
                     startBeat: n.startBeat,
@@ -175,12 +215,14 @@ export const persistUpdateTrack = async (get: () => AppState, trackId: string, u
         if (!projectId) throw new Error("No project loaded");
         if (!updatedTrack || trackOrder === -1) throw new Error("Updated track not found");
 
-        await supabaseService.saveTrack({
+        await get().persistence.saveTrack({
             id: updatedTrack.id,
             projectId,
             name: updatedTrack.name,
             isMuted: updatedTrack.isMuted,
             isSoloed: updatedTrack.isSoloed,
+            automation: updatedTrack.automation,
+            modulations: updatedTrack.modulations,
             order: trackOrder,
         });
 
@@ -188,7 +230,7 @@ export const persistUpdateTrack = async (get: () => AppState, trackId: string, u
             const synthData = serializeSynth(updatedTrack.synthesizer, trackId);
             if (synthData) {
                 try { console.log('[DEBUG] persistUpdateTrack.serializeSynth:', synthData); } catch {}
-                await supabaseService.saveSynth({
+                await get().persistence.saveSynth({
                     trackId,
                     type: synthData.type,
                     settings: synthData.settings,
@@ -207,12 +249,14 @@ export const persistReorderTracks = async (get: () => AppState) => {
         if (!projectId) throw new Error("No project loaded");
 
         const savePromises = finalTracks.map((track, index) =>
-            supabaseService.saveTrack({
+            get().persistence.saveTrack({
                 id: track.id,
                 projectId,
                 name: track.name,
                 isMuted: track.isMuted,
                 isSoloed: track.isSoloed,
+                automation: track.automation,
+                modulations: track.modulations,
                 order: index,
             })
         );
@@ -236,7 +280,7 @@ export const persistAddEffectToTrack = async (get: () => AppState, trackId: stri
         const effectData = serializeEffect(addedEffectInstance, trackId, order);
         if (!effectData) throw new Error("Failed to serialize added effect");
 
-        await supabaseService.saveEffect({
+        await get().persistence.saveEffect({
             id: addedEffectInstance.id,
             trackId,
             type: effectData.type,
@@ -250,7 +294,7 @@ export const persistAddEffectToTrack = async (get: () => AppState, trackId: stri
 
 export const persistRemoveEffectFromTrack = async (get: () => AppState, trackId: string, deletedEffectId: string) => {
     try {
-        await supabaseService.deleteEffect(deletedEffectId);
+        await get().persistence.deleteEffect(deletedEffectId);
 
         // Update order of remaining effects
         const finalTrackState = get().tracks.find(t => t.id === trackId);
@@ -261,7 +305,7 @@ export const persistRemoveEffectFromTrack = async (get: () => AppState, trackId:
                 const effectData = serializeEffect(effect, trackId, index);
                 if (!effectData) throw new Error("Failed to serialize effect during order update");
 
-                return supabaseService.saveEffect({
+                return get().persistence.saveEffect({
                     id: effect.id,
                     trackId,
                     type: effectData.type,
@@ -290,7 +334,7 @@ export const persistUpdateEffectPropertyOnTrack = async (get: () => AppState, tr
         const effectData = serializeEffect(updatedEffectInstance, trackId, effectIndex);
         if (!effectData) throw new Error("Failed to serialize updated effect");
 
-        await supabaseService.saveEffect({
+        await get().persistence.saveEffect({
             id: updatedEffectInstance.id,
             trackId,
             type: effectData.type,
@@ -317,7 +361,7 @@ export const persistReorderEffectsOnTrack = async (get: () => AppState, trackId:
             const effectData = serializeEffect(effect, trackId, index);
             if (!effectData) throw new Error(`Failed to serialize effect ${effect.id} during reorder persistence`);
 
-            return supabaseService.saveEffect({
+            return get().persistence.saveEffect({
                 id: effect.id,
                 trackId,
                 type: effectData.type,
@@ -338,7 +382,7 @@ export const persistSplitMidiBlock = async (get: () => AppState, trackId: string
 
         // Save block 1
         savePromises.push(
-            supabaseService.saveMidiBlock({
+            get().persistence.saveMidiBlock({
                 id: block1.id,
                 trackId,
                 startBeat: block1.startBeat,
@@ -348,7 +392,7 @@ export const persistSplitMidiBlock = async (get: () => AppState, trackId: string
 
         if (block1.notes?.length) {
             savePromises.push(
-                supabaseService.saveMidiNotesBatch(
+                get().persistence.saveMidiNotesBatch(
                     block1.notes.map(n => ({
                         id: String(n.id),
                         startBeat: n.startBeat,
@@ -363,7 +407,7 @@ export const persistSplitMidiBlock = async (get: () => AppState, trackId: string
 
         // Save block 2
         savePromises.push(
-            supabaseService.saveMidiBlock({
+            get().persistence.saveMidiBlock({
                 id: block2.id,
                 trackId,
                 startBeat: block2.startBeat,
@@ -373,7 +417,7 @@ export const persistSplitMidiBlock = async (get: () => AppState, trackId: string
 
         if (block2.notes?.length) {
             savePromises.push(
-                supabaseService.saveMidiNotesBatch(
+                get().persistence.saveMidiNotesBatch(
                     block2.notes.map(n => ({
                         id: String(n.id),
                         startBeat: n.startBeat,
@@ -392,3 +436,86 @@ export const persistSplitMidiBlock = async (get: () => AppState, trackId: string
     }
 };
 
+// Brings Supabase in line with `nextTracks` after the whole track list was swapped (undo/redo).
+// Unchanged tracks, blocks, synths and effects keep their object identity, so only what differs is written.
+export const persistTracksDiff = async (get: () => AppState, previousTracks: Track[], nextTracks: Track[]) => {
+    try {
+        const projectId = get().currentLoadedProjectId;
+        if (!projectId) throw new Error("No project loaded");
+
+        const previousById = new Map(previousTracks.map((track, order) => [track.id, { track, order }]));
+        const nextIds = new Set(nextTracks.map(t => t.id));
+        const nextBlockIds = new Set(nextTracks.flatMap(t => t.midiBlocks.map(b => b.id)));
+        const previousBlocks = new Map(previousTracks.flatMap(t => t.midiBlocks.map(b => [b.id, { block: b, trackId: t.id }] as const)));
+
+        // Deletions first, so rows re-created below are never removed by a later delete
+        const deletedTrackIds = new Set<string>();
+        for (const track of previousTracks) {
+            if (!nextIds.has(track.id)) {
+                await get().persistence.deleteTrack(track.id); // Cascades to synth, effects, blocks and notes
+                deletedTrackIds.add(track.id);
+                continue;
+            }
+            for (const block of track.midiBlocks) {
+                if (!nextBlockIds.has(block.id)) await get().persistence.deleteMidiBlock(block.id);
+            }
+        }
+
+        for (const [order, track] of nextTracks.entries()) {
+            const previous = previousById.get(track.id);
+
+            if (!previous || previous.order !== order || previous.track.name !== track.name
+                || previous.track.isMuted !== track.isMuted || previous.track.isSoloed !== track.isSoloed
+                || previous.track.automation !== track.automation || previous.track.modulations !== track.modulations) {
+                await get().persistence.saveTrack({
+                    id: track.id,
+                    projectId,
+                    name: track.name,
+                    isMuted: track.isMuted,
+                    isSoloed: track.isSoloed,
+                    automation: track.automation,
+                    modulations: track.modulations,
+                    order,
+                });
+            }
+
+            if (!previous || previous.track.synthesizer !== track.synthesizer) {
+                const synthData = serializeSynth(track.synthesizer, track.id);
+                if (synthData) {
+                    await get().persistence.saveSynth({ trackId: track.id, type: synthData.type, settings: synthData.settings });
+                }
+            }
+
+            const effects = track.effects || [];
+            if (!previous || previous.track.effects !== track.effects) {
+                const nextEffectIds = new Set(effects.map(e => e.id));
+                for (const effect of previous?.track.effects || []) {
+                    if (!nextEffectIds.has(effect.id)) await get().persistence.deleteEffect(effect.id);
+                }
+                for (const [index, effect] of effects.entries()) {
+                    const effectData = serializeEffect(effect, track.id, index);
+                    if (!effectData) continue;
+                    await get().persistence.saveEffect({
+                        id: effect.id,
+                        trackId: track.id,
+                        type: effectData.type,
+                        settings: effectData.settings,
+                        order: index,
+                    });
+                }
+            }
+
+            for (const block of track.midiBlocks) {
+                const previousBlock = previousBlocks.get(block.id);
+                const isUnchanged = previousBlock && previousBlock.block === block
+                    && previousBlock.trackId === track.id && !deletedTrackIds.has(previousBlock.trackId);
+                if (isUnchanged) continue;
+                // Only pass the previous block when it still exists in Supabase, so removed notes get deleted
+                const existingBlock = previousBlock && !deletedTrackIds.has(previousBlock.trackId) ? previousBlock.block : undefined;
+                await persistUpdateMidiBlock(get, track.id, block, existingBlock);
+            }
+        }
+    } catch (error) {
+        logError('tracksDiff', error);
+    }
+};
@@ -0,0 +1,139 @@
+import { StateCreator } from 'zustand';
+import { v4 as uuidv4 } from 'uuid';
+import PostEffect from '@/lib/postprocessing/PostEffect';
+import BloomPostEffect from '@/lib/postprocessing/BloomPostEffect';
+import ChromaticAberrationPostEffect from '@/lib/postprocessing/ChromaticAberrationPostEffect';
+import FilmGrainPostEffect from '@/lib/postprocessing/FilmGrainPostEffect';
+import VignettePostEffect from '@/lib/postprocessing/VignettePostEffect';
+import GlitchPostEffect from '@/lib/postprocessing/GlitchPostEffect';
+import DepthOfFieldPostEffect from '@/lib/postprocessing/DepthOfFieldPostEffect';
+import AfterimagePostEffect from '@/lib/postprocessing/AfterimagePostEffect';
+import ColorGradingPostEffect from '@/lib/postprocessing/ColorGradingPostEffect';
+import { normalizeAutomationPoints } from '@/lib/Automation';
+import { AutomationLane, AutomationPoint } from '@/lib/types';
+import { AppState } from './store';
+import * as SupabasePersist from './persistStore/supabase/persistProjectSettings';
+
+type PostEffectConstructor = new (id: string) => PostEffect;
+
+export interface PostEffectDefinition {
+  id: string; // Stable type ID, saved with the project
+  name: string;
+  constructor: PostEffectConstructor;
+}
+
+export const availablePostEffectsData: PostEffectDefinition[] = [
+  { id: 'BloomPostEffect', name: 'Bloom', constructor: BloomPostEffect },
+  { id: 'ChromaticAberrationPostEffect', name: 'Chromatic Aberration', constructor: ChromaticAberrationPostEffect },
+  { id: 'FilmGrainPostEffect', name: 'Film Grain', constructor: FilmGrainPostEffect },
+  { id: 'VignettePostEffect', name: 'Vignette', constructor: VignettePostEffect },
+  { id: 'GlitchPostEffect', name: 'Glitch', constructor: GlitchPostEffect },
+  { id: 'DepthOfFieldPostEffect', name: 'Depth of Field', constructor: DepthOfFieldPostEffect },
+  { id: 'AfterimagePostEffect', name: 'Afterimage Trails', constructor: AfterimagePostEffect },
+  { id: 'ColorGradingPostEffect', name: 'Color Grading', constructor: ColorGradingPostEffect },
+];
+
+export const getPostEffectDefinition = (postEffect: PostEffect): PostEffectDefinition | undefined =>
+  availablePostEffectsData.find(definition => postEffect instanceof definition.constructor);
+
+// The stack of a new project, and of projects saved before the stack could be edited:
+// the bloom the visualizer always had
+export const createDefaultPostEffects = (): PostEffect[] => [new BloomPostEffect(uuidv4())];
+
+// Post effects run on the whole rendered frame, in stack order, after every track is drawn
+export interface PostProcessingState {
+  postEffects: PostEffect[]; // Saved with the project
+  postEffectAutomation: AutomationLane[]; // Lanes target post effects as { type: 'effect', effectId }
+}
+
+export interface PostProcessingActions {
+  addPostEffect: (typeId: string) => void;
+  removePostEffect: (postEffectId: string) => void;
+  reorderPostEffects: (oldIndex: number, newIndex: number) => void;
+  setPostEffectEnabled: (postEffectId: string, enabled: boolean) => void;
+  updatePostEffectProperty: (postEffectId: string, propertyName: string, value: any) => void;
+  // Automation Actions
+  addPostEffectAutomationLane: (postEffectId: string, propertyName: string) => string | null;
+  setPostEffectAutomationPoints: (laneId: string, points: AutomationPoint[]) => void;
+  removePostEffectAutomationLane: (laneId: string) => void;
+}
+
+export type PostProcessingSlice = PostProcessingState & PostProcessingActions;
+
+export const createPostProcessingSlice: StateCreator<
+  AppState,
+  [],
+  [],
+  PostProcessingSlice
+> = (set, get) => {
+  const setPostEffects = (postEffects: PostEffect[], postEffectAutomation: AutomationLane[] = get().postEffectAutomation) => {
+    set({ postEffects, postEffectAutomation });
+    void SupabasePersist.persistProjectSettings(get);
+  };
+
+  // Replaces a post effect with an edited copy, so components see a new object
+  const updatePostEffect = (postEffectId: string, update: (postEffect: PostEffect) => void) => {
+    setPostEffects(get().postEffects.map(postEffect => {
+      if (postEffect.id !== postEffectId) return postEffect;
+      const updated = postEffect.clone();
+      update(updated);
+      return updated;
+    }));
+  };
+
+  return {
+    postEffects: createDefaultPostEffects(),
+    postEffectAutomation: [],
+    addPostEffect: (typeId: string) => {
+      const definition = availablePostEffectsData.find(def => def.id === typeId);
+      if (!definition) {
+        console.warn(`Unknown post effect type: "${typeId}"`);
+        return;
+      }
+      setPostEffects([...get().postEffects, new definition.constructor(uuidv4())]);
+    },
+    removePostEffect: (postEffectId: string) => {
+      setPostEffects(
+        get().postEffects.filter(postEffect => postEffect.id !== postEffectId),
+        // Lanes of the removed effect would have nothing to drive
+        get().postEffectAutomation.filter(lane => lane.target.type !== 'effect' || lane.target.effectId !== postEffectId)
+      );
+    },
+    reorderPostEffects: (oldIndex: number, newIndex: number) => {
+      const postEffects = [...get().postEffects];
+      if (oldIndex < 0 || oldIndex >= postEffects.length || newIndex < 0 || newIndex >= postEffects.length) return;
+      const [moved] = postEffects.splice(oldIndex, 1);
+      postEffects.splice(newIndex, 0, moved);
+      setPostEffects(postEffects);
+    },
+    setPostEffectEnabled: (postEffectId: string, enabled: boolean) => {
+      updatePostEffect(postEffectId, postEffect => { postEffect.enabled = enabled; });
+    },
+    updatePostEffectProperty: (postEffectId: string, propertyName: string, value: any) => {
+      updatePostEffect(postEffectId, postEffect => postEffect.setPropertyValue(propertyName, value));
+    },
+    // --- Automation Actions ---
+    addPostEffectAutomationLane: (postEffectId: string, propertyName: string) => {
+      if (!get().postEffects.some(postEffect => postEffect.id === postEffectId)) return null;
+      const lanes = get().postEffectAutomation;
+      const existing = lanes.find(lane =>
+        lane.propertyName === propertyName && lane.target.type === 'effect' && lane.target.effectId === postEffectId
+      );
+      if (existing) return existing.id;
+
+      const lane: AutomationLane = { id: uuidv4(), target: { type: 'effect', effectId: postEffectId }, propertyName, points: [] };
+      setPostEffects(get().postEffects, [...lanes, lane]);
+      return lane.id;
+    },
+    setPostEffectAutomationPoints: (laneId: string, points: AutomationPoint[]) => {
+      const lanes = get().postEffectAutomation;
+      if (!lanes.some(lane => lane.id === laneId)) return;
+      setPostEffects(get().postEffects, lanes.map(lane =>
+        lane.id === laneId ? { ...lane, points: normalizeAutomationPoints(points) } : lane
+      ));
+    },
+    removePostEffectAutomationLane: (laneId: string) => {
+      setPostEffects(get().postEffects, get().postEffectAutomation.filter(lane => lane.id !== laneId));
+    },
+  };
+};
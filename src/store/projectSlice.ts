@@ -1,9 +1,18 @@
 import { StateCreator } from 'zustand';
 import { AppState } from './store';
 import * as SupabasePersist from './persistStore/supabase/persistProjectSlice';
-import type { AppProjectState } from '@/Persistence/supabase-service';
-import { deserializeSynth, deserializeEffect } from '@/utils/persistenceUtils';
+import { IDLE_SAVE_STATUS, IDLE_SYNC_STATUS, type AppProjectState } from '@/Persistence/persistence-backend';
+import { hydrateTrack, hydratePostEffects } from '@/utils/persistenceUtils';
+import { createDefaultPostEffects } from './postProcessingSlice';
+import { createProjectFile, parseProjectFile, projectFileAudioToFile, toProjectFileName, withNewAudioSourceIds } from '@/Persistence/projectFile';
+import { triggerDownload } from '@/lib/ExportManager';
+import { deleteAudioClipFile, deleteAudioFile, loadAudioClipFile, loadAudioFile, saveAudioClipFile, saveAudioFile } from '@/lib/idbHelper';
+import { deleteProjectAudio } from '@/Persistence/audio-storage';
 import type { Track as TrackType } from '@/lib/types';
+import TimeSignatureMap from '@/lib/TimeSignatureMap';
+import { DEFAULT_METRONOME_SETTINGS } from '@/lib/Metronome';
+import type { SyncSnapshot, SyncConflictResolution } from '@/Persistence/sync-manager';
+import type { SaveQueueSnapshot } from '@/Persistence/save-queue';
 
 export interface ProjectMetadata {
   id: string;
@@ -17,6 +26,8 @@ export interface ProjectSlice {
     isLoadingProjectList: boolean;
     loadError: string | null;
     saveError: { itemId: string | null; message: string } | null;
+    saveQueueState: SaveQueueSnapshot; // Edits waiting to be saved (reported by the persistence backend)
+    syncState: SyncSnapshot; // Background sync of local edits to Supabase (reported by the persistence backend)
     // Actions that involve persistence:
     loadProjectList: () => Promise<void>;
     switchProject: (projectId: string) => void; // Temporary: kept for compatibility
@@ -24,6 +35,14 @@ export interface ProjectSlice {
     createNewProject: (name: string) => Promise<string | null>; // Renamed for clarity, returns ID
     renameProject: (projectId: string, newName: string) => Promise<void>; // Added
     deleteProject: (projectId: string) => Promise<void>; // Added
+    // Portable .cabin project files
+    exportProjectFile: (projectId: string, includeAudio: boolean) => Promise<boolean>;
+    importProjectFile: (file: File) => Promise<string | null>; // Throws if the file isn't a valid project file
+    // Picks which version wins when a project was changed both here and elsewhere
+    resolveSyncConflict: (projectId: string, resolution: SyncConflictResolution) => Promise<void>;
+    // Saves that kept failing (saveQueueState.status 'failed'): send them again, or give up on them
+    retryFailedSaves: () => void;
+    discardFailedSaves: () => void;
 }
 
 // --- Project Slice Creator ---
@@ -40,10 +59,12 @@ export const createProjectSlice: StateCreator<
     isLoadingProjectList: false,
     loadError: null,
     saveError: null,
+    saveQueueState: IDLE_SAVE_STATUS,
+    syncState: IDLE_SYNC_STATUS,
     loadProjectList: async () => {
         set({ isLoadingProjectList: true, loadError: null });
         try {
-            const list = await SupabasePersist.persistLoadProjectList();
+            const list = await SupabasePersist.persistLoadProjectList(get);
             set({ projectList: list, isLoadingProjectList: false });
         } catch (error) {
             console.error("Zustand/ProjectSlice: Failed to fetch project list:", error);
@@ -59,7 +80,7 @@ export const createProjectSlice: StateCreator<
         // Load full project from Supabase and hydrate store
         set({ isLoadingProject: true, loadError: null, currentLoadedProjectId: projectId });
         try {
-            const fullState: AppProjectState | null = await SupabasePersist.persistLoadProject(projectId);
+            const fullState: AppProjectState | null = await SupabasePersist.persistLoadProject(get, projectId);
             if (!fullState) {
                 console.warn(`loadProject: No data returned for project ${projectId}`);
                 set({ currentLoadedProjectId: null, isLoadingProject: false, loadError: 'Project not found.' });
@@ -69,6 +90,17 @@ export const createProjectSlice: StateCreator<
             // Map ProjectSettings to relevant slices
             const {
                 bpm,
+                tempoChanges,
+                timeSignature,
+                timeSignatureChanges,
+                audioOffset = 0, // Missing in projects saved before the offset existed
+                audioTracks = [], // Missing in projects saved before audio tracks existed
+                audioFile = null, // Missing in projects saved before audio was stored per project
+                uploadAudio = false,
+                metronome = DEFAULT_METRONOME_SETTINGS, // Missing in projects saved before the metronome existed
+                midiCCBindings = [], // Missing in projects saved before MIDI controller mapping existed
+                postEffects, // Missing in projects saved before the post-processing stack existed
+                postEffectAutomation = [],
                 loopEnabled,
                 loopStartBeat,
                 loopEndBeat,
@@ -77,44 +109,25 @@ export const createProjectSlice: StateCreator<
                 selectedWindow,
             } = fullState.projectSettings;
 
-            // Map and deserialize tracks
-            const hydratedTracks: TrackType[] = fullState.tracks.map(trackData => {
-                const synthInstance = trackData.synth ? deserializeSynth(trackData.synth) : null;
-                const effectInstances = (trackData.effects || [])
-                    .map(effectData => deserializeEffect(effectData))
-                    .filter(instance => instance !== null) as any[];
-
-                const hydratedMidiBlocks = (trackData.midiBlocks || []).map(blockData => ({
-                    id: blockData.id,
-                    startBeat: blockData.startBeat,
-                    endBeat: blockData.endBeat,
-                    notes: (blockData.notes || []).map(noteData => ({
-                        id: noteData.id,
-                        pitch: noteData.pitch,
-                        velocity: noteData.velocity,
-                        startBeat: noteData.startBeat,
-                        duration: noteData.duration,
-                    })),
-                    color: 'lightblue',
-                    name: '',
-                }));
+            const timeSignatureMap = new TimeSignatureMap(timeSignature, timeSignatureChanges);
 
-                const hydratedTrack: TrackType = {
-                    id: trackData.id,
-                    name: trackData.name,
-                    midiBlocks: hydratedMidiBlocks,
-                    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-                    synthesizer: synthInstance!,
-                    effects: effectInstances as any,
-                    isMuted: trackData.isMuted,
-                    isSoloed: trackData.isSoloed,
-                };
-                return hydratedTrack;
-            });
+            // Map and deserialize tracks
+            const hydratedTracks: TrackType[] = fullState.tracks.map(hydrateTrack);
 
             set(state => ({
                 currentLoadedProjectId: projectId,
                 bpm,
+                tempoChanges,
+                timeSignature: timeSignatureMap.getInitialSignature(),
+                timeSignatureChanges: timeSignatureMap.getChanges(),
+                timeSignatureMap,
+                audioOffset,
+                isAudioUploadEnabled: uploadAudio,
+                metronome,
+                midiCCBindings,
+                midiLearnTarget: null,
+                postEffects: postEffects ? hydratePostEffects(postEffects) : createDefaultPostEffects(),
+                postEffectAutomation,
                 isPlaying: false,
                 loopEnabled,
                 loopStartBeat,
@@ -127,8 +140,19 @@ export const createProjectSlice: StateCreator<
                 selectedNotes: null,
                 tracks: hydratedTracks,
                 isLoadingProject: false,
+                // History from another project can't be applied to this one
+                undoStack: [],
+                redoStack: [],
             }));
 
+            // Keep the TimeManager's tempo map in sync with the loaded settings
+            get().timeManager.setBPM(bpm);
+            get().timeManager.setTempoChanges(tempoChanges);
+            get().audioManager.setStartOffset(audioOffset);
+            // Clip files are decoded in the background; clips play once their file is ready
+            void get().setAudioTracks(audioTracks);
+            await get().loadProjectAudio(projectId, audioFile);
+
             // Auto-select initial track and MIDI block for newly created projects
             // A new project has exactly 1 track with 1 MIDI block starting at beat 0
             if (hydratedTracks.length === 1 && hydratedTracks[0].midiBlocks.length === 1) {
@@ -179,6 +203,10 @@ export const createProjectSlice: StateCreator<
     deleteProject: async (projectId: string) => {
         // Get current ID before state update
         const currentId = get().currentLoadedProjectId;
+        // Clip files belong to one project, so they go with it (looked up before its rows are deleted)
+        const audioTracks = currentId === projectId
+            ? get().audioTracks
+            : await SupabasePersist.persistLoadAudioTracks(get, projectId);
         
         // Update state first
         set(state => ({ 
@@ -186,6 +214,11 @@ export const createProjectSlice: StateCreator<
         }));
         // Persist change *after* state update
         await SupabasePersist.persistDeleteProject(get, projectId);
+        await deleteAudioFile(projectId);
+        void deleteProjectAudio(projectId);
+        for (const sourceId of new Set(audioTracks.flatMap(t => t.clips.map(clip => clip.sourceId)))) {
+            await deleteAudioClipFile(sourceId);
+        }
         
         // Handle reload if the active project was deleted
         if (currentId === projectId) {
@@ -193,4 +226,65 @@ export const createProjectSlice: StateCreator<
             window.location.reload(); 
         }
     },
+    exportProjectFile: async (projectId: string, includeAudio: boolean): Promise<boolean> => {
+        const fullState = await SupabasePersist.persistLoadProject(get, projectId);
+        if (!fullState) {
+            console.error(`exportProjectFile: Could not load project ${projectId}.`);
+            return false;
+        }
+        try {
+            const name = get().projectList.find(p => p.id === projectId)?.name ?? 'Untitled Project';
+            const audio = includeAudio ? await loadAudioFile(projectId) : null;
+            const clipAudio: Record<string, Blob | File> = {};
+            if (includeAudio) {
+                const sourceIds = new Set((fullState.projectSettings.audioTracks ?? []).flatMap(t => t.clips.map(clip => clip.sourceId)));
+                for (const sourceId of sourceIds) {
+                    const file = await loadAudioClipFile(sourceId);
+                    if (file) clipAudio[sourceId] = file;
+                }
+            }
+            const projectFile = await createProjectFile(name, fullState.projectSettings, fullState.tracks.map(hydrateTrack), audio, clipAudio);
+            triggerDownload(new Blob([JSON.stringify(projectFile)], { type: 'application/json' }), toProjectFileName(name));
+            return true;
+        } catch (error) {
+            console.error('exportProjectFile: Failed to build project file:', error);
+            return false;
+        }
+    },
+    importProjectFile: async (file: File): Promise<string | null> => {
+        // Clip files are copied under new IDs, so the new project owns them
+        const { file: projectFile, sourceIds } = withNewAudioSourceIds(parseProjectFile(await file.text()));
+        const newProjectId = await SupabasePersist.persistImportProject(get, projectFile, projectFile.name);
+        if (!newProjectId) return null;
+
+        if (projectFile.audio) {
+            // Stored for the new project; it's recorded in the project's settings when the project opens
+            await saveAudioFile(newProjectId, await projectFileAudioToFile(projectFile.audio));
+        }
+        for (const source of projectFile.audioClipSources ?? []) {
+            await saveAudioClipFile(source.sourceId, await projectFileAudioToFile(source));
+        }
+        // Files exported without their audio may still be stored on this device
+        const embedded = new Set((projectFile.audioClipSources ?? []).map(source => source.sourceId));
+        for (const [oldSourceId, newSourceId] of sourceIds) {
+            if (embedded.has(newSourceId)) continue;
+            const stored = await loadAudioClipFile(oldSourceId);
+            if (stored) await saveAudioClipFile(newSourceId, stored);
+        }
+        set(state => ({ projectList: [...state.projectList, { id: newProjectId, name: projectFile.name || 'Imported Project' }] }));
+        return newProjectId;
+    },
+    resolveSyncConflict: async (projectId: string, resolution: SyncConflictResolution) => {
+        await get().persistence.resolveConflict?.(projectId, resolution);
+        // Local edits were discarded, so show the remote version
+        if (resolution === 'keepRemote' && get().currentLoadedProjectId === projectId) {
+            await get().loadProject(projectId);
+        }
+    },
+    retryFailedSaves: () => {
+        get().persistence.saveStatus?.retryFailed();
+    },
+    discardFailedSaves: () => {
+        get().persistence.saveStatus?.discardFailed();
+    },
 }); 
\ No newline at end of file
@@ -3,14 +3,23 @@ import { create } from 'zustand';
 // Import Slice types and creators
 import { TimeSlice, createTimeSlice } from './timeSlice';
 import { AudioSlice, createAudioSlice } from './audioSlice';
+import { AudioTrackSlice, createAudioTrackSlice } from './audioTrackSlice';
 // Import types from trackSlice's dependencies
 import EffectInstance from '@/lib/Effect';
 import SynthesizerInstance from '@/lib/Synthesizer';
+import TimeSignatureMap, { DEFAULT_TIME_SIGNATURE } from '@/lib/TimeSignatureMap';
+import { DEFAULT_METRONOME_SETTINGS } from '@/lib/Metronome';
 import { TrackSlice, createTrackSlice } from './trackSlice';
 import { InstrumentSlice, InstrumentDefinition, availableInstrumentsData, createInstrumentSlice } from './instrumentSlice';
 import { EffectSlice, EffectDefinition, availableEffectsData, createEffectSlice } from './effectSlice';
 import { UISlice, createUISlice } from './uiSlice';
 import { ProjectSlice, createProjectSlice } from './projectSlice';
+import { ExportSlice, createExportSlice } from './exportSlice';
+import { HistorySlice, createHistorySlice } from './historySlice';
+import { MidiInputSlice, createMidiInputSlice } from './midiInputSlice';
+import { PostProcessingSlice, createPostProcessingSlice, createDefaultPostEffects } from './postProcessingSlice';
+import { persistence as defaultPersistence } from '@/Persistence/persistence';
+import type { PersistenceBackend } from '@/Persistence/persistence-backend';
 
 // --- Constructor Mappings --- 
 
@@ -53,26 +62,57 @@ try {
 
 // Combine all slice types into a single AppState type
 // This AppState type is exported and used by slices for cross-slice access via get()
-export type AppState = TimeSlice & AudioSlice & TrackSlice & InstrumentSlice & EffectSlice & UISlice & ProjectSlice;
+export type AppState = TimeSlice & AudioSlice & AudioTrackSlice & TrackSlice & InstrumentSlice & EffectSlice & UISlice & ProjectSlice & ExportSlice & HistorySlice & MidiInputSlice & PostProcessingSlice & PersistenceState;
+
+// The backend every persist function saves through (read via get().persistence)
+export interface PersistenceState {
+    persistence: PersistenceBackend;
+}
 
 // --- Store Creator ---
 
-const useStore = create<AppState>()((...a) => ({
+/**
+ * Creates a store that persists through `backend`.
+ * The app uses the offline-first Supabase backend; tests can pass an InMemoryBackend.
+ */
+export const createAppStore = (backend: PersistenceBackend = defaultPersistence) => create<AppState>()((...a) => ({
+    persistence: backend,
     ...createTimeSlice(...a),
     ...createAudioSlice(...a),
+    ...createAudioTrackSlice(...a),
     ...createTrackSlice(...a),
     ...createInstrumentSlice(...a),
     ...createEffectSlice(...a),
     ...createUISlice(...a),
     ...createProjectSlice(...a),
+    ...createExportSlice(...a),
+    ...createHistorySlice(...a),
+    ...createMidiInputSlice(...a),
+    ...createPostProcessingSlice(...a),
 }));
 
+const useStore = createAppStore();
+
+let unsubscribePersistenceStatus: (() => void) | null = null;
+
 /**
  * Initializes the Zustand store with default values.
  * Projects are now loaded via URL-based routing (see app/editor/page.tsx).
- * No longer loads from IndexedDB - all data comes from Supabase.
+ * Project data comes from Supabase, with a local IndexedDB copy used offline.
  */
 export const initializeStore = async () => {
+    // Mirror the backend's save and sync status into the store, and send any edits left from a previous session
+    if (!unsubscribePersistenceStatus) {
+        const { persistence } = useStore.getState();
+        const unsubscribeSaveStatus = persistence.saveStatus?.subscribe(saveQueueState => useStore.setState({ saveQueueState }));
+        const unsubscribeSyncStatus = persistence.syncStatus?.subscribe(syncState => useStore.setState({ syncState }));
+        unsubscribePersistenceStatus = () => {
+            unsubscribeSaveStatus?.();
+            unsubscribeSyncStatus?.();
+        };
+        persistence.start?.();
+    }
+
     console.log("Initializing store with default state...");
     
     try {
@@ -84,6 +124,18 @@ export const initializeStore = async () => {
             tracks: [],
             isAudioLoaded: false,
             bpm: 120,
+            tempoChanges: [],
+            timeSignature: DEFAULT_TIME_SIGNATURE,
+            timeSignatureChanges: [],
+            timeSignatureMap: new TimeSignatureMap(),
+            audioOffset: 0,
+            audioTracks: [],
+            isAudioUploadEnabled: false,
+            metronome: DEFAULT_METRONOME_SETTINGS,
+            midiCCBindings: [],
+            midiLearnTarget: null,
+            postEffects: createDefaultPostEffects(),
+            postEffectAutomation: [],
             numMeasures: 8,
             loopEnabled: false,
             isPlaying: false,
@@ -96,6 +148,8 @@ export const initializeStore = async () => {
             selectedNotes: null,
             clipboardBlock: null,
             detailViewMode: "instrument",
+            undoStack: [],
+            redoStack: [],
         });
         
         console.log("Store initialized with default state.");
@@ -104,6 +158,7 @@ export const initializeStore = async () => {
         const finalState = useStore.getState();
         if (finalState.timeManager && finalState.bpm) {
             finalState.timeManager.setBPM(finalState.bpm);
+            finalState.timeManager.setTempoChanges(finalState.tempoChanges);
         }
         
     } catch (error) {
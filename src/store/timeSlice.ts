@@ -1,5 +1,9 @@
 import { StateCreator } from 'zustand';
 import TimeManager from '@/lib/TimeManager';
+import TempoMap from '@/lib/TempoMap';
+import TimeSignatureMap, { DEFAULT_TIME_SIGNATURE } from '@/lib/TimeSignatureMap';
+import Metronome, { DEFAULT_METRONOME_SETTINGS } from '@/lib/Metronome';
+import { MetronomeSettings, TempoChange, TimeSignature, TimeSignatureChange } from '@/lib/types';
 import { AppState } from './store'; // Import the combined AppState
 import * as SupabasePersist from './persistStore/supabase/persistProjectSettings';
 
@@ -10,10 +14,17 @@ export interface TimeState {
   numMeasures: number;
   isPlaying: boolean;
   bpm: number;
+  tempoChanges: TempoChange[]; // Tempo changes after beat 0; `bpm` is the initial tempo
+  // --- Time Signature State ---
+  timeSignature: TimeSignature; // Signature of the first measure
+  timeSignatureChanges: TimeSignatureChange[]; // Signature changes at later measures
+  timeSignatureMap: TimeSignatureMap; // Derived from the two above; rebuilt whenever they change
   // --- Loop State ---
   loopEnabled: boolean;
   loopStartBeat: number | null;
   loopEndBeat: number | null;
+  audioOffset: number; // Seconds into the audio file that line up with beat 0
+  metronome: MetronomeSettings;
 }
 
 export interface TimeActions {
@@ -22,12 +33,26 @@ export interface TimeActions {
   pause: () => void;
   stop: () => void;
   setBPM: (bpm: number) => void;
+  // --- Tempo Map Actions ---
+  setTempoChanges: (changes: TempoChange[]) => void;
+  setTempoChange: (beat: number, bpm: number, curve?: TempoChange['curve']) => void;
+  moveTempoChange: (fromBeat: number, toBeat: number) => void;
+  removeTempoChange: (beat: number) => void;
+  // --- Time Signature Actions ---
+  setTimeSignature: (signature: TimeSignature) => void;
+  setTimeSignatures: (signature: TimeSignature, changes: TimeSignatureChange[]) => void;
+  setTimeSignatureChange: (measure: number, signature: TimeSignature) => void;
+  removeTimeSignatureChange: (measure: number) => void;
   setNumMeasures: (measures: number) => void;
   seekTo: (beat: number) => void;
   // --- Loop Actions ---
   toggleLoop: () => void;
   setLoopRange: (startBeat: number, endBeat: number) => void;
   clearLoop: () => void;
+  setAudioOffset: (seconds: number) => void;
+  // --- Metronome Actions ---
+  toggleMetronome: () => void;
+  setMetronomeSettings: (settings: Partial<MetronomeSettings>) => void;
 }
 
 export type TimeSlice = TimeState & TimeActions;
@@ -39,6 +64,13 @@ export const createTimeSlice: StateCreator<
   TimeSlice
 > = (set, get) => {
   const timeManager = new TimeManager(120); // Initialize TimeManager here
+  // Created on first use: the audio context only exists in the browser
+  let clickTrack: Metronome | null = null;
+  const getClickTrack = (): Metronome | null => {
+    const context = get().audioManager.context;
+    if (context && !clickTrack) clickTrack = new Metronome(context);
+    return clickTrack;
+  };
 
   // Set up beat update subscription
   timeManager.onUpdate((beat) => {
@@ -58,79 +90,134 @@ export const createTimeSlice: StateCreator<
     numMeasures: 8,
     isPlaying: false,
     bpm: 120,
+    tempoChanges: [],
+    // --- Time Signature Defaults ---
+    timeSignature: DEFAULT_TIME_SIGNATURE,
+    timeSignatureChanges: [],
+    timeSignatureMap: new TimeSignatureMap(),
     // --- Loop State Defaults ---
     loopEnabled: false,
     loopStartBeat: null,
     loopEndBeat: null,
+    audioOffset: 0,
+    metronome: DEFAULT_METRONOME_SETTINGS,
     // --- Actions ---
     updateCurrentBeat: (beat: number) => set({ currentBeat: beat }),
     play: () => {
       // Access state/methods from other slices via get()
-      const { audioManager, isAudioLoaded, currentBeat, loopEnabled, loopStartBeat, loopEndBeat } = get();
+      const { audioManager, isAudioLoaded, currentBeat, loopEnabled, loopStartBeat, loopEndBeat, timeSignatureMap, metronome } = get();
       let startBeat = currentBeat;
 
       // If looping is enabled and playback starts *outside* the loop, jump to loop start
       if (loopEnabled && loopStartBeat !== null && loopEndBeat !== null) {
           if(currentBeat < loopStartBeat || currentBeat >= loopEndBeat) {
             startBeat = loopStartBeat;
-            set({ currentBeat: startBeat }); // Update state immediately
           }
       }
 
+      // A count-in holds the transport for one bar, in the signature and tempo it starts in
+      const countInSignature = timeSignatureMap.getSignatureAtBeat(startBeat);
+      const countInBeatSeconds = TimeSignatureMap.getBeatUnit(countInSignature) * 60 / timeManager.getBPMAtBeat(startBeat);
+      const countIn = metronome.countIn && getClickTrack() ? countInSignature.numerator * countInBeatSeconds : 0;
 
-      // Ensure AudioContext is running before trying to play
-      if (audioManager.context && audioManager.context.state === 'suspended') {
-           console.warn("AudioContext is suspended. Attempting to resume...");
-           audioManager.context.resume().then(() => {
-               console.log("AudioContext resumed successfully.");
-                if (isAudioLoaded) {
-                    audioManager.play();
-                }
-           }).catch(err => console.error("Failed to resume AudioContext:", err));
-      } else if (isAudioLoaded && audioManager.context) {
-          audioManager.play();
-      } else if (!isAudioLoaded) {
-          console.warn("Play called but no audio loaded.");
+      // The transport runs on the audio clock; the audio is scheduled for the moment it starts
+      timeManager.setAudioContext(audioManager.context);
+      timeManager.seekTo(startBeat);
+      const when = timeManager.play(countIn) ?? undefined;
+      const startTime = timeManager.beatToTime(startBeat);
+
+      if (isAudioLoaded) {
+          audioManager.seekTo(startTime);
+          audioManager.play(when);
       } else {
-          console.warn("Play called but AudioContext not available or in unexpected state.");
+          console.warn("Play called but no audio loaded.");
       }
 
-      timeManager.seekTo(startBeat);
-      timeManager.play(); // Start TimeManager from the correct beat
-      set({ isPlaying: true });
+      // Audio clips play whether or not the project has an audio file
+      audioManager.playClips(startTime, when);
+
+      syncMetronome();
+      if (countIn > 0 && when !== undefined) {
+        getClickTrack()?.countIn(when, countInSignature, countInBeatSeconds);
+      }
+
+      set({ isPlaying: true, currentBeat: startBeat });
       void saveSettingsToSupabase();
     },
     pause: () => {
       const { audioManager } = get();
+      get().finishHeldMidiNotes(); // Notes held while recording end where playback stops
       timeManager.pause();
       audioManager.pause();
-      set({ isPlaying: false });
+      audioManager.stopClips();
+      clickTrack?.stop();
+      set({ isPlaying: false, currentBeat: timeManager.getCurrentBeat() });
       void saveSettingsToSupabase();
     },
     stop: () => {
       const { audioManager } = get();
+      get().finishHeldMidiNotes();
       timeManager.stop();
       audioManager.stop();
+      audioManager.stopClips();
+      clickTrack?.stop();
       set({ isPlaying: false, currentBeat: 0 });
       void saveSettingsToSupabase();
     },
     setBPM: (bpm: number) => {
-      const { audioManager, isPlaying, isAudioLoaded } = get();
-      const wasPlaying = isPlaying;
-
-      if (wasPlaying) {
-        timeManager.pause();
-        if (isAudioLoaded) audioManager.pause();
-      }
-      
+      // The transport keeps playing the same beat under the new tempo
       timeManager.setBPM(bpm);
       set({ bpm });
       void saveSettingsToSupabase();
 
-      if (wasPlaying) {
-          timeManager.play();
-          audioManager.play();
+      // The audio plays in seconds, so it moves to where that beat now falls
+      if (get().isAudioLoaded) {
+        get().seekTo(timeManager.getCurrentBeat());
+      }
+      // Clips and clicks are placed in beats, so they move in time with the tempo
+      get().syncAudioClipPlayback(true);
+      syncMetronome();
+    },
+    setTempoChanges: (changes: TempoChange[]) => {
+      applyTempoChanges(changes);
+    },
+    setTempoChange: (beat: number, bpm: number, curve?: TempoChange['curve']) => {
+      if (beat <= 0) {
+        // The tempo at beat 0 is the project's base BPM
+        get().setBPM(bpm);
+        return;
+      }
+      const existing = get().tempoChanges.find(c => c.beat === beat);
+      const others = get().tempoChanges.filter(c => c.beat !== beat);
+      applyTempoChanges([...others, { beat, bpm, curve: curve ?? existing?.curve ?? 'step' }]);
+    },
+    moveTempoChange: (fromBeat: number, toBeat: number) => {
+      const change = get().tempoChanges.find(c => c.beat === fromBeat);
+      if (!change || toBeat <= 0 || fromBeat === toBeat) return;
+      const others = get().tempoChanges.filter(c => c.beat !== fromBeat && c.beat !== toBeat);
+      applyTempoChanges([...others, { ...change, beat: toBeat }]);
+    },
+    removeTempoChange: (beat: number) => {
+      applyTempoChanges(get().tempoChanges.filter(c => c.beat !== beat));
+    },
+    setTimeSignature: (signature: TimeSignature) => {
+      if (!TimeSignatureMap.isValidSignature(signature)) return;
+      applyTimeSignatures(signature, get().timeSignatureChanges);
+    },
+    setTimeSignatures: (signature: TimeSignature, changes: TimeSignatureChange[]) => {
+      applyTimeSignatures(TimeSignatureMap.isValidSignature(signature) ? signature : get().timeSignature, changes);
+    },
+    setTimeSignatureChange: (measure: number, signature: TimeSignature) => {
+      if (measure <= 0) {
+        // The signature of the first measure is the project's base signature
+        get().setTimeSignature(signature);
+        return;
       }
+      const others = get().timeSignatureChanges.filter(c => c.measure !== measure);
+      applyTimeSignatures(get().timeSignature, [...others, { measure, ...signature }]);
+    },
+    removeTimeSignatureChange: (measure: number) => {
+      applyTimeSignatures(get().timeSignature, get().timeSignatureChanges.filter(c => c.measure !== measure));
     },
     setNumMeasures: (measures: number) => {
         set({ numMeasures: Math.max(1, measures) });
@@ -138,10 +225,15 @@ export const createTimeSlice: StateCreator<
     },
     seekTo: (beat: number) => {
         const { audioManager } = get();
-        const targetTime = timeManager.beatToTime(beat);
-        
+
+        // While playing, the transport picks up after its start lead; the audio is scheduled to match
         timeManager.seekTo(beat);
-        audioManager.seekTo(targetTime);
+        const { time, when } = timeManager.getAudioSchedule();
+        audioManager.seekTo(time, when);
+        if (get().isPlaying) {
+          audioManager.playClips(time, when);
+          syncMetronome();
+        }
         set({ currentBeat: beat });
     },
     // --- Loop Action Implementations ---
@@ -152,7 +244,7 @@ export const createTimeSlice: StateCreator<
     setLoopRange: (startBeat: number, endBeat: number) => {
        const validStart = Math.max(0, Math.min(startBeat, endBeat));
        const validEnd = Math.max(validStart, endBeat);
-       const maxBeat = get().numMeasures * 4;
+       const maxBeat = get().timeSignatureMap.getTotalBeats(get().numMeasures);
 
        const clampedStart = Math.min(validStart, maxBeat);
        const clampedEnd = Math.min(validEnd, maxBeat);
@@ -164,8 +256,78 @@ export const createTimeSlice: StateCreator<
       set({ loopStartBeat: null, loopEndBeat: null, loopEnabled: false });
       void saveSettingsToSupabase();
     },
+    setAudioOffset: (seconds: number) => {
+      const audioOffset = Number.isFinite(seconds) ? Math.max(0, seconds) : 0;
+      get().audioManager.setStartOffset(audioOffset);
+      set({ audioOffset });
+      // Keep the audio in line with the current beat under the new offset
+      if (get().isAudioLoaded) {
+        get().seekTo(get().currentBeat);
+      }
+      void saveSettingsToSupabase();
+    },
+    // --- Metronome Action Implementations ---
+    toggleMetronome: () => {
+      get().setMetronomeSettings({ enabled: !get().metronome.enabled });
+    },
+    setMetronomeSettings: (settings: Partial<MetronomeSettings>) => {
+      const previous = get().metronome;
+      const metronome = { ...previous, ...settings };
+      metronome.volume = Number.isFinite(metronome.volume) ? Math.max(0, Math.min(1, metronome.volume)) : previous.volume;
+      set({ metronome });
+      if (metronome.enabled !== previous.enabled) {
+        syncMetronome();
+      } else {
+        clickTrack?.setVolume(metronome.volume);
+      }
+      void saveSettingsToSupabase();
+    },
   }
   
+  // Updates the tempo map and keeps the audio position in line with the current beat
+  function applyTempoChanges(changes: TempoChange[]) {
+    const normalized = TempoMap.normalizeChanges(changes);
+    timeManager.setTempoChanges(normalized);
+    set({ tempoChanges: normalized });
+    if (get().isAudioLoaded) {
+      get().seekTo(timeManager.getCurrentBeat());
+    }
+    get().syncAudioClipPlayback(true);
+    syncMetronome();
+    void saveSettingsToSupabase();
+  }
+
+  // Rebuilds the time signature map. The measure count stays the same, so a loop
+  // that now extends past the end of the song is pulled back inside it.
+  function applyTimeSignatures(signature: TimeSignature, changes: TimeSignatureChange[]) {
+    const timeSignatureMap = new TimeSignatureMap(signature, changes);
+    set({
+      timeSignature: timeSignatureMap.getInitialSignature(),
+      timeSignatureChanges: timeSignatureMap.getChanges(),
+      timeSignatureMap,
+    });
+    const { loopStartBeat, loopEndBeat, numMeasures } = get();
+    const maxBeat = timeSignatureMap.getTotalBeats(numMeasures);
+    if (loopStartBeat !== null && loopEndBeat !== null && loopEndBeat > maxBeat) {
+      set({ loopStartBeat: Math.min(loopStartBeat, maxBeat), loopEndBeat: maxBeat });
+    }
+    syncMetronome();
+    void saveSettingsToSupabase();
+  }
+
+  // Restarts the clicks from the transport's position, after it moved or the beats changed
+  function syncMetronome() {
+    const clicks = getClickTrack();
+    if (!clicks) return;
+    clicks.stop();
+    const { metronome, timeSignatureMap } = get();
+    clicks.setVolume(metronome.volume);
+    if (!metronome.enabled || !timeManager.isPlaybackActive()) return;
+    const { time, when } = timeManager.getAudioSchedule();
+    if (when === undefined) return; // The clicks are timed on the audio clock
+    clicks.start(time, when, timeManager.getTempoMap(), timeSignatureMap);
+  }
+
   // Helper to persist current settings to Supabase
   async function saveSettingsToSupabase() {
     await SupabasePersist.persistProjectSettings(get);
@@ -1,7 +1,11 @@
 import { StateCreator } from 'zustand';
-import { Track, MIDIBlock, MIDINote } from '@/lib/types';
+import { Track, MIDIBlock, MIDINote, AutomationTarget, AutomationPoint, ModulationRoute, ModulationSource } from '@/lib/types';
 import { AppState } from './store'; // Import the combined AppState
 import Effect from '@/lib/Effect'; // Import Effect class
+import BasicSynthesizer from '@/lib/synthesizers/BasicSynthesizer';
+import { MidiImportResult } from '@/lib/MidiParser';
+import { isSameAutomationTarget, normalizeAutomationPoints } from '@/lib/Automation';
+import { DEFAULT_MODULATION_AMOUNT, clampModulationAmount } from '@/lib/AudioModulation';
 import { v4 as uuidv4, validate as uuidValidate } from 'uuid';
 import * as SupabasePersist from './persistStore/supabase/persistTrackSlice';
 
@@ -35,6 +39,20 @@ export interface TrackActions {
   updateEffectPropertyOnTrack: (trackId: string, effectIndex: number, propertyName: string, value: any) => void;
   reorderEffectsOnTrack: (trackId: string, draggedIndex: number, targetIndex: number) => void;
   splitMidiBlock: (trackId: string, blockId: string, splitBeat: number) => void; // Added for splitting
+  // Automation Actions
+  // Returns the lane automating the property, creating it if needed
+  addAutomationLane: (trackId: string, target: AutomationTarget, propertyName: string) => string | null;
+  setAutomationPoints: (trackId: string, laneId: string, points: AutomationPoint[]) => void;
+  removeAutomationLane: (trackId: string, laneId: string) => void;
+  // Audio Modulation Actions
+  addModulation: (trackId: string, target: AutomationTarget, propertyName: string, source: ModulationSource) => string | null;
+  updateModulation: (trackId: string, routeId: string, changes: Partial<Pick<ModulationRoute, 'source' | 'amount'>>) => void;
+  removeModulation: (trackId: string, routeId: string) => void;
+  // Adds parsed MIDI parts to `targetTrackId`, or to one new track per part when it is null.
+  // With applyTiming, the file's tempo and time signatures replace the project's.
+  importMidi: (result: MidiImportResult, targetTrackId: string | null, applyTiming: boolean) => void;
+  // Replaces the track list with a history snapshot; persistence is left to the caller
+  restoreTracks: (tracks: Track[]) => void;
 }
 
 export type TrackSlice = TrackState & TrackActions;
@@ -61,6 +79,34 @@ export const createTrackSlice: StateCreator<
     return { selectedTrack, selectedBlock };
   };
 
+  // Replaces a track's lanes and saves the track. History is recorded by the caller.
+  const setTrackAutomation = (trackId: string, automation: Track['automation']) => {
+    set((state) => {
+      const newTracks = state.tracks.map(t => (t.id === trackId ? { ...t, automation } : t));
+      const selections = getUpdatedSelections(newTracks, state.selectedTrackId, state.selectedBlockId);
+      return {
+        tracks: newTracks,
+        selectedTrack: selections.selectedTrack,
+        selectedBlock: selections.selectedBlock
+      };
+    });
+    void SupabasePersist.persistUpdateTrack(get, trackId, { automation });
+  };
+
+  // Replaces a track's modulation routes and saves the track. History is recorded by the caller.
+  const setTrackModulations = (trackId: string, modulations: Track['modulations']) => {
+    set((state) => {
+      const newTracks = state.tracks.map(t => (t.id === trackId ? { ...t, modulations } : t));
+      const selections = getUpdatedSelections(newTracks, state.selectedTrackId, state.selectedBlockId);
+      return {
+        tracks: newTracks,
+        selectedTrack: selections.selectedTrack,
+        selectedBlock: selections.selectedBlock
+      };
+    });
+    void SupabasePersist.persistUpdateTrack(get, trackId, { modulations });
+  };
+
   return {
     // --- helpers ---
     // Ensure IDs are UUIDs to satisfy Supabase uuid PKs
@@ -134,6 +180,7 @@ export const createTrackSlice: StateCreator<
       }
     },
     addTrack: (track: Track) => {
+      get().recordHistory('Add track');
       const ensureUuid = (get() as any)._ensureUuid as (id: string) => string;
       const ensuredTrack: Track = { ...track, id: ensureUuid(track.id) };
       set((state: TrackState & { tracks: Track[] }) => {
@@ -154,6 +201,7 @@ export const createTrackSlice: StateCreator<
       void SupabasePersist.persistAddTrack(get, ensuredTrack);
     },
     removeTrack: (trackId: string) => {
+       get().recordHistory('Remove track');
        set((state: TrackState & { tracks: Track[] }) => {
         const newTracks = state.tracks.filter((t: Track) => t.id !== trackId);
         let newSelectedTrackId = state.selectedTrackId;
@@ -179,6 +227,7 @@ export const createTrackSlice: StateCreator<
        void SupabasePersist.persistRemoveTrack(get, trackId);
     },
     addMidiBlock: (trackId: string, block: MIDIBlock) => {
+       get().recordHistory('Add block');
        const ensureUuid = (get() as any)._ensureUuid as (id: string) => string;
        const ensuredBlockId = ensureUuid(block.id);
        const ensuredNotes = (block.notes || []).map(n => ({ ...n, id: ensureUuid(n.id) }));
@@ -207,6 +256,7 @@ export const createTrackSlice: StateCreator<
        void SupabasePersist.persistAddMidiBlock(get, trackId, ensuredBlock);
     },
     updateMidiBlock: (trackId: string, updatedBlockData: MIDIBlock) => {
+        get().recordHistory('Edit block', `block:${updatedBlockData.id}`);
         // Determine notes removed (Supabase upsert won't delete missing notes)
         const prevTracks = get().tracks;
         const prevBlock = prevTracks
@@ -243,7 +293,7 @@ export const createTrackSlice: StateCreator<
 
             const currentNumMeasures = get().numMeasures; 
             const requiredBeats = updatedBlockData.endBeat; 
-            const requiredMeasures = Math.ceil(requiredBeats / 4); 
+            const requiredMeasures = get().timeSignatureMap.getMeasureCountForBeats(requiredBeats); 
 
             if (requiredMeasures > currentNumMeasures) {
                 get().setNumMeasures(requiredMeasures);
@@ -261,6 +311,7 @@ export const createTrackSlice: StateCreator<
         void SupabasePersist.persistUpdateMidiBlock(get, trackId, updatedBlockData, prevBlock);
     },
     removeMidiBlock: (trackId: string, blockId: string) => {
+        get().recordHistory('Delete block');
         set((state: TrackState & { tracks: Track[] }) => {
             let trackUpdated = false;
             const newTracks = state.tracks.map((t: Track) => {
@@ -298,6 +349,7 @@ export const createTrackSlice: StateCreator<
         void SupabasePersist.persistRemoveMidiBlock(get, blockId);
     },
     moveMidiBlock: (blockId: string, oldTrackId: string, newTrackId: string, newStartBeat: number, newEndBeat: number) => {
+      get().recordHistory('Move block', `move:${blockId}`);
       set((state) => {
         const oldTrack = state.tracks.find(t => t.id === oldTrackId);
         if (!oldTrack) return {}; // Old track not found
@@ -333,7 +385,7 @@ export const createTrackSlice: StateCreator<
         // Ensure numMeasures accommodates the moved block
         const currentNumMeasures = get().numMeasures;
         const requiredBeats = movedBlock.endBeat;
-        const requiredMeasures = Math.ceil(requiredBeats / 4);
+        const requiredMeasures = get().timeSignatureMap.getMeasureCountForBeats(requiredBeats);
         if (requiredMeasures > currentNumMeasures) {
             get().setNumMeasures(requiredMeasures);
         }
@@ -356,12 +408,23 @@ export const createTrackSlice: StateCreator<
       set({ selectedNotes: notes });
     },
     updateTrack: (trackId: string, updatedProperties: Partial<Track>) => {
+       get().recordHistory('Edit track', `track:${trackId}:${Object.keys(updatedProperties).sort().join(',')}`);
        set((state: TrackState & { tracks: Track[] }) => {
             let trackUpdated = false;
             const newTracks = state.tracks.map((t: Track) => {
                 if (t.id === trackId) {
                     trackUpdated = true;
-                    return { ...t, ...updatedProperties }; 
+                    const updated = { ...t, ...updatedProperties };
+                    // A new synthesizer may not have the properties the old one's lanes and routes targeted
+                    if ('synthesizer' in updatedProperties && updated.synthesizer) {
+                        updated.automation = updated.automation.filter(lane =>
+                            lane.target.type !== 'synth' || updated.synthesizer.properties.has(lane.propertyName)
+                        );
+                        updated.modulations = updated.modulations.filter(route =>
+                            route.target.type !== 'synth' || updated.synthesizer.properties.has(route.propertyName)
+                        );
+                    }
+                    return updated;
                 }
                 return t;
             });
@@ -380,6 +443,7 @@ export const createTrackSlice: StateCreator<
        void SupabasePersist.persistUpdateTrack(get, trackId, updatedProperties);
     },
     reorderTracks: (draggedTrackId: string, targetTrackId: string | null) => {
+      get().recordHistory('Reorder tracks');
       set((state: TrackState & { tracks: Track[] }) => {
         const currentTracks = state.tracks;
         const draggedIndex = currentTracks.findIndex(t => t.id === draggedTrackId);
@@ -424,6 +488,7 @@ export const createTrackSlice: StateCreator<
     },
     // --- Effect Actions Implementations ---
     addEffectToTrack: (trackId: string, effectToAdd: Effect) => {
+      get().recordHistory('Add effect');
       set((state) => {
         const newTracks = state.tracks.map(track => {
           if (track.id === trackId) {
@@ -444,6 +509,7 @@ export const createTrackSlice: StateCreator<
       void SupabasePersist.persistAddEffectToTrack(get, trackId);
     },
     removeEffectFromTrack: (trackId: string, effectIndex: number) => {
+      get().recordHistory('Remove effect');
       let deletedEffectId: string | null = null;
       // Get ID *before* state update
       const track = get().tracks.find(t => t.id === trackId);
@@ -460,7 +526,12 @@ export const createTrackSlice: StateCreator<
                 ...currentEffects.slice(0, effectIndex),
                 ...currentEffects.slice(effectIndex + 1)
               ];
-              return { ...track, effects: updatedEffects };
+              // Lanes and routes targeting the removed effect go with it
+              const targetsOtherEffect = (target: AutomationTarget) =>
+                target.type !== 'effect' || target.effectId !== deletedEffectId;
+              const automation = track.automation.filter(lane => targetsOtherEffect(lane.target));
+              const modulations = track.modulations.filter(route => targetsOtherEffect(route.target));
+              return { ...track, effects: updatedEffects, automation, modulations };
             }
           }
           return track;
@@ -475,11 +546,16 @@ export const createTrackSlice: StateCreator<
       // Persist to Supabase
       if (deletedEffectId) {
           void SupabasePersist.persistRemoveEffectFromTrack(get, trackId, deletedEffectId);
+          const targetsDeletedEffect = (target: AutomationTarget) => target.type === 'effect' && target.effectId === deletedEffectId;
+          if (track && (track.automation.some(lane => targetsDeletedEffect(lane.target)) || track.modulations.some(route => targetsDeletedEffect(route.target)))) {
+            void SupabasePersist.persistUpdateTrack(get, trackId, {});
+          }
       } else {
            console.warn("Could not determine effect ID to delete for persistence in removeEffectFromTrack action.");
       }
     },
     updateEffectPropertyOnTrack: (trackId: string, effectIndex: number, propertyName: string, value: any) => {
+      get().recordHistory('Edit effect', `effect:${trackId}:${effectIndex}:${propertyName}`);
       set((state) => {
         const newTracks = state.tracks.map(track => {
           if (track.id === trackId) {
@@ -512,6 +588,7 @@ export const createTrackSlice: StateCreator<
       void SupabasePersist.persistUpdateEffectPropertyOnTrack(get, trackId, effectIndex);
     },
     reorderEffectsOnTrack: (trackId: string, draggedIndex: number, targetIndex: number) => {
+      get().recordHistory('Reorder effects');
       set((state) => {
           const newTracks = state.tracks.map(track => {
               if (track.id === trackId) {
@@ -549,6 +626,7 @@ export const createTrackSlice: StateCreator<
       void SupabasePersist.persistReorderEffectsOnTrack(get, trackId);
     },
     splitMidiBlock: (trackId: string, blockId: string, splitBeat: number) => {
+      get().recordHistory('Split block');
       let newBlockId2: string | null = null; // Need to capture the ID of the second block generated
       set((state) => {
         const tracks = state.tracks;
@@ -634,5 +712,128 @@ export const createTrackSlice: StateCreator<
            console.error("Could not determine blocks after split for persistence.");
       }
     },
+    // --- Automation Actions ---
+    addAutomationLane: (trackId: string, target: AutomationTarget, propertyName: string) => {
+      const track = get().tracks.find(t => t.id === trackId);
+      if (!track) return null;
+      const existing = track.automation.find(lane => lane.propertyName === propertyName && isSameAutomationTarget(lane.target, target));
+      if (existing) return existing.id;
+
+      get().recordHistory('Add automation');
+      const lane = { id: uuidv4(), target, propertyName, points: [] };
+      setTrackAutomation(trackId, [...track.automation, lane]);
+      return lane.id;
+    },
+    setAutomationPoints: (trackId: string, laneId: string, points: AutomationPoint[]) => {
+      const track = get().tracks.find(t => t.id === trackId);
+      if (!track || !track.automation.some(lane => lane.id === laneId)) return;
+      // One drag of a breakpoint undoes as one step
+      get().recordHistory('Edit automation', `automation:${laneId}`);
+      setTrackAutomation(trackId, track.automation.map(lane =>
+        lane.id === laneId ? { ...lane, points: normalizeAutomationPoints(points) } : lane
+      ));
+    },
+    removeAutomationLane: (trackId: string, laneId: string) => {
+      const track = get().tracks.find(t => t.id === trackId);
+      if (!track || !track.automation.some(lane => lane.id === laneId)) return;
+      get().recordHistory('Remove automation');
+      setTrackAutomation(trackId, track.automation.filter(lane => lane.id !== laneId));
+    },
+    // --- Audio Modulation Actions ---
+    addModulation: (trackId: string, target: AutomationTarget, propertyName: string, source: ModulationSource) => {
+      const track = get().tracks.find(t => t.id === trackId);
+      if (!track) return null;
+      get().recordHistory('Add modulation');
+      const route: ModulationRoute = { id: uuidv4(), source, target, propertyName, amount: DEFAULT_MODULATION_AMOUNT };
+      setTrackModulations(trackId, [...track.modulations, route]);
+      return route.id;
+    },
+    updateModulation: (trackId: string, routeId: string, changes: Partial<Pick<ModulationRoute, 'source' | 'amount'>>) => {
+      const track = get().tracks.find(t => t.id === trackId);
+      if (!track || !track.modulations.some(route => route.id === routeId)) return;
+      // One sweep of the amount slider undoes as one step
+      get().recordHistory('Edit modulation', `modulation:${routeId}:${Object.keys(changes).sort().join(',')}`);
+      setTrackModulations(trackId, track.modulations.map(route => {
+        if (route.id !== routeId) return route;
+        const updated = { ...route, ...changes };
+        return { ...updated, amount: clampModulationAmount(updated.amount) };
+      }));
+    },
+    removeModulation: (trackId: string, routeId: string) => {
+      const track = get().tracks.find(t => t.id === trackId);
+      if (!track || !track.modulations.some(route => route.id === routeId)) return;
+      get().recordHistory('Remove modulation');
+      setTrackModulations(trackId, track.modulations.filter(route => route.id !== routeId));
+    },
+    importMidi: (result: MidiImportResult, targetTrackId: string | null, applyTiming: boolean) => {
+      if (applyTiming) {
+        // Apply timing first so the measure count below uses the file's signatures
+        if (result.initialBpm !== null) get().setBPM(result.initialBpm);
+        get().setTempoChanges(result.tempoChanges);
+        get().setTimeSignatures(result.timeSignature ?? get().timeSignature, result.timeSignatureChanges);
+      }
+
+      if (targetTrackId) {
+        get().batchHistory('Import MIDI', () => {
+          result.parts.forEach(part => get().addMidiBlock(targetTrackId, part.block));
+        });
+      } else {
+        const ensureUuid = (get() as any)._ensureUuid as (id: string) => string;
+        const newTracks: Track[] = result.parts.map(part => ({
+          id: uuidv4(),
+          name: part.name,
+          midiBlocks: [{
+            ...part.block,
+            id: ensureUuid(part.block.id),
+            notes: part.block.notes.map(n => ({ ...n, id: ensureUuid(n.id) })),
+          }],
+          synthesizer: new BasicSynthesizer(),
+          isSoloed: false,
+          isMuted: false,
+          effects: [],
+          automation: [],
+          modulations: [],
+        }));
+        if (newTracks.length === 0) return;
+
+        get().recordHistory('Import MIDI');
+        set((state: TrackState & { tracks: Track[] }) => {
+          const tracks = [...state.tracks, ...newTracks];
+          const selections = getUpdatedSelections(tracks, newTracks[0].id, null);
+          return {
+            tracks,
+            selectedTrackId: newTracks[0].id,
+            selectedBlockId: null,
+            selectedTrack: selections.selectedTrack,
+            selectedBlock: selections.selectedBlock,
+            selectedNotes: null,
+          };
+        });
+        // Persist to Supabase
+        void SupabasePersist.persistImportedTracks(get, newTracks);
+      }
+
+      // Make sure the project is long enough to hold the imported notes
+      const endBeat = Math.max(0, ...result.parts.map(p => p.block.endBeat));
+      const requiredMeasures = get().timeSignatureMap.getMeasureCountForBeats(endBeat);
+      if (requiredMeasures > get().numMeasures) {
+        get().setNumMeasures(requiredMeasures);
+      }
+    },
+    restoreTracks: (tracks: Track[]) => {
+      set((state) => {
+        // Drop selections that point at tracks or blocks the snapshot doesn't have
+        const selectedTrackId = tracks.some(t => t.id === state.selectedTrackId) ? state.selectedTrackId : null;
+        const selections = getUpdatedSelections(tracks, selectedTrackId, state.selectedBlockId);
+        return {
+          tracks,
+          selectedTrackId,
+          selectedBlockId: selections.selectedBlock ? state.selectedBlockId : null,
+          selectedTrack: selections.selectedTrack,
+          selectedBlock: selections.selectedBlock,
+          selectedNotes: null,
+        };
+      });
+    },
   };
 } 
\ No newline at end of file
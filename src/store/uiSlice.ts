@@ -3,18 +3,21 @@ import { AppState } from './store';
 import * as SupabasePersist from './persistStore/supabase/persistProjectSettings';
 
 export type SelectedWindowType = 'midiEditor' | 'timelineView' | 'instrumentsView' |null;
-export type DetailViewModeType = "instrument" | "midi" | "effects";
+export type DetailViewModeType = "instrument" | "midi" | "effects" | "postProcessing";
 
 export interface UIState {
     isInstrumentSidebarVisible: boolean;
     selectedWindow: SelectedWindowType;
     detailViewMode: DetailViewModeType;
+    visibleAutomationLanes: Record<string, string>; // Track ID -> ID of the lane shown under it
 }
 
 export interface UIActions {
     toggleInstrumentSidebar: () => void;
     setSelectedWindow: (window: SelectedWindowType) => void;
     setDetailViewMode: (mode: DetailViewModeType) => void;
+    // Shows a lane under its track (one per track), or hides the track's lane when laneId is null
+    setVisibleAutomationLane: (trackId: string, laneId: string | null) => void;
 }
 
 export type UISlice = UIState & UIActions;
@@ -28,6 +31,7 @@ export const createUISlice: StateCreator<
   isInstrumentSidebarVisible: true,
   selectedWindow: null,
   detailViewMode: "instrument",
+  visibleAutomationLanes: {},
   toggleInstrumentSidebar: () => {
     set((state) => ({ 
       isInstrumentSidebarVisible: !state.isInstrumentSidebarVisible 
@@ -42,4 +46,15 @@ export const createUISlice: StateCreator<
     set({ detailViewMode: mode });
     void SupabasePersist.persistProjectSettings(get);
   },
+  setVisibleAutomationLane: (trackId: string, laneId: string | null) => {
+    set((state) => {
+      const visibleAutomationLanes = { ...state.visibleAutomationLanes };
+      if (laneId) {
+        visibleAutomationLanes[trackId] = laneId;
+      } else {
+        delete visibleAutomationLanes[trackId];
+      }
+      return { visibleAutomationLanes };
+    });
+  },
 }); 
\ No newline at end of file
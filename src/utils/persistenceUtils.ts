@@ -1,11 +1,15 @@
 import { Track, MIDIBlock } from '@/lib/types';
-import { TrackData, MidiBlockData, MidiNoteData, SynthData, EffectData } from '@/Persistence/supabase-service';
+import { TrackData, MidiBlockData, MidiNoteData, SynthData, EffectData, PostEffectData, AppProjectState } from '@/Persistence/persistence-backend';
 import Synthesizer from '@/lib/Synthesizer';
 import Effect from '@/lib/Effect';
+import PostEffect from '@/lib/postprocessing/PostEffect';
 
 import { synthesizerConstructors, effectConstructors, synthIdByConstructor, effectIdByConstructor } from '../store/store';
+import { availablePostEffectsData, createDefaultPostEffects, getPostEffectDefinition } from '../store/postProcessingSlice';
 import BasicSynthesizer from '@/lib/synthesizers/BasicSynthesizer';
 import ScaleEffect from '@/lib/effects/ScaleEffect';
+import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_METRONOME_SETTINGS } from '@/lib/Metronome';
 
 /**
  * Converts a live Track object from the Zustand state into the
@@ -37,6 +41,8 @@ export const trackToTrackData = (track: Track, projectId: string, order: number)
         name: track.name,
         isMuted: track.isMuted,
         isSoloed: track.isSoloed,
+        automation: track.automation ?? [],
+        modulations: track.modulations ?? [],
         order: order, 
     };
 };
@@ -68,8 +74,103 @@ export const midiBlockToData = (block: MIDIBlock, trackId: string): MidiBlockDat
     };
 };
 
+/**
+ * Converts a fully loaded TrackData (with synth, effects, blocks and notes)
+ * back into a live Track object for the Zustand state.
+ *
+ * @param trackData The persisted track data.
+ * @returns A Track with deserialized synthesizer and effect instances.
+ */
+export const hydrateTrack = (trackData: TrackData): Track => {
+    const synthInstance = trackData.synth ? deserializeSynth(trackData.synth) : null;
+    const effectInstances = (trackData.effects || [])
+        .map(effectData => deserializeEffect(effectData))
+        .filter(instance => instance !== null) as Effect[];
+
+    const hydratedMidiBlocks = (trackData.midiBlocks || []).map(blockData => ({
+        id: blockData.id,
+        startBeat: blockData.startBeat,
+        endBeat: blockData.endBeat,
+        notes: (blockData.notes || []).map(noteData => ({
+            id: noteData.id,
+            pitch: noteData.pitch,
+            velocity: noteData.velocity,
+            startBeat: noteData.startBeat,
+            duration: noteData.duration,
+        })),
+        color: 'lightblue',
+        name: '',
+    }));
+
+    return {
+        id: trackData.id,
+        name: trackData.name,
+        midiBlocks: hydratedMidiBlocks,
+        synthesizer: synthInstance!,
+        effects: effectInstances,
+        automation: trackData.automation ?? [],
+        modulations: trackData.modulations ?? [],
+        isMuted: trackData.isMuted,
+        isSoloed: trackData.isSoloed,
+    };
+};
+
 // --- Serialization Helpers ---
 
+/**
+ * Builds the content of a new project: default settings and one track with a
+ * BasicSynthesizer and a four-note block. Mirrors createSupabaseProject;
+ * used by backends that create projects locally.
+ */
+export function createDefaultProjectState(projectId: string): AppProjectState {
+    const trackId = uuidv4();
+    const blockId = uuidv4();
+    const synthData = serializeSynth(new BasicSynthesizer(), trackId);
+    return {
+        projectSettings: {
+            projectId,
+            bpm: 120,
+            tempoChanges: [],
+            timeSignature: { numerator: 4, denominator: 4 },
+            timeSignatureChanges: [],
+            audioOffset: 0,
+            audioTracks: [],
+            audioFile: null,
+            uploadAudio: false,
+            metronome: DEFAULT_METRONOME_SETTINGS,
+            midiCCBindings: [],
+            postEffects: createDefaultPostEffectsData(),
+            postEffectAutomation: [],
+            isPlaying: false,
+            loopEnabled: false,
+            loopStartBeat: null,
+            loopEndBeat: null,
+            numMeasures: 16,
+            isInstrumentSidebarVisible: true,
+            selectedWindow: null,
+        },
+        tracks: [{
+            id: trackId,
+            projectId,
+            name: 'Track 1',
+            isMuted: false,
+            isSoloed: false,
+            automation: [],
+            modulations: [],
+            order: 0,
+            synth: synthData ? { trackId, type: synthData.type, settings: synthData.settings } : null,
+            effects: [],
+            midiBlocks: [{
+                id: blockId,
+                trackId,
+                startBeat: 0,
+                endBeat: 4,
+                notes: [40, 60, 80, 100].map((pitch, i) => ({ id: uuidv4(), startBeat: i, duration: 1, velocity: 80, pitch })),
+            }],
+        }],
+    };
+}
+
 /**
  * Serializes a live Synthesizer instance into SynthData format.
  * @param instance The Synthesizer instance.
@@ -230,6 +331,48 @@ export function deserializeEffect(data: EffectData): Effect | null {
      }
 } 
 
+/**
+ * Serializes a live PostEffect instance into PostEffectData format.
+ * @param instance The PostEffect instance.
+ * @returns A PostEffectData object.
+ */
+export function serializePostEffect(instance: PostEffect): PostEffectData {
+    const settings: Record<string, any> = {};
+    instance.properties.forEach((property, key) => {
+        settings[key] = property.value;
+    });
+    return {
+        id: instance.id,
+        type: getPostEffectDefinition(instance)?.id ?? instance.constructor.name,
+        enabled: instance.enabled,
+        settings,
+    };
+}
+
+// Unknown types are left out rather than replaced, so a missing effect can't change the look of the project
+export function deserializePostEffect(data: PostEffectData): PostEffect | null {
+    const definition = availablePostEffectsData.find(def => def.id === data.type);
+    if (!definition) {
+        console.warn(`No post effect constructor found for type: "${data.type}". The post effect is skipped.`);
+        return null;
+    }
+    try {
+        const instance = new definition.constructor(data.id);
+        applySettings(instance, data.settings);
+        instance.enabled = data.enabled ?? true;
+        return instance;
+    } catch (error) {
+        console.error(`Error deserializing post effect type ${data.type}:`, error);
+        return null;
+    }
+}
+
+export const hydratePostEffects = (postEffects: PostEffectData[]): PostEffect[] =>
+    postEffects.map(deserializePostEffect).filter((postEffect): postEffect is PostEffect => postEffect !== null);
+
+// The default stack as saved data, for projects created outside the store
+export const createDefaultPostEffectsData = (): PostEffectData[] => createDefaultPostEffects().map(serializePostEffect);
+
 // --- Helper to apply settings --- 
 export const applySettings = (instance: any, settings: Record<string, any>) => {
     if (!instance || !settings) return;
@@ -0,0 +1,6 @@
+-- Tempo changes across the timeline (src/lib/TempoMap.ts), saved with the project settings
+-- (see src/Persistence/supabase-service.ts). Projects saved before this keep their single
+-- tempo. Safe to run more than once.
+
+alter table public.project_settings
+    add column if not exists tempo_changes jsonb not null default '[]'::jsonb;
@@ -0,0 +1,8 @@
+-- The project's time signature and its changes across the timeline (src/lib/TimeSignatureMap.ts),
+-- saved with the project settings (see src/Persistence/supabase-service.ts). Projects saved
+-- before this load in 4/4. Safe to run more than once.
+
+alter table public.project_settings
+    add column if not exists time_signature_numerator integer not null default 4,
+    add column if not exists time_signature_denominator integer not null default 4,
+    add column if not exists time_signature_changes jsonb not null default '[]'::jsonb;
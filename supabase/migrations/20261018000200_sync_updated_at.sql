@@ -0,0 +1,26 @@
+-- Conflict detection for offline edits (src/Persistence/sync-manager.ts) compares the
+-- server's updated_at of every row a sync touches. This keeps updated_at current on every
+-- update of the synced tables. Tables without it are not checked. Safe to run more than once.
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+    new.updated_at = now();
+    return new;
+end;
+$$;
+
+do $$
+declare
+    synced_table text;
+begin
+    foreach synced_table in array array['projects', 'project_settings', 'tracks', 'track_synths', 'track_effects', 'midi_blocks', 'midi_notes']
+    loop
+        execute format('alter table public.%I add column if not exists updated_at timestamptz not null default now()', synced_table);
+        execute format('drop trigger if exists set_updated_at on public.%I', synced_table);
+        execute format('create trigger set_updated_at before update on public.%I for each row execute function public.set_updated_at()', synced_table);
+    end loop;
+end;
+$$;
@@ -0,0 +1,5 @@
+-- Per-track automation lanes (src/lib/Automation.ts), saved with each track
+-- (see src/Persistence/supabase-service.ts). Safe to run more than once.
+
+alter table public.tracks
+    add column if not exists automation jsonb not null default '[]'::jsonb;
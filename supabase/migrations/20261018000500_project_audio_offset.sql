@@ -0,0 +1,6 @@
+-- Where on the timeline the project's audio starts, saved with the project settings
+-- (see src/Persistence/supabase-service.ts). Projects saved before this start their audio
+-- at 0. Safe to run more than once.
+
+alter table public.project_settings
+    add column if not exists audio_offset double precision not null default 0;
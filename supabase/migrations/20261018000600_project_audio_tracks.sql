@@ -0,0 +1,5 @@
+-- Audio tracks and their clips, saved with the project settings
+-- (see src/Persistence/supabase-service.ts). Safe to run more than once.
+
+alter table public.project_settings
+    add column if not exists audio_tracks jsonb not null default '[]'::jsonb;
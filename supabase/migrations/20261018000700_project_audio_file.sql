@@ -0,0 +1,33 @@
+-- The project's own audio file (src/Persistence/audio-storage.ts): its metadata is saved
+-- with the project settings (see src/Persistence/supabase-service.ts), and the file itself
+-- stays in the browser. A copy is uploaded to the project-audio bucket only for projects
+-- that opt in with upload_audio. Safe to run more than once.
+
+alter table public.project_settings
+    add column if not exists audio_file jsonb,               -- null: no audio stored for the project
+    add column if not exists upload_audio boolean not null default false;
+
+-- Files live at "<user id>/<project id>/<hash>"; each user can only reach their own folder.
+insert into storage.buckets (id, name, public)
+values ('project-audio', 'project-audio', false)
+on conflict (id) do nothing;
+
+drop policy if exists "project-audio: owners read" on storage.objects;
+create policy "project-audio: owners read" on storage.objects
+    for select to authenticated
+    using (bucket_id = 'project-audio' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "project-audio: owners upload" on storage.objects;
+create policy "project-audio: owners upload" on storage.objects
+    for insert to authenticated
+    with check (bucket_id = 'project-audio' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "project-audio: owners replace" on storage.objects;
+create policy "project-audio: owners replace" on storage.objects
+    for update to authenticated
+    using (bucket_id = 'project-audio' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "project-audio: owners delete" on storage.objects;
+create policy "project-audio: owners delete" on storage.objects
+    for delete to authenticated
+    using (bucket_id = 'project-audio' and (storage.foldername(name))[1] = auth.uid()::text);
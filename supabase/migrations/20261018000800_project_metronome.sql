@@ -0,0 +1,4 @@
+-- Metronome settings (src/lib/Metronome.ts). Safe to run more than once.
+
+alter table public.project_settings
+    add column if not exists metronome jsonb; -- null: the default metronome settings
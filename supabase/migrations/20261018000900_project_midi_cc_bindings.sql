@@ -0,0 +1,5 @@
+-- MIDI controller bindings from MIDI learn (src/lib/MidiMapping.ts), saved with the project
+-- settings. Safe to run more than once.
+
+alter table public.project_settings
+    add column if not exists midi_cc_bindings jsonb not null default '[]'::jsonb;
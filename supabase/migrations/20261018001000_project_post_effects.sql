@@ -0,0 +1,6 @@
+-- The project's post-processing stack and its automation (src/lib/postprocessing), saved
+-- with the project settings. Safe to run more than once.
+
+alter table public.project_settings
+    add column if not exists post_effects jsonb,            -- null: the default stack
+    add column if not exists post_effect_automation jsonb not null default '[]'::jsonb;